@@ -31,7 +31,7 @@ program
   .description('CLI tool to test CrunchyCone storage providers')
   .version('1.0.0')
   .option('-e, --env <file>', 'Path to .env file', '.env')
-  .option('-p, --provider <provider>', 'Storage provider to use (localstorage, aws, gcp, azure, digitalocean, wasabi, backblaze, r2, s3-custom, crunchycone)')
+  .option('-p, --provider <provider>', 'Storage provider to use (localstorage, aws, gcp, azure, digitalocean, wasabi, backblaze, r2, s3-custom, crunchycone, memory)')
   .hook('preAction', (thisCommand) => {
     // Reload with custom .env file if specified
     const envFile = thisCommand.opts().env;
@@ -49,7 +49,7 @@ program
     // Override storage provider if specified via CLI
     const provider = thisCommand.opts().provider;
     if (provider) {
-      const validProviders = ['localstorage', 'aws', 'gcp', 'azure', 'digitalocean', 'wasabi', 'backblaze', 'r2', 's3-custom', 'crunchycone'];
+      const validProviders = ['localstorage', 'aws', 'gcp', 'azure', 'digitalocean', 'wasabi', 'backblaze', 'r2', 's3-custom', 'crunchycone', 'memory'];
       if (!validProviders.includes(provider)) {
         console.error(`❌ Invalid storage provider: ${provider}`);
         console.error(`Valid providers: ${validProviders.join(', ')}`);
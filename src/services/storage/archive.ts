@@ -0,0 +1,339 @@
+import { posix } from 'path';
+import { Readable, Transform, pipeline } from 'stream';
+import { createDeflateRaw } from 'zlib';
+import { StorageProvider, StorageFileInfo } from './types';
+import { DEFAULT_BATCH_CONCURRENCY } from './batch';
+import { findFileByKey, openFileStream } from './copy';
+import { toFolderPrefix } from './folders';
+import { getFileTypeCategory, mapWithConcurrency } from './utils';
+import { StorageInvalidInputError, StorageNotFoundError, StorageQuotaExceededError, toStorageError } from './errors';
+
+export type ArchiveSource = string | {
+  key?: string;                      // File to add by key...
+  externalId?: string;               // ...or by external_id
+  name?: string;                     // Path of the entry inside the archive (default: from the key and layout)
+};
+
+export interface ArchiveOptions {
+  resolveBy?: 'key' | 'externalId';  // How plain string sources are looked up (default: 'key')
+  layout?: 'keys' | 'flat';          // Keep each key's folders, or put every file at the archive root (default: 'keys')
+  folder?: string;                   // Folder every entry is placed under inside the archive
+  onError?: 'fail' | 'skip';         // Missing or unreadable files fail the archive or are left out (default: 'fail')
+  maxTotalSize?: number;             // Cap on the combined size of the files in bytes
+  compression?: 'auto' | 'deflate' | 'store'; // 'auto' stores media and archives that are already compressed (default: 'auto')
+  compressionLevel?: number;         // zlib deflate level 0-9 (default: 6)
+  filename?: string;                 // Download name for the Content-Disposition header (default: 'download.zip')
+  responseType?: 'node' | 'web';     // Type of stream to return (default: 'node')
+  concurrency?: number;              // Lookups in flight at once while resolving sources (default: 10)
+}
+
+export interface ArchiveEntry {
+  name: string;                      // Path inside the archive
+  key: string;
+  external_id?: string;
+  size: number;
+}
+
+export interface ArchiveSkippedFile {
+  source: string;                    // The key or external_id that was asked for
+  key?: string;                      // Set when the file was found but could not be read
+  message: string;
+}
+
+export interface ArchiveStreamResult {
+  stream: Readable | ReadableStream;
+  contentType: 'application/zip';
+  headers: Record<string, string>;   // Content-Type and Content-Disposition for the HTTP response
+  entries: ArchiveEntry[];           // Files the archive will contain, in order
+  skipped: ArchiveSkippedFile[];     // Files left out with onError 'skip'; grows while streaming if a file can't be opened
+  totalSize: number;                 // Combined size of the entries before compression
+}
+
+// ZIP without the ZIP64 extensions: 16-bit entry counts and 32-bit sizes and offsets
+const MAX_ENTRIES = 0xFFFF;
+const MAX_ZIP_SIZE = 0xFFFFFFFF;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+// Bit 3: sizes and CRC follow the data in a descriptor; bit 11: names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const VERSION = 20;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Stream a ZIP of many stored files. Files are looked up before the stream is returned, so missing files
+ * and the size cap are reported before any bytes are sent; content is then read one file at a time and
+ * never buffered whole. A file that fails halfway through can't be dropped from the ZIP, so it always
+ * errors the stream, whatever the onError policy.
+ */
+export async function createProviderArchiveStream(
+  provider: StorageProvider,
+  sources: ArchiveSource[],
+  options: ArchiveOptions = {},
+): Promise<ArchiveStreamResult> {
+  const resolved = await mapWithConcurrency(sources, options.concurrency || DEFAULT_BATCH_CONCURRENCY, async source => {
+    try {
+      return await resolveSource(provider, source, options);
+    } catch (error) {
+      if (options.onError !== 'skip') {
+        throw error;
+      }
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  });
+
+  const skipped: ArchiveSkippedFile[] = [];
+  const names = new Set<string>();
+  const files: ArchiveFile[] = [];
+  resolved.forEach((file, index) => {
+    const source = sources[index];
+    if (file instanceof Error) {
+      skipped.push({ source: describeSource(source), message: file.message });
+      return;
+    }
+    const name = uniqueName(names, entryName(file.key, typeof source === 'string' ? undefined : source.name, options));
+    files.push({ source: describeSource(source), entry: { name, key: file.key, external_id: file.external_id, size: file.size }, file });
+  });
+
+  const totalSize = files.reduce((sum, { file }) => sum + file.size, 0);
+  if (options.maxTotalSize !== undefined && totalSize > options.maxTotalSize) {
+    throw new StorageQuotaExceededError(`Archive of ${totalSize} bytes exceeds the ${options.maxTotalSize} byte limit`);
+  }
+  if (files.length > MAX_ENTRIES || totalSize >= MAX_ZIP_SIZE) {
+    throw new StorageInvalidInputError(`Archive of ${files.length} files and ${totalSize} bytes exceeds the ZIP limits of ${MAX_ENTRIES} files and 4 GiB`);
+  }
+
+  const nodeStream = Readable.from(writeArchive(provider, files, options, skipped));
+  return {
+    stream: options.responseType === 'web' ? Readable.toWeb(nodeStream) as ReadableStream : nodeStream,
+    contentType: 'application/zip',
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': contentDisposition(options.filename || 'download.zip'),
+    },
+    entries: files.map(({ entry }) => entry),
+    skipped,
+    totalSize,
+  };
+}
+
+async function resolveSource(provider: StorageProvider, source: ArchiveSource, options: ArchiveOptions): Promise<StorageFileInfo> {
+  const { key, externalId } = typeof source === 'string'
+    ? options.resolveBy === 'externalId' ? { key: undefined, externalId: source } : { key: source, externalId: undefined }
+    : source;
+
+  if (key !== undefined) {
+    const file = await findFileByKey(provider, key);
+    if (!file) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    return file;
+  }
+  if (externalId !== undefined) {
+    const file = await provider.findFileByExternalId(externalId);
+    if (!file) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return file;
+  }
+  throw new StorageInvalidInputError('Archive sources need a key or an externalId');
+}
+
+function describeSource(source: ArchiveSource): string {
+  return typeof source === 'string' ? source : source.key ?? source.externalId ?? '';
+}
+
+// Entry names are relative paths: no leading slash, no '.' or '..' segments, forward slashes only
+function entryName(key: string, name: string | undefined, options: ArchiveOptions): string {
+  const path = name ?? (options.layout === 'flat' ? posix.basename(key) : key);
+  const segments = path.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.' && segment !== '..');
+  return `${toFolderPrefix(options.folder || '')}${segments.join('/') || 'file'}`;
+}
+
+// Two files with the same entry name would shadow each other on extraction: "a.txt", "a (1).txt", ...
+function uniqueName(names: Set<string>, name: string): string {
+  const { dir, name: base, ext } = posix.parse(name);
+  let candidate = name;
+  for (let n = 1; names.has(candidate); n++) {
+    candidate = posix.join(dir, `${base} (${n})${ext}`);
+  }
+  names.add(candidate);
+  return candidate;
+}
+
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7E]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+async function* writeArchive(
+  provider: StorageProvider,
+  files: ArchiveFile[],
+  options: ArchiveOptions,
+  skipped: ArchiveSkippedFile[],
+): AsyncGenerator<Buffer> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+  let bytesRead = 0;
+
+  for (const { source: requested, entry, file } of files) {
+    let source: Readable;
+    try {
+      source = await openFileStream(provider, entry.key);
+    } catch (error) {
+      if (options.onError !== 'skip') {
+        throw toStorageError(error, `Failed to read ${entry.key} for archive`);
+      }
+      skipped.push({ source: requested, key: entry.key, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const method = useDeflate(file, options) ? METHOD_DEFLATE : METHOD_STORE;
+    const { time, date } = toDosDateTime(file.lastModified);
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = { method, time, date, name, crc: 0, compressedSize: 0, size: 0, offset };
+
+    // CRC and size are taken from the uncompressed bytes on their way to the deflater
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesRead += chunk.length;
+        if (options.maxTotalSize !== undefined && bytesRead > options.maxTotalSize) {
+          callback(new StorageQuotaExceededError(`Archive exceeds the ${options.maxTotalSize} byte limit`));
+          return;
+        }
+        header.crc = crc32(chunk, header.crc);
+        header.size += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    const output: Readable = method === METHOD_DEFLATE
+      ? pipeline(source, counter, createDeflateRaw({ level: options.compressionLevel ?? 6 }), () => {})
+      : pipeline(source, counter, () => {});
+
+    try {
+      const localHeader = localFileHeader(header);
+      offset += localHeader.length;
+      yield localHeader;
+
+      for await (const chunk of output) {
+        header.compressedSize += chunk.length;
+        yield chunk;
+      }
+    } finally {
+      // Also releases the file when the consumer stops reading early
+      output.destroy();
+    }
+    offset += header.compressedSize;
+
+    const descriptor = dataDescriptor(header);
+    offset += descriptor.length;
+    if (offset >= MAX_ZIP_SIZE) {
+      throw new StorageInvalidInputError('Archive exceeds the 4 GiB ZIP limit');
+    }
+    yield descriptor;
+    centralDirectory.push(centralDirectoryHeader(header));
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  yield directory;
+  yield endOfCentralDirectory(centralDirectory.length, directory.length, offset);
+}
+
+function useDeflate(file: StorageFileInfo, options: ArchiveOptions): boolean {
+  if (options.compression !== undefined && options.compression !== 'auto') {
+    return options.compression === 'deflate';
+  }
+  return !['image', 'video', 'audio', 'archive'].includes(getFileTypeCategory(file.contentType || ''))
+    || file.contentType === 'image/svg+xml';
+}
+
+interface ArchiveFile {
+  source: string;
+  entry: ArchiveEntry;
+  file: StorageFileInfo;
+}
+
+interface EntryHeader {
+  method: number;
+  time: number;
+  date: number;
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+function localFileHeader(header: EntryHeader): Buffer {
+  const buffer = Buffer.alloc(30);
+  buffer.writeUInt32LE(0x04034b50, 0);
+  buffer.writeUInt16LE(VERSION, 4);
+  buffer.writeUInt16LE(FLAGS, 6);
+  buffer.writeUInt16LE(header.method, 8);
+  buffer.writeUInt16LE(header.time, 10);
+  buffer.writeUInt16LE(header.date, 12);
+  // CRC and sizes (14-25) stay zero until the data descriptor
+  buffer.writeUInt16LE(header.name.length, 26);
+  return Buffer.concat([buffer, header.name]);
+}
+
+function dataDescriptor(header: EntryHeader): Buffer {
+  const buffer = Buffer.alloc(16);
+  buffer.writeUInt32LE(0x08074b50, 0);
+  buffer.writeUInt32LE(header.crc, 4);
+  buffer.writeUInt32LE(header.compressedSize, 8);
+  buffer.writeUInt32LE(header.size, 12);
+  return buffer;
+}
+
+function centralDirectoryHeader(header: EntryHeader): Buffer {
+  const buffer = Buffer.alloc(46);
+  buffer.writeUInt32LE(0x02014b50, 0);
+  buffer.writeUInt16LE(VERSION, 4);
+  buffer.writeUInt16LE(VERSION, 6);
+  buffer.writeUInt16LE(FLAGS, 8);
+  buffer.writeUInt16LE(header.method, 10);
+  buffer.writeUInt16LE(header.time, 12);
+  buffer.writeUInt16LE(header.date, 14);
+  buffer.writeUInt32LE(header.crc, 16);
+  buffer.writeUInt32LE(header.compressedSize, 20);
+  buffer.writeUInt32LE(header.size, 24);
+  buffer.writeUInt16LE(header.name.length, 28);
+  // Extra field, comment, disk number and attributes (30-41) are all zero
+  buffer.writeUInt32LE(header.offset, 42);
+  return Buffer.concat([buffer, header.name]);
+}
+
+function endOfCentralDirectory(entryCount: number, directorySize: number, directoryOffset: number): Buffer {
+  const buffer = Buffer.alloc(22);
+  buffer.writeUInt32LE(0x06054b50, 0);
+  buffer.writeUInt16LE(entryCount, 8);
+  buffer.writeUInt16LE(entryCount, 10);
+  buffer.writeUInt32LE(directorySize, 12);
+  buffer.writeUInt32LE(directoryOffset, 16);
+  return buffer;
+}
+
+// MS-DOS timestamps: local time at two-second resolution, starting in 1980
+function toDosDateTime(value: Date | undefined): { time: number; date: number } {
+  const date = value && value.getFullYear() >= 1980 ? value : new Date(1980, 0, 1);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function crc32(chunk: Buffer, crc: number): number {
+  let c = ~crc;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
@@ -0,0 +1,75 @@
+import { StorageProvider, FileDeleteResult } from './types';
+import { listAllFiles, mapWithConcurrency } from './utils';
+
+export interface BatchDeleteOptions {
+  concurrency?: number; // Deletes in flight at once for providers without a native batch delete (default: 10)
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 10;
+
+/**
+ * Delete many files by key, with one result per key in the same order.
+ * Uses the provider's native batch delete when it has one, otherwise deletes files one by one
+ * with bounded concurrency. A failed delete is reported in its result rather than thrown.
+ */
+export async function batchDeleteFiles(
+  provider: StorageProvider,
+  keys: string[],
+  options: BatchDeleteOptions = {},
+): Promise<FileDeleteResult[]> {
+  if (keys.length === 0) {
+    return [];
+  }
+  if (provider.deleteFiles) {
+    return provider.deleteFiles(keys);
+  }
+
+  return mapWithConcurrency(keys, options.concurrency || DEFAULT_BATCH_CONCURRENCY, async key => {
+    try {
+      await provider.deleteFile(key);
+      return { key, success: true };
+    } catch (error) {
+      return { key, success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
+
+/**
+ * Delete many files by external_id. Ids that match no file get a failed result with an empty key.
+ */
+export async function batchDeleteFilesByExternalIds(
+  provider: StorageProvider,
+  externalIds: string[],
+  options: BatchDeleteOptions = {},
+): Promise<FileDeleteResult[]> {
+  const files = await mapWithConcurrency(externalIds, options.concurrency || DEFAULT_BATCH_CONCURRENCY, externalId =>
+    provider.findFileByExternalId(externalId));
+
+  const keys = files.filter(file => file !== null).map(file => file!.key);
+  const deleted = new Map((await batchDeleteFiles(provider, keys, options)).map(result => [result.key, result]));
+
+  return externalIds.map((external_id, index) => {
+    const file = files[index];
+    if (!file) {
+      return { key: '', external_id, success: false, message: `File with external_id ${external_id} not found` };
+    }
+    return { ...(deleted.get(file.key) as FileDeleteResult), external_id };
+  });
+}
+
+/**
+ * Delete every file whose key starts with the prefix. An empty prefix is rejected
+ * so a missing argument can't empty the whole bucket.
+ */
+export async function batchDeleteByPrefix(
+  provider: StorageProvider,
+  prefix: string,
+  options: BatchDeleteOptions = {},
+): Promise<FileDeleteResult[]> {
+  if (!prefix) {
+    throw new Error('deleteByPrefix requires a non-empty prefix');
+  }
+
+  const keys = (await listAllFiles(provider, { prefix })).map(file => file.key);
+  return batchDeleteFiles(provider, keys, options);
+}
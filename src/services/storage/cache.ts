@@ -0,0 +1,358 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  StorageFileInfo,
+  StorageUploadResult,
+  FileStreamOptions,
+  FileStreamResult,
+} from './types';
+import { findFileByKey } from './copy';
+import { StorageMiddleware } from './middleware';
+import { resolveByteRange } from './utils';
+
+export interface StorageCacheOptions {
+  directory?: string;          // Where cached files are kept (default: <os tmpdir>/crunchycone-storage-cache)
+  maxSize?: number;            // Total bytes to keep before evicting the least recently used files (default: 512MB)
+  maxFileSize?: number;        // Larger files are always streamed from the provider (default: maxSize / 4)
+  revalidateAfterMs?: number;  // Serve without checking the provider this long after the last check (default: 0, always check)
+}
+
+export interface StorageCacheStats {
+  entries: number;
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  key: string;
+  external_id: string;
+  size: number;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;       // ISO timestamp, so entries survive the JSON index file
+  cachedAt: string;
+  validatedAt: number;
+}
+
+export const DEFAULT_CACHE_MAX_SIZE = 512 * 1024 * 1024;
+
+/**
+ * Read-through cache that keeps recently read files on local disk, in front of a remote provider.
+ * Cached copies are checked against the provider's etag (or lastModified and size) before they're served,
+ * and dropped when the file is changed through the cache middleware.
+ *
+ * @example
+ * ```typescript
+ * const cache = new StorageCache({ maxSize: 2 * 1024 ** 3 });
+ * setStorageProvider(applyStorageMiddleware(new GCPStorageProvider(config), [cache.middleware()]));
+ * ```
+ */
+export class StorageCache {
+  private readonly directory: string;
+  private readonly maxSize: number;
+  private readonly maxFileSize: number;
+  private readonly revalidateAfterMs: number;
+  // Map order is the LRU order: the first entry is evicted first
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<CacheEntry | null>>();
+  private loaded: Promise<void> | null = null;
+  private totalSize = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: StorageCacheOptions = {}) {
+    this.directory = options.directory || join(tmpdir(), 'crunchycone-storage-cache');
+    this.maxSize = options.maxSize ?? DEFAULT_CACHE_MAX_SIZE;
+    this.maxFileSize = options.maxFileSize ?? Math.floor(this.maxSize / 4);
+    this.revalidateAfterMs = options.revalidateAfterMs ?? 0;
+  }
+
+  async getStats(): Promise<StorageCacheStats> {
+    await this.load();
+    return { entries: this.entries.size, size: this.totalSize, hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Drop the cached copy of a file
+   */
+  async invalidate(key: string): Promise<void> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (entry) {
+      await this.remove(entry);
+    }
+  }
+
+  async invalidateByExternalId(externalId: string): Promise<void> {
+    await this.load();
+    for (const entry of [...this.entries.values()]) {
+      if (entry.external_id === externalId) {
+        await this.remove(entry);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    for (const entry of [...this.entries.values()]) {
+      await this.remove(entry);
+    }
+  }
+
+  /**
+   * Middleware that serves getFileStream from the cache and invalidates files changed through it
+   */
+  middleware(): StorageMiddleware {
+    return async (context, next) => {
+      const { method, args, provider } = context;
+
+      switch (method) {
+        case 'getFileStream':
+        case 'getFileStreamByExternalId': {
+          const findFile = method === 'getFileStream'
+            ? () => findFileByKey(provider, args[0])
+            : () => provider.findFileByExternalId(args[0]);
+          // Files are cached whole; reads that bypass the cache keep the caller's options
+          const fetch = (whole: boolean) => {
+            context.args = whole ? [args[0], { ...args[1], start: undefined, end: undefined, responseType: 'node' }] : args;
+            return next();
+          };
+          return this.read(args[0], method === 'getFileStreamByExternalId', args[1], findFile, fetch);
+        }
+
+        case 'uploadFile':
+        case 'completeMultipartUpload':
+        case 'copyFile':
+        case 'copyFileByExternalId': {
+          const result: StorageUploadResult = await next();
+          await this.invalidate(result.key);
+          return result;
+        }
+
+        case 'moveFile':
+        case 'moveFileByExternalId': {
+          const result: StorageUploadResult = await next();
+          await (method === 'moveFile' ? this.invalidate(args[0]) : this.invalidateByExternalId(args[0]));
+          await this.invalidate(result.key);
+          return result;
+        }
+
+        case 'deleteFile':
+        case 'setFileVisibility':
+        case 'updateFileMetadata':
+          await this.invalidate(args[0]);
+          return next();
+
+        case 'deleteFileByExternalId':
+        case 'setFileVisibilityByExternalId':
+        case 'updateFileMetadataByExternalId':
+          await this.invalidateByExternalId(args[0]);
+          return next();
+
+        case 'setMultipleFileVisibility':
+        case 'deleteFiles':
+          for (const key of args[0]) {
+            await this.invalidate(key);
+          }
+          return next();
+
+        default:
+          return next();
+      }
+    };
+  }
+
+  private async read(
+    id: string,
+    byExternalId: boolean,
+    options: FileStreamOptions = {},
+    findFile: () => Promise<StorageFileInfo | null>,
+    fetch: (whole: boolean) => Promise<FileStreamResult>,
+  ): Promise<FileStreamResult> {
+    await this.load();
+
+    const cached = byExternalId
+      ? [...this.entries.values()].find(entry => entry.external_id === id)
+      : this.entries.get(id);
+    const fresh = cached && Date.now() - cached.validatedAt < this.revalidateAfterMs;
+    const fileInfo = fresh ? null : await findFile();
+    if (!fresh && !fileInfo) {
+      // Let the provider report the missing file
+      return fetch(false);
+    }
+
+    const key = fileInfo ? fileInfo.key : (cached as CacheEntry).key;
+    let entry = this.entries.get(key);
+    if (entry && fileInfo && !isSameVersion(entry, fileInfo)) {
+      await this.remove(entry);
+      entry = undefined;
+    }
+
+    if (entry) {
+      entry.validatedAt = fresh ? entry.validatedAt : Date.now();
+      const result = await this.serve(entry, options);
+      if (result) {
+        this.hits++;
+        return result;
+      }
+    }
+
+    this.misses++;
+    const info = fileInfo || await findFile();
+    if (!info || info.size > this.maxFileSize) {
+      return fetch(false);
+    }
+
+    let download = this.pending.get(key);
+    if (!download) {
+      download = this.download(info, fetch).finally(() => this.pending.delete(key));
+      this.pending.set(key, download);
+    }
+
+    const downloaded = await download;
+    const result = downloaded && await this.serve(downloaded, options);
+    return result || fetch(false);
+  }
+
+  private async download(fileInfo: StorageFileInfo, fetch: (whole: boolean) => Promise<FileStreamResult>): Promise<CacheEntry | null> {
+    const name = cacheFileName(fileInfo.key);
+    const temporaryPath = join(this.directory, `${name}.${randomBytes(6).toString('hex')}.tmp`);
+    const result = await fetch(true);
+
+    try {
+      const source = result.stream instanceof ReadableStream
+        ? Readable.fromWeb(result.stream as any)
+        : result.stream as Readable;
+      await pipeline(source, (await fs.open(temporaryPath, 'w')).createWriteStream());
+
+      const { size } = await fs.stat(temporaryPath);
+      const entry: CacheEntry = {
+        key: fileInfo.key,
+        external_id: fileInfo.external_id,
+        size,
+        contentType: result.contentType || fileInfo.contentType,
+        etag: fileInfo.etag,
+        lastModified: fileInfo.lastModified?.toISOString(),
+        cachedAt: new Date().toISOString(),
+        validatedAt: Date.now(),
+      };
+
+      await fs.rename(temporaryPath, join(this.directory, `${name}.bin`));
+      await fs.writeFile(join(this.directory, `${name}.json`), JSON.stringify(entry));
+      await this.add(entry);
+      return entry;
+    } catch (error) {
+      // A failed write only costs the cache entry; the caller falls back to the provider
+      console.warn(`[Storage] Could not cache ${fileInfo.key}:`, error instanceof Error ? error.message : error);
+      await fs.rm(temporaryPath, { force: true });
+      return null;
+    } finally {
+      await result.cleanup?.();
+    }
+  }
+
+  private async serve(entry: CacheEntry, options: FileStreamOptions): Promise<FileStreamResult | null> {
+    const { start, end, responseType = 'node' } = options;
+    const range = resolveByteRange(entry.size, start, end);
+
+    let handle: fs.FileHandle;
+    try {
+      // Open before returning so eviction by another read can't pull the file away mid-stream
+      handle = await fs.open(join(this.directory, `${cacheFileName(entry.key)}.bin`), 'r');
+    } catch {
+      await this.remove(entry);
+      return null;
+    }
+
+    // Most recently used goes to the back
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    const nodeStream = handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+    return {
+      stream: responseType === 'web' ? Readable.toWeb(nodeStream) as ReadableStream : nodeStream,
+      contentType: entry.contentType,
+      contentLength: range ? range.end - range.start + 1 : entry.size,
+      lastModified: entry.lastModified ? new Date(entry.lastModified) : undefined,
+      etag: entry.etag,
+      acceptsRanges: true,
+      isPartialContent: !!range,
+      range: range ? { ...range, total: entry.size } : undefined,
+      streamType: responseType,
+      providerSpecific: { cache: 'hit' },
+      cleanup: async () => {
+        nodeStream.destroy();
+      },
+    };
+  }
+
+  private async add(entry: CacheEntry): Promise<void> {
+    const existing = this.entries.get(entry.key);
+    if (existing) {
+      this.totalSize -= existing.size;
+      this.entries.delete(entry.key);
+    }
+    this.entries.set(entry.key, entry);
+    this.totalSize += entry.size;
+
+    for (const oldest of this.entries.values()) {
+      if (this.totalSize <= this.maxSize || oldest === entry) {
+        break;
+      }
+      await this.remove(oldest);
+    }
+  }
+
+  private async remove(entry: CacheEntry): Promise<void> {
+    if (this.entries.get(entry.key) === entry) {
+      this.entries.delete(entry.key);
+      this.totalSize -= entry.size;
+    }
+    const name = cacheFileName(entry.key);
+    await fs.rm(join(this.directory, `${name}.bin`), { force: true });
+    await fs.rm(join(this.directory, `${name}.json`), { force: true });
+  }
+
+  // Pick up files cached by earlier runs, oldest first
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.mkdir(this.directory, { recursive: true });
+        const entries: CacheEntry[] = [];
+        for (const file of await fs.readdir(this.directory)) {
+          if (!file.endsWith('.json')) {
+            continue;
+          }
+          try {
+            entries.push(JSON.parse(await fs.readFile(join(this.directory, file), 'utf-8')));
+          } catch {
+            // Half-written index file; the entry is simply not reused
+          }
+        }
+        entries.sort((a, b) => a.cachedAt.localeCompare(b.cachedAt));
+        for (const entry of entries) {
+          await this.add({ ...entry, validatedAt: 0 });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+function cacheFileName(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function isSameVersion(entry: CacheEntry, fileInfo: StorageFileInfo): boolean {
+  if (entry.etag && fileInfo.etag) {
+    return entry.etag === fileInfo.etag;
+  }
+  return entry.size === fileInfo.size
+    && !!entry.lastModified && !!fileInfo.lastModified
+    && entry.lastModified === fileInfo.lastModified.toISOString();
+}
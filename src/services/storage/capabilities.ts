@@ -0,0 +1,142 @@
+import { StorageProvider, StorageProviderType, StorageCapabilities } from './types';
+
+const TiB = 1024 ** 4;
+
+const S3_CAPABILITIES: StorageCapabilities = {
+  streaming: true,
+  rangeRequests: true,
+  multipartUpload: true,
+  presignedUploads: true,
+  serverSideCopy: true,
+  visibility: true,
+  temporaryUrls: true,
+  versioning: true,
+  tagging: true,
+  storageClasses: true,
+  batchDelete: true,
+  searchPushdown: false,
+  maxObjectSize: 5 * TiB,
+};
+
+// Feature matrix for every provider type initializeStorageProvider can create
+const PROVIDER_CAPABILITIES: Record<StorageProviderType, StorageCapabilities> = {
+  aws: S3_CAPABILITIES,
+  s3: S3_CAPABILITIES,
+  // Spaces has per-object ACLs but no object tagging or storage classes
+  digitalocean: { ...S3_CAPABILITIES, tagging: false, storageClasses: false },
+  wasabi: { ...S3_CAPABILITIES, storageClasses: false },
+  // B2 only has bucket-level ACLs and no object tagging
+  backblaze: { ...S3_CAPABILITIES, visibility: false, tagging: false, storageClasses: false, maxObjectSize: 10 * 1000 ** 4 },
+  // R2 ignores object ACLs and has no versioning or object tagging
+  r2: { ...S3_CAPABILITIES, visibility: false, versioning: false, tagging: false },
+  // Unknown S3-compatible servers: only claim what the core S3 API guarantees
+  's3-custom': { ...S3_CAPABILITIES, versioning: false, tagging: false, storageClasses: false, maxObjectSize: undefined },
+  gcp: {
+    streaming: true,
+    rangeRequests: true,
+    multipartUpload: true,
+    presignedUploads: true,
+    serverSideCopy: true,
+    visibility: true,
+    temporaryUrls: true,
+    versioning: true,
+    tagging: false,
+    storageClasses: true,
+    batchDelete: false,
+    searchPushdown: false,
+    maxObjectSize: 5 * TiB,
+  },
+  azure: {
+    streaming: true,
+    rangeRequests: true,
+    multipartUpload: true,
+    presignedUploads: true,
+    serverSideCopy: true,
+    visibility: true,
+    temporaryUrls: true,
+    versioning: true,
+    tagging: true,
+    storageClasses: true,
+    batchDelete: true,
+    searchPushdown: false,
+    maxObjectSize: 50000 * 4000 * 1024 ** 2, // 50,000 blocks of 4000 MiB
+  },
+  crunchycone: {
+    streaming: true,
+    rangeRequests: true,
+    multipartUpload: false,
+    presignedUploads: true,
+    serverSideCopy: false,
+    visibility: true,
+    temporaryUrls: true,
+    versioning: false,
+    tagging: false,
+    storageClasses: false,
+    batchDelete: false,
+    searchPushdown: true,
+  },
+  localstorage: {
+    streaming: true,
+    rangeRequests: true,
+    multipartUpload: true,
+    presignedUploads: true,
+    serverSideCopy: true,
+    visibility: true,
+    temporaryUrls: false,
+    versioning: false,
+    tagging: true,
+    storageClasses: true,
+    batchDelete: false,
+    searchPushdown: false,
+  },
+  memory: {
+    streaming: true,
+    rangeRequests: true,
+    multipartUpload: false,
+    presignedUploads: false,
+    serverSideCopy: true,
+    visibility: true,
+    temporaryUrls: true,
+    versioning: false,
+    tagging: true,
+    storageClasses: true,
+    batchDelete: false,
+    searchPushdown: false,
+  },
+};
+
+/**
+ * Capabilities of a provider type, without creating or configuring the provider
+ */
+export function getStorageProviderCapabilities(providerType: StorageProviderType): StorageCapabilities {
+  const capabilities = PROVIDER_CAPABILITIES[providerType];
+  if (!capabilities) {
+    throw new Error(`Unknown storage provider type: ${providerType}`);
+  }
+  return { ...capabilities };
+}
+
+/**
+ * Capabilities of a provider instance. Providers without getCapabilities are described by the
+ * optional methods they implement; features that can't be detected that way are reported as unsupported.
+ */
+export function getProviderCapabilities(provider: StorageProvider): StorageCapabilities {
+  if (provider.getCapabilities) {
+    return provider.getCapabilities();
+  }
+
+  return {
+    streaming: !!provider.getFileStream,
+    rangeRequests: false,
+    multipartUpload: !!(provider.initiateMultipartUpload && provider.uploadPart && provider.completeMultipartUpload),
+    presignedUploads: !!provider.getUploadUrl,
+    serverSideCopy: !!provider.copyFile,
+    visibility: false,
+    temporaryUrls: false,
+    versioning: false,
+    tagging: !!(provider.getFileTags && provider.setFileTags),
+    storageClasses: !!provider.setStorageClass,
+    batchDelete: !!provider.deleteFiles,
+    searchPushdown: false,
+  };
+}
@@ -0,0 +1,62 @@
+import {
+  StorageProvider,
+  StorageFileInfo,
+  VerifyFileOptions,
+  ChecksumVerificationResult,
+} from './types';
+import { findFileByKey, openFileStream } from './copy';
+import { calculateStreamChecksum, StorageError } from './utils';
+import { StorageNotFoundError } from './errors';
+
+/**
+ * Re-hash a stored file and compare it with the checksum stored at upload time (or `options.expected`)
+ */
+export async function verifyFileChecksum(
+  provider: StorageProvider,
+  key: string,
+  options: VerifyFileOptions = {},
+): Promise<ChecksumVerificationResult> {
+  const fileInfo = options.expected ? null : await findFileByKey(provider, key);
+  if (!options.expected && !fileInfo) {
+    throw new StorageNotFoundError(`File with key ${key} not found`);
+  }
+  return verifyAgainst(provider, key, fileInfo, options);
+}
+
+export async function verifyFileChecksumByExternalId(
+  provider: StorageProvider,
+  externalId: string,
+  options: VerifyFileOptions = {},
+): Promise<ChecksumVerificationResult> {
+  const fileInfo = await provider.findFileByExternalId(externalId);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+  }
+  return verifyAgainst(provider, fileInfo.key, fileInfo, options);
+}
+
+async function verifyAgainst(
+  provider: StorageProvider,
+  key: string,
+  fileInfo: StorageFileInfo | null,
+  options: VerifyFileOptions,
+): Promise<ChecksumVerificationResult> {
+  const expected = options.expected || fileInfo?.checksum;
+  if (!expected) {
+    throw new StorageError(
+      `File with key ${key} has no stored checksum; upload it with checksumAlgorithm or pass an expected checksum`,
+      'CHECKSUM_MISSING',
+      400,
+    );
+  }
+
+  const actual = await calculateStreamChecksum(await openFileStream(provider, key), expected.algorithm);
+
+  return {
+    key,
+    valid: actual.value === expected.value,
+    algorithm: expected.algorithm,
+    expected: expected.value,
+    actual: actual.value,
+  };
+}
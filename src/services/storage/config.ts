@@ -1,4 +1,4 @@
-import { setStorageProvider } from './storage';
+import { setStorageProvider, enableTrash } from './storage';
 import { LocalStorageProvider } from './providers/localstorage';
 import { S3CompatibleProvider } from './providers/s3-compatible';
 import { AWSS3Provider } from './providers/aws-s3';
@@ -7,6 +7,7 @@ import { WasabiProvider } from './providers/wasabi';
 import { BackblazeB2Provider } from './providers/backblaze';
 import { CloudflareR2Provider } from './providers/r2';
 import { CrunchyConeProvider } from './providers/crunchycone';
+import { MemoryStorageProvider } from './providers/memory';
 import { StorageProviderType } from './types';
 
 export function initializeStorageProvider(): void {
@@ -53,6 +54,10 @@ export function initializeStorageProvider(): void {
       setStorageProvider(createCrunchyConeProvider());
       break;
 
+    case 'memory':
+      setStorageProvider(new MemoryStorageProvider());
+      break;
+
     default:
       console.warn(`Unknown storage provider: ${provider}. Falling back to localstorage.`);
       // Set default environment variables if not provided
@@ -65,6 +70,12 @@ export function initializeStorageProvider(): void {
       setStorageProvider(new LocalStorageProvider());
       break;
   }
+
+  // Soft delete is opt-in: deleted files are kept in the trash for this many days
+  const trashRetentionDays = process.env.CRUNCHYCONE_STORAGE_TRASH_RETENTION_DAYS;
+  if (trashRetentionDays) {
+    enableTrash({ retentionDays: parseInt(trashRetentionDays, 10) });
+  }
 }
 
 function createAWSS3Provider(): AWSS3Provider {
@@ -0,0 +1,126 @@
+import { Readable } from 'stream';
+import {
+  StorageProvider,
+  StorageFileInfo,
+  StorageUploadResult,
+  CopyFileOptions,
+} from './types';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError } from './errors';
+import { iterateAllFiles } from './utils';
+
+export interface CrossProviderCopyOptions extends CopyFileOptions {
+  source: StorageProvider;
+  destination: StorageProvider;
+  sourceKey: string;
+  destinationKey?: string; // Key in the destination provider (default: sourceKey)
+}
+
+/**
+ * Copy a file to another provider (or another key in the same one).
+ * Uses the provider's server-side copy when source and destination are the same provider,
+ * otherwise streams the content from the source and uploads it to the destination.
+ */
+export async function copyFileBetweenProviders(options: CrossProviderCopyOptions): Promise<StorageUploadResult> {
+  const { source, destination, sourceKey, destinationKey = sourceKey, ...copyOptions } = options;
+
+  if (source === destination) {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+    if (source.copyFile) {
+      return source.copyFile(sourceKey, destinationKey, copyOptions);
+    }
+  }
+
+  const fileInfo = await findFileByKey(source, sourceKey);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+  }
+
+  if (!copyOptions.overwrite && await destination.fileExists(destinationKey)) {
+    throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+  }
+
+  let isPublic = copyOptions.public;
+  if (isPublic === undefined) {
+    try {
+      const visibilityStatus = await source.getFileVisibility(sourceKey);
+      isPublic = visibilityStatus.visibility === 'public';
+    } catch {
+      // If visibility check fails, default to private
+      isPublic = false;
+    }
+  }
+
+  // Some providers list external_id alongside the custom metadata
+  const { external_id: _externalId, 'external-id': _legacyExternalId, ...sourceMetadata } = fileInfo.metadata || {};
+  const stream = await openFileStream(source, sourceKey);
+
+  return destination.uploadFile({
+    stream,
+    external_id: copyOptions.external_id || fileInfo.external_id,
+    key: destinationKey,
+    filename: destinationKey.split('/').pop(),
+    contentType: copyOptions.contentType || fileInfo.contentType,
+    size: fileInfo.size,
+    public: isPublic,
+    metadata: copyOptions.replaceMetadata ? copyOptions.metadata : { ...sourceMetadata, ...copyOptions.metadata },
+  });
+}
+
+/**
+ * Move a file to another provider (or another key in the same one).
+ * The source is only deleted once the copy has succeeded.
+ */
+export async function moveFileBetweenProviders(options: CrossProviderCopyOptions): Promise<StorageUploadResult> {
+  const { source, destination, sourceKey, destinationKey = sourceKey, ...copyOptions } = options;
+
+  if (source === destination) {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+    if (source.moveFile) {
+      return source.moveFile(sourceKey, destinationKey, copyOptions);
+    }
+  }
+
+  const result = await copyFileBetweenProviders(options);
+  await source.deleteFile(sourceKey);
+  return result;
+}
+
+/**
+ * Look up a file by its exact key, with a single-object lookup when the provider has one and its listing otherwise
+ */
+export async function findFileByKey(provider: StorageProvider, key: string): Promise<StorageFileInfo | null> {
+  if (provider.getFileInfo) {
+    return provider.getFileInfo(key);
+  }
+  // Keys sharing the prefix (e.g. "a.txt" and "a.txt.bak") may push the exact match to a later page
+  for await (const file of iterateAllFiles(provider, { prefix: key, includeMetadata: true })) {
+    if (file.key === key) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Open a Node.js stream over a file's content, falling back to its URL for providers without streaming
+ */
+export async function openFileStream(provider: StorageProvider, key: string): Promise<Readable> {
+  if (provider.getFileStream) {
+    const streamResult = await provider.getFileStream(key, { responseType: 'node' });
+    return streamResult.stream instanceof ReadableStream
+      ? Readable.fromWeb(streamResult.stream as any)
+      : streamResult.stream as Readable;
+  }
+
+  // Fallback to HTTP fetch for providers without direct stream access
+  const url = await provider.getFileUrl(key);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+  }
+  return Readable.fromWeb(response.body as any);
+}
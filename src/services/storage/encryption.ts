@@ -0,0 +1,618 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable, Transform } from 'stream';
+import {
+  StorageProvider,
+  StorageUploadOptions,
+  StorageUploadResult,
+  StorageFileInfo,
+  ListFilesOptions,
+  ListFilesResult,
+  SearchFilesOptions,
+  SearchFilesResult,
+  FileVisibilityResult,
+  FileVisibilityStatus,
+  FileStreamOptions,
+  FileStreamResult,
+  FileUrlOptions,
+  CopyFileOptions,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+  StorageCapabilities,
+} from './types';
+import { EnvironmentProvider } from '../environment/types';
+import { getCrunchyConeEnvironmentService } from '../environment/service';
+import { copyFileBetweenProviders, findFileByKey, moveFileBetweenProviders } from './copy';
+import { applySniffedContentType } from './sniffing';
+import {
+  checksumToMetadata,
+  getChecksumFromMetadata,
+  getContentTypeFromFilename,
+  listAllFiles,
+  prepareUploadChecksum,
+  resolveByteRange,
+  StorageError,
+} from './utils';
+import { getProviderCapabilities } from './capabilities';
+import { StorageNotFoundError, StorageInvalidInputError } from './errors';
+
+export interface EncryptedStorageOptions {
+  environment?: Pick<EnvironmentProvider, 'getEnvVar'>; // Where master keys are read from (default: the CrunchyCone environment service)
+  masterKeyVariable?: string;    // Default: 'CRUNCHYCONE_STORAGE_ENCRYPTION_KEY'
+  previousKeysVariable?: string; // Comma-separated retired keys, still used to decrypt (default: 'CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS')
+}
+
+export interface KeyRotationOptions {
+  prefix?: string; // Only re-wrap files under this prefix
+}
+
+export interface KeyRotationResult {
+  rotated: string[]; // Keys whose data key was re-wrapped with the current master key
+  skipped: number;   // Files that were not encrypted or already used the current master key
+  failed: Array<{ key: string; message: string }>; // Files still on an old key; run the rotation again to retry them
+}
+
+export const DEFAULT_MASTER_KEY_VARIABLE = 'CRUNCHYCONE_STORAGE_ENCRYPTION_KEY';
+export const DEFAULT_PREVIOUS_KEYS_VARIABLE = 'CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS';
+
+const ENCRYPTION_ALGORITHM = 'AES-256-GCM';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const BLOCK_SIZE = 16;
+
+// Metadata written on encrypted files. Underscores keep the names valid for Azure;
+// some S3-compatible services hand them back with hyphens instead.
+const ENVELOPE_METADATA_FIELDS = {
+  algorithm: 'enc_algorithm',
+  wrappedKey: 'enc_wrapped_key',
+  iv: 'enc_iv',
+  keyId: 'enc_key_id',
+} as const;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface MasterKeys {
+  current: MasterKey;
+  all: Map<string, MasterKey>;
+}
+
+interface Envelope {
+  wrappedKey: string; // base64 of IV | auth tag | encrypted data key
+  iv: string;         // base64 IV of the content
+  keyId: string;      // Master key that wrapped the data key
+}
+
+/**
+ * Generate a random master key, base64 encoded, for CRUNCHYCONE_STORAGE_ENCRYPTION_KEY
+ */
+export function generateEncryptionKey(): string {
+  return randomBytes(KEY_LENGTH).toString('base64');
+}
+
+/**
+ * Client-side envelope encryption around any provider.
+ * Every file is encrypted with its own AES-256-GCM data key before it is uploaded; the data key is
+ * wrapped with the master key from the environment and stored, with the IV, in the file's metadata.
+ * Files stored without encryption are read back unchanged.
+ */
+export class EncryptedStorageProvider implements StorageProvider {
+  private readonly inner: StorageProvider;
+  private readonly options: EncryptedStorageOptions;
+  private keys: Promise<MasterKeys> | null = null;
+
+  constructor(inner: StorageProvider, options: EncryptedStorageOptions = {}) {
+    this.inner = inner;
+    this.options = options;
+  }
+
+  async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
+    if ([options.filePath, options.stream, options.buffer].filter(Boolean).length !== 1) {
+      throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
+    }
+
+    const keys = await this.getKeys();
+    // Content types have to be worked out from the plaintext; the provider only sees ciphertext
+    options = await applySniffedContentType(options);
+    const checksum = await prepareUploadChecksum(options);
+
+    const dataKey = randomBytes(KEY_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const envelope: Envelope = {
+      wrappedKey: wrapDataKey(dataKey, keys.current),
+      iv: iv.toString('base64'),
+      keyId: keys.current.id,
+    };
+
+    const { filePath, stream, buffer, checksumAlgorithm: _checksumAlgorithm, ...uploadOptions } = options;
+    const upload: StorageUploadOptions = {
+      ...uploadOptions,
+      contentType: options.contentType || getContentTypeFromFilename(options.filename || options.key || ''),
+      metadata: { ...options.metadata, ...checksumToMetadata(checksum.checksum), ...envelopeToMetadata(envelope) },
+    };
+
+    if (buffer) {
+      const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+      upload.buffer = Buffer.concat([cipher.update(buffer), cipher.final(), cipher.getAuthTag()]);
+      upload.size = upload.buffer.length;
+    } else {
+      const source = filePath
+        ? createReadStream(filePath)
+        : stream instanceof ReadableStream ? Readable.fromWeb(stream as any) : stream as Readable;
+      const plainSize = filePath ? (await fs.stat(filePath)).size : options.size;
+      const encrypting = createEncryptStream(dataKey, iv);
+      const hashed = checksum.wrap(source);
+      hashed.on('error', error => encrypting.destroy(error));
+      upload.stream = hashed.pipe(encrypting);
+      upload.size = plainSize !== undefined ? plainSize + TAG_LENGTH : undefined;
+    }
+
+    const result = await this.inner.uploadFile(upload);
+    return { ...toPlainFileInfo(result), checksum: checksum.result() };
+  }
+
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
+    if (!this.inner.getFileStream) {
+      throw new StorageError('The wrapped provider does not support getFileStream', 'NOT_SUPPORTED', 501);
+    }
+
+    const fileInfo = await findFileByKey(this.inner, key);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+
+    const envelope = readEnvelope(fileInfo.metadata);
+    if (!envelope) {
+      return this.inner.getFileStream(key, options);
+    }
+
+    const { responseType = 'node', start, end, ...streamOptions } = options;
+    const dataKey = unwrapDataKey(envelope, await this.getKeys());
+    const iv = Buffer.from(envelope.iv, 'base64');
+    const plainSize = Math.max(fileInfo.size - TAG_LENGTH, 0);
+    const range = resolveByteRange(plainSize, start, end);
+
+    let innerResult: FileStreamResult;
+    let decrypting: Transform;
+    if (range) {
+      // Ranges are decrypted as AES-CTR from the enclosing block; the GCM tag covers the whole file,
+      // so partial reads are not authenticated
+      const blockStart = range.start - (range.start % BLOCK_SIZE);
+      innerResult = await this.inner.getFileStream(key, { ...streamOptions, start: blockStart, end: range.end, responseType: 'node' });
+      decrypting = createRangeDecryptStream(dataKey, iv, blockStart, range.start - blockStart);
+    } else {
+      innerResult = await this.inner.getFileStream(key, { ...streamOptions, responseType: 'node' });
+      decrypting = createDecryptStream(dataKey, iv);
+    }
+
+    const source = innerResult.stream instanceof ReadableStream
+      ? Readable.fromWeb(innerResult.stream as any)
+      : innerResult.stream as Readable;
+    source.on('error', error => decrypting.destroy(error));
+    const decrypted = source.pipe(decrypting);
+
+    return {
+      stream: responseType === 'web' ? Readable.toWeb(decrypted) as ReadableStream : decrypted,
+      contentType: innerResult.contentType,
+      contentLength: range ? range.end - range.start + 1 : plainSize,
+      lastModified: innerResult.lastModified,
+      etag: innerResult.etag,
+      acceptsRanges: true,
+      isPartialContent: !!range,
+      range: range ? { ...range, total: plainSize } : undefined,
+      streamType: responseType,
+      cleanup: innerResult.cleanup,
+    };
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    const fileInfo = await this.inner.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileStream(fileInfo.key, options);
+  }
+
+  /**
+   * Re-wrap every data key with the current master key.
+   * Only metadata changes: it is updated in place, or each file is copied server-side with its new envelope
+   * when the provider can't update metadata. Content is never re-uploaded. A file that fails is reported in
+   * `failed` and the rotation carries on. Keys are reloaded from the environment first, so the new key and
+   * the retired ones must already be set there.
+   */
+  async rotateMasterKey(options: KeyRotationOptions = {}): Promise<KeyRotationResult> {
+    if (!this.inner.updateFileMetadata && (!this.inner.copyFile || !this.inner.moveFile)) {
+      throw new StorageError('Key rotation needs a provider that supports updateFileMetadata, or copyFile and moveFile', 'NOT_SUPPORTED', 501);
+    }
+
+    this.keys = null;
+    const keys = await this.getKeys();
+
+    const files = await listAllFiles(this.inner, { prefix: options.prefix, includeMetadata: true });
+    const result: KeyRotationResult = { rotated: [], skipped: 0, failed: [] };
+    for (const file of files) {
+      const envelope = readEnvelope(file.metadata);
+      if (!envelope || envelope.keyId === keys.current.id) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.writeEnvelope(file.key, {
+          ...envelope,
+          wrappedKey: wrapDataKey(unwrapDataKey(envelope, keys), keys.current),
+          keyId: keys.current.id,
+        });
+        result.rotated.push(file.key);
+      } catch (error) {
+        result.failed.push({ key: file.key, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    const result = await copyFileBetweenProviders({
+      ...await this.keepEnvelope(sourceKey, options),
+      source: this.inner,
+      destination: this.inner,
+      sourceKey,
+      destinationKey,
+    });
+    return toPlainFileInfo(result);
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.inner.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    const result = await moveFileBetweenProviders({
+      ...await this.keepEnvelope(sourceKey, options),
+      source: this.inner,
+      destination: this.inner,
+      sourceKey,
+      destinationKey,
+    });
+    return toPlainFileInfo(result);
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.inner.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    if (!this.inner.updateFileMetadata) {
+      throw new StorageError('The wrapped provider does not support updateFileMetadata', 'NOT_SUPPORTED', 501);
+    }
+    // Replacing the metadata must still keep the envelope, or the file can no longer be decrypted
+    let metadata = update.metadata;
+    if (options.merge === false) {
+      const envelope = readEnvelope((await findFileByKey(this.inner, key))?.metadata);
+      metadata = envelope ? { ...metadata, ...envelopeToMetadata(envelope) } : metadata;
+    }
+    return toPlainFileInfo(await this.inner.updateFileMetadata(key, { ...update, metadata }, options));
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.inner.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  // Tags and storage classes live outside the encrypted content
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    if (!this.inner.getFileTags) {
+      throw new StorageError('The wrapped provider does not support getFileTags', 'NOT_SUPPORTED', 501);
+    }
+    return this.inner.getFileTags(key);
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    if (!this.inner.setFileTags) {
+      throw new StorageError('The wrapped provider does not support setFileTags', 'NOT_SUPPORTED', 501);
+    }
+    return this.inner.setFileTags(key, tags);
+  }
+
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    if (!this.inner.setStorageClass) {
+      throw new StorageError('The wrapped provider does not support setStorageClass', 'NOT_SUPPORTED', 501);
+    }
+    return this.inner.setStorageClass(key, storageClass);
+  }
+
+  async findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
+    const fileInfo = await this.inner.findFileByExternalId(externalId);
+    return fileInfo ? toPlainFileInfo(fileInfo) : null;
+  }
+
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    const fileInfo = await findFileByKey(this.inner, key);
+    return fileInfo ? toPlainFileInfo(fileInfo) : null;
+  }
+
+  async listFiles(options?: ListFilesOptions): Promise<ListFilesResult> {
+    // The envelope in the metadata gives the plaintext size
+    const result = await this.inner.listFiles({ ...options, includeMetadata: true });
+    return { ...result, files: result.files.map(toPlainFileInfo) };
+  }
+
+  async searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult> {
+    const result = await this.inner.searchFiles({ ...options, includeMetadata: true });
+    return { ...result, files: result.files.map(toPlainFileInfo) };
+  }
+
+  // Multipart and presigned uploads would bypass encryption, so only uploadFile is exposed
+  getCapabilities(): StorageCapabilities {
+    return { ...getProviderCapabilities(this.inner), multipartUpload: false, presignedUploads: false, batchDelete: false };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.getKeys();
+    } catch {
+      return false;
+    }
+    return this.inner.isAvailable();
+  }
+
+  // URLs serve the stored ciphertext; read encrypted files through getFileStream
+  async getFileUrl(key: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    return this.inner.getFileUrl(key, expiresIn, options);
+  }
+
+  async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    return this.inner.getFileUrlByExternalId(externalId, expiresIn, options);
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    return this.inner.deleteFile(key);
+  }
+
+  async deleteFileByExternalId(externalId: string): Promise<void> {
+    return this.inner.deleteFileByExternalId(externalId);
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    return this.inner.fileExists(key);
+  }
+
+  async fileExistsByExternalId(externalId: string): Promise<boolean> {
+    return this.inner.fileExistsByExternalId(externalId);
+  }
+
+  async setFileVisibility(key: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    return this.inner.setFileVisibility(key, visibility);
+  }
+
+  async setFileVisibilityByExternalId(externalId: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    return this.inner.setFileVisibilityByExternalId(externalId, visibility);
+  }
+
+  async getFileVisibility(key: string): Promise<FileVisibilityStatus> {
+    return this.inner.getFileVisibility(key);
+  }
+
+  async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
+    return this.inner.getFileVisibilityByExternalId(externalId);
+  }
+
+  // Copies that replace the metadata must still carry the source's envelope
+  private async keepEnvelope(sourceKey: string, options: CopyFileOptions): Promise<CopyFileOptions> {
+    if (!options.replaceMetadata) {
+      return options;
+    }
+    const fileInfo = await findFileByKey(this.inner, sourceKey);
+    const envelope = readEnvelope(fileInfo?.metadata);
+    return envelope ? { ...options, metadata: { ...options.metadata, ...envelopeToMetadata(envelope) } } : options;
+  }
+
+  private async writeEnvelope(key: string, envelope: Envelope): Promise<void> {
+    const metadata = envelopeToMetadata(envelope);
+    if (this.inner.updateFileMetadata) {
+      await this.inner.updateFileMetadata(key, { metadata }, { merge: true });
+      return;
+    }
+
+    // Providers can't all copy a file onto itself, so go through a temporary key
+    const temporaryKey = `${key}.rekey-${Date.now()}`;
+    await this.inner.copyFile!(key, temporaryKey, { metadata, overwrite: true });
+    try {
+      await this.inner.moveFile!(temporaryKey, key, { overwrite: true });
+    } catch (error) {
+      // The copy carries the file's external_id, so it must not outlive a failed move
+      await this.inner.deleteFile(temporaryKey).catch(() => {});
+      throw error;
+    }
+  }
+
+  private getKeys(): Promise<MasterKeys> {
+    if (!this.keys) {
+      this.keys = this.loadKeys();
+      // Let the next call try again, e.g. once the variable has been set
+      this.keys.catch(() => {
+        this.keys = null;
+      });
+    }
+    return this.keys;
+  }
+
+  private async loadKeys(): Promise<MasterKeys> {
+    const environment = this.options.environment || getCrunchyConeEnvironmentService();
+    const masterKeyVariable = this.options.masterKeyVariable || DEFAULT_MASTER_KEY_VARIABLE;
+    const previousKeysVariable = this.options.previousKeysVariable || DEFAULT_PREVIOUS_KEYS_VARIABLE;
+
+    // Secrets can't be read back through the environment service, but the platform injects them into the process
+    const read = async (name: string) => (await environment.getEnvVar(name)) || process.env[name];
+
+    const masterKey = await read(masterKeyVariable);
+    if (!masterKey) {
+      throw new StorageError(
+        `Encryption master key not found. Set ${masterKeyVariable} to a base64 encoded 32 byte key`,
+        'ENCRYPTION_KEY_MISSING',
+        500,
+      );
+    }
+
+    const current = parseMasterKey(masterKey, masterKeyVariable);
+    const previous = ((await read(previousKeysVariable)) || '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(value => parseMasterKey(value, previousKeysVariable));
+
+    return { current, all: new Map([...previous, current].map(key => [key.id, key])) };
+  }
+}
+
+function parseMasterKey(value: string, variable: string): MasterKey {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new StorageError(
+      `${variable} must be a base64 or hex encoded 32 byte key (got ${key.length} bytes)`,
+      'INVALID_ENCRYPTION_KEY',
+      500,
+    );
+  }
+  // The id identifies the key in metadata without revealing it
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+}
+
+function wrapDataKey(dataKey: Buffer, masterKey: MasterKey): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', masterKey.key, iv);
+  const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+function unwrapDataKey(envelope: Envelope, keys: MasterKeys): Buffer {
+  const masterKey = keys.all.get(envelope.keyId);
+  if (!masterKey) {
+    throw new StorageError(
+      `Master key ${envelope.keyId} is not configured; add it to the previous keys to decrypt this file`,
+      'ENCRYPTION_KEY_NOT_FOUND',
+      500,
+    );
+  }
+
+  const wrapped = Buffer.from(envelope.wrappedKey, 'base64');
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', masterKey.key, wrapped.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(wrapped.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch (error) {
+    throw new StorageError('Failed to unwrap the data key', 'DECRYPTION_FAILED', 500, error as Error);
+  }
+}
+
+// Encrypts the content and appends the GCM auth tag
+function createEncryptStream(dataKey: Buffer, iv: Buffer): Transform {
+  const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      callback(null, cipher.update(chunk));
+    },
+    flush(callback) {
+      this.push(cipher.final());
+      this.push(cipher.getAuthTag());
+      callback();
+    },
+  });
+}
+
+// Decrypts a whole file, holding back the trailing auth tag until the end
+function createDecryptStream(dataKey: Buffer, iv: Buffer): Transform {
+  const decipher = createDecipheriv('aes-256-gcm', dataKey, iv);
+  let tail = Buffer.alloc(0);
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      const data = Buffer.concat([tail, chunk]);
+      tail = data.subarray(Math.max(data.length - TAG_LENGTH, 0));
+      callback(null, decipher.update(data.subarray(0, data.length - tail.length)));
+    },
+    flush(callback) {
+      try {
+        decipher.setAuthTag(tail);
+        this.push(decipher.final());
+        callback();
+      } catch (error) {
+        callback(new StorageError('Encrypted content failed authentication', 'DECRYPTION_FAILED', 500, error as Error));
+      }
+    },
+  });
+}
+
+// GCM encrypts with AES-CTR starting at counter IV|2, so any block can be decrypted on its own.
+// The 128-bit CTR increment matches GCM's 32-bit one for files under 64GB.
+function createRangeDecryptStream(dataKey: Buffer, iv: Buffer, blockStart: number, skip: number): Transform {
+  const counter = Buffer.alloc(BLOCK_SIZE);
+  iv.copy(counter);
+  counter.writeUInt32BE(2 + blockStart / BLOCK_SIZE, IV_LENGTH);
+  const decipher = createDecipheriv('aes-256-ctr', dataKey, counter);
+
+  let toSkip = skip;
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      let data = decipher.update(chunk);
+      if (toSkip > 0) {
+        const skipped = Math.min(toSkip, data.length);
+        data = data.subarray(skipped);
+        toSkip -= skipped;
+      }
+      callback(null, data);
+    },
+  });
+}
+
+function envelopeToMetadata(envelope: Envelope): Record<string, string> {
+  return {
+    [ENVELOPE_METADATA_FIELDS.algorithm]: ENCRYPTION_ALGORITHM,
+    [ENVELOPE_METADATA_FIELDS.wrappedKey]: envelope.wrappedKey,
+    [ENVELOPE_METADATA_FIELDS.iv]: envelope.iv,
+    [ENVELOPE_METADATA_FIELDS.keyId]: envelope.keyId,
+  };
+}
+
+function readEnvelope(metadata?: Record<string, string>): Envelope | undefined {
+  const field = (name: string) => metadata?.[name] || metadata?.[name.replace(/_/g, '-')];
+  const wrappedKey = field(ENVELOPE_METADATA_FIELDS.wrappedKey);
+  const iv = field(ENVELOPE_METADATA_FIELDS.iv);
+  const keyId = field(ENVELOPE_METADATA_FIELDS.keyId);
+  return wrappedKey && iv && keyId ? { wrappedKey, iv, keyId } : undefined;
+}
+
+// Report plaintext sizes and hide the envelope. Checksums other than the stored plaintext one
+// (e.g. a provider's own MD5) describe the ciphertext, so they are dropped.
+function toPlainFileInfo<T extends StorageFileInfo | StorageUploadResult>(file: T): T {
+  if (!readEnvelope(file.metadata)) {
+    return file;
+  }
+
+  const metadata = { ...file.metadata };
+  for (const name of Object.values(ENVELOPE_METADATA_FIELDS)) {
+    delete metadata[name];
+    delete metadata[name.replace(/_/g, '-')];
+  }
+
+  return {
+    ...file,
+    size: Math.max(file.size - TAG_LENGTH, 0),
+    checksum: getChecksumFromMetadata(file.metadata),
+    metadata,
+  };
+}
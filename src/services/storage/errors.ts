@@ -0,0 +1,227 @@
+import { StorageError } from './utils';
+
+// Stable codes every provider maps its failures to
+export type StorageErrorCode =
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'ACCESS_DENIED'
+  | 'QUOTA_EXCEEDED'
+  | 'PRECONDITION_FAILED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'INVALID_INPUT';
+
+export class StorageNotFoundError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'NOT_FOUND', 404, originalError);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+export class StorageAlreadyExistsError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'ALREADY_EXISTS', 409, originalError);
+    this.name = 'StorageAlreadyExistsError';
+  }
+}
+
+export class StorageAccessDeniedError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'ACCESS_DENIED', 403, originalError);
+    this.name = 'StorageAccessDeniedError';
+  }
+}
+
+export class StorageQuotaExceededError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'QUOTA_EXCEEDED', 413, originalError);
+    this.name = 'StorageQuotaExceededError';
+  }
+}
+
+export class StoragePreconditionFailedError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'PRECONDITION_FAILED', 412, originalError);
+    this.name = 'StoragePreconditionFailedError';
+  }
+}
+
+export class StorageProviderUnavailableError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'PROVIDER_UNAVAILABLE', 503, originalError);
+    this.name = 'StorageProviderUnavailableError';
+  }
+}
+
+export class StorageInvalidInputError extends StorageError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'INVALID_INPUT', 400, originalError);
+    this.name = 'StorageInvalidInputError';
+  }
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Codes that describe a deliberate refusal rather than a backend hiccup
+const NON_RETRYABLE_CODES = new Set(['CIRCUIT_OPEN', 'UPLOAD_NOT_RETRYABLE', 'READ_ONLY']);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const RETRYABLE_ERROR_NAMES = new Set([
+  'TimeoutError',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'ThrottlingException',
+  'SlowDown',
+  'InternalError',
+  'ServiceUnavailable',
+]);
+
+/**
+ * Decide whether an error is transient: 408/429/5xx responses, throttling and network failures.
+ * Looks at StorageError.code/statusCode, the HTTP status fields of the S3, GCS and Azure SDK errors,
+ * and follows originalError/cause to the underlying failure.
+ */
+export function isRetryableStorageError(error: unknown): boolean {
+  const seen = new Set<unknown>();
+  let current: any = error;
+
+  while (current && typeof current === 'object' && !seen.has(current)) {
+    seen.add(current);
+
+    if (typeof current.code === 'string' && NON_RETRYABLE_CODES.has(current.code)) {
+      return false;
+    }
+    if (current.$retryable) {
+      return true;
+    }
+    if (typeof current.code === 'string' && RETRYABLE_NETWORK_CODES.has(current.code)) {
+      return true;
+    }
+    if (typeof current.name === 'string' && RETRYABLE_ERROR_NAMES.has(current.name)) {
+      return true;
+    }
+
+    // S3 reports the status in $metadata, GCS in a numeric code, Azure and StorageError in statusCode
+    const status = current.$metadata?.httpStatusCode ?? current.statusCode ?? (typeof current.code === 'number' ? current.code : undefined);
+    if (typeof status === 'number' && RETRYABLE_STATUS_CODES.has(status)) {
+      // handleStorageError wraps every unknown error as a 500; trust the original error when there is one
+      if (!(current instanceof StorageError && current.code === 'STORAGE_OPERATION_FAILED' && current.originalError)) {
+        return true;
+      }
+    }
+
+    current = current.originalError ?? current.cause;
+  }
+
+  return false;
+}
+
+type StorageErrorClass = new (message: string, originalError?: Error) => StorageError;
+
+const CLASSES_BY_CODE: Record<StorageErrorCode, StorageErrorClass> = {
+  NOT_FOUND: StorageNotFoundError,
+  ALREADY_EXISTS: StorageAlreadyExistsError,
+  ACCESS_DENIED: StorageAccessDeniedError,
+  QUOTA_EXCEEDED: StorageQuotaExceededError,
+  PRECONDITION_FAILED: StoragePreconditionFailedError,
+  PROVIDER_UNAVAILABLE: StorageProviderUnavailableError,
+  INVALID_INPUT: StorageInvalidInputError,
+};
+
+// Error names and codes reported by the S3, GCS and Azure SDKs and by Node's fs module
+const NOT_FOUND_NAMES = new Set(['NoSuchKey', 'NotFound', 'NoSuchUpload', 'NoSuchBucket', 'BlobNotFound', 'ContainerNotFound', 'ENOENT']);
+const ALREADY_EXISTS_NAMES = new Set(['BlobAlreadyExists', 'ContainerAlreadyExists', 'EEXIST']);
+const ACCESS_DENIED_NAMES = new Set([
+  'AccessDenied',
+  'AllAccessDisabled',
+  'InvalidAccessKeyId',
+  'SignatureDoesNotMatch',
+  'AuthenticationFailed',
+  'AuthorizationFailure',
+  'AuthorizationPermissionMismatch',
+  'EACCES',
+  'EPERM',
+]);
+const QUOTA_EXCEEDED_NAMES = new Set(['QuotaExceeded', 'XMinioStorageFull', 'ENOSPC', 'EDQUOT']);
+const PRECONDITION_FAILED_NAMES = new Set(['PreconditionFailed', 'ConditionNotMet', 'TargetConditionNotMet']);
+const INVALID_INPUT_NAMES = new Set(['InvalidArgument', 'InvalidRequest', 'KeyTooLongError', 'InvalidBlobOrBlock', 'InvalidInput', 'EISDIR', 'ENAMETOOLONG']);
+
+function classifyStatus(statusCode: number): StorageErrorClass | undefined {
+  switch (statusCode) {
+    case 400: return StorageInvalidInputError;
+    case 401:
+    case 403: return StorageAccessDeniedError;
+    case 404: return StorageNotFoundError;
+    case 409: return StorageAlreadyExistsError;
+    case 412: return StoragePreconditionFailedError;
+    case 507: return StorageQuotaExceededError;
+  }
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500 ? StorageProviderUnavailableError : undefined;
+}
+
+/**
+ * Pick the typed StorageError class for an error, or undefined when it fits none.
+ * Looks at StorageError codes, SDK error names, Azure's string codes and the HTTP status (S3 $metadata,
+ * GCS numeric code, Azure statusCode); network failures are recognised the same way the retry middleware does.
+ */
+export function classifyStorageError(error: unknown): StorageErrorClass | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const raw = error as any;
+  if (raw instanceof StorageError && raw.code in CLASSES_BY_CODE) {
+    return CLASSES_BY_CODE[raw.code as StorageErrorCode];
+  }
+
+  const names = [raw.name, raw.Code, typeof raw.code === 'string' ? raw.code : undefined, raw.details?.errorCode];
+  const has = (set: Set<string>) => names.some(name => typeof name === 'string' && set.has(name));
+
+  if (has(NOT_FOUND_NAMES)) return StorageNotFoundError;
+  if (has(ALREADY_EXISTS_NAMES)) return StorageAlreadyExistsError;
+  if (has(ACCESS_DENIED_NAMES)) return StorageAccessDeniedError;
+  if (has(QUOTA_EXCEEDED_NAMES)) return StorageQuotaExceededError;
+  if (has(PRECONDITION_FAILED_NAMES)) return StoragePreconditionFailedError;
+  if (has(INVALID_INPUT_NAMES)) return StorageInvalidInputError;
+
+  const status = raw.$metadata?.httpStatusCode ?? raw.statusCode ?? (typeof raw.code === 'number' ? raw.code : undefined);
+  const byStatus = typeof status === 'number' ? classifyStatus(status) : undefined;
+  return byStatus || (isRetryableStorageError(error) ? StorageProviderUnavailableError : undefined);
+}
+
+/**
+ * Wrap a caught provider error as a StorageError, keeping it as originalError.
+ * StorageErrors pass through untouched; anything unrecognised becomes a STORAGE_OPERATION_FAILED 500.
+ */
+export function toStorageError(error: unknown, context: string): StorageError {
+  if (error instanceof StorageError) {
+    return error;
+  }
+
+  const message = `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  const originalError = error instanceof Error ? error : undefined;
+  const ErrorClass = classifyStorageError(error);
+  return ErrorClass
+    ? new ErrorClass(message, originalError)
+    : new StorageError(message, 'STORAGE_OPERATION_FAILED', 500, originalError);
+}
+
+/**
+ * Build the typed StorageError for a failed HTTP response from a provider's REST API
+ */
+export function storageErrorForStatus(statusCode: number, message: string, originalError?: Error): StorageError {
+  const ErrorClass = classifyStatus(statusCode);
+  return ErrorClass
+    ? new ErrorClass(message, originalError)
+    : new StorageError(message, 'STORAGE_OPERATION_FAILED', statusCode, originalError);
+}
@@ -0,0 +1,310 @@
+import {
+  StorageProvider,
+  StorageFileInfo,
+  StorageUploadOptions,
+  StorageUploadResult,
+  MultipartUploadOptions,
+  FileVisibilityResult,
+  FileDeleteResult,
+} from './types';
+import { findFileByKey } from './copy';
+import { StorageMiddleware } from './middleware';
+import { StorageError } from './utils';
+
+export interface StorageEventMap {
+  beforeUpload: { options: StorageUploadOptions | MultipartUploadOptions };
+  uploaded: { file: StorageFileInfo };
+  beforeDelete: { file: StorageFileInfo };
+  deleted: { file: StorageFileInfo; trashed?: boolean }; // trashed: moved to the trash rather than removed
+  beforeVisibilityChange: { file: StorageFileInfo; visibility: 'public' | 'private' };
+  visibilityChanged: { file: StorageFileInfo; previousVisibility?: StorageFileInfo['visibility'] };
+  beforeCopy: { source: StorageFileInfo; destinationKey: string; move: boolean };
+  copied: { file: StorageFileInfo; source: StorageFileInfo; move: boolean };
+}
+
+export type StorageEventName = keyof StorageEventMap;
+
+export type StorageEvent<E extends StorageEventName = StorageEventName> = StorageEventMap[E] & {
+  type: E;
+  provider: StorageProvider;
+};
+
+// Listeners on before* events veto the operation by returning false or throwing
+export type StorageEventListener<E extends StorageEventName = StorageEventName> =
+  (event: StorageEvent<E>) => void | boolean | Promise<void | boolean>;
+
+export interface StorageEventsOptions {
+  // Called when a listener for an after-event fails; the operation itself already succeeded (default: console.error)
+  onListenerError?: (error: unknown, event: StorageEvent) => void;
+}
+
+const VETO_DESCRIPTIONS: Record<string, string> = {
+  beforeUpload: 'Upload',
+  beforeDelete: 'Delete',
+  beforeVisibilityChange: 'Visibility change',
+  beforeCopy: 'Copy',
+};
+
+/**
+ * Typed events for file changes. Listeners run one at a time in the order they were added,
+ * and async listeners are awaited before the operation continues.
+ *
+ * @example
+ * ```typescript
+ * const events = new StorageEvents();
+ * events.on('uploaded', async ({ file }) => db.files.insert(file));
+ * events.on('beforeDelete', ({ file }) => !file.metadata?.legal_hold);
+ * const archive = applyStorageMiddleware(archiveProvider, [events.middleware()]);
+ * ```
+ */
+export class StorageEvents {
+  private listeners = new Map<StorageEventName, StorageEventListener<any>[]>();
+  private onListenerError: (error: unknown, event: StorageEvent) => void;
+  private eventsMiddleware?: StorageMiddleware;
+
+  constructor(options: StorageEventsOptions = {}) {
+    this.onListenerError = options.onListenerError
+      || ((error, event) => console.error(`[Storage] ${event.type} listener failed:`, error));
+  }
+
+  /**
+   * Add a listener; returns a function that removes it
+   */
+  on<E extends StorageEventName>(event: E, listener: StorageEventListener<E>): () => void {
+    this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+    return () => this.off(event, listener);
+  }
+
+  once<E extends StorageEventName>(event: E, listener: StorageEventListener<E>): () => void {
+    const wrapper: StorageEventListener<E> = storageEvent => {
+      this.off(event, wrapper);
+      return listener(storageEvent);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off<E extends StorageEventName>(event: E, listener: StorageEventListener<E>): void {
+    const listeners = this.listeners.get(event) || [];
+    this.listeners.set(event, listeners.filter(existing => existing !== listener));
+  }
+
+  removeAllListeners(event?: StorageEventName): void {
+    if (event) {
+      this.listeners.delete(event);
+    } else {
+      this.listeners.clear();
+    }
+  }
+
+  listenerCount(event: StorageEventName): number {
+    return this.listeners.get(event)?.length || 0;
+  }
+
+  /**
+   * Run the listeners for an event. Before-events reject with an `OPERATION_VETOED` StorageError
+   * when a listener returns false, and with the listener's own error when one throws.
+   */
+  async emit<E extends StorageEventName>(event: StorageEvent<E>): Promise<void> {
+    // Copy so listeners removed while emitting (e.g. by once) don't shift the loop
+    const listeners = [...(this.listeners.get(event.type) || [])];
+    const isBefore = event.type in VETO_DESCRIPTIONS;
+
+    for (const listener of listeners) {
+      if (!isBefore) {
+        try {
+          await listener(event);
+        } catch (error) {
+          this.onListenerError(error, event);
+        }
+        continue;
+      }
+
+      if (await listener(event) === false) {
+        throw new StorageError(
+          `${VETO_DESCRIPTIONS[event.type]} of ${describeTarget(event)} was vetoed by a ${event.type} listener`,
+          'OPERATION_VETOED',
+          403,
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a delete the middleware doesn't see, such as a move to the trash, with the delete events around it
+   */
+  async trackDelete(
+    provider: StorageProvider,
+    findFile: () => Promise<StorageFileInfo | null>,
+    remove: () => Promise<unknown>,
+    details: { trashed?: boolean } = {},
+  ): Promise<void> {
+    if (!this.listenerCount('beforeDelete') && !this.listenerCount('deleted')) {
+      await remove();
+      return;
+    }
+
+    const file = await findFile();
+    if (!file) {
+      // Let the provider report the missing file
+      await remove();
+      return;
+    }
+
+    await this.emit({ type: 'beforeDelete', provider, file });
+    await remove();
+    await this.emit({ type: 'deleted', provider, file, ...details });
+  }
+
+  /**
+   * Middleware that emits events for every change made through the wrapped provider.
+   * Every call returns the same middleware, so hasStorageMiddleware can tell whether a provider already emits them.
+   */
+  middleware(): StorageMiddleware {
+    return this.eventsMiddleware ??= async (context, next) => {
+      const { method, args, provider } = context;
+
+      switch (method) {
+        case 'uploadFile':
+        case 'initiateMultipartUpload':
+          await this.emit({ type: 'beforeUpload', provider, options: args[0] });
+          return method === 'uploadFile' ? this.emitUploaded(provider, await next()) : next();
+
+        case 'completeMultipartUpload':
+          return this.emitUploaded(provider, await next());
+
+        case 'deleteFile':
+          return this.trackDelete(provider, () => findFileByKey(provider, args[0]), next);
+
+        case 'deleteFileByExternalId':
+          return this.trackDelete(provider, () => provider.findFileByExternalId(args[0]), next);
+
+        case 'deleteFiles':
+          return this.trackBatchDelete(provider, args[0], next);
+
+        case 'setFileVisibility':
+        case 'setFileVisibilityByExternalId':
+          return (await this.trackVisibility(provider, [args[0]], args[1], method === 'setFileVisibilityByExternalId', async () => [await next()]))[0];
+
+        case 'setMultipleFileVisibility':
+          return this.trackVisibility(provider, args[0], args[1], false, next);
+
+        case 'copyFile':
+        case 'moveFile':
+        case 'copyFileByExternalId':
+        case 'moveFileByExternalId':
+          return this.trackCopy(provider, args[0], args[1], method.startsWith('move'), method.endsWith('ByExternalId'), next);
+
+        default:
+          return next();
+      }
+    };
+  }
+
+  // A veto from any beforeDelete listener stops the whole batch
+  private async trackBatchDelete(
+    provider: StorageProvider,
+    keys: string[],
+    remove: () => Promise<FileDeleteResult[]>,
+  ): Promise<FileDeleteResult[]> {
+    if (!this.listenerCount('beforeDelete') && !this.listenerCount('deleted')) {
+      return remove();
+    }
+
+    const files = new Map<string, StorageFileInfo>();
+    for (const key of keys) {
+      const file = await findFileByKey(provider, key);
+      if (file) {
+        files.set(key, file);
+        await this.emit({ type: 'beforeDelete', provider, file });
+      }
+    }
+
+    const results = await remove();
+    for (const result of results) {
+      const file = files.get(result.key);
+      if (file && result.success) {
+        await this.emit({ type: 'deleted', provider, file });
+      }
+    }
+    return results;
+  }
+
+  private async emitUploaded(provider: StorageProvider, result: StorageUploadResult): Promise<StorageUploadResult> {
+    await this.emit({ type: 'uploaded', provider, file: { ...result } });
+    return result;
+  }
+
+  private async trackVisibility(
+    provider: StorageProvider,
+    ids: string[],
+    visibility: 'public' | 'private',
+    byExternalId: boolean,
+    change: () => Promise<FileVisibilityResult[]>,
+  ): Promise<FileVisibilityResult[]> {
+    if (!this.listenerCount('beforeVisibilityChange') && !this.listenerCount('visibilityChanged')) {
+      return change();
+    }
+
+    const files: (StorageFileInfo | null)[] = [];
+    for (const id of ids) {
+      const file = byExternalId ? await provider.findFileByExternalId(id) : await findFileByKey(provider, id);
+      files.push(file);
+      if (file) {
+        await this.emit({ type: 'beforeVisibilityChange', provider, file, visibility });
+      }
+    }
+
+    const results = await change();
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!file || !results[i]?.success) {
+        continue;
+      }
+      await this.emit({
+        type: 'visibilityChanged',
+        provider,
+        file: { ...file, visibility: results[i].actualVisibility, publicUrl: results[i].publicUrl },
+        previousVisibility: file.visibility,
+      });
+    }
+
+    return results;
+  }
+
+  private async trackCopy(
+    provider: StorageProvider,
+    sourceId: string,
+    destinationKey: string,
+    move: boolean,
+    byExternalId: boolean,
+    copy: () => Promise<StorageUploadResult>,
+  ): Promise<StorageUploadResult> {
+    if (!this.listenerCount('beforeCopy') && !this.listenerCount('copied')) {
+      return copy();
+    }
+
+    const source = byExternalId ? await provider.findFileByExternalId(sourceId) : await findFileByKey(provider, sourceId);
+    if (!source) {
+      return copy();
+    }
+
+    await this.emit({ type: 'beforeCopy', provider, source, destinationKey, move });
+    const result = await copy();
+    await this.emit({ type: 'copied', provider, file: { ...result }, source, move });
+    return result;
+  }
+}
+
+function describeTarget(event: StorageEvent): string {
+  switch (event.type) {
+    case 'beforeUpload': {
+      const { options } = event as StorageEvent<'beforeUpload'>;
+      return options.key || options.external_id;
+    }
+    case 'beforeCopy':
+      return (event as StorageEvent<'beforeCopy'>).source.key;
+    default:
+      return (event as StorageEvent<'beforeDelete' | 'beforeVisibilityChange'>).file.key;
+  }
+}
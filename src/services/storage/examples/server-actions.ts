@@ -11,7 +11,7 @@
 // NOTE: Remove this comment and add 'use server' directive when using in Next.js
 // 'use server';
 
-import { uploadFile, validateFile, generateExternalId, getCommonValidationOptions } from '../index';
+import { uploadFile, getUploadUrl, validateFile, validateFileContent, generateExternalId, getCommonValidationOptions } from '../index';
 // import { auth } from '@/lib/auth/auth-config'; // Your auth implementation
 // import { revalidatePath } from 'next/cache';
 
@@ -48,7 +48,7 @@ export async function uploadFileAction(formData: FormData): Promise<UploadResult
     const _userId = 'demo-user'; // Replace with: session.user.id
 
     // Validate file using common validation options
-    const validation = validateFile(file, getCommonValidationOptions().images);
+    const validation = await validateFileContent(file, getCommonValidationOptions().images);
     if (!validation.valid) {
       return { error: validation.error };
     }
@@ -366,4 +366,58 @@ export async function uploadMultipleFilesAction(formData: FormData): Promise<{
     console.error('Multiple upload error:', error);
     return { error: 'Multiple file upload failed' };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Direct-to-storage upload: the browser sends the file straight to the bucket
+ * (or the LocalStorage upload handler) instead of through this server
+ */
+export async function getUploadUrlAction(filename: string, contentType: string, size: number): Promise<{
+  success?: boolean;
+  error?: string;
+  upload?: {
+    url: string;
+    method: 'PUT' | 'POST';
+    headers: Record<string, string>;
+    fields?: Record<string, string>;
+    external_id: string;
+    key: string;
+    expiresAt: string;
+  };
+}> {
+  try {
+    // Validate what the client says it will upload before reserving a key
+    const validation = validateFile({ name: filename, type: contentType, size }, getCommonValidationOptions().images);
+    if (!validation.valid) {
+      return { error: validation.error };
+    }
+
+    const upload = await getUploadUrl({
+      external_id: generateExternalId(),
+      filename,
+      contentType,
+      size, // The URL only accepts a file of exactly this size
+      expiresIn: 15 * 60,
+      public: true,
+    });
+
+    // Client side:
+    // await fetch(upload.url, { method: upload.method, headers: upload.headers, body: file });
+    return {
+      success: true,
+      upload: {
+        url: upload.url,
+        method: upload.method,
+        headers: upload.headers,
+        fields: upload.fields,
+        external_id: upload.external_id,
+        key: upload.key,
+        expiresAt: upload.expiresAt.toISOString(),
+      },
+    };
+
+  } catch (error) {
+    console.error('Upload URL error:', error);
+    return { error: 'Could not create upload URL' };
+  }
+}
@@ -0,0 +1,175 @@
+import { StorageProvider, StorageFileInfo, FileDeleteResult, FileMoveResult, FolderSummary } from './types';
+import { BatchDeleteOptions, DEFAULT_BATCH_CONCURRENCY, batchDeleteFiles } from './batch';
+import { moveFileBetweenProviders } from './copy';
+import { iterateListPages, listAllFiles, mapWithConcurrency } from './utils';
+import { StorageAlreadyExistsError, StorageInvalidInputError, StorageNotFoundError } from './errors';
+
+export const FOLDER_DELIMITER = '/';
+
+export interface RenameFolderOptions {
+  overwrite?: boolean;   // Replace files that already exist under the new path (default: false)
+  concurrency?: number;  // Moves in flight at once (default: 10)
+}
+
+/**
+ * Normalize a folder path to the key prefix it stands for: no leading slash, one trailing slash.
+ * The root folder is the empty string.
+ */
+export function toFolderPrefix(path: string): string {
+  const trimmed = path.replace(/^\/+/, '').replace(/\/+$/, '');
+  return trimmed ? `${trimmed}${FOLDER_DELIMITER}` : '';
+}
+
+/**
+ * Zero-byte objects whose key ends in the delimiter stand in for empty folders on object stores
+ */
+export function isFolderMarker(file: Pick<StorageFileInfo, 'key' | 'size'>): boolean {
+  return file.key.endsWith(FOLDER_DELIMITER) && file.size === 0;
+}
+
+/**
+ * Create an empty folder. Providers with real directories create one; object stores get a
+ * folder marker object so the folder shows up in delimiter listings before it has any files.
+ */
+export async function createProviderFolder(provider: StorageProvider, path: string): Promise<void> {
+  const prefix = requireFolderPrefix(path);
+  if (provider.createFolder) {
+    return provider.createFolder(prefix);
+  }
+  await provider.uploadFile({
+    external_id: `folder:${prefix}`,
+    key: prefix,
+    buffer: Buffer.alloc(0),
+    contentType: 'application/x-directory',
+  });
+}
+
+/**
+ * Count the files, bytes and subfolders anywhere below a folder. An empty path summarizes the whole provider.
+ */
+export async function getProviderFolderSummary(provider: StorageProvider, path: string): Promise<FolderSummary> {
+  const prefix = toFolderPrefix(path);
+  return summarize(prefix, await listAllFiles(provider, { prefix: prefix || undefined }));
+}
+
+/**
+ * Move every file below a folder to a new path, one file at a time so middlewares and events see each move.
+ * Refuses to merge into a folder that already has files unless overwrite is set. Failures are reported per file
+ * rather than thrown; the old folder is only removed once all of its files have moved.
+ */
+export async function renameProviderFolder(
+  provider: StorageProvider,
+  fromPath: string,
+  toPath: string,
+  options: RenameFolderOptions = {},
+): Promise<FileMoveResult[]> {
+  const fromPrefix = requireFolderPrefix(fromPath);
+  const toPrefix = requireFolderPrefix(toPath);
+  if (toPrefix.startsWith(fromPrefix)) {
+    throw new StorageInvalidInputError(`Cannot move folder ${fromPrefix} into itself`);
+  }
+
+  const files = await listAllFiles(provider, { prefix: fromPrefix });
+  if (files.length === 0) {
+    // Only real directories can be empty without a marker
+    if (!provider.createFolder || !await hasSubfolder(provider, fromPrefix)) {
+      throw new StorageNotFoundError(`Folder ${fromPrefix} not found`);
+    }
+    await provider.createFolder(toPrefix);
+    await provider.deleteFolder?.(fromPrefix);
+    return [];
+  }
+  if (!options.overwrite && (await listAllFiles(provider, { prefix: toPrefix })).some(file => !isFolderMarker(file))) {
+    throw new StorageAlreadyExistsError(`Folder ${toPrefix} already exists`);
+  }
+
+  const results = await mapWithConcurrency(files, options.concurrency || DEFAULT_BATCH_CONCURRENCY, async file => {
+    const destinationKey = `${toPrefix}${file.key.slice(fromPrefix.length)}`;
+    try {
+      await moveFileBetweenProviders({
+        source: provider,
+        destination: provider,
+        sourceKey: file.key,
+        destinationKey,
+        overwrite: options.overwrite,
+      });
+      return { key: file.key, destinationKey, success: true };
+    } catch (error) {
+      return { key: file.key, destinationKey, success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Drop the directories the moves left behind
+  if (provider.deleteFolder && results.every(result => result.success)) {
+    await provider.deleteFolder(fromPrefix);
+  }
+  return results;
+}
+
+/**
+ * Delete a folder and everything below it, with one result per file. Failures are reported per file;
+ * the folder itself is only removed once all of its files are gone.
+ */
+export async function deleteProviderFolder(
+  provider: StorageProvider,
+  path: string,
+  options: BatchDeleteOptions = {},
+): Promise<FileDeleteResult[]> {
+  const prefix = requireFolderPrefix(path);
+  const files = await listAllFiles(provider, { prefix });
+  const results = await batchDeleteFiles(provider, files.map(file => file.key), options);
+
+  if (provider.deleteFolder && results.every(result => result.success)) {
+    await provider.deleteFolder(prefix);
+  }
+  return results;
+}
+
+function requireFolderPrefix(path: string): string {
+  const prefix = toFolderPrefix(path);
+  if (!prefix) {
+    throw new StorageInvalidInputError('Folder operations require a non-empty path');
+  }
+  return prefix;
+}
+
+async function hasSubfolder(provider: StorageProvider, prefix: string): Promise<boolean> {
+  const parent = prefix.slice(0, prefix.lastIndexOf(FOLDER_DELIMITER, prefix.length - 2) + 1);
+  // Common prefixes may be spread across pages
+  const pages = iterateListPages(cursor => provider.listFiles({ prefix: parent || undefined, delimiter: FOLDER_DELIMITER, ...cursor }));
+  for await (const page of pages) {
+    if (page.commonPrefixes?.includes(prefix)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function summarize(prefix: string, files: StorageFileInfo[]): FolderSummary {
+  const folders = new Set<string>();
+  let fileCount = 0;
+  let totalSize = 0;
+  let lastModified: Date | undefined;
+
+  for (const file of files) {
+    // Every folder between the prefix and the file counts, including ones that only hold a marker
+    const relative = file.key.slice(prefix.length);
+    let index = relative.indexOf(FOLDER_DELIMITER);
+    while (index !== -1) {
+      folders.add(relative.slice(0, index));
+      index = relative.indexOf(FOLDER_DELIMITER, index + 1);
+    }
+    if (isFolderMarker(file)) {
+      continue;
+    }
+
+    fileCount++;
+    totalSize += file.size;
+    if (file.lastModified && (!lastModified || file.lastModified > lastModified)) {
+      lastModified = file.lastModified;
+    }
+  }
+  folders.delete('');
+
+  return { path: prefix, fileCount, totalSize, folderCount: folders.size, lastModified };
+}
@@ -0,0 +1,322 @@
+import { extname } from 'path';
+import { Readable } from 'stream';
+import {
+  StorageProvider,
+  StorageFileInfo,
+  StorageUploadResult,
+  FileDeleteResult,
+} from './types';
+import { findFileByKey, openFileStream } from './copy';
+import { StorageMiddleware } from './middleware';
+import { createThumbnailKey, StorageError } from './utils';
+import { StorageNotFoundError } from './errors';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface ImageVariant {
+  name: string;            // Appended to the original key, e.g. photo.jpg -> photo_thumb.jpg
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside'; // Default: 'inside' (keep aspect ratio, never crop)
+  format?: ImageFormat;    // Default: keep the original format
+  quality?: number;        // 1-100, for lossy formats
+}
+
+/**
+ * Turns the original image into one variant. The default uses the optional `sharp` package.
+ */
+export type ImageProcessor = (input: Buffer, variant: ImageVariant) => Promise<Buffer>;
+
+export interface ImageDerivativeOptions {
+  variants: ImageVariant[];
+  mode?: 'eager' | 'lazy';   // Generate at upload, or on the first getImageDerivativeUrl call (default: 'eager')
+  processor?: ImageProcessor;
+  // Called when eager generation fails; the original is already stored, so the upload still succeeds (default: console.error)
+  onError?: (error: unknown, key: string) => void;
+}
+
+export interface ImageDerivativeResult extends StorageUploadResult {
+  variant: string;
+  originalKey: string;
+}
+
+// Metadata written on derivatives to link them to their original
+const DERIVATIVE_METADATA_FIELDS = {
+  originalKey: 'derivative_of',
+  variant: 'derivative_variant',
+} as const;
+
+const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+};
+
+// Raster formats sharp can decode; SVGs and icons are left alone
+const PROCESSABLE_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif',
+  'image/tiff',
+];
+
+export function isProcessableImage(contentType: string): boolean {
+  return PROCESSABLE_IMAGE_TYPES.includes(contentType.toLowerCase().split(';')[0].trim());
+}
+
+/**
+ * Key a variant is stored under, next to the original
+ */
+export function createDerivativeKey(originalKey: string, variant: ImageVariant): string {
+  const key = createThumbnailKey(originalKey, variant.name);
+  if (!variant.format) {
+    return key;
+  }
+  const extension = extname(key);
+  return `${extension ? key.slice(0, -extension.length) : key}${FORMAT_EXTENSIONS[variant.format]}`;
+}
+
+/**
+ * Generate every configured variant of a stored image, replacing any that already exist
+ */
+export async function generateImageDerivatives(
+  provider: StorageProvider,
+  key: string,
+  options: ImageDerivativeOptions,
+): Promise<ImageDerivativeResult[]> {
+  const fileInfo = await findFileByKey(provider, key);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with key ${key} not found`);
+  }
+  return generateVariants(provider, fileInfo, options.variants, options.processor || sharpImageProcessor);
+}
+
+/**
+ * URL of a variant. In lazy mode, or when the variant is missing, it is generated first.
+ */
+export async function getImageDerivativeUrl(
+  provider: StorageProvider,
+  key: string,
+  variantName: string,
+  options: ImageDerivativeOptions,
+  expiresIn?: number,
+): Promise<string> {
+  const variant = findVariant(options, variantName);
+  const derivativeKey = createDerivativeKey(key, variant);
+
+  if (!await provider.fileExists(derivativeKey)) {
+    const fileInfo = await findFileByKey(provider, key);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    await generateVariants(provider, fileInfo, [variant], options.processor || sharpImageProcessor);
+  }
+
+  return provider.getFileUrl(derivativeKey, expiresIn);
+}
+
+/**
+ * Delete every configured variant of an image. Missing variants are skipped.
+ */
+export async function deleteImageDerivatives(
+  provider: StorageProvider,
+  key: string,
+  options: ImageDerivativeOptions,
+): Promise<string[]> {
+  const deletedKeys: string[] = [];
+  for (const variant of options.variants) {
+    const derivativeKey = createDerivativeKey(key, variant);
+    if (derivativeKey !== key && await provider.fileExists(derivativeKey)) {
+      await provider.deleteFile(derivativeKey);
+      deletedKeys.push(derivativeKey);
+    }
+  }
+  return deletedKeys;
+}
+
+/**
+ * Keep derivatives in step with their originals: generate them when an image is uploaded
+ * (in eager mode) and delete them when the original is deleted.
+ * Derivatives are written through the wrapped provider, so they do not trigger the middleware again.
+ * Variants that fail at upload are passed to onError and generated on the next getImageDerivativeUrl call.
+ */
+export function createImageDerivativesMiddleware(options: ImageDerivativeOptions): StorageMiddleware {
+  const processor = options.processor || sharpImageProcessor;
+  const onError = options.onError
+    || ((error, key) => console.error(`[Storage] Failed to generate image derivatives of ${key}:`, error));
+
+  return async (context, next) => {
+    const { provider } = context;
+
+    switch (context.method) {
+      case 'uploadFile': {
+        const result: StorageUploadResult = await next();
+        if (options.mode !== 'lazy' && isProcessableImage(result.contentType) && !isDerivative(context.args[0].metadata)) {
+          // Reuse the uploaded buffer rather than reading the file back
+          const source: Buffer | undefined = context.args[0].buffer;
+          try {
+            await generateVariants(provider, result, options.variants, processor, source);
+          } catch (error) {
+            onError(error, result.key);
+          }
+        }
+        return result;
+      }
+      case 'deleteFile': {
+        const result = await next();
+        await deleteImageDerivatives(provider, context.args[0], options);
+        return result;
+      }
+      case 'deleteFiles': {
+        const results: FileDeleteResult[] = await next();
+        for (const result of results) {
+          if (result.success) {
+            await deleteImageDerivatives(provider, result.key, options);
+          }
+        }
+        return results;
+      }
+      case 'deleteFileByExternalId': {
+        const fileInfo = await provider.findFileByExternalId(context.args[0]);
+        const result = await next();
+        if (fileInfo) {
+          await deleteImageDerivatives(provider, fileInfo.key, options);
+        }
+        return result;
+      }
+      default:
+        return next();
+    }
+  };
+}
+
+/**
+ * Default processor, backed by the optional `sharp` package
+ */
+export const sharpImageProcessor: ImageProcessor = async (input, variant) => {
+  const sharp = await loadSharp();
+
+  // rotate() applies the EXIF orientation before the metadata is stripped
+  let pipeline = sharp(input).rotate();
+  if (variant.width || variant.height) {
+    pipeline = pipeline.resize({
+      width: variant.width,
+      height: variant.height,
+      fit: variant.fit || 'inside',
+      withoutEnlargement: true,
+    });
+  }
+  if (variant.format) {
+    pipeline = pipeline.toFormat(variant.format, { quality: variant.quality });
+  } else if (variant.quality) {
+    const { format } = await sharp(input).metadata();
+    pipeline = pipeline.toFormat(format, { quality: variant.quality });
+  }
+
+  return pipeline.toBuffer();
+};
+
+async function loadSharp(): Promise<any> {
+  try {
+    // Dynamic import with error handling
+    const sharpPackage = 'sharp'.split('').join('');
+    const sharpModule = await import(sharpPackage);
+    return sharpModule.default || sharpModule;
+  } catch (error) {
+    if ((error as any).code === 'MODULE_NOT_FOUND') {
+      throw new Error(
+        'sharp package not found. Please install it with:\n' +
+        'npm install sharp\n' +
+        'or\n' +
+        'yarn add sharp',
+      );
+    }
+    throw error;
+  }
+}
+
+async function generateVariants(
+  provider: StorageProvider,
+  original: StorageFileInfo | StorageUploadResult,
+  variants: ImageVariant[],
+  processor: ImageProcessor,
+  source?: Buffer,
+): Promise<ImageDerivativeResult[]> {
+  if (!isProcessableImage(original.contentType)) {
+    throw new StorageError(
+      `File with key ${original.key} is not an image that can be processed (${original.contentType})`,
+      'UNSUPPORTED_IMAGE',
+      415,
+    );
+  }
+
+  const input = source || await readAll(await openFileStream(provider, original.key));
+  const isPublic = original.visibility ? original.visibility === 'public' : await isPubliclyVisible(provider, original.key);
+
+  const results: ImageDerivativeResult[] = [];
+  for (const variant of variants) {
+    let output: Buffer;
+    try {
+      output = await processor(input, variant);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to generate "${variant.name}" variant of ${original.key}: ${error instanceof Error ? error.message : String(error)}`,
+        'IMAGE_PROCESSING_FAILED',
+        422,
+        error as Error,
+      );
+    }
+
+    const derivativeKey = createDerivativeKey(original.key, variant);
+    const result = await provider.uploadFile({
+      buffer: output,
+      external_id: `${original.external_id}_${variant.name}`,
+      key: derivativeKey,
+      filename: derivativeKey.split('/').pop(),
+      contentType: variant.format ? `image/${variant.format}` : original.contentType,
+      size: output.length,
+      public: isPublic,
+      metadata: {
+        [DERIVATIVE_METADATA_FIELDS.originalKey]: original.key,
+        [DERIVATIVE_METADATA_FIELDS.variant]: variant.name,
+      },
+    });
+    results.push({ ...result, variant: variant.name, originalKey: original.key });
+  }
+  return results;
+}
+
+function findVariant(options: ImageDerivativeOptions, name: string): ImageVariant {
+  const variant = options.variants.find(candidate => candidate.name === name);
+  if (!variant) {
+    throw new Error(`Unknown image variant "${name}". Configured variants: ${options.variants.map(v => v.name).join(', ')}`);
+  }
+  return variant;
+}
+
+// Some S3-compatible services hand metadata keys back with hyphens
+function isDerivative(metadata?: Record<string, string>): boolean {
+  return !!metadata && (DERIVATIVE_METADATA_FIELDS.originalKey in metadata || 'derivative-of' in metadata);
+}
+
+async function isPubliclyVisible(provider: StorageProvider, key: string): Promise<boolean> {
+  try {
+    const visibilityStatus = await provider.getFileVisibility(key);
+    return visibilityStatus.visibility === 'public';
+  } catch {
+    // If visibility check fails, keep derivatives private
+    return false;
+  }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
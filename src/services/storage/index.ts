@@ -4,6 +4,9 @@ export * from './types';
 // Main storage functions
 export * from './storage';
 
+// Provider capability discovery
+export * from './capabilities';
+
 // Configuration
 export { initializeStorageProvider } from './config';
 
@@ -13,15 +16,70 @@ export * from './validation';
 // Helper utilities
 export * from './utils';
 
+// Typed storage errors
+export * from './errors';
+
 // Storage synchronization
 export * from './sync';
 
+// Multipart / resumable uploads
+export * from './multipart';
+
+// Copy / move across keys and providers
+export * from './copy';
+
+// Checksum verification
+export * from './checksum';
+
+// Magic-byte content sniffing
+export * from './sniffing';
+
+// Batch deletes
+export * from './batch';
+
+// Folders on top of delimiter listings
+export * from './folders';
+
+// Streaming ZIP archives of many files
+export * from './archive';
+
+// Soft delete / trash
+export * from './trash';
+
+// Expiration and lifecycle rules
+export * from './lifecycle';
+
+// Middleware pipeline for wrapping providers
+export * from './middleware';
+
+// Typed events for uploads, deletes, visibility changes and copies
+export * from './events';
+
+// Retries and circuit breaking (built on the middleware pipeline)
+export * from './retry';
+
+// Read-through local disk cache
+export * from './cache';
+
+// Per-namespace quotas and usage accounting
+export * from './quota';
+
+// Client-side envelope encryption
+export * from './encryption';
+
+// Replication to secondary providers
+export * from './replication';
+
+// Image derivatives (thumbnails and responsive variants)
+export * from './images';
+
 // Note: Individual storage providers are available via specific imports to avoid loading optional dependencies:
 // - import { LocalStorageProvider } from 'crunchycone-lib/storage/providers/local'
 // - import { S3CompatibleProvider } from 'crunchycone-lib/storage/providers/s3'
 // - import { GCPStorageProvider } from 'crunchycone-lib/storage/providers/gcp'
 // - import { AzureStorageProvider } from 'crunchycone-lib/storage/providers/azure'
 // - import { CrunchyConeProvider } from 'crunchycone-lib/storage/providers/crunchycone'
+// - import { MemoryStorageProvider } from 'crunchycone-lib/storage/providers/memory'
 
 // Provider configuration types
 export type { AWSS3Config } from './providers/aws-s3';
@@ -31,4 +89,5 @@ export type { BackblazeB2Config } from './providers/backblaze';
 export type { CloudflareR2Config } from './providers/r2';
 export type { GCPStorageConfig } from './providers/gcp-storage';
 export type { AzureStorageConfig } from './providers/azure-storage';
-export type { CrunchyConeConfig } from './providers/crunchycone';
\ No newline at end of file
+export type { CrunchyConeConfig } from './providers/crunchycone';
+export type { MemoryStorageConfig } from './providers/memory';
\ No newline at end of file
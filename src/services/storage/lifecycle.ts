@@ -0,0 +1,199 @@
+import { StorageProvider, StorageFileInfo } from './types';
+import { moveFileBetweenProviders } from './copy';
+import { getEventedStorageProvider } from './storage';
+import { EXPIRATION_METADATA_FIELD, getExpirationFromMetadata, listAllFiles } from './utils';
+
+export interface LifecycleRule {
+  id?: string;                 // Shown in sweep results (default: the rule's position)
+  prefix?: string;             // Only files whose key starts with this
+  contentType?: string;        // Exact type, or a family such as 'image/*'
+  olderThanDays?: number;      // Only files last modified more than this many days ago
+  action?: 'delete' | 'archive'; // Default: 'delete'
+  archivePrefix?: string;      // Key prefix archived files are moved under (default: 'archive/')
+  archiveTo?: StorageProvider; // Archive to another provider, e.g. cold storage (default: the same provider)
+}
+
+export interface SweepOptions {
+  providers?: Record<string, StorageProvider>; // Providers to sweep, by name (default: { default: the configured provider })
+  rules?: LifecycleRule[];
+  prefix?: string;             // Only sweep files under this prefix
+  expired?: boolean;           // Delete files whose expiresAt has passed (default: true)
+  now?: Date;                  // Point in time to sweep at (default: now)
+  dryRun?: boolean;            // Don't change anything, just report what would be done
+  onFileComplete?: (result: SweepFileResult) => void;
+}
+
+export interface SweepResult {
+  success: boolean;
+  summary: {
+    scanned: number;
+    deleted: number;
+    archived: number;
+    errors: number;
+    durationMs: number;
+  };
+  details: SweepFileResult[];
+}
+
+export interface SweepFileResult {
+  provider: string;
+  external_id: string;
+  key: string;
+  action: 'deleted' | 'archived' | 'error';
+  reason: string;              // 'expired', or the id of the matching rule
+  archivedKey?: string;
+  error?: string;
+  size?: number;
+}
+
+export const DEFAULT_ARCHIVE_PREFIX = 'archive/';
+
+/**
+ * Delete files past their expiresAt and apply lifecycle rules, on every given provider.
+ * Expiration wins over rules; otherwise the first matching rule applies. Failures are reported per file.
+ *
+ * @example
+ * ```typescript
+ * const result = await sweepExpired({
+ *   rules: [
+ *     { id: 'tmp', prefix: 'tmp/', olderThanDays: 1 },
+ *     { id: 'old-exports', prefix: 'exports/', olderThanDays: 90, action: 'archive' },
+ *   ],
+ *   dryRun: true,
+ * });
+ * result.details.forEach(d => console.log(d.action, d.key, d.reason));
+ * ```
+ */
+export async function sweepExpired(options: SweepOptions = {}): Promise<SweepResult> {
+  const startTime = Date.now();
+  const now = options.now || new Date();
+  const rules = options.rules || [];
+  const providers = options.providers || { default: getEventedStorageProvider() };
+
+  for (const rule of rules) {
+    if (rule.prefix === undefined && rule.contentType === undefined && rule.olderThanDays === undefined) {
+      throw new Error(`Lifecycle rule ${rule.id || rules.indexOf(rule)} must set prefix, contentType or olderThanDays`);
+    }
+  }
+
+  const result: SweepResult = {
+    success: true,
+    summary: { scanned: 0, deleted: 0, archived: 0, errors: 0, durationMs: 0 },
+    details: [],
+  };
+
+  for (const [name, provider] of Object.entries(providers)) {
+    const files = await listAllFiles(provider, { prefix: options.prefix, includeMetadata: true });
+    result.summary.scanned += files.length;
+
+    for (const file of files) {
+      const reason = options.expired !== false && isExpired(file, now) ? 'expired' : undefined;
+      const ruleIndex = reason ? -1 : rules.findIndex(rule => matchesRule(file, rule, now));
+      if (!reason && ruleIndex === -1) {
+        continue;
+      }
+
+      const rule = ruleIndex === -1 ? undefined : rules[ruleIndex];
+      const fileResult = await applyAction(name, provider, file, rule, reason || rule?.id || `rule-${ruleIndex}`, options.dryRun);
+
+      result.details.push(fileResult);
+      if (fileResult.action === 'deleted') result.summary.deleted++;
+      else if (fileResult.action === 'archived') result.summary.archived++;
+      else result.summary.errors++;
+
+      options.onFileComplete?.(fileResult);
+    }
+  }
+
+  result.summary.durationMs = Date.now() - startTime;
+  result.success = result.summary.errors === 0;
+  return result;
+}
+
+/**
+ * Check whether a file's expiresAt has passed
+ */
+export function isExpired(file: Pick<StorageFileInfo, 'metadata'>, now: Date = new Date()): boolean {
+  const expiresAt = getExpirationFromMetadata(file.metadata);
+  return !!expiresAt && expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Check whether a file matches every condition a lifecycle rule sets
+ */
+export function matchesRule(file: StorageFileInfo, rule: LifecycleRule, now: Date = new Date()): boolean {
+  if (rule.prefix !== undefined && !file.key.startsWith(rule.prefix)) {
+    return false;
+  }
+
+  if (rule.contentType !== undefined) {
+    const matches = rule.contentType.endsWith('/*')
+      ? file.contentType.startsWith(rule.contentType.slice(0, -1))
+      : file.contentType === rule.contentType;
+    if (!matches) {
+      return false;
+    }
+  }
+
+  if (rule.olderThanDays !== undefined) {
+    // Files without a modification time can't be aged
+    if (!file.lastModified || now.getTime() - file.lastModified.getTime() < rule.olderThanDays * 24 * 60 * 60 * 1000) {
+      return false;
+    }
+  }
+
+  // Already archived files stay where they are
+  if (rule.action === 'archive' && !rule.archiveTo && file.key.startsWith(rule.archivePrefix ?? DEFAULT_ARCHIVE_PREFIX)) {
+    return false;
+  }
+
+  return true;
+}
+
+async function applyAction(
+  providerName: string,
+  provider: StorageProvider,
+  file: StorageFileInfo,
+  rule: LifecycleRule | undefined,
+  reason: string,
+  dryRun?: boolean,
+): Promise<SweepFileResult> {
+  const archive = !!rule && rule.action === 'archive';
+  const archivedKey = archive ? `${rule.archivePrefix ?? DEFAULT_ARCHIVE_PREFIX}${file.key}` : undefined;
+  const fileResult: SweepFileResult = {
+    provider: providerName,
+    external_id: file.external_id,
+    key: file.key,
+    action: archive ? 'archived' : 'deleted',
+    reason,
+    archivedKey,
+    size: file.size,
+  };
+
+  if (dryRun) {
+    return fileResult;
+  }
+
+  try {
+    if (archive) {
+      // Drop the expiration so the archived copy isn't swept again
+      const { [EXPIRATION_METADATA_FIELD]: _expiresAt, 'expires-at': _legacyExpiresAt, ...metadata } = file.metadata || {};
+      await moveFileBetweenProviders({
+        source: provider,
+        destination: rule?.archiveTo || provider,
+        sourceKey: file.key,
+        destinationKey: archivedKey,
+        metadata: { ...metadata, archived_at: new Date().toISOString() },
+        replaceMetadata: true,
+        overwrite: true,
+      });
+    } else {
+      await provider.deleteFile(file.key);
+    }
+  } catch (error) {
+    fileResult.action = 'error';
+    fileResult.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return fileResult;
+}
@@ -0,0 +1,362 @@
+import {
+  StorageProvider,
+  StorageUploadOptions,
+  StorageUploadResult,
+  StorageFileInfo,
+  ListFilesResult,
+  MultipartUpload,
+  UploadUrlOptions,
+  UploadUrlResult,
+  FileDeleteResult,
+  FileVisibilityResult,
+} from './types';
+import { StorageError, generateKeyFromExternalId } from './utils';
+import { StorageNotFoundError } from './errors';
+
+// Every method of the StorageProvider interface; these are the calls middlewares see
+export const STORAGE_METHODS = [
+  'uploadFile',
+  'deleteFile',
+  'deleteFileByExternalId',
+  'getFileUrl',
+  'getFileUrlByExternalId',
+  'fileExists',
+  'fileExistsByExternalId',
+  'findFileByExternalId',
+  'getFileInfo',
+  'listFiles',
+  'searchFiles',
+  'isAvailable',
+  'setFileVisibility',
+  'setFileVisibilityByExternalId',
+  'getFileVisibility',
+  'getFileVisibilityByExternalId',
+  'setMultipleFileVisibility',
+  'deleteFiles',
+  'getFileStream',
+  'getFileStreamByExternalId',
+  'initiateMultipartUpload',
+  'uploadPart',
+  'listParts',
+  'completeMultipartUpload',
+  'abortMultipartUpload',
+  'getUploadUrl',
+  'copyFile',
+  'copyFileByExternalId',
+  'moveFile',
+  'moveFileByExternalId',
+  'updateFileMetadata',
+  'updateFileMetadataByExternalId',
+  'getFileTags',
+  'setFileTags',
+  'setStorageClass',
+  'createFolder',
+  'deleteFolder',
+] as const;
+
+export type StorageMethod = typeof STORAGE_METHODS[number];
+
+// Methods that change stored data
+export const STORAGE_WRITE_METHODS: ReadonlySet<StorageMethod> = new Set<StorageMethod>([
+  'uploadFile',
+  'deleteFile',
+  'deleteFileByExternalId',
+  'setFileVisibility',
+  'setFileVisibilityByExternalId',
+  'setMultipleFileVisibility',
+  'deleteFiles',
+  'initiateMultipartUpload',
+  'uploadPart',
+  'completeMultipartUpload',
+  'abortMultipartUpload',
+  'getUploadUrl',
+  'copyFile',
+  'copyFileByExternalId',
+  'moveFile',
+  'moveFileByExternalId',
+  'updateFileMetadata',
+  'updateFileMetadataByExternalId',
+  'setFileTags',
+  'setStorageClass',
+  'createFolder',
+  'deleteFolder',
+]);
+
+export interface StorageMiddlewareContext {
+  method: StorageMethod;
+  args: any[];                 // Arguments for the call; middlewares may replace them before calling next()
+  provider: StorageProvider;   // The provider being wrapped
+}
+
+export type StorageMiddleware = (context: StorageMiddlewareContext, next: () => Promise<any>) => Promise<any>;
+
+// Middlewares each wrapped provider runs, outermost first, including those of the providers it wraps
+const appliedMiddlewares = new WeakMap<StorageProvider, StorageMiddleware[]>();
+
+/**
+ * Wrap a provider in an ordered chain of middlewares; the first middleware is the outermost.
+ * The result is still a StorageProvider and only exposes the optional methods the wrapped provider implements.
+ * Provider-specific methods outside the StorageProvider interface are passed through bound to the wrapped
+ * provider, so the calls they make internally (e.g. handleUploadRequest calling uploadFile with an already
+ * namespaced key) don't go through the middlewares a second time.
+ */
+export function applyStorageMiddleware(provider: StorageProvider, middlewares: StorageMiddleware[]): StorageProvider {
+  const wrappedMethods = new Map<PropertyKey, (...args: any[]) => Promise<any>>();
+  const boundMethods = new WeakMap<(...args: any[]) => any, (...args: any[]) => any>();
+
+  const dispatch = async (index: number, context: StorageMiddlewareContext): Promise<any> => {
+    if (index === middlewares.length) {
+      const method = provider[context.method] as (...args: any[]) => Promise<any>;
+      return method.apply(provider, context.args);
+    }
+    return middlewares[index](context, () => dispatch(index + 1, context));
+  };
+
+  const wrapper = new Proxy(provider, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      // The constructor stays as is: its name identifies the provider type
+      if (typeof value !== 'function' || property === 'constructor') {
+        return value;
+      }
+      if (!(STORAGE_METHODS as readonly PropertyKey[]).includes(property)) {
+        if (!boundMethods.has(value)) {
+          boundMethods.set(value, value.bind(target));
+        }
+        return boundMethods.get(value);
+      }
+
+      let wrapped = wrappedMethods.get(property);
+      if (!wrapped) {
+        wrapped = (...args: any[]) => dispatch(0, { method: property as StorageMethod, args, provider: target });
+        wrappedMethods.set(property, wrapped);
+      }
+      return wrapped;
+    },
+  });
+  appliedMiddlewares.set(wrapper, [...middlewares, ...(appliedMiddlewares.get(provider) || [])]);
+  return wrapper;
+}
+
+/**
+ * Whether a provider runs the middleware, applied to it directly or to a provider it wraps
+ */
+export function hasStorageMiddleware(provider: StorageProvider, middleware: StorageMiddleware): boolean {
+  return !!appliedMiddlewares.get(provider)?.includes(middleware);
+}
+
+// Built-in middlewares
+
+export interface StorageCallTiming {
+  method: StorageMethod;
+  durationMs: number;
+  success: boolean;
+  error?: unknown;
+}
+
+/**
+ * Report how long every call took
+ */
+export function createTimingMiddleware(onTiming: (timing: StorageCallTiming) => void): StorageMiddleware {
+  return async (context, next) => {
+    const startTime = Date.now();
+    try {
+      const result = await next();
+      onTiming({ method: context.method, durationMs: Date.now() - startTime, success: true });
+      return result;
+    } catch (error) {
+      onTiming({ method: context.method, durationMs: Date.now() - startTime, success: false, error });
+      throw error;
+    }
+  };
+}
+
+export interface LoggingMiddlewareOptions {
+  logger?: Pick<Console, 'log' | 'error'>; // Default: console
+  prefix?: string;                         // Default: '[Storage]'
+  logArgs?: boolean;                       // Include call arguments (buffers and streams are summarized; default: false)
+}
+
+/**
+ * Log every call with its duration, and failures with their error message
+ */
+export function createLoggingMiddleware(options: LoggingMiddlewareOptions = {}): StorageMiddleware {
+  const logger = options.logger || console;
+  const prefix = options.prefix || '[Storage]';
+
+  return async (context, next) => {
+    const startTime = Date.now();
+    const details: Record<string, unknown> = {};
+    if (options.logArgs) {
+      details.args = context.args.map(summarizeArg);
+    }
+
+    try {
+      const result = await next();
+      logger.log(`${prefix} ${context.method} completed`, { ...details, durationMs: Date.now() - startTime });
+      return result;
+    } catch (error) {
+      logger.error(`${prefix} ${context.method} failed`, {
+        ...details,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Reject every call that would change stored data
+ */
+export function createReadOnlyMiddleware(): StorageMiddleware {
+  return async (context, next) => {
+    if (STORAGE_WRITE_METHODS.has(context.method)) {
+      throw new StorageError(`Storage is read-only: ${context.method} is not allowed`, 'READ_ONLY', 403);
+    }
+    return next();
+  };
+}
+
+/**
+ * Keep every key under a prefix, so several apps or tenants can share one bucket.
+ * Callers see keys without the prefix; files outside it are invisible.
+ */
+export function createNamespaceMiddleware(namespace: string): StorageMiddleware {
+  const prefix = namespace.endsWith('/') ? namespace : `${namespace}/`;
+  const toInner = (key: string) => `${prefix}${key}`;
+  const toOuter = (key: string) => key.startsWith(prefix) ? key.slice(prefix.length) : key;
+  const isInside = (key: string) => key.startsWith(prefix);
+
+  const mapUploadResult = (result: StorageUploadResult) => ({ ...result, key: toOuter(result.key) });
+  const mapFileInfo = (file: StorageFileInfo) => ({ ...file, key: toOuter(file.key) });
+  const mapList = (result: ListFilesResult) => {
+    const files = result.files.filter(file => isInside(file.key));
+    const commonPrefixes = result.commonPrefixes?.filter(isInside).map(toOuter);
+    return { ...result, files: files.map(mapFileInfo), commonPrefixes };
+  };
+  const mapUpload = <T extends MultipartUpload | UploadUrlResult>(upload: T): T => ({ ...upload, key: toOuter(upload.key) });
+  const withKey = <T extends StorageUploadOptions | UploadUrlOptions>(options: T): T => ({
+    ...options,
+    key: toInner(options.key || generateKeyFromExternalId(options.external_id, options.filename)),
+  });
+
+  return async (context, next) => {
+    const { method, args } = context;
+
+    // external_id lookups search the whole provider, so check the match is inside the namespace
+    if (method.endsWith('ByExternalId')) {
+      const fileInfo = await context.provider.findFileByExternalId(args[0]);
+      const found = !!fileInfo && isInside(fileInfo.key);
+
+      if (method === 'findFileByExternalId') {
+        return found ? mapFileInfo(fileInfo as StorageFileInfo) : null;
+      }
+      if (method === 'fileExistsByExternalId') {
+        return found;
+      }
+      if (!found) {
+        throw new StorageNotFoundError(`File with external_id ${args[0]} not found`);
+      }
+    }
+
+    switch (method) {
+      case 'uploadFile':
+        context.args = [withKey(args[0]), ...args.slice(1)];
+        return mapUploadResult(await next());
+
+      case 'initiateMultipartUpload':
+        context.args = [withKey(args[0]), ...args.slice(1)];
+        return mapUpload(await next());
+
+      case 'getUploadUrl':
+        context.args = [withKey(args[0]), ...args.slice(1)];
+        return mapUpload(await next());
+
+      case 'uploadPart':
+      case 'listParts':
+      case 'abortMultipartUpload':
+        context.args = [{ ...args[0], key: toInner(args[0].key) }, ...args.slice(1)];
+        return next();
+
+      case 'completeMultipartUpload':
+        context.args = [{ ...args[0], key: toInner(args[0].key) }, ...args.slice(1)];
+        return mapUploadResult(await next());
+
+      case 'deleteFile':
+      case 'getFileUrl':
+      case 'fileExists':
+      case 'setFileVisibility':
+      case 'getFileVisibility':
+      case 'getFileStream':
+      case 'getFileTags':
+      case 'setFileTags':
+      case 'setStorageClass':
+      case 'createFolder':
+      case 'deleteFolder':
+        context.args = [toInner(args[0]), ...args.slice(1)];
+        return next();
+
+      case 'setMultipleFileVisibility':
+        context.args = [args[0].map(toInner), ...args.slice(1)];
+        return (await next()).map((result: FileVisibilityResult) => result.key === undefined ? result : { ...result, key: toOuter(result.key) });
+
+      case 'deleteFiles':
+        context.args = [args[0].map(toInner)];
+        return (await next()).map((result: FileDeleteResult) => ({ ...result, key: toOuter(result.key) }));
+
+      case 'copyFile':
+      case 'moveFile':
+        context.args = [toInner(args[0]), toInner(args[1]), ...args.slice(2)];
+        return mapUploadResult(await next());
+
+      case 'copyFileByExternalId':
+      case 'moveFileByExternalId':
+        context.args = [args[0], toInner(args[1]), ...args.slice(2)];
+        return mapUploadResult(await next());
+
+      case 'updateFileMetadata':
+        context.args = [toInner(args[0]), ...args.slice(1)];
+        return mapFileInfo(await next());
+
+      case 'getFileInfo': {
+        context.args = [toInner(args[0])];
+        const fileInfo: StorageFileInfo | null = await next();
+        return fileInfo && mapFileInfo(fileInfo);
+      }
+
+      case 'updateFileMetadataByExternalId':
+        return mapFileInfo(await next());
+
+      case 'listFiles':
+        context.args = [{ ...args[0], prefix: toInner(args[0]?.prefix || '') }];
+        return mapList(await next());
+
+      case 'searchFiles':
+        // SearchFilesOptions has no prefix; providers that honour it narrow the search, the rest are filtered below
+        context.args = [{ ...args[0], prefix }];
+        return mapList(await next());
+
+      default:
+        return next();
+    }
+  };
+}
+
+function summarizeArg(arg: unknown): unknown {
+  if (Buffer.isBuffer(arg)) {
+    return `<Buffer ${arg.length} bytes>`;
+  }
+  if (arg && typeof arg === 'object' && !Array.isArray(arg)) {
+    return Object.fromEntries(Object.entries(arg).map(([name, value]) => {
+      if (Buffer.isBuffer(value)) {
+        return [name, `<Buffer ${value.length} bytes>`];
+      }
+      if (name === 'stream' && value) {
+        return [name, '<Stream>'];
+      }
+      return [name, value];
+    }));
+  }
+  return arg;
+}
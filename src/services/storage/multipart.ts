@@ -0,0 +1,251 @@
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import {
+  StorageProvider,
+  StorageUploadOptions,
+  StorageUploadResult,
+  MultipartUpload,
+  MultipartUploadPart,
+} from './types';
+import { StorageError, DEFAULT_MULTIPART_PART_SIZE } from './utils';
+import { StorageInvalidInputError } from './errors';
+
+export interface MultipartUploadRunOptions extends StorageUploadOptions {
+  provider: StorageProvider;
+  partSize?: number; // Size of every part except the last (default: 8MB)
+
+  // Resume a previously initiated upload; parts already stored are not sent again
+  upload?: MultipartUpload;
+
+  // Callbacks for persisting the upload handle and tracking progress
+  onUploadInitiated?: (upload: MultipartUpload) => void | Promise<void>;
+  onProgress?: (progress: MultipartUploadProgress) => void;
+
+  // Discard stored parts when a part fails instead of leaving them for a resume (default: false)
+  abortOnError?: boolean;
+}
+
+export interface MultipartUploadProgress {
+  uploadId: string;
+  partNumber: number;
+  skipped: boolean; // Part was already stored by an earlier attempt
+  uploadedParts: number;
+  uploadedBytes: number;
+  totalParts?: number;
+  totalBytes?: number;
+}
+
+interface PartSource {
+  partNumber: number;
+  size: number;
+  read: () => Promise<Buffer>;
+}
+
+/**
+ * Check whether a provider implements the full multipart upload lifecycle
+ */
+export function supportsMultipartUpload(provider: StorageProvider): boolean {
+  return typeof provider.initiateMultipartUpload === 'function' &&
+    typeof provider.uploadPart === 'function' &&
+    typeof provider.listParts === 'function' &&
+    typeof provider.completeMultipartUpload === 'function' &&
+    typeof provider.abortMultipartUpload === 'function';
+}
+
+/**
+ * Upload a file in parts, resuming from the last good part when an upload handle is passed in.
+ * Providers without multipart support, and empty sources, fall back to a single uploadFile call.
+ */
+export async function uploadFileMultipart(options: MultipartUploadRunOptions): Promise<StorageUploadResult> {
+  const {
+    provider,
+    partSize: requestedPartSize,
+    upload: resumeUpload,
+    onUploadInitiated,
+    onProgress,
+    abortOnError = false,
+    ...uploadOptions
+  } = options;
+
+  const inputCount = [uploadOptions.filePath, uploadOptions.stream, uploadOptions.buffer].filter(Boolean).length;
+  if (inputCount !== 1) {
+    throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
+  }
+
+  if (!supportsMultipartUpload(provider)) {
+    if (resumeUpload) {
+      throw new Error('Storage provider does not support multipart uploads');
+    }
+    return provider.uploadFile(uploadOptions);
+  }
+
+  const totalBytes = await getSourceSize(uploadOptions);
+  // Providers reject empty parts, and an upload can't be completed without any
+  if (totalBytes === 0 && !resumeUpload) {
+    return provider.uploadFile(uploadOptions);
+  }
+
+  let upload: MultipartUpload;
+  if (resumeUpload) {
+    if (totalBytes !== undefined && resumeUpload.size !== undefined && totalBytes !== resumeUpload.size) {
+      throw new Error(`Cannot resume upload ${resumeUpload.uploadId}: source is ${totalBytes} bytes, upload expects ${resumeUpload.size}`);
+    }
+    upload = resumeUpload;
+  } else {
+    const { filePath: _filePath, stream: _stream, buffer: _buffer, ...initiateOptions } = uploadOptions;
+    upload = await provider.initiateMultipartUpload!({
+      ...initiateOptions,
+      size: totalBytes,
+      partSize: requestedPartSize ?? DEFAULT_MULTIPART_PART_SIZE,
+    });
+    await onUploadInitiated?.(upload);
+  }
+
+  const storedParts = new Map<number, MultipartUploadPart>();
+  if (resumeUpload) {
+    for (const part of await provider.listParts!(upload)) {
+      storedParts.set(part.partNumber, part);
+    }
+  }
+
+  const totalParts = totalBytes !== undefined ? Math.max(Math.ceil(totalBytes / upload.partSize), 1) : undefined;
+  const completedParts: MultipartUploadPart[] = [];
+  let uploadedBytes = 0;
+
+  try {
+    for await (const source of readParts(uploadOptions, upload.partSize, totalBytes)) {
+      const stored = storedParts.get(source.partNumber);
+      const skipped = !!stored && stored.size === source.size;
+
+      const part = skipped
+        ? stored as MultipartUploadPart
+        : await uploadPartWithContext(provider, upload, source);
+
+      completedParts.push(part);
+      uploadedBytes += part.size;
+
+      onProgress?.({
+        uploadId: upload.uploadId,
+        partNumber: part.partNumber,
+        skipped,
+        uploadedParts: completedParts.length,
+        uploadedBytes,
+        totalParts,
+        totalBytes,
+      });
+    }
+
+    if (completedParts.length === 0) {
+      // The stream turned out to be empty: drop the upload and store an empty file instead
+      await provider.abortMultipartUpload!(upload);
+      return await provider.uploadFile({ ...uploadOptions, filePath: undefined, stream: undefined, buffer: Buffer.alloc(0) });
+    }
+    return await provider.completeMultipartUpload!(upload, completedParts);
+  } catch (error) {
+    if (abortOnError) {
+      try {
+        await provider.abortMultipartUpload!(upload);
+      } catch {
+        // Keep the original error
+      }
+    }
+    throw error;
+  }
+}
+
+async function uploadPartWithContext(
+  provider: StorageProvider,
+  upload: MultipartUpload,
+  source: PartSource,
+): Promise<MultipartUploadPart> {
+  const data = await source.read();
+  try {
+    return await provider.uploadPart!(upload, source.partNumber, data);
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    throw new StorageError(
+      `Multipart upload ${upload.uploadId} failed at part ${source.partNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'MULTIPART_UPLOAD_FAILED',
+      500,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+async function getSourceSize(options: StorageUploadOptions): Promise<number | undefined> {
+  if (options.buffer) {
+    return options.buffer.length;
+  }
+  if (options.filePath) {
+    const stats = await fs.stat(options.filePath);
+    return stats.size;
+  }
+  return options.size;
+}
+
+async function* readParts(
+  options: StorageUploadOptions,
+  partSize: number,
+  totalBytes?: number,
+): AsyncGenerator<PartSource> {
+  if (options.buffer) {
+    const buffer = options.buffer;
+    for (let offset = 0, partNumber = 1; offset < buffer.length; offset += partSize, partNumber++) {
+      const data = buffer.subarray(offset, offset + partSize);
+      yield { partNumber, size: data.length, read: async () => data };
+    }
+    return;
+  }
+
+  if (options.filePath && totalBytes !== undefined) {
+    // Parts are read on demand so skipped parts never touch the disk
+    const handle = await fs.open(options.filePath, 'r');
+    try {
+      for (let offset = 0, partNumber = 1; offset < totalBytes; offset += partSize, partNumber++) {
+        const size = Math.min(partSize, totalBytes - offset);
+        yield {
+          partNumber,
+          size,
+          read: async () => {
+            const data = Buffer.alloc(size);
+            await handle.read(data, 0, size, offset);
+            return data;
+          },
+        };
+      }
+    } finally {
+      await handle.close();
+    }
+    return;
+  }
+
+  // Streams can't seek, so every part is read even when it is skipped
+  const stream = options.stream instanceof ReadableStream
+    ? Readable.fromWeb(options.stream as any)
+    : options.stream as Readable;
+
+  let pending: Buffer[] = [];
+  let pendingSize = 0;
+  let partNumber = 1;
+
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    pending.push(buffer);
+    pendingSize += buffer.length;
+
+    while (pendingSize >= partSize) {
+      const combined = Buffer.concat(pending);
+      const data = combined.subarray(0, partSize);
+      pending = [combined.subarray(partSize)];
+      pendingSize -= partSize;
+      yield { partNumber: partNumber++, size: data.length, read: async () => data };
+    }
+  }
+
+  if (pendingSize > 0) {
+    const data = Buffer.concat(pending);
+    yield { partNumber, size: data.length, read: async () => data };
+  }
+}
@@ -1,4 +1,10 @@
-import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo , ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions } from '../types';
+import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo , ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions, FileStreamOptions, FileStreamResult, MultipartUploadOptions, MultipartUpload, MultipartUploadPart, UploadUrlOptions, UploadUrlResult, CopyFileOptions, FileChecksum, FileDeleteResult, FileMetadataUpdate, UpdateFileMetadataOptions, StorageCapabilities } from '../types';
+import { StorageError, parseContentRange, validateMultipartPart, DEFAULT_MULTIPART_PART_SIZE, resolveUploadSizeRange, prepareUploadChecksum, checksumToMetadata, getChecksumFromMetadata, applyExpiration, getLibraryMetadata, matchesClassificationFilters } from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import type { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError, toStorageError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
 
 export interface AzureStorageConfig {
   accountName: string;
@@ -56,12 +62,16 @@ export class AzureStorageProvider implements StorageProvider {
 
   async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
     await this.ensureInitialized();
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
     
     const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
     const blockBlobClient = this.containerClient.getBlockBlobClient(key);
 
     let data: Buffer | NodeJS.ReadableStream;
     let size: number | undefined = options.size;
+    const uploadChecksum = await prepareUploadChecksum(options);
+    const checksum = uploadChecksum.checksum;
 
     if (options.filePath) {
       const fs = await import('fs');
@@ -71,12 +81,12 @@ export class AzureStorageProvider implements StorageProvider {
         size = stats.size;
       }
     } else if (options.stream) {
-      data = options.stream as NodeJS.ReadableStream;
+      data = uploadChecksum.wrap(options.stream as Readable);
     } else if (options.buffer) {
       data = options.buffer;
       size = options.buffer.length;
     } else {
-      throw new Error('No file source provided');
+      throw new StorageInvalidInputError('No file source provided');
     }
 
     const uploadOptions: any = {
@@ -86,14 +96,30 @@ export class AzureStorageProvider implements StorageProvider {
       metadata: {
         external_id: options.external_id,
         ...options.metadata,
+        ...checksumToMetadata(checksum),
       },
+      tags: options.tags,
+      tier: options.storageClass,
     };
 
+    if (checksum?.algorithm === 'md5') {
+      const md5 = Buffer.from(checksum.value, 'base64');
+      uploadOptions.blobHTTPHeaders.blobContentMD5 = md5;
+      // Single-request uploads are rejected by Azure when the content does not match
+      if (data instanceof Buffer) {
+        uploadOptions.transactionalContentMD5 = md5;
+      }
+    }
+
     let response: any;
-    if (data instanceof Buffer) {
-      response = await blockBlobClient.upload(data, data.length, uploadOptions);
-    } else {
-      response = await blockBlobClient.uploadStream(data, size, 5, uploadOptions);
+    try {
+      if (data instanceof Buffer) {
+        response = await blockBlobClient.upload(data, data.length, uploadOptions);
+      } else {
+        response = await blockBlobClient.uploadStream(data, size, 5, uploadOptions);
+      }
+    } catch (error) {
+      throw toStorageError(error, 'Failed to upload file');
     }
 
     const url = await this.getFileUrl(key);
@@ -105,6 +131,7 @@ export class AzureStorageProvider implements StorageProvider {
       size: size || 0,
       contentType: options.contentType || 'application/octet-stream',
       etag: response.etag,
+      checksum: uploadChecksum.result(),
       metadata: options.metadata,
       visibility: options.public ? 'temporary-public' : 'private',
       publicUrl: options.public ? url : undefined,
@@ -114,14 +141,42 @@ export class AzureStorageProvider implements StorageProvider {
   async deleteFile(key: string): Promise<void> {
     await this.ensureInitialized();
     const blockBlobClient = this.containerClient.getBlockBlobClient(key);
-    await blockBlobClient.delete();
+    try {
+      await blockBlobClient.delete();
+    } catch (error) {
+      throw toStorageError(error, 'Failed to delete file');
+    }
+  }
+
+  async deleteFiles(keys: string[]): Promise<FileDeleteResult[]> {
+    await this.ensureInitialized();
+    const batchClient = this.containerClient.getBlobBatchClient();
+    const results: FileDeleteResult[] = [];
+
+    // A blob batch holds at most 256 sub-requests
+    for (let i = 0; i < keys.length; i += 256) {
+      const chunk = keys.slice(i, i + 256);
+      try {
+        const response = await batchClient.deleteBlobs(chunk.map(key => this.containerClient.getBlobClient(key)));
+        chunk.forEach((key, index) => {
+          const subResponse = response.subResponses[index];
+          const success = !!subResponse && subResponse.status >= 200 && subResponse.status < 300;
+          results.push(success ? { key, success } : { key, success, message: subResponse?.errorCode || subResponse?.statusMessage || 'Unknown error' });
+        });
+      } catch (error) {
+        const message = `Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        results.push(...chunk.map(key => ({ key, success: false, message })));
+      }
+    }
+    return results;
   }
 
   async deleteFileByExternalId(externalId: string): Promise<void> {
     const fileInfo = await this.findFileByExternalId(externalId);
-    if (fileInfo) {
-      await this.deleteFile(fileInfo.key);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
+    await this.deleteFile(fileInfo.key);
   }
 
   async getFileUrl(key: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
@@ -172,7 +227,7 @@ export class AzureStorageProvider implements StorageProvider {
   async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     return this.getFileUrl(fileInfo.key, expiresIn, options);
   }
@@ -187,7 +242,7 @@ export class AzureStorageProvider implements StorageProvider {
       if ((error as any).statusCode === 404) {
         return false;
       }
-      throw error;
+      throw toStorageError(error, 'Failed to check file existence');
     }
   }
 
@@ -199,25 +254,539 @@ export class AzureStorageProvider implements StorageProvider {
   async findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
     await this.ensureInitialized();
     
-    for await (const blob of this.containerClient.listBlobsFlat({ 
-      includeMetadata: true, 
-    })) {
-      if (blob.metadata?.external_id === externalId) {
-        const url = await this.getFileUrl(blob.name);
-        return {
+    try {
+      for await (const blob of this.containerClient.listBlobsFlat({ 
+        includeMetadata: true, 
+      })) {
+        if (blob.metadata?.external_id === externalId) {
+          const url = await this.getFileUrl(blob.name);
+          return {
+            external_id: externalId,
+            key: blob.name,
+            url,
+            size: blob.properties.contentLength || 0,
+            contentType: blob.properties.contentType || 'application/octet-stream',
+            lastModified: blob.properties.lastModified,
+            etag: blob.properties.etag,
+            checksum: this.getStoredChecksum(blob),
+            metadata: blob.metadata,
+          };
+        }
+      }
+    } catch (error) {
+      throw toStorageError(error, 'Failed to find file');
+    }
+
+    return null;
+  }
+
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    await this.ensureInitialized();
+
+    let properties: any;
+    try {
+      properties = await this.containerClient.getBlockBlobClient(key).getProperties();
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        return null;
+      }
+      throw toStorageError(error, 'Failed to find file');
+    }
+
+    return {
+      external_id: properties.metadata?.external_id,
+      key,
+      url: await this.getFileUrl(key),
+      size: properties.contentLength || 0,
+      contentType: properties.contentType || 'application/octet-stream',
+      lastModified: properties.lastModified,
+      etag: properties.etag,
+      checksum: this.getStoredChecksum({ properties, metadata: properties.metadata }),
+      metadata: properties.metadata,
+      cacheControl: properties.cacheControl,
+      contentDisposition: properties.contentDisposition,
+      storageClass: properties.accessTier,
+    };
+  }
+
+  // File streaming operations
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
+    await this.ensureInitialized();
+
+    const {
+      start,
+      end,
+      responseType = 'node',
+      signal,
+      timeout = 30000,
+    } = options;
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(key);
+    const isRangeRequest = start !== undefined || end !== undefined;
+    const offset = start ?? 0;
+    const count = end !== undefined ? end - offset + 1 : undefined;
+
+    if (isRangeRequest && (offset < 0 || (count !== undefined && count <= 0))) {
+      throw new StorageError(
+        `Requested range ${offset}-${end ?? ''} is not satisfiable for ${key}`,
+        'RANGE_NOT_SATISFIABLE',
+        416,
+      );
+    }
+
+    // Create abort controller for timeout and cancellation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    if (signal?.aborted) {
+      controller.abort();
+    } else if (signal) {
+      signal.addEventListener('abort', () => controller.abort());
+    }
+
+    try {
+      const response = await blockBlobClient.download(offset, count, {
+        abortSignal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const range = parseContentRange(response.contentRange);
+      const isPartialContent = isRangeRequest && !!range;
+
+      const nodeStream = response.readableStreamBody as NodeJS.ReadableStream;
+      const { Readable } = await import('stream');
+      const stream: NodeJS.ReadableStream | ReadableStream = responseType === 'web'
+        ? Readable.toWeb(nodeStream as any) as ReadableStream
+        : nodeStream;
+
+      return {
+        stream,
+        contentType: response.contentType || 'application/octet-stream',
+        contentLength: response.contentLength,
+        lastModified: response.lastModified,
+        etag: response.etag,
+        acceptsRanges: response.acceptRanges ? response.acceptRanges === 'bytes' : true,
+        isPartialContent,
+        range: isPartialContent ? range : undefined,
+        streamType: responseType,
+        providerSpecific: {
+          cacheControl: response.cacheControl,
+          blobType: response.blobType,
+        },
+        cleanup: async () => {
+          controller.abort();
+        },
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+      const statusCode = (error as any).statusCode;
+      if (statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      if (statusCode === 416) {
+        throw new StorageError(
+          `Requested range ${offset}-${end ?? ''} is not satisfiable for ${key}`,
+          'RANGE_NOT_SATISFIABLE',
+          416,
+          error as Error,
+        );
+      }
+      if ((error as any).name === 'AbortError') {
+        throw new Error(signal?.aborted ? 'File stream request aborted' : `File stream request timeout after ${timeout}ms`);
+      }
+      throw toStorageError(error, 'Failed to create file stream');
+    }
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileStream(fileInfo.key, options);
+  }
+
+  // Multipart upload operations (backed by staged block blob blocks)
+  async initiateMultipartUpload(options: MultipartUploadOptions): Promise<MultipartUpload> {
+    options = applyExpiration(options);
+    await this.ensureInitialized();
+
+    const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
+
+    // Blocks are staged against the blob itself, so the upload id only namespaces block ids
+    return {
+      uploadId: randomBytes(8).toString('hex'),
+      key,
+      external_id: options.external_id,
+      filename: options.filename,
+      contentType: options.contentType || 'application/octet-stream',
+      partSize: options.partSize ?? DEFAULT_MULTIPART_PART_SIZE,
+      size: options.size,
+      public: options.public,
+      metadata: options.metadata,
+      tags: options.tags,
+      storageClass: options.storageClass,
+      initiatedAt: new Date().toISOString(),
+    };
+  }
+
+  async uploadPart(upload: MultipartUpload, partNumber: number, data: Buffer): Promise<MultipartUploadPart> {
+    validateMultipartPart(upload, partNumber, data.length);
+    await this.ensureInitialized();
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(upload.key);
+    const blockId = this.getBlockId(upload, partNumber);
+
+    try {
+      await blockBlobClient.stageBlock(blockId, data, data.length);
+      return {
+        partNumber,
+        size: data.length,
+        etag: blockId,
+        lastModified: new Date(),
+      };
+    } catch (error) {
+      throw toStorageError(error, `Failed to upload part ${partNumber}`);
+    }
+  }
+
+  async listParts(upload: MultipartUpload): Promise<MultipartUploadPart[]> {
+    await this.ensureInitialized();
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(upload.key);
+    let blockList: any;
+    try {
+      blockList = await blockBlobClient.getBlockList('uncommitted');
+    } catch (error: any) {
+      // Nothing has been staged yet
+      if (error?.statusCode === 404) {
+        return [];
+      }
+      throw toStorageError(error, 'Failed to list parts');
+    }
+
+    const parts: MultipartUploadPart[] = [];
+    for (const block of blockList.uncommittedBlocks || []) {
+      const [uploadId, partNumber] = Buffer.from(block.name, 'base64').toString().split('-');
+      if (uploadId === upload.uploadId) {
+        parts.push({
+          partNumber: parseInt(partNumber),
+          size: block.size,
+          etag: block.name,
+        });
+      }
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts?: MultipartUploadPart[]): Promise<StorageUploadResult> {
+    await this.ensureInitialized();
+
+    const uploadedParts = [...(parts ?? await this.listParts(upload))].sort((a, b) => a.partNumber - b.partNumber);
+    if (uploadedParts.length === 0) {
+      throw new StorageInvalidInputError(`Multipart upload ${upload.uploadId} has no parts to complete`);
+    }
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(upload.key);
+    let response: any;
+    try {
+      response = await blockBlobClient.commitBlockList(
+        uploadedParts.map(part => this.getBlockId(upload, part.partNumber)),
+        {
+          blobHTTPHeaders: {
+            blobContentType: upload.contentType,
+          },
+          metadata: {
+            external_id: upload.external_id,
+            ...upload.metadata,
+          },
+          tags: upload.tags,
+          tier: upload.storageClass,
+        },
+      );
+    } catch (error) {
+      throw toStorageError(error, 'Failed to complete multipart upload');
+    }
+
+    const url = await this.getFileUrl(upload.key);
+
+    return {
+      external_id: upload.external_id,
+      key: upload.key,
+      url,
+      size: uploadedParts.reduce((total, part) => total + part.size, 0),
+      contentType: upload.contentType,
+      etag: response.etag,
+      metadata: upload.metadata,
+      visibility: upload.public ? 'temporary-public' : 'private',
+      publicUrl: upload.public ? url : undefined,
+    };
+  }
+
+  async abortMultipartUpload(_upload: MultipartUpload): Promise<void> {
+    // Azure has no API to discard staged blocks; uncommitted blocks are
+    // garbage collected by the service after seven days
+  }
+
+  private getBlockId(upload: MultipartUpload, partNumber: number): string {
+    // Block ids must all be the same length within a blob
+    return Buffer.from(`${upload.uploadId}-${String(partNumber).padStart(5, '0')}`).toString('base64');
+  }
+
+  // Direct upload operations
+  async getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+    await this.ensureInitialized();
+
+    // SAS tokens can't carry content-type or size conditions, so refuse rather than ignore them
+    if (options.method === 'POST') {
+      throw new StorageError('Azure Blob Storage does not support POST upload policies', 'INVALID_UPLOAD', 400);
+    }
+    if (resolveUploadSizeRange(options)) {
+      throw new StorageError('Azure SAS upload URLs cannot enforce upload size limits', 'INVALID_UPLOAD', 400);
+    }
+    if (!this.config.accountKey) {
+      throw new Error('Account key required for SAS token generation');
+    }
+
+    const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
+    const contentType = options.contentType || 'application/octet-stream';
+    const expiresAt = new Date(Date.now() + (options.expiresIn ?? 3600) * 1000);
+
+    try {
+      const azurePackage = '@azure/storage-blob'.split('').join('');
+      const { generateBlobSASQueryParameters, BlobSASPermissions, StorageSharedKeyCredential } = await import(azurePackage);
+      const credential = new StorageSharedKeyCredential(this.config.accountName, this.config.accountKey);
+
+      const sasToken = generateBlobSASQueryParameters({
+        containerName: this.config.containerName,
+        blobName: key,
+        permissions: BlobSASPermissions.parse('cw'), // Create and write only
+        startsOn: new Date(),
+        expiresOn: expiresAt,
+      }, credential).toString();
+
+      const blockBlobClient = this.containerClient.getBlockBlobClient(key);
+
+      const headers: Record<string, string> = {
+        'x-ms-blob-type': 'BlockBlob',
+        'Content-Type': contentType,
+        'x-ms-blob-content-type': contentType,
+        'x-ms-meta-external_id': options.external_id,
+      };
+      for (const [name, value] of Object.entries(options.metadata || {})) {
+        headers[`x-ms-meta-${name}`] = value;
+      }
+
+      return {
+        url: `${blockBlobClient.url}?${sasToken}`,
+        method: 'PUT',
+        headers,
+        key,
+        external_id: options.external_id,
+        contentType,
+        expiresAt,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to generate upload URL');
+    }
+  }
+
+  // Copy / move operations
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    await this.ensureInitialized();
+
+    const sourceBlobClient = this.containerClient.getBlockBlobClient(sourceKey);
+    let properties: any;
+    try {
+      properties = await sourceBlobClient.getProperties();
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+      }
+      throw toStorageError(error, 'Failed to copy file');
+    }
+
+    if (!options.overwrite && await this.fileExists(destinationKey)) {
+      throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+    }
+
+    const { external_id: sourceExternalId, ...customMetadata } = properties.metadata || {};
+    const externalId = options.external_id || sourceExternalId || '';
+    const contentType = options.contentType || properties.contentType || 'application/octet-stream';
+    const metadata = options.replaceMetadata ? { ...options.metadata } : { ...customMetadata, ...options.metadata };
+
+    const destinationBlobClient = this.containerClient.getBlockBlobClient(destinationKey);
+
+    try {
+      // Metadata is copied from the source unless new metadata is supplied
+      const copyOptions: any = {};
+      if (options.external_id !== undefined || options.metadata !== undefined || options.replaceMetadata) {
+        copyOptions.metadata = {
           external_id: externalId,
-          key: blob.name,
-          url,
-          size: blob.properties.contentLength || 0,
-          contentType: blob.properties.contentType || 'application/octet-stream',
-          lastModified: blob.properties.lastModified,
-          etag: blob.properties.etag,
-          metadata: blob.metadata,
+          ...metadata,
         };
       }
+
+      const poller = await destinationBlobClient.beginCopyFromURL(sourceBlobClient.url, copyOptions);
+      const copyResult = await poller.pollUntilDone();
+
+      if (options.contentType !== undefined) {
+        // setHTTPHeaders replaces every header, so carry the others over
+        await destinationBlobClient.setHTTPHeaders({
+          blobContentType: contentType,
+          blobCacheControl: properties.cacheControl,
+          blobContentDisposition: properties.contentDisposition,
+          blobContentEncoding: properties.contentEncoding,
+          blobContentLanguage: properties.contentLanguage,
+        });
+      }
+
+      const url = await this.getFileUrl(destinationKey);
+
+      return {
+        external_id: externalId,
+        key: destinationKey,
+        url,
+        size: properties.contentLength || 0,
+        contentType,
+        etag: copyResult?.etag,
+        metadata,
+        visibility: options.public ? 'temporary-public' : 'private',
+        publicUrl: options.public ? url : undefined,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to copy file');
     }
+  }
 
-    return null;
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+
+    const result = await this.copyFile(sourceKey, destinationKey, options);
+    await this.deleteFile(sourceKey);
+    return result;
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  // In-place metadata updates
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    await this.ensureInitialized();
+
+    const blockBlobClient = this.containerClient.getBlockBlobClient(key);
+    let properties: any;
+    try {
+      properties = await blockBlobClient.getProperties();
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+
+    const { external_id: externalId, ...storedMetadata } = properties.metadata || {};
+    const metadata = options.merge === false
+      ? { ...getLibraryMetadata(storedMetadata), ...update.metadata }
+      : { ...storedMetadata, ...update.metadata };
+    const contentType = update.contentType ?? properties.contentType ?? 'application/octet-stream';
+    const cacheControl = update.cacheControl ?? properties.cacheControl;
+    const contentDisposition = update.contentDisposition ?? properties.contentDisposition;
+
+    try {
+      // Both calls replace everything they cover, so resend what should survive
+      await blockBlobClient.setMetadata({ ...metadata, external_id: externalId || '' });
+      const headers = await blockBlobClient.setHTTPHeaders({
+        blobContentType: contentType,
+        blobCacheControl: cacheControl,
+        blobContentDisposition: contentDisposition,
+        blobContentEncoding: properties.contentEncoding,
+        blobContentLanguage: properties.contentLanguage,
+        blobContentMD5: properties.contentMD5,
+      });
+
+      return {
+        external_id: externalId || '',
+        key,
+        url: await this.getFileUrl(key),
+        size: properties.contentLength || 0,
+        contentType,
+        lastModified: headers?.lastModified,
+        etag: headers?.etag,
+        checksum: this.getStoredChecksum({ metadata, properties }),
+        metadata,
+        cacheControl,
+        contentDisposition,
+        storageClass: properties.accessTier,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  // Blob index tags and access tiers (the storage class is the tier name: Hot, Cool, Cold or Archive)
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    await this.ensureInitialized();
+
+    try {
+      const response = await this.containerClient.getBlobClient(key).getTags();
+      return response.tags || {};
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to get file tags');
+    }
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.containerClient.getBlobClient(key).setTags(tags);
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to set file tags');
+    }
+  }
+
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.containerClient.getBlobClient(key).setAccessTier(storageClass);
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to set storage class');
+    }
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -226,6 +795,13 @@ export class AzureStorageProvider implements StorageProvider {
     }
   }
 
+  // Azure sets Content-MD5 for blobs uploaded in a single request, so fall back to it when no checksum was stored
+  private getStoredChecksum(blob: any): FileChecksum | undefined {
+    const contentMD5 = blob.properties?.contentMD5;
+    return getChecksumFromMetadata(blob.metadata)
+      || (contentMD5 ? { algorithm: 'md5', value: Buffer.from(contentMD5).toString('base64') } : undefined);
+  }
+
   async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
     await this.ensureInitialized();
 
@@ -244,23 +820,40 @@ export class AzureStorageProvider implements StorageProvider {
 
     const listOptions: any = {
       includeMetadata: true,
+      includeTags: !!options.tags,
       prefix: prefix || undefined,
     };
 
-    if (continuationToken) {
-      listOptions.continuationToken = continuationToken;
-    }
-
     const allFiles: StorageFileInfo[] = [];
-    let nextContinuationToken: string | undefined;
+    const commonPrefixes = new Set<string>();
+    let nextContinuationToken = continuationToken;
 
     try {
-      const listResponse = this.containerClient.listBlobsFlat(listOptions);
+      const listResponse = options.delimiter
+        ? this.containerClient.listBlobsByHierarchy(options.delimiter, listOptions)
+        : this.containerClient.listBlobsFlat(listOptions);
       
-      for await (const blob of listResponse.byPage({ maxPageSize: limit + offset + 100 })) {
-        nextContinuationToken = blob.continuationToken;
+      // Each request asks for no more blobs than the page still has room for, so the next continuation token
+      // doesn't skip fetched blobs left off the page
+      do {
+        const { value: blob } = await listResponse
+          .byPage({ continuationToken: nextContinuationToken, maxPageSize: limit + offset - allFiles.length })
+          .next();
+        nextContinuationToken = blob?.continuationToken || undefined;
+        if (!blob) {
+          break;
+        }
+
+        for (const blobPrefix of blob.segment.blobPrefixes || []) {
+          commonPrefixes.add(blobPrefix.name);
+        }
         
         for (const blobItem of blob.segment.blobItems) {
+          // The folder marker of the listed prefix isn't a file in it
+          if (options.delimiter && blobItem.name === prefix) {
+            continue;
+          }
+
           // Apply filters
           if (externalIdPrefix && !blobItem.metadata?.external_id?.startsWith(externalIdPrefix)) {
             continue;
@@ -288,19 +881,21 @@ export class AzureStorageProvider implements StorageProvider {
             contentType: blobItem.properties.contentType || 'application/octet-stream',
             lastModified: blobItem.properties.lastModified,
             etag: blobItem.properties.etag,
+            checksum: this.getStoredChecksum(blobItem),
             metadata: blobItem.metadata,
+            storageClass: blobItem.properties.accessTier,
+            tags: blobItem.tags,
           };
 
-          allFiles.push(fileInfo);
-        }
+          if (!matchesClassificationFilters(fileInfo, options)) {
+            continue;
+          }
 
-        // Break if we have enough files for pagination
-        if (allFiles.length >= limit + offset) {
-          break;
+          allFiles.push(fileInfo);
         }
-      }
+      } while (nextContinuationToken && allFiles.length < limit + offset);
     } catch (error) {
-      throw new Error(`Failed to list files: ${(error as Error).message}`);
+      throw toStorageError(error, 'Failed to list files');
     }
 
     // Sort files
@@ -344,6 +939,7 @@ export class AzureStorageProvider implements StorageProvider {
       hasMore,
       nextOffset: hasMore ? offset + limit : undefined,
       continuationToken: nextContinuationToken,
+      commonPrefixes: options.delimiter ? [...commonPrefixes] : undefined,
     };
   }
 
@@ -514,7 +1110,7 @@ export class AzureStorageProvider implements StorageProvider {
     // Check if file exists
     const exists = await this.fileExists(key);
     if (!exists) {
-      throw new Error(`File with key ${key} not found`);
+      throw new StorageNotFoundError(`File with key ${key} not found`);
     }
 
     // Azure doesn't support individual blob permissions, so files are always private
@@ -531,7 +1127,7 @@ export class AzureStorageProvider implements StorageProvider {
   async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     
     return this.getFileVisibility(fileInfo.key);
@@ -562,10 +1158,14 @@ export class AzureStorageProvider implements StorageProvider {
       const sasToken = generateBlobSASQueryParameters(sasOptions, credential).toString();
       return `${blockBlobClient.url}?${sasToken}`;
     } catch (error) {
-      throw new Error(`Failed to generate SAS token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to generate SAS token');
     }
   }
 
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('azure');
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const azurePackage = '@azure/storage-blob'.split('').join('');
@@ -1,5 +1,10 @@
-import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo, ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileStreamOptions, FileStreamResult, FileUrlOptions } from '../types';
+import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo, ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileStreamOptions, FileStreamResult, FileUrlOptions, UploadUrlOptions, UploadUrlResult, FileMetadataUpdate, UpdateFileMetadataOptions, StorageCapabilities } from '../types';
+import { StorageError, resolveUploadSizeRange, prepareUploadChecksum, checksumToMetadata, getChecksumFromMetadata, applyExpiration, getLibraryMetadata, groupByDelimiter } from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import { Readable } from 'stream';
 import { getCrunchyConeAPIKeyWithFallback, getCrunchyConeAPIURL, getCrunchyConeProjectID } from '../../../auth';
+import { StorageNotFoundError, StorageInvalidInputError, StorageProviderUnavailableError, classifyStorageError, storageErrorForStatus, toStorageError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
 
 export interface CrunchyConeConfig {
   apiUrl: string;              // API endpoint (e.g., https://api.crunchycone.com)
@@ -158,7 +163,7 @@ export class CrunchyConeProvider implements StorageProvider {
           errorParts.push(`Response: ${errorDetails}`);
         }
 
-        throw new Error(errorParts.join(' | '));
+        throw storageErrorForStatus(response.status, errorParts.join(' | '));
       }
 
       // Handle 204 No Content responses
@@ -170,9 +175,9 @@ export class CrunchyConeProvider implements StorageProvider {
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`);
+        throw new StorageProviderUnavailableError(`Request timeout after ${timeout}ms`, error);
       }
-      throw error;
+      throw toStorageError(error, 'CrunchyCone API request failed');
     }
   }
 
@@ -182,12 +187,21 @@ export class CrunchyConeProvider implements StorageProvider {
     // Validate input - exactly one source should be provided
     const inputCount = [options.filePath, options.stream, options.buffer].filter(Boolean).length;
     if (inputCount !== 1) {
-      throw new Error('Exactly one of filePath, stream, or buffer must be provided');
+      throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
+    }
+    if (options.stream && !options.size) {
+      throw new StorageInvalidInputError('File size must be provided when uploading from stream');
     }
+    if (options.tags || options.storageClass) {
+      throw new StorageError('CrunchyCone storage does not support object tags or storage classes', 'NOT_SUPPORTED', 501);
+    }
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
 
     let fileSize: number;
     let fileData: Buffer | ReadableStream | NodeJS.ReadableStream;
     let contentType = options.contentType || 'application/octet-stream';
+    const uploadChecksum = await prepareUploadChecksum(options);
 
     // Handle different input types and determine file size
     if (options.buffer) {
@@ -198,14 +212,13 @@ export class CrunchyConeProvider implements StorageProvider {
       const stats = await fs.promises.stat(options.filePath);
       fileSize = stats.size;
       fileData = fs.createReadStream(options.filePath);
-    } else if (options.stream) {
-      if (!options.size) {
-        throw new Error('File size must be provided when uploading from stream');
-      }
-      fileData = options.stream;
+    } else if (options.stream && options.size) {
+      fileData = options.checksumAlgorithm
+        ? uploadChecksum.wrap(options.stream instanceof ReadableStream ? Readable.fromWeb(options.stream as any) : options.stream as Readable)
+        : options.stream;
       fileSize = options.size;
     } else {
-      throw new Error('No valid input source provided');
+      throw new StorageInvalidInputError('No valid input source provided');
     }
 
     // Infer content type from filename if not provided
@@ -226,7 +239,7 @@ export class CrunchyConeProvider implements StorageProvider {
       file_size: fileSize,
       external_id: options.external_id,
       visibility,
-      metadata: options.metadata || {},
+      metadata: { ...options.metadata, ...checksumToMetadata(uploadChecksum.checksum) },
     });
 
     try {
@@ -250,6 +263,7 @@ export class CrunchyConeProvider implements StorageProvider {
         url: signedUrl, // Return the actual signed URL that gives file content
         size: fileMetadata.actual_file_size,
         contentType: fileMetadata.content_type,
+        checksum: uploadChecksum.result(),
         metadata: fileMetadata.metadata,
         visibility: fileMetadata.visibility || 'private', // Use actual visibility from API response
         publicUrl: fileMetadata.public_url || undefined, // Use actual public URL from API response
@@ -277,7 +291,10 @@ export class CrunchyConeProvider implements StorageProvider {
       
       // If upload fails, we could optionally clean up the file descriptor
       // For now, we'll let the API handle cleanup of failed uploads
-      throw new Error(finalError);
+      const ErrorClass = classifyStorageError(error);
+      throw ErrorClass
+        ? new ErrorClass(finalError, error as Error)
+        : new StorageError(finalError, 'STORAGE_OPERATION_FAILED', 500, error as Error);
     }
   }
 
@@ -327,7 +344,7 @@ export class CrunchyConeProvider implements StorageProvider {
 
     // Validate content length matches
     if (actualBodySize !== contentLength) {
-      throw new Error(`Content-Length mismatch: expected ${contentLength}, got ${actualBodySize}`);
+      throw new StorageInvalidInputError(`Content-Length mismatch: expected ${contentLength}, got ${actualBodySize}`);
     }
 
     const response = await fetch(url, {
@@ -358,7 +375,7 @@ export class CrunchyConeProvider implements StorageProvider {
         errorDetails,
       ].join(' ');
 
-      throw new Error(errorMessage);
+      throw storageErrorForStatus(response.status, errorMessage);
     }
   }
 
@@ -372,11 +389,67 @@ export class CrunchyConeProvider implements StorageProvider {
     });
   }
 
+  // Direct upload operations
+  async getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+    await this.ensureConfigured();
+
+    if (options.method === 'POST') {
+      throw new StorageError('CrunchyCone storage does not support POST upload policies', 'INVALID_UPLOAD', 400);
+    }
+
+    // The file descriptor is created for an exact size, so a range can't be reserved
+    const sizeRange = resolveUploadSizeRange(options);
+    if (!sizeRange || sizeRange.min !== sizeRange.max) {
+      throw new StorageError('CrunchyCone upload URLs require the exact file size', 'INVALID_UPLOAD', 400);
+    }
+
+    let contentType = options.contentType || 'application/octet-stream';
+    if (!options.contentType && options.filename) {
+      contentType = this.getContentTypeFromFilename(options.filename);
+    }
+
+    const filePath = options.key || this.generateDefaultPath(options.external_id, options.filename);
+
+    const descriptor = await this.createFileDescriptor({
+      file_path: filePath,
+      original_filename: options.filename || 'untitled',
+      content_type: contentType,
+      file_size: sizeRange.max,
+      external_id: options.external_id,
+      visibility: options.public ? 'public' : 'private',
+      metadata: options.metadata || {},
+    });
+
+    return {
+      url: descriptor.upload_url,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      key: filePath,
+      external_id: options.external_id,
+      contentType,
+      maxSize: sizeRange.max,
+      expiresAt: new Date(descriptor.expires_at),
+      providerSpecific: {
+        fileId: descriptor.file_id,
+        requiresCompletion: true, // Call completeDirectUpload once the client has uploaded
+      },
+    };
+  }
+
+  /**
+   * Mark a file uploaded through getUploadUrl as complete
+   */
+  async completeDirectUpload(fileId: string, actualFileSize: number): Promise<StorageFileInfo> {
+    await this.completeFileUpload(fileId, actualFileSize);
+    const fileMetadata = await this.getFileMetadata(fileId);
+    return this.convertToStorageFileInfo(fileMetadata);
+  }
+
   async deleteFile(key: string): Promise<void> {
     // Find file by storage key first
     const fileInfo = await this.findFileByStorageKey(key);
     if (!fileInfo) {
-      throw new Error(`File with storage key ${key} not found`);
+      throw new StorageNotFoundError(`File with storage key ${key} not found`);
     }
     
     await this.makeRequest(`/api/v1/storage/files/${fileInfo.file_id}`, {
@@ -394,7 +467,7 @@ export class CrunchyConeProvider implements StorageProvider {
     // Find file by storage key first
     const fileInfo = await this.findFileByStorageKey(key);
     if (!fileInfo) {
-      throw new Error(`File with storage key ${key} not found`);
+      throw new StorageNotFoundError(`File with storage key ${key} not found`);
     }
 
     // If file is public and has a public_url, return it directly (no auth required)
@@ -444,7 +517,7 @@ export class CrunchyConeProvider implements StorageProvider {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        throw storageErrorForStatus(response.status, `API request failed: ${response.status} ${response.statusText}`);
       }
 
       // Parse JSON response to get signed URL
@@ -468,9 +541,9 @@ export class CrunchyConeProvider implements StorageProvider {
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`);
+        throw new StorageProviderUnavailableError(`Request timeout after ${timeout}ms`, error);
       }
-      throw error;
+      throw toStorageError(error, 'Failed to get signed URL');
     }
   }
 
@@ -555,6 +628,7 @@ export class CrunchyConeProvider implements StorageProvider {
       size: metadata.actual_file_size,
       contentType: metadata.content_type,
       lastModified: metadata.uploaded_at ? new Date(metadata.uploaded_at) : new Date(metadata.updated_at),
+      checksum: getChecksumFromMetadata(metadata.metadata),
       metadata: metadata.metadata,
       visibility: metadata.visibility || 'private', // Use actual visibility from API response
       publicUrl: metadata.visibility === 'public' ? metadata.public_url || undefined : undefined,
@@ -637,6 +711,12 @@ export class CrunchyConeProvider implements StorageProvider {
 
       let files = response.data.files.map(f => this.convertToStorageFileInfo(f));
 
+      // The API has no delimiter, so folders are grouped per page
+      let commonPrefixes: string[] | undefined;
+      if (options.delimiter) {
+        ({ files, commonPrefixes } = groupByDelimiter(files, prefix, options.delimiter));
+      }
+
       // Apply client-side filters that aren't supported by the API
       if (contentType) {
         files = files.filter(f => f.contentType === contentType);
@@ -689,9 +769,10 @@ export class CrunchyConeProvider implements StorageProvider {
         totalCount: response.data.total_count,
         hasMore: response.data.has_more,
         nextOffset: response.data.has_more ? offset + limit : undefined,
+        commonPrefixes,
       };
     } catch (error) {
-      throw new Error(`Failed to list files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to list files');
     }
   }
 
@@ -849,7 +930,7 @@ export class CrunchyConeProvider implements StorageProvider {
         query,
       };
     } catch (error) {
-      throw new Error(`Failed to search files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to search files');
     }
   }
 
@@ -1031,7 +1112,7 @@ export class CrunchyConeProvider implements StorageProvider {
       // Find the file by storage key
       const fileMetadata = await this.findFileByStorageKey(key);
       if (!fileMetadata) {
-        throw new Error(`File with key ${key} not found`);
+        throw new StorageNotFoundError(`File with key ${key} not found`);
       }
 
       // Check actual visibility from the file object
@@ -1048,7 +1129,7 @@ export class CrunchyConeProvider implements StorageProvider {
           : 'File is private and requires authentication. Access via signed URLs.',
       };
     } catch (error) {
-      throw new Error(`Failed to get file visibility: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to get file visibility');
     }
   }
 
@@ -1074,10 +1155,10 @@ export class CrunchyConeProvider implements StorageProvider {
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
-        throw new Error(`File with external_id ${externalId} not found`);
+        throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
       }
       
-      throw new Error(`Failed to get file visibility: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to get file visibility');
     }
   }
 
@@ -1086,7 +1167,7 @@ export class CrunchyConeProvider implements StorageProvider {
     // Find the file by storage key first
     const fileMetadata = await this.findFileByStorageKey(key);
     if (!fileMetadata) {
-      throw new Error(`File with key ${key} not found`);
+      throw new StorageNotFoundError(`File with key ${key} not found`);
     }
 
     return this.createFileStream(fileMetadata.file_id, fileMetadata, options);
@@ -1145,7 +1226,7 @@ export class CrunchyConeProvider implements StorageProvider {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`Failed to stream file: ${response.status} ${response.statusText}`);
+        throw storageErrorForStatus(response.status, `Failed to stream file: ${response.status} ${response.statusText}`);
       }
 
       // Parse response headers
@@ -1210,9 +1291,9 @@ export class CrunchyConeProvider implements StorageProvider {
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`File stream request timeout after ${timeout}ms`);
+        throw new StorageProviderUnavailableError(`File stream request timeout after ${timeout}ms`, error);
       }
-      throw new Error(`Failed to create file stream: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to create file stream');
     }
   }
 
@@ -1233,7 +1314,7 @@ export class CrunchyConeProvider implements StorageProvider {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        throw storageErrorForStatus(response.status, `API request failed: ${response.status} ${response.statusText}`);
       }
 
       const jsonResponse = await response.json() as { 
@@ -1253,13 +1334,58 @@ export class CrunchyConeProvider implements StorageProvider {
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`);
+        throw new StorageProviderUnavailableError(`Request timeout after ${timeout}ms`, error);
+      }
+      throw toStorageError(error, 'Failed to get signed URL');
+    }
+  }
+
+  // In-place metadata updates. The API stores custom metadata only; content type and headers are fixed at upload.
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const file = await this.findFileByStorageKey(key);
+    if (!file) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    return this.applyMetadataUpdate(file, update, options);
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    let file: CrunchyConeFileMetadata;
+    try {
+      const response = await this.makeRequest<{ data: CrunchyConeFileMetadata }>(
+        `/api/v1/storage/files/by-external-id/${encodeURIComponent(externalId)}`,
+      );
+      file = response.data;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
       }
       throw error;
     }
+    return this.applyMetadataUpdate(file, update, options);
   }
 
-  private async updateFileMetadata(fileId: string, metadata: Record<string, string>): Promise<void> {
+  private async applyMetadataUpdate(
+    file: CrunchyConeFileMetadata,
+    update: FileMetadataUpdate,
+    options: UpdateFileMetadataOptions = {},
+  ): Promise<StorageFileInfo> {
+    if (update.contentType !== undefined || update.cacheControl !== undefined || update.contentDisposition !== undefined) {
+      throw new StorageError(
+        'CrunchyCone storage can only update custom metadata; contentType, cacheControl and contentDisposition are set at upload',
+        'NOT_SUPPORTED',
+        501,
+      );
+    }
+
+    const metadata = options.merge === false
+      ? { ...getLibraryMetadata(file.metadata), ...update.metadata }
+      : { ...file.metadata, ...update.metadata };
+    await this.updateFileMetadataById(file.file_id, metadata);
+    return this.convertToStorageFileInfo({ ...file, metadata });
+  }
+
+  private async updateFileMetadataById(fileId: string, metadata: Record<string, string>): Promise<void> {
     await this.makeRequest(`/api/v1/storage/files/${fileId}/metadata`, {
       method: 'PUT',
       body: JSON.stringify({ metadata }),
@@ -1353,6 +1479,10 @@ export class CrunchyConeProvider implements StorageProvider {
     }
   }
 
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('crunchycone');
+  }
+
   async isAvailable(): Promise<boolean> {
     return true; // CrunchyCone provider has no optional dependencies
   }
@@ -1,5 +1,6 @@
 import { S3CompatibleProvider } from './s3-compatible';
-import { S3Config } from '../types';
+import { S3Config, StorageCapabilities } from '../types';
+import { getStorageProviderCapabilities } from '../capabilities';
 
 export interface DigitalOceanSpacesConfig {
   accessKeyId: string;
@@ -27,4 +28,8 @@ export class DigitalOceanSpacesProvider extends S3CompatibleProvider {
     
     super(s3Config);
   }
-}
\ No newline at end of file
+
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('digitalocean');
+  }
+}
@@ -1,4 +1,9 @@
-import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo , ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions } from '../types';
+import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo , ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions, FileStreamOptions, FileStreamResult, MultipartUploadOptions, MultipartUpload, MultipartUploadPart, UploadUrlOptions, UploadUrlResult, CopyFileOptions, FileChecksum, FileMetadataUpdate, UpdateFileMetadataOptions, StorageCapabilities } from '../types';
+import { resolveByteRange, validateMultipartPart, StorageError, DEFAULT_MULTIPART_PART_SIZE, resolveUploadSizeRange, prepareUploadChecksum, checksumToMetadata, getChecksumFromMetadata, applyExpiration, getLibraryMetadata, matchesClassificationFilters } from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import type { Readable } from 'stream';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError, storageErrorForStatus, toStorageError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
 
 export interface GCPStorageConfig {
   projectId: string;
@@ -13,6 +18,9 @@ export class GCPStorageProvider implements StorageProvider {
   private storage: any;
   private bucket: any;
 
+  // Resumable upload chunks (except the last) must be a multiple of 256KB
+  private static readonly CHUNK_ALIGNMENT = 256 * 1024;
+
   constructor(config: GCPStorageConfig) {
     this.config = config;
   }
@@ -49,13 +57,20 @@ export class GCPStorageProvider implements StorageProvider {
   }
 
   async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
+    if (options.tags) {
+      throw new StorageError('GCS does not support object tags; use metadata instead', 'NOT_SUPPORTED', 501);
+    }
     await this.ensureInitialized();
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
     
     const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
     const file = this.bucket.file(key);
 
     let stream: NodeJS.ReadableStream;
     let size: number | undefined = options.size;
+    const uploadChecksum = await prepareUploadChecksum(options);
+    const checksum = uploadChecksum.checksum;
 
     if (options.filePath) {
       const fs = await import('fs');
@@ -65,26 +80,33 @@ export class GCPStorageProvider implements StorageProvider {
         size = stats.size;
       }
     } else if (options.stream) {
-      stream = options.stream as NodeJS.ReadableStream;
+      stream = uploadChecksum.wrap(options.stream as Readable);
     } else if (options.buffer) {
       const { Readable } = await import('stream');
       stream = Readable.from(options.buffer);
       size = options.buffer.length;
     } else {
-      throw new Error('No file source provided');
+      throw new StorageInvalidInputError('No file source provided');
     }
 
     const uploadOptions: any = {
       resumable: false,
       metadata: {
         contentType: options.contentType,
+        storageClass: options.storageClass,
         metadata: {
           external_id: options.external_id,
           ...options.metadata,
+          ...checksumToMetadata(checksum),
         },
       },
     };
 
+    // GCS rejects the upload when the content does not match the MD5
+    if (checksum?.algorithm === 'md5') {
+      uploadOptions.metadata.md5Hash = checksum.value;
+    }
+
     if (options.public) {
       uploadOptions.predefinedAcl = 'publicRead';
     }
@@ -92,7 +114,7 @@ export class GCPStorageProvider implements StorageProvider {
     return new Promise((resolve, reject) => {
       const uploadStream = file.createWriteStream(uploadOptions);
 
-      uploadStream.on('error', reject);
+      uploadStream.on('error', (error: unknown) => reject(toStorageError(error, 'Failed to upload file')));
       uploadStream.on('finish', async () => {
         try {
           const [metadata] = await file.getMetadata();
@@ -105,12 +127,13 @@ export class GCPStorageProvider implements StorageProvider {
             size: size || parseInt(metadata.size),
             contentType: options.contentType || metadata.contentType,
             etag: metadata.etag,
+            checksum: uploadChecksum.result(),
             metadata: options.metadata,
             visibility: options.public ? 'public' : 'private',
             publicUrl: options.public ? `https://storage.googleapis.com/${this.config.bucket}/${key}` : undefined,
           });
         } catch (error) {
-          reject(error);
+          reject(toStorageError(error, 'Failed to upload file'));
         }
       });
 
@@ -121,14 +144,19 @@ export class GCPStorageProvider implements StorageProvider {
   async deleteFile(key: string): Promise<void> {
     await this.ensureInitialized();
     const file = this.bucket.file(key);
-    await file.delete();
+    try {
+      await file.delete();
+    } catch (error) {
+      throw toStorageError(error, 'Failed to delete file');
+    }
   }
 
   async deleteFileByExternalId(externalId: string): Promise<void> {
     const fileInfo = await this.findFileByExternalId(externalId);
-    if (fileInfo) {
-      await this.deleteFile(fileInfo.key);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
+    await this.deleteFile(fileInfo.key);
   }
 
   async getFileUrl(key: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
@@ -183,7 +211,7 @@ export class GCPStorageProvider implements StorageProvider {
   async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     return this.getFileUrl(fileInfo.key, expiresIn, options);
   }
@@ -191,8 +219,12 @@ export class GCPStorageProvider implements StorageProvider {
   async fileExists(key: string): Promise<boolean> {
     await this.ensureInitialized();
     const file = this.bucket.file(key);
-    const [exists] = await file.exists();
-    return exists;
+    try {
+      const [exists] = await file.exists();
+      return exists;
+    } catch (error) {
+      throw toStorageError(error, 'Failed to check file existence');
+    }
   }
 
   async fileExistsByExternalId(externalId: string): Promise<boolean> {
@@ -203,9 +235,14 @@ export class GCPStorageProvider implements StorageProvider {
   async findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
     await this.ensureInitialized();
     
-    const [files] = await this.bucket.getFiles({
-      prefix: '',
-    });
+    let files: any[];
+    try {
+      [files] = await this.bucket.getFiles({
+        prefix: '',
+      });
+    } catch (error) {
+      throw toStorageError(error, 'Failed to find file');
+    }
 
     for (const file of files) {
       try {
@@ -220,6 +257,7 @@ export class GCPStorageProvider implements StorageProvider {
             contentType: metadata.contentType,
             lastModified: new Date(metadata.timeCreated),
             etag: metadata.etag,
+            checksum: this.getStoredChecksum(metadata),
             metadata: metadata.metadata,
           };
         }
@@ -232,13 +270,556 @@ export class GCPStorageProvider implements StorageProvider {
     return null;
   }
 
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    await this.ensureInitialized();
+
+    let metadata: any;
+    try {
+      [metadata] = await this.bucket.file(key).getMetadata();
+    } catch (error) {
+      if ((error as any).code === 404) {
+        return null;
+      }
+      throw toStorageError(error, 'Failed to find file');
+    }
+
+    return {
+      external_id: metadata.metadata?.external_id,
+      key,
+      url: await this.getFileUrl(key),
+      size: parseInt(metadata.size) || 0,
+      contentType: metadata.contentType || 'application/octet-stream',
+      lastModified: new Date(metadata.timeCreated),
+      etag: metadata.etag,
+      checksum: this.getStoredChecksum(metadata),
+      metadata: metadata.metadata,
+      cacheControl: metadata.cacheControl,
+      contentDisposition: metadata.contentDisposition,
+      storageClass: metadata.storageClass,
+    };
+  }
+
+  // File streaming operations
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
+    await this.ensureInitialized();
+
+    const {
+      start,
+      end,
+      responseType = 'node',
+      signal,
+    } = options;
+
+    const file = this.bucket.file(key);
+
+    let metadata: any;
+    try {
+      [metadata] = await file.getMetadata();
+    } catch (error) {
+      if ((error as any).code === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to create file stream');
+    }
+
+    const total = parseInt(metadata.size) || 0;
+    const range = resolveByteRange(total, start, end);
+
+    // Range reads can't be validated against the whole-object hash
+    const nodeStream = file.createReadStream(range
+      ? { start: range.start, end: range.end, validation: false }
+      : {});
+
+    const abortStream = () => nodeStream.destroy(new Error('File stream request aborted'));
+    if (signal?.aborted) {
+      abortStream();
+    } else if (signal) {
+      signal.addEventListener('abort', abortStream);
+    }
+
+    const { Readable } = await import('stream');
+    const stream: NodeJS.ReadableStream | ReadableStream = responseType === 'web'
+      ? Readable.toWeb(nodeStream) as ReadableStream
+      : nodeStream;
+
+    return {
+      stream,
+      contentType: metadata.contentType || 'application/octet-stream',
+      contentLength: range ? range.end - range.start + 1 : total,
+      lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+      etag: metadata.etag,
+      acceptsRanges: true,
+      isPartialContent: !!range,
+      range: range ? { ...range, total } : undefined,
+      streamType: responseType,
+      providerSpecific: {
+        cacheControl: metadata.cacheControl,
+        generation: metadata.generation,
+      },
+      cleanup: async () => {
+        signal?.removeEventListener('abort', abortStream);
+        nodeStream.destroy();
+      },
+    };
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileStream(fileInfo.key, options);
+  }
+
+  // Multipart upload operations (backed by a resumable upload session)
+  async initiateMultipartUpload(options: MultipartUploadOptions): Promise<MultipartUpload> {
+    if (options.tags) {
+      throw new StorageError('GCS does not support object tags; use metadata instead', 'NOT_SUPPORTED', 501);
+    }
+    options = applyExpiration(options);
+    await this.ensureInitialized();
+
+    // GCS needs the total size to finalize the session on the last chunk
+    if (options.size === undefined) {
+      throw new StorageError('GCS resumable uploads require the total size up front', 'INVALID_UPLOAD', 400);
+    }
+
+    const partSize = options.partSize ?? DEFAULT_MULTIPART_PART_SIZE;
+    if (partSize % GCPStorageProvider.CHUNK_ALIGNMENT !== 0) {
+      throw new StorageError(
+        `GCS resumable uploads require a part size that is a multiple of ${GCPStorageProvider.CHUNK_ALIGNMENT} bytes`,
+        'INVALID_PART',
+        400,
+      );
+    }
+
+    const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
+    const file = this.bucket.file(key);
+
+    const sessionOptions: any = {
+      metadata: {
+        contentType: options.contentType,
+        storageClass: options.storageClass,
+        metadata: {
+          external_id: options.external_id,
+          ...options.metadata,
+        },
+      },
+    };
+
+    if (options.public) {
+      sessionOptions.predefinedAcl = 'publicRead';
+    }
+
+    try {
+      const [sessionUri] = await file.createResumableUpload(sessionOptions);
+
+      return {
+        uploadId: new URL(sessionUri).searchParams.get('upload_id') || sessionUri,
+        key,
+        external_id: options.external_id,
+        filename: options.filename,
+        contentType: options.contentType || 'application/octet-stream',
+        partSize,
+        size: options.size,
+        public: options.public,
+        metadata: options.metadata,
+        storageClass: options.storageClass,
+        initiatedAt: new Date().toISOString(),
+        providerSpecific: { sessionUri },
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to initiate multipart upload');
+    }
+  }
+
+  async uploadPart(upload: MultipartUpload, partNumber: number, data: Buffer): Promise<MultipartUploadPart> {
+    validateMultipartPart(upload, partNumber, data.length);
+
+    const total = upload.size as number;
+    const start = (partNumber - 1) * upload.partSize;
+    const end = start + data.length - 1;
+    const isLast = end + 1 === total;
+
+    const response = await fetch(this.getSessionUri(upload), {
+      method: 'PUT',
+      headers: {
+        'Content-Length': String(data.length),
+        'Content-Range': `bytes ${start}-${end}/${isLast ? total : '*'}`,
+      },
+      body: new Uint8Array(data),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+    }
+
+    if (response.status === 308) {
+      // GCS may persist only part of a chunk; the part has to be sent again in that case
+      const persisted = this.parsePersistedBytes(response.headers.get('range'));
+      if (persisted < end + 1) {
+        throw new Error(`Failed to upload part ${partNumber}: only ${persisted} of ${end + 1} bytes were persisted`);
+      }
+    } else if (!response.ok) {
+      throw storageErrorForStatus(response.status, `Failed to upload part ${partNumber}: ${response.status} ${response.statusText}`);
+    }
+
+    return {
+      partNumber,
+      size: data.length,
+      lastModified: new Date(),
+    };
+  }
+
+  async listParts(upload: MultipartUpload): Promise<MultipartUploadPart[]> {
+    const { persisted } = await this.querySession(upload);
+    const total = upload.size as number;
+    const parts: MultipartUploadPart[] = [];
+
+    // GCS only tracks a contiguous byte count, so map it back onto whole parts
+    for (let offset = 0; offset < persisted; offset += upload.partSize) {
+      const size = Math.min(upload.partSize, total - offset);
+      if (offset + size > persisted) {
+        break;
+      }
+      parts.push({ partNumber: offset / upload.partSize + 1, size });
+    }
+
+    return parts;
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, _parts?: MultipartUploadPart[]): Promise<StorageUploadResult> {
+    await this.ensureInitialized();
+
+    const { complete, persisted } = await this.querySession(upload);
+    if (!complete) {
+      throw new StorageInvalidInputError(`Failed to complete multipart upload: ${persisted} of ${upload.size} bytes uploaded`);
+    }
+
+    const file = this.bucket.file(upload.key);
+    const [metadata] = await file.getMetadata();
+    const url = await this.getFileUrl(upload.key);
+
+    return {
+      external_id: upload.external_id,
+      key: upload.key,
+      url,
+      size: parseInt(metadata.size) || persisted,
+      contentType: metadata.contentType || upload.contentType,
+      etag: metadata.etag,
+      metadata: upload.metadata,
+      visibility: upload.public ? 'public' : 'private',
+      publicUrl: upload.public ? `https://storage.googleapis.com/${this.config.bucket}/${upload.key}` : undefined,
+    };
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    const response = await fetch(this.getSessionUri(upload), {
+      method: 'DELETE',
+      headers: { 'Content-Length': '0' },
+    });
+
+    // 499 is how GCS acknowledges a cancelled session; a missing session is already gone
+    if (!response.ok && ![404, 410, 499].includes(response.status)) {
+      throw storageErrorForStatus(response.status, `Failed to abort multipart upload: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private getSessionUri(upload: MultipartUpload): string {
+    const sessionUri = upload.providerSpecific?.sessionUri;
+    if (!sessionUri) {
+      throw new StorageInvalidInputError(`Multipart upload ${upload.uploadId} has no resumable session URI`);
+    }
+    return sessionUri;
+  }
+
+  private async querySession(upload: MultipartUpload): Promise<{ complete: boolean; persisted: number }> {
+    const response = await fetch(this.getSessionUri(upload), {
+      method: 'PUT',
+      headers: {
+        'Content-Length': '0',
+        'Content-Range': `bytes */${upload.size}`,
+      },
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+    }
+    if (response.ok) {
+      return { complete: true, persisted: upload.size as number };
+    }
+    if (response.status === 308) {
+      return { complete: false, persisted: this.parsePersistedBytes(response.headers.get('range')) };
+    }
+    throw storageErrorForStatus(response.status, `Failed to query multipart upload: ${response.status} ${response.statusText}`);
+  }
+
+  private parsePersistedBytes(rangeHeader: string | null): number {
+    // Range: bytes=0-N means N + 1 bytes have been persisted
+    const match = rangeHeader?.match(/bytes=0-(\d+)/);
+    return match ? parseInt(match[1]) + 1 : 0;
+  }
+
+  // Direct upload operations
+  async getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+    await this.ensureInitialized();
+
+    const key = options.key || `${Date.now()}-${options.filename || 'file'}`;
+    const contentType = options.contentType || 'application/octet-stream';
+    const method = options.method ?? 'PUT';
+    const expiresAt = new Date(Date.now() + (options.expiresIn ?? 3600) * 1000);
+    const sizeRange = resolveUploadSizeRange(options);
+    const file = this.bucket.file(key);
+
+    // Custom metadata travels as x-goog-meta-* headers (PUT) or form fields (POST)
+    const metadataFields: Record<string, string> = {
+      'x-goog-meta-external_id': options.external_id,
+    };
+    for (const [name, value] of Object.entries(options.metadata || {})) {
+      metadataFields[`x-goog-meta-${name}`] = value;
+    }
+    if (options.public) {
+      metadataFields['x-goog-acl'] = 'public-read';
+    }
+
+    const result = {
+      method,
+      key,
+      external_id: options.external_id,
+      contentType,
+      maxSize: sizeRange?.max,
+      expiresAt,
+    };
+
+    try {
+      if (method === 'POST') {
+        const conditions: any[] = [['eq', '$Content-Type', contentType]];
+        if (sizeRange) {
+          conditions.push(['content-length-range', sizeRange.min, sizeRange.max]);
+        }
+
+        const [policy] = await file.generateSignedPostPolicyV4({
+          expires: expiresAt,
+          conditions,
+          fields: {
+            'Content-Type': contentType,
+            ...metadataFields,
+          },
+        });
+
+        return { ...result, url: policy.url, headers: {}, fields: policy.fields };
+      }
+
+      // Every extension header is signed, so the client has to send them exactly
+      const headers: Record<string, string> = { ...metadataFields };
+      if (sizeRange) {
+        headers['x-goog-content-length-range'] = `${sizeRange.min},${sizeRange.max}`;
+      }
+
+      const [url] = await file.getSignedUrl({
+        version: 'v4',
+        action: 'write',
+        expires: expiresAt,
+        contentType,
+        extensionHeaders: headers,
+      });
+
+      return { ...result, url, headers: { 'Content-Type': contentType, ...headers } };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to generate upload URL');
+    }
+  }
+
+  // Copy / move operations (file.copy drives the rewrite API until it completes)
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    await this.ensureInitialized();
+
+    const sourceFile = this.bucket.file(sourceKey);
+    let sourceMetadata: any;
+    try {
+      [sourceMetadata] = await sourceFile.getMetadata();
+    } catch (error) {
+      if ((error as any).code === 404) {
+        throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+      }
+      throw toStorageError(error, 'Failed to copy file');
+    }
+
+    if (!options.overwrite && await this.fileExists(destinationKey)) {
+      throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+    }
+
+    const { external_id: sourceExternalId, ...customMetadata } = sourceMetadata.metadata || {};
+    const externalId = options.external_id || sourceExternalId || '';
+    const contentType = options.contentType || sourceMetadata.contentType || 'application/octet-stream';
+    const metadata = options.replaceMetadata ? { ...options.metadata } : { ...customMetadata, ...options.metadata };
+
+    // Object ACLs aren't rewritten, so re-apply the source visibility
+    const isPublic = options.public ?? (await this.getFileVisibility(sourceKey)).visibility === 'public';
+
+    const copyOptions: any = {};
+    if (isPublic) {
+      copyOptions.predefinedAcl = 'publicRead';
+    }
+    if (options.external_id !== undefined || options.metadata !== undefined || options.replaceMetadata || options.contentType !== undefined) {
+      // A resource body replaces the source metadata wholesale, so resend what should survive
+      copyOptions.contentType = contentType;
+      copyOptions.cacheControl = sourceMetadata.cacheControl;
+      copyOptions.contentDisposition = sourceMetadata.contentDisposition;
+      copyOptions.contentEncoding = sourceMetadata.contentEncoding;
+      copyOptions.contentLanguage = sourceMetadata.contentLanguage;
+      copyOptions.metadata = {
+        external_id: externalId,
+        ...metadata,
+      };
+    }
+
+    try {
+      const [copiedFile] = await sourceFile.copy(this.bucket.file(destinationKey), copyOptions);
+      const [copiedMetadata] = await copiedFile.getMetadata();
+      const url = await this.getFileUrl(destinationKey);
+
+      return {
+        external_id: externalId,
+        key: destinationKey,
+        url,
+        size: parseInt(copiedMetadata.size) || parseInt(sourceMetadata.size) || 0,
+        contentType,
+        etag: copiedMetadata.etag,
+        metadata,
+        visibility: isPublic ? 'public' : 'private',
+        publicUrl: isPublic ? `https://storage.googleapis.com/${this.config.bucket}/${destinationKey}` : undefined,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to copy file');
+    }
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+
+    const result = await this.copyFile(sourceKey, destinationKey, options);
+    await this.deleteFile(sourceKey);
+    return result;
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  // In-place metadata updates
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    await this.ensureInitialized();
+
+    const file = this.bucket.file(key);
+    let current: any;
+    try {
+      [current] = await file.getMetadata();
+    } catch (error) {
+      if ((error as any).code === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+
+    // GCS merges custom metadata on patch; keys set to null are removed
+    const { external_id: externalId, ...storedMetadata } = current.metadata || {};
+    const patch: Record<string, string | null> = { ...update.metadata };
+    if (options.merge === false) {
+      const kept = getLibraryMetadata(storedMetadata);
+      for (const name of Object.keys(storedMetadata)) {
+        if (!(name in patch) && !(name in kept)) {
+          patch[name] = null;
+        }
+      }
+    }
+
+    const changes: any = { metadata: patch };
+    if (update.contentType !== undefined) {
+      changes.contentType = update.contentType;
+    }
+    if (update.cacheControl !== undefined) {
+      changes.cacheControl = update.cacheControl;
+    }
+    if (update.contentDisposition !== undefined) {
+      changes.contentDisposition = update.contentDisposition;
+    }
+
+    try {
+      const [metadata] = await file.setMetadata(changes);
+      const { external_id: _externalId, ...customMetadata } = metadata.metadata || {};
+
+      return {
+        external_id: externalId || '',
+        key,
+        url: await this.getFileUrl(key),
+        size: parseInt(metadata.size) || 0,
+        contentType: metadata.contentType,
+        lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+        etag: metadata.etag,
+        checksum: this.getStoredChecksum(metadata),
+        metadata: customMetadata,
+        cacheControl: metadata.cacheControl,
+        contentDisposition: metadata.contentDisposition,
+        storageClass: metadata.storageClass,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  // Storage class transitions rewrite the object in place; GCS has no object tags
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.bucket.file(key).setStorageClass(storageClass);
+    } catch (error) {
+      if ((error as any).code === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to set storage class');
+    }
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.storage || !this.bucket) {
       await this.initializeStorage();
     }
   }
 
+  // GCS keeps an MD5 of every non-composite object, so fall back to it when no checksum was stored
+  private getStoredChecksum(metadata: any): FileChecksum | undefined {
+    return getChecksumFromMetadata(metadata.metadata)
+      || (metadata.md5Hash ? { algorithm: 'md5', value: metadata.md5Hash } : undefined);
+  }
+
   async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
+    if (options.tags) {
+      throw new StorageError('GCS does not support object tags; filter on metadata instead', 'NOT_SUPPORTED', 501);
+    }
     await this.ensureInitialized();
 
     const {
@@ -256,7 +837,9 @@ export class GCPStorageProvider implements StorageProvider {
 
     const getFilesOptions: any = {
       prefix: prefix || undefined,
-      maxResults: limit + offset + 100, // Get extra files for filtering
+      delimiter: options.delimiter || undefined,
+      // No more than this page returns, so the next page token doesn't skip fetched files left off the page
+      maxResults: limit + offset,
       autoPaginate: false,
     };
 
@@ -265,13 +848,21 @@ export class GCPStorageProvider implements StorageProvider {
     }
 
     const allFiles: StorageFileInfo[] = [];
+    let commonPrefixes: string[] | undefined;
     let nextPageToken: string | undefined;
 
     try {
       const [files, , apiResponse] = await this.bucket.getFiles(getFilesOptions);
       nextPageToken = apiResponse?.nextPageToken;
+      if (options.delimiter) {
+        commonPrefixes = apiResponse?.prefixes || [];
+      }
 
       for (const file of files) {
+        // The folder marker of the listed prefix isn't a file in it
+        if (options.delimiter && file.name === prefix) {
+          continue;
+        }
         const [metadata] = await file.getMetadata();
 
         // Apply filters
@@ -301,13 +892,19 @@ export class GCPStorageProvider implements StorageProvider {
           contentType: metadata.contentType || 'application/octet-stream',
           lastModified: new Date(metadata.timeCreated),
           etag: metadata.etag,
+          checksum: this.getStoredChecksum(metadata),
           metadata: metadata.metadata,
+          storageClass: metadata.storageClass,
         };
 
+        if (!matchesClassificationFilters(fileInfo, options)) {
+          continue;
+        }
+
         allFiles.push(fileInfo);
       }
     } catch (error) {
-      throw new Error(`Failed to list files: ${(error as Error).message}`);
+      throw toStorageError(error, 'Failed to list files');
     }
 
     // Sort files
@@ -351,6 +948,7 @@ export class GCPStorageProvider implements StorageProvider {
       hasMore,
       nextOffset: hasMore ? offset + limit : undefined,
       continuationToken: nextPageToken,
+      commonPrefixes,
     };
   }
 
@@ -547,7 +1145,7 @@ export class GCPStorageProvider implements StorageProvider {
       // Check if file exists
       const [exists] = await file.exists();
       if (!exists) {
-        throw new Error(`File with key ${key} not found`);
+        throw new StorageNotFoundError(`File with key ${key} not found`);
       }
 
       // Check if file has public read access
@@ -580,19 +1178,23 @@ export class GCPStorageProvider implements StorageProvider {
         message: 'File is private. Use setFileVisibility to make it public or generate signed URLs for temporary access.',
       };
     } catch (error) {
-      throw new Error(`Failed to check file visibility: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to check file visibility');
     }
   }
 
   async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     
     return this.getFileVisibility(fileInfo.key);
   }
 
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('gcp');
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const gcpPackage = '@google-cloud/storage'.split('').join('');
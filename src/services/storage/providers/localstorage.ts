@@ -12,15 +12,60 @@ import {
   FileUrlOptions,
   FileStreamOptions,
   FileStreamResult,
+  MultipartUploadOptions,
+  MultipartUpload,
+  MultipartUploadPart,
+  UploadUrlOptions,
+  UploadUrlResult,
+  CopyFileOptions,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+  StorageCapabilities,
 } from '../types';
+import {
+  resolveByteRange,
+  validateMultipartPart,
+  DEFAULT_MULTIPART_PART_SIZE,
+  resolveUploadSizeRange,
+  StorageError,
+  prepareUploadChecksum,
+  checksumToMetadata,
+  getChecksumFromMetadata,
+  applyExpiration,
+  getLibraryMetadata,
+  matchesClassificationFilters,
+  groupByDelimiter,
+} from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import { randomBytes, createHmac, timingSafeEqual } from 'crypto';
 import { createReadStream, createWriteStream, promises as fs } from 'fs';
 import { join, dirname, extname } from 'path';
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
 import { pipeline } from 'stream/promises';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError, toStorageError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
+
+export interface LocalUploadTokenPayload {
+  key: string;
+  external_id: string;
+  contentType: string;
+  filename?: string;
+  minSize?: number;
+  maxSize?: number;
+  public?: boolean;
+  metadata?: Record<string, string>;
+  expiresAt: number;                // Epoch milliseconds
+}
+
+// Shared by every provider instance in the process when no secret is configured,
+// so tokens issued by one instance verify in another (e.g. per-request instances)
+const fallbackUploadSecret = randomBytes(32).toString('hex');
 
 export class LocalStorageProvider implements StorageProvider {
   private basePath: string;
   private baseUrl: string;
+  private uploadUrl: string;
+  private uploadSecret: string;
 
   constructor() {
     const envPath = process.env.CRUNCHYCONE_LOCALSTORAGE_PATH;
@@ -31,6 +76,8 @@ export class LocalStorageProvider implements StorageProvider {
     this.basePath = envPath;
     this.baseUrl = process.env.CRUNCHYCONE_LOCALSTORAGE_BASE_URL || '/localstorage';
     this.baseUrl = this.baseUrl.endsWith('/') ? this.baseUrl.slice(0, -1) : this.baseUrl;
+    this.uploadUrl = process.env.CRUNCHYCONE_LOCALSTORAGE_UPLOAD_URL || '/api/localstorage/upload';
+    this.uploadSecret = process.env.CRUNCHYCONE_LOCALSTORAGE_UPLOAD_SECRET || fallbackUploadSecret;
     
     // Ensure the storage directory exists
     this.ensureStorageDirectory();
@@ -40,15 +87,17 @@ export class LocalStorageProvider implements StorageProvider {
     try {
       await fs.mkdir(this.basePath, { recursive: true });
     } catch (error) {
-      throw new Error(`Failed to create storage directory at ${this.basePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, `Failed to create storage directory at ${this.basePath}`);
     }
   }
 
   async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
     const inputCount = [options.filePath, options.stream, options.buffer].filter(Boolean).length;
     if (inputCount !== 1) {
-      throw new Error('Exactly one of filePath, stream, or buffer must be provided');
+      throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
     }
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
 
     const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
     const fullPath = join(this.basePath, key);
@@ -59,6 +108,7 @@ export class LocalStorageProvider implements StorageProvider {
 
     let contentType = options.contentType || 'application/octet-stream';
     let size = 0;
+    const uploadChecksum = await prepareUploadChecksum(options);
 
     try {
       if (options.buffer) {
@@ -81,12 +131,12 @@ export class LocalStorageProvider implements StorageProvider {
         }
 
         const writeStream = createWriteStream(fullPath);
-        await pipeline(readableStream, writeStream);
+        await pipeline(uploadChecksum.wrap(readableStream), writeStream);
         
         const stats = await fs.stat(fullPath);
         size = stats.size;
       } else {
-        throw new Error('No valid input source provided');
+        throw new StorageInvalidInputError('No valid input source provided');
       }
 
       if (!options.contentType && options.filename) {
@@ -97,6 +147,7 @@ export class LocalStorageProvider implements StorageProvider {
 
       const url = `${this.baseUrl}/${key}`;
       const visibility: 'public' | 'private' = options.public ? 'public' : 'private';
+      const checksum = uploadChecksum.result();
 
       const metadata = {
         external_id: options.external_id,
@@ -107,7 +158,9 @@ export class LocalStorageProvider implements StorageProvider {
         lastModified: new Date().toISOString(),
         url,
         visibility,
-        metadata: options.metadata,
+        metadata: checksum ? { ...options.metadata, ...checksumToMetadata(checksum) } : options.metadata,
+        storageClass: options.storageClass || 'STANDARD',
+        tags: options.tags,
       };
 
       await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
@@ -118,6 +171,7 @@ export class LocalStorageProvider implements StorageProvider {
         url,
         size,
         contentType,
+        checksum,
         metadata: options.metadata,
         visibility,
         publicUrl: options.public ? url : undefined,
@@ -129,7 +183,7 @@ export class LocalStorageProvider implements StorageProvider {
       } catch {
         // Ignore cleanup errors
       }
-      throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to upload file');
     }
   }
 
@@ -141,7 +195,7 @@ export class LocalStorageProvider implements StorageProvider {
       await fs.unlink(fullPath);
     } catch (error: any) {
       if (error.code !== 'ENOENT') {
-        throw new Error(`Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toStorageError(error, 'Failed to delete file');
       }
     }
 
@@ -155,7 +209,7 @@ export class LocalStorageProvider implements StorageProvider {
   async deleteFileByExternalId(externalId: string): Promise<void> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id "${externalId}" not found`);
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
     }
     
     await this.deleteFile(fileInfo.key);
@@ -169,30 +223,43 @@ export class LocalStorageProvider implements StorageProvider {
   async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id "${externalId}" not found`);
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
     }
 
     return this.getFileUrl(fileInfo.key, expiresIn, options);
   }
 
-  async getFileStream(key: string, _options?: FileStreamOptions): Promise<FileStreamResult> {
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
     const fullPath = join(this.basePath, key);
+    // LocalStorage has always returned web streams, so keep that as its default
+    const { start, end, responseType = 'web', signal } = options;
 
     // Check if file exists
     try {
       const stats = await fs.stat(fullPath);
+      const range = resolveByteRange(stats.size, start, end);
 
-      // Create a ReadableStream from the file
-      const nodeStream = createReadStream(fullPath);
+      // Create a read stream over the requested byte range (inclusive)
+      const nodeStream = createReadStream(fullPath, range ? { start: range.start, end: range.end } : undefined);
 
-      // Convert Node.js Readable to Web ReadableStream
-      const webStream = Readable.toWeb(nodeStream) as ReadableStream;
+      const abortStream = () => nodeStream.destroy(new Error('File stream request aborted'));
+      if (signal?.aborted) {
+        abortStream();
+      } else if (signal) {
+        signal.addEventListener('abort', abortStream);
+      }
+
+      // Convert Node.js Readable to Web ReadableStream when requested
+      const stream: NodeJS.ReadableStream | ReadableStream = responseType === 'web'
+        ? Readable.toWeb(nodeStream) as ReadableStream
+        : nodeStream;
 
       // Get metadata
       const metadataPath = `${fullPath}.json`;
       let contentType = 'application/octet-stream';
       let lastModified: Date | undefined;
       let etag: string | undefined;
+      let cacheControl: string | undefined;
 
       try {
         const metadataContent = await fs.readFile(metadataPath, 'utf-8');
@@ -202,38 +269,549 @@ export class LocalStorageProvider implements StorageProvider {
           lastModified = new Date(metadata.lastModified);
         }
         etag = metadata.etag;
+        cacheControl = metadata.cacheControl;
       } catch {
         // Metadata file doesn't exist, use default content type
         lastModified = new Date(stats.mtime);
       }
 
       return {
-        stream: webStream,
+        stream,
         contentType,
-        contentLength: stats.size,
-        isPartialContent: false,
-        streamType: 'web' as const,
-        acceptsRanges: false,
+        contentLength: range ? range.end - range.start + 1 : stats.size,
+        isPartialContent: !!range,
+        range: range ? { ...range, total: stats.size } : undefined,
+        streamType: responseType,
+        acceptsRanges: true,
         lastModified,
         etag,
+        providerSpecific: cacheControl ? { cacheControl } : undefined,
+        cleanup: async () => {
+          signal?.removeEventListener('abort', abortStream);
+          nodeStream.destroy();
+        },
       };
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        throw new Error(`File not found: ${key}`);
+        throw new StorageNotFoundError(`File not found: ${key}`);
       }
-      throw error;
+      throw toStorageError(error, 'Failed to get file stream');
     }
   }
 
   async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id "${externalId}" not found`);
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
     }
 
     return this.getFileStream(fileInfo.key, options);
   }
 
+  // Multipart upload operations (parts are kept as chunk files until completion)
+  async initiateMultipartUpload(options: MultipartUploadOptions): Promise<MultipartUpload> {
+    options = applyExpiration(options);
+    const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
+    const uploadId = randomBytes(16).toString('hex');
+
+    await fs.mkdir(this.getMultipartDirectory(uploadId), { recursive: true });
+
+    let contentType = options.contentType || 'application/octet-stream';
+    if (!options.contentType && options.filename) {
+      contentType = this.getContentTypeFromFilename(options.filename);
+    } else if (!options.contentType) {
+      contentType = this.getContentTypeFromFilename(key);
+    }
+
+    return {
+      uploadId,
+      key,
+      external_id: options.external_id,
+      filename: options.filename,
+      contentType,
+      partSize: options.partSize ?? DEFAULT_MULTIPART_PART_SIZE,
+      size: options.size,
+      public: options.public,
+      metadata: options.metadata,
+      tags: options.tags,
+      storageClass: options.storageClass,
+      initiatedAt: new Date().toISOString(),
+    };
+  }
+
+  async uploadPart(upload: MultipartUpload, partNumber: number, data: Buffer): Promise<MultipartUploadPart> {
+    validateMultipartPart(upload, partNumber, data.length);
+
+    const partPath = this.getPartPath(upload.uploadId, partNumber);
+    const tempPath = `${partPath}.tmp`;
+
+    try {
+      // Write then rename so an interrupted write never looks like a complete part
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, partPath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+      }
+      throw toStorageError(error, `Failed to upload part ${partNumber}`);
+    }
+
+    return {
+      partNumber,
+      size: data.length,
+      lastModified: new Date(),
+    };
+  }
+
+  async listParts(upload: MultipartUpload): Promise<MultipartUploadPart[]> {
+    const uploadDir = this.getMultipartDirectory(upload.uploadId);
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(uploadDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+      }
+      throw toStorageError(error, 'Failed to list parts');
+    }
+
+    const parts: MultipartUploadPart[] = [];
+    for (const entry of entries) {
+      const match = entry.match(/^(\d+)\.part$/);
+      if (!match) {
+        continue;
+      }
+      const stats = await fs.stat(join(uploadDir, entry));
+      parts.push({
+        partNumber: parseInt(match[1]),
+        size: stats.size,
+        lastModified: stats.mtime,
+      });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts?: MultipartUploadPart[]): Promise<StorageUploadResult> {
+    const uploadedParts = [...(parts ?? await this.listParts(upload))].sort((a, b) => a.partNumber - b.partNumber);
+    if (uploadedParts.length === 0) {
+      throw new StorageInvalidInputError(`Multipart upload ${upload.uploadId} has no parts to complete`);
+    }
+
+    const partPaths = uploadedParts.map(part => this.getPartPath(upload.uploadId, part.partNumber));
+    const concatenated = Readable.from((async function* () {
+      for (const partPath of partPaths) {
+        yield* createReadStream(partPath);
+      }
+    })());
+
+    const result = await this.uploadFile({
+      external_id: upload.external_id,
+      key: upload.key,
+      filename: upload.filename,
+      contentType: upload.contentType,
+      public: upload.public,
+      metadata: upload.metadata,
+      tags: upload.tags,
+      storageClass: upload.storageClass,
+      stream: concatenated,
+    });
+
+    await fs.rm(this.getMultipartDirectory(upload.uploadId), { recursive: true, force: true });
+    return result;
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    await fs.rm(this.getMultipartDirectory(upload.uploadId), { recursive: true, force: true });
+  }
+
+  private getMultipartDirectory(uploadId: string): string {
+    // Upload ids end up in a path, so only accept the ids we generate
+    if (!/^[a-f0-9]+$/.test(uploadId)) {
+      throw new StorageInvalidInputError(`Invalid multipart upload id: ${uploadId}`);
+    }
+    return join(this.basePath, '.multipart', uploadId);
+  }
+
+  private getPartPath(uploadId: string, partNumber: number): string {
+    return join(this.getMultipartDirectory(uploadId), `${String(partNumber).padStart(5, '0')}.part`);
+  }
+
+  // Direct upload operations (signed tokens checked by handleUploadRequest)
+  async getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+    if (options.method === 'POST') {
+      throw new StorageError('LocalStorage upload URLs only support PUT', 'INVALID_UPLOAD', 400);
+    }
+
+    const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
+    const contentType = options.contentType
+      || this.getContentTypeFromFilename(options.filename || key);
+    const sizeRange = resolveUploadSizeRange(options);
+    const expiresAt = new Date(Date.now() + (options.expiresIn ?? 3600) * 1000);
+
+    const token = this.signUploadToken({
+      key,
+      external_id: options.external_id,
+      contentType,
+      filename: options.filename,
+      minSize: sizeRange?.min,
+      maxSize: sizeRange?.max,
+      public: options.public,
+      metadata: options.metadata,
+      expiresAt: expiresAt.getTime(),
+    });
+
+    const separator = this.uploadUrl.includes('?') ? '&' : '?';
+
+    return {
+      url: `${this.uploadUrl}${separator}token=${token}`,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      key,
+      external_id: options.external_id,
+      contentType,
+      maxSize: sizeRange?.max,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Check an upload token issued by getUploadUrl and return the upload it reserves
+   */
+  verifyUploadToken(token: string): LocalUploadTokenPayload {
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) {
+      throw new StorageError('Malformed upload token', 'INVALID_UPLOAD_TOKEN', 403);
+    }
+
+    const expected = createHmac('sha256', this.uploadSecret).update(encodedPayload).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new StorageError('Invalid upload token signature', 'INVALID_UPLOAD_TOKEN', 403);
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as LocalUploadTokenPayload;
+    if (Date.now() > payload.expiresAt) {
+      throw new StorageError('Upload token has expired', 'UPLOAD_URL_EXPIRED', 403);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Handle a PUT to an upload URL, e.g. from a Next.js route handler:
+   * `export const PUT = (request: Request) => provider.handleUploadRequest(request);`
+   */
+  async handleUploadRequest(request: Request): Promise<Response> {
+    const json = (status: number, body: Record<string, unknown>) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (request.method !== 'PUT') {
+      return json(405, { error: 'Method not allowed' });
+    }
+
+    try {
+      const token = new URL(request.url, 'http://localhost').searchParams.get('token');
+      if (!token) {
+        throw new StorageError('Missing upload token', 'INVALID_UPLOAD_TOKEN', 403);
+      }
+      const payload = this.verifyUploadToken(token);
+
+      const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+      if (contentType !== payload.contentType.toLowerCase()) {
+        throw new StorageError(`Content-Type must be ${payload.contentType}`, 'INVALID_UPLOAD', 415);
+      }
+
+      const declaredLength = request.headers.get('content-length');
+      if (declaredLength !== null && payload.maxSize !== undefined && parseInt(declaredLength) > payload.maxSize) {
+        throw new StorageError(`Upload exceeds the maximum size of ${payload.maxSize} bytes`, 'INVALID_UPLOAD', 413);
+      }
+      if (!request.body) {
+        throw new StorageError('Upload body is empty', 'INVALID_UPLOAD', 400);
+      }
+
+      // Count bytes as they arrive so an undeclared or lying Content-Length can't exceed the limit
+      let received = 0;
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (payload.maxSize !== undefined && received > payload.maxSize) {
+            callback(new StorageError(`Upload exceeds the maximum size of ${payload.maxSize} bytes`, 'INVALID_UPLOAD', 413));
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      // pipeline() keeps a limit error from going unhandled before uploadFile starts reading;
+      // uploadFile surfaces it when it consumes the destroyed limiter
+      pipeline(Readable.fromWeb(request.body as any), limiter).catch(() => undefined);
+
+      let result: StorageUploadResult;
+      try {
+        result = await this.uploadFile({
+          external_id: payload.external_id,
+          key: payload.key,
+          filename: payload.filename,
+          contentType: payload.contentType,
+          public: payload.public,
+          metadata: payload.metadata,
+          stream: limiter,
+        });
+      } catch (error) {
+        if (payload.maxSize !== undefined && received > payload.maxSize) {
+          throw new StorageError(`Upload exceeds the maximum size of ${payload.maxSize} bytes`, 'INVALID_UPLOAD', 413);
+        }
+        throw error;
+      }
+
+      if (payload.minSize !== undefined && result.size < payload.minSize) {
+        await this.deleteFile(result.key);
+        throw new StorageError(`Upload is smaller than the minimum size of ${payload.minSize} bytes`, 'INVALID_UPLOAD', 400);
+      }
+
+      return json(201, {
+        external_id: result.external_id,
+        key: result.key,
+        url: result.url,
+        size: result.size,
+        contentType: result.contentType,
+      });
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return json(error.statusCode, { error: error.message, code: error.code });
+      }
+      return json(500, { error: error instanceof Error ? error.message : 'Upload failed' });
+    }
+  }
+
+  private signUploadToken(payload: LocalUploadTokenPayload): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = createHmac('sha256', this.uploadSecret).update(encodedPayload).digest('base64url');
+    return `${encodedPayload}.${signature}`;
+  }
+
+  // Copy / move operations
+  async copyFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    return this.transferFile(sourceKey, destinationKey, options, false);
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+    return this.transferFile(sourceKey, destinationKey, options, true);
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  private async transferFile(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyFileOptions = {},
+    move: boolean,
+  ): Promise<StorageUploadResult> {
+    if (!(await this.fileExists(sourceKey))) {
+      throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+    }
+    if (!options.overwrite && await this.fileExists(destinationKey)) {
+      throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+    }
+
+    const sourcePath = join(this.basePath, sourceKey);
+    const destinationPath = join(this.basePath, destinationKey);
+
+    let sourceMetadata: any = {};
+    try {
+      sourceMetadata = JSON.parse(await fs.readFile(`${sourcePath}.json`, 'utf-8'));
+    } catch {
+      // Files without a metadata sidecar are copied with defaults
+    }
+
+    try {
+      await fs.mkdir(dirname(destinationPath), { recursive: true });
+
+      if (move) {
+        await fs.rename(sourcePath, destinationPath);
+      } else {
+        await fs.copyFile(sourcePath, destinationPath);
+      }
+
+      const stats = await fs.stat(destinationPath);
+      const url = `${this.baseUrl}/${destinationKey}`;
+      const visibility: 'public' | 'private' = (options.public ?? sourceMetadata.visibility === 'public')
+        ? 'public'
+        : 'private';
+      const metadata = options.replaceMetadata || !sourceMetadata.metadata
+        ? options.metadata
+        : { ...sourceMetadata.metadata, ...options.metadata };
+      const externalId = options.external_id || sourceMetadata.external_id || '';
+      const contentType = options.contentType || sourceMetadata.contentType || this.getContentTypeFromFilename(destinationKey);
+
+      const destinationMetadata = {
+        ...sourceMetadata,
+        external_id: externalId,
+        key: destinationKey,
+        contentType,
+        size: stats.size,
+        lastModified: new Date().toISOString(),
+        url,
+        visibility,
+        metadata,
+      };
+
+      await fs.writeFile(`${destinationPath}.json`, JSON.stringify(destinationMetadata, null, 2));
+
+      if (move) {
+        try {
+          await fs.unlink(`${sourcePath}.json`);
+        } catch {
+          // Ignore metadata file cleanup errors
+        }
+      }
+
+      return {
+        external_id: externalId,
+        key: destinationKey,
+        url,
+        size: stats.size,
+        contentType,
+        metadata,
+        visibility,
+        publicUrl: visibility === 'public' ? url : undefined,
+      };
+    } catch (error) {
+      throw toStorageError(error, `Failed to ${move ? 'move' : 'copy'} file`);
+    }
+  }
+
+  // In-place metadata updates (only the .json sidecar is rewritten)
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    if (!(await this.fileExists(key))) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+
+    const fullPath = join(this.basePath, key);
+    const metadataPath = `${fullPath}.json`;
+    let stored: any = {};
+    try {
+      stored = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+    } catch {
+      // Files without a metadata sidecar get one now
+    }
+
+    const stats = await fs.stat(fullPath);
+    const url = `${this.baseUrl}/${key}`;
+    const updated = {
+      ...stored,
+      external_id: stored.external_id || '',
+      key,
+      contentType: update.contentType ?? stored.contentType ?? this.getContentTypeFromFilename(key),
+      cacheControl: update.cacheControl ?? stored.cacheControl,
+      contentDisposition: update.contentDisposition ?? stored.contentDisposition,
+      size: stats.size,
+      lastModified: new Date().toISOString(),
+      url,
+      visibility: stored.visibility || 'private',
+      metadata: options.merge === false
+        ? { ...getLibraryMetadata(stored.metadata), ...update.metadata }
+        : { ...stored.metadata, ...update.metadata },
+    };
+
+    try {
+      await fs.writeFile(metadataPath, JSON.stringify(updated, null, 2));
+    } catch (error) {
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+
+    return {
+      external_id: updated.external_id,
+      key,
+      url,
+      size: updated.size,
+      contentType: updated.contentType,
+      lastModified: new Date(updated.lastModified),
+      checksum: getChecksumFromMetadata(updated.metadata),
+      metadata: updated.metadata,
+      visibility: updated.visibility,
+      publicUrl: updated.visibility === 'public' ? url : undefined,
+      cacheControl: updated.cacheControl,
+      contentDisposition: updated.contentDisposition,
+      storageClass: updated.storageClass || 'STANDARD',
+      tags: updated.tags,
+    };
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id "${externalId}" not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  // Tags and storage classes are emulated in the .json sidecar
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    const stored = await this.readSidecar(key);
+    return { ...stored.tags };
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    const stored = await this.readSidecar(key);
+    await this.writeSidecar(key, { ...stored, tags: { ...tags } });
+  }
+
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    const stored = await this.readSidecar(key);
+    await this.writeSidecar(key, { ...stored, storageClass });
+  }
+
+  private async readSidecar(key: string): Promise<any> {
+    if (!(await this.fileExists(key))) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    try {
+      return JSON.parse(await fs.readFile(join(this.basePath, `${key}.json`), 'utf-8'));
+    } catch {
+      // Files without a metadata sidecar get one on the next write
+      const stats = await fs.stat(join(this.basePath, key));
+      return {
+        external_id: '',
+        key,
+        contentType: this.getContentTypeFromFilename(key),
+        size: stats.size,
+        lastModified: stats.mtime.toISOString(),
+        url: `${this.baseUrl}/${key}`,
+        visibility: 'private',
+      };
+    }
+  }
+
+  private async writeSidecar(key: string, stored: any): Promise<void> {
+    try {
+      await fs.writeFile(join(this.basePath, `${key}.json`), JSON.stringify(stored, null, 2));
+    } catch (error) {
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+  }
+
   async fileExists(key: string): Promise<boolean> {
     const fullPath = join(this.basePath, key);
     
@@ -273,9 +851,12 @@ export class LocalStorageProvider implements StorageProvider {
               size: metadata.size,
               contentType: metadata.contentType,
               lastModified: new Date(metadata.lastModified),
+              checksum: getChecksumFromMetadata(metadata.metadata),
               metadata: metadata.metadata,
               visibility: metadata.visibility || 'private',
               publicUrl: metadata.visibility === 'public' ? metadata.url : undefined,
+              storageClass: metadata.storageClass || 'STANDARD',
+              tags: metadata.tags,
             };
           }
         } catch {
@@ -290,6 +871,35 @@ export class LocalStorageProvider implements StorageProvider {
     }
   }
 
+  // Reads the metadata sidecar only; files without one are left out, as they are from listFiles
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    if (!(await this.fileExists(key))) {
+      return null;
+    }
+
+    let metadata: any;
+    try {
+      metadata = JSON.parse(await fs.readFile(join(this.basePath, `${key}.json`), 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    return {
+      external_id: metadata.external_id,
+      key: metadata.key,
+      url: metadata.url,
+      size: metadata.size,
+      contentType: metadata.contentType,
+      lastModified: new Date(metadata.lastModified),
+      checksum: getChecksumFromMetadata(metadata.metadata),
+      metadata: metadata.metadata,
+      visibility: metadata.visibility || 'private',
+      publicUrl: metadata.visibility === 'public' ? metadata.url : undefined,
+      storageClass: metadata.storageClass || 'STANDARD',
+      tags: metadata.tags,
+    };
+  }
+
   async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
     const startTime = Date.now();
     
@@ -317,9 +927,12 @@ export class LocalStorageProvider implements StorageProvider {
             size: metadata.size,
             contentType: metadata.contentType,
             lastModified: new Date(metadata.lastModified),
+            checksum: getChecksumFromMetadata(metadata.metadata),
             metadata: options.includeMetadata !== false ? metadata.metadata : undefined,
             visibility: metadata.visibility || 'private',
             publicUrl: metadata.visibility === 'public' ? metadata.url : undefined,
+            storageClass: metadata.storageClass || 'STANDARD',
+            tags: metadata.tags,
           };
           
           allFiles.push(fileInfo);
@@ -329,8 +942,11 @@ export class LocalStorageProvider implements StorageProvider {
         }
       }
       
+      // Folders come from every key under the prefix, so filters only narrow the files
+      const grouped = options.delimiter ? groupByDelimiter(allFiles, options.prefix, options.delimiter) : undefined;
+
       // Apply filters
-      let filteredFiles = this.applyFilters(allFiles, options);
+      let filteredFiles = this.applyFilters(grouped ? grouped.files : allFiles, options);
       
       // Apply sorting
       if (options.sortBy) {
@@ -343,16 +959,27 @@ export class LocalStorageProvider implements StorageProvider {
       const totalCount = filteredFiles.length;
       const paginatedFiles = filteredFiles.slice(offset, offset + limit);
       const hasMore = offset + limit < totalCount;
+
+      // Every folder is reported with the first page, including empty directories
+      let commonPrefixes: string[] | undefined;
+      if (grouped) {
+        commonPrefixes = offset ? [] : grouped.commonPrefixes;
+        if (!offset && options.delimiter === '/') {
+          const directories = await this.listDirectories(options.prefix || '');
+          commonPrefixes = [...new Set([...commonPrefixes, ...directories])].sort();
+        }
+      }
       
       return {
         files: paginatedFiles,
         totalCount,
         hasMore,
         nextOffset: hasMore ? offset + limit : undefined,
+        commonPrefixes,
         searchTime: Date.now() - startTime,
       };
     } catch (error) {
-      throw new Error(`Failed to list files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to list files');
     }
   }
 
@@ -383,9 +1010,12 @@ export class LocalStorageProvider implements StorageProvider {
             size: metadata.size,
             contentType: metadata.contentType,
             lastModified: new Date(metadata.lastModified),
+            checksum: getChecksumFromMetadata(metadata.metadata),
             metadata: options.includeMetadata !== false ? metadata.metadata : undefined,
             visibility: metadata.visibility || 'private',
             publicUrl: metadata.visibility === 'public' ? metadata.url : undefined,
+            storageClass: metadata.storageClass || 'STANDARD',
+            tags: metadata.tags,
           };
           
           allFiles.push(fileInfo);
@@ -422,7 +1052,7 @@ export class LocalStorageProvider implements StorageProvider {
         searchTime: Date.now() - startTime,
       };
     } catch (error) {
-      throw new Error(`Failed to search files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to search files');
     }
   }
 
@@ -518,7 +1148,7 @@ export class LocalStorageProvider implements StorageProvider {
         }
       }
       
-      return true;
+      return matchesClassificationFilters(file, options);
     });
   }
 
@@ -629,6 +1259,20 @@ export class LocalStorageProvider implements StorageProvider {
     return key.split('/').pop() || key;
   }
 
+  // Subdirectories directly under the prefix's directory that match the rest of the prefix, as folder prefixes
+  private async listDirectories(prefix: string): Promise<string[]> {
+    const parent = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    try {
+      const entries = await fs.readdir(join(this.basePath, parent), { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && !(parent === '' && entry.name === '.multipart'))
+        .map(entry => `${parent}${entry.name}/`)
+        .filter(folder => folder.startsWith(prefix) && folder !== prefix);
+    } catch {
+      return [];
+    }
+  }
+
   private async getAllMetadataFiles(): Promise<string[]> {
     const metadataFiles: string[] = [];
     
@@ -753,7 +1397,7 @@ export class LocalStorageProvider implements StorageProvider {
     // Check if file exists first
     const exists = await this.fileExists(key);
     if (!exists) {
-      throw new Error(`File with key ${key} not found`);
+      throw new StorageNotFoundError(`File with key ${key} not found`);
     }
 
     const fullPath = join(this.basePath, key);
@@ -790,12 +1434,29 @@ export class LocalStorageProvider implements StorageProvider {
   async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     
     return this.getFileVisibility(fileInfo.key);
   }
 
+  // Folders are real directories, so empty ones are listed too
+  async createFolder(path: string): Promise<void> {
+    await fs.mkdir(join(this.basePath, path), { recursive: true });
+  }
+
+  async deleteFolder(path: string): Promise<void> {
+    try {
+      await fs.rm(join(this.basePath, path), { recursive: true, force: true });
+    } catch (error) {
+      throw toStorageError(error, 'Failed to delete folder');
+    }
+  }
+
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('localstorage');
+  }
+
   async isAvailable(): Promise<boolean> {
     return true; // Local storage has no optional dependencies
   }
@@ -0,0 +1,732 @@
+import {
+  StorageProvider,
+  StorageUploadOptions,
+  StorageUploadResult,
+  StorageFileInfo,
+  ListFilesOptions,
+  ListFilesResult,
+  SearchFilesOptions,
+  SearchFilesResult,
+  FileVisibilityResult,
+  FileVisibilityStatus,
+  FileUrlOptions,
+  FileStreamOptions,
+  FileStreamResult,
+  CopyFileOptions,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+  StorageCapabilities,
+} from '../types';
+import { resolveByteRange, StorageError, calculateChecksum, checksumToMetadata, getChecksumFromMetadata, applyExpiration, getLibraryMetadata, matchesClassificationFilters, groupByDelimiter, getContentTypeFromFilename, generateKeyFromExternalId } from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
+
+export interface MemoryStorageConfig {
+  baseUrl?: string; // Prefix for generated file URLs (default: 'memory://')
+}
+
+export interface MemoryStoredObject {
+  key: string;
+  external_id: string;
+  data: Buffer;
+  contentType: string;
+  filename?: string;
+  metadata?: Record<string, string>;
+  visibility: 'public' | 'private';
+  lastModified: Date;
+  etag: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  storageClass: string;
+  tags?: Record<string, string>;
+}
+
+export type MemoryStorageOperation =
+  | 'uploadFile'
+  | 'deleteFile'
+  | 'getFileUrl'
+  | 'getFileStream'
+  | 'fileExists'
+  | 'findFileByExternalId'
+  | 'getFileInfo'
+  | 'listFiles'
+  | 'searchFiles'
+  | 'setFileVisibility'
+  | 'getFileVisibility'
+  | 'copyFile'
+  | 'updateFileMetadata'
+  | 'setFileTags'
+  | 'setStorageClass';
+
+export interface MemoryFailureOptions {
+  error?: Error;  // Error to throw (default: StorageError with code 'INJECTED_FAILURE')
+  key?: string;   // Only fail for this key
+  times?: number; // Fail this many times, then succeed again (default: until cleared)
+}
+
+interface InjectedFailure extends MemoryFailureOptions {
+  operation: MemoryStorageOperation;
+}
+
+/**
+ * Storage provider that keeps files in process memory.
+ * Meant for unit tests and ephemeral environments; everything is lost when the process exits.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  private baseUrl: string;
+  private objects = new Map<string, MemoryStoredObject>();
+  private failures: InjectedFailure[] = [];
+
+  constructor(config: MemoryStorageConfig = {}) {
+    const baseUrl = config.baseUrl || process.env.CRUNCHYCONE_MEMORY_STORAGE_BASE_URL || 'memory://';
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  }
+
+  async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
+    const inputCount = [options.filePath, options.stream, options.buffer].filter(Boolean).length;
+    if (inputCount !== 1) {
+      throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
+    }
+
+    const key = options.key || generateKeyFromExternalId(options.external_id, options.filename);
+    this.checkFailure('uploadFile', key);
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
+
+    let data: Buffer;
+    if (options.buffer) {
+      data = Buffer.from(options.buffer);
+    } else if (options.filePath) {
+      data = await fs.readFile(options.filePath);
+    } else {
+      const readableStream = options.stream instanceof ReadableStream
+        ? Readable.fromWeb(options.stream as any)
+        : options.stream as Readable;
+      const chunks: Buffer[] = [];
+      for await (const chunk of readableStream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      data = Buffer.concat(chunks);
+    }
+
+    const contentType = options.contentType || getContentTypeFromFilename(options.filename || key);
+    const checksum = options.checksumAlgorithm ? calculateChecksum(data, options.checksumAlgorithm) : undefined;
+    const stored: MemoryStoredObject = {
+      key,
+      external_id: options.external_id,
+      data,
+      contentType,
+      filename: options.filename,
+      metadata: options.metadata || checksum ? { ...options.metadata, ...checksumToMetadata(checksum) } : undefined,
+      visibility: options.public ? 'public' : 'private',
+      lastModified: new Date(),
+      etag: createHash('md5').update(data).digest('hex'),
+      storageClass: options.storageClass || 'STANDARD',
+      tags: options.tags && { ...options.tags },
+    };
+    this.objects.set(key, stored);
+
+    return this.toUploadResult(stored);
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    this.checkFailure('deleteFile', key);
+    this.objects.delete(key);
+  }
+
+  async deleteFileByExternalId(externalId: string): Promise<void> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    await this.deleteFile(stored.key);
+  }
+
+  async getFileUrl(key: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    this.checkFailure('getFileUrl', key);
+
+    const params = new URLSearchParams();
+    if (expiresIn !== undefined) {
+      params.set('expires', String(Date.now() + expiresIn * 1000));
+    }
+    if (options?.disposition) {
+      params.set('disposition', options.disposition);
+    }
+
+    const query = params.toString();
+    return `${this.baseUrl}/${key}${query ? `?${query}` : ''}`;
+  }
+
+  async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileUrl(stored.key, expiresIn, options);
+  }
+
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
+    this.checkFailure('getFileStream', key);
+
+    const { start, end, responseType = 'node', signal } = options;
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    if (signal?.aborted) {
+      throw new Error('File stream request aborted');
+    }
+
+    const total = stored.data.length;
+    const range = resolveByteRange(total, start, end);
+    const content = range ? stored.data.subarray(range.start, range.end + 1) : stored.data;
+    const nodeStream = Readable.from([content]);
+
+    return {
+      stream: responseType === 'web' ? Readable.toWeb(nodeStream) as ReadableStream : nodeStream,
+      contentType: stored.contentType,
+      contentLength: content.length,
+      isPartialContent: !!range,
+      range: range ? { ...range, total } : undefined,
+      streamType: responseType,
+      acceptsRanges: true,
+      lastModified: stored.lastModified,
+      etag: stored.etag,
+      providerSpecific: stored.cacheControl ? { cacheControl: stored.cacheControl } : undefined,
+      cleanup: async () => {
+        nodeStream.destroy();
+      },
+    };
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileStream(stored.key, options);
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    this.checkFailure('fileExists', key);
+    return this.objects.has(key);
+  }
+
+  async fileExistsByExternalId(externalId: string): Promise<boolean> {
+    return (await this.findFileByExternalId(externalId)) !== null;
+  }
+
+  async findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
+    this.checkFailure('findFileByExternalId');
+    const stored = this.findStoredByExternalId(externalId);
+    return stored ? this.toFileInfo(stored) : null;
+  }
+
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    this.checkFailure('getFileInfo', key);
+    const stored = this.objects.get(key);
+    return stored ? this.toFileInfo(stored) : null;
+  }
+
+  async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
+    this.checkFailure('listFiles');
+    const startTime = Date.now();
+
+    const allFiles = [...this.objects.values()].map(stored => this.toFileInfo(stored, options));
+    // Folders come from every key under the prefix, so filters only narrow the files
+    const grouped = options.delimiter ? groupByDelimiter(allFiles, options.prefix, options.delimiter) : undefined;
+    let filteredFiles = this.applyFilters(grouped ? grouped.files : allFiles, options);
+    filteredFiles = this.applySorting(filteredFiles, options.sortBy || 'key', options.sortOrder || 'asc');
+
+    return {
+      ...this.paginate(filteredFiles, options),
+      // The whole listing is in memory, so every folder is reported with the first page
+      commonPrefixes: grouped && (options.offset || options.continuationToken) ? [] : grouped?.commonPrefixes,
+      searchTime: Date.now() - startTime,
+    };
+  }
+
+  async searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult> {
+    this.checkFailure('searchFiles');
+    const startTime = Date.now();
+
+    const allFiles = [...this.objects.values()].map(stored => this.toFileInfo(stored, options));
+    let searchResults = this.applySearchFilters(allFiles, options);
+    searchResults = this.applyFilters(searchResults, options);
+
+    if (options.onlyPublic) {
+      searchResults = searchResults.filter(file => file.visibility === 'public');
+    }
+    if (options.onlyPrivate) {
+      searchResults = searchResults.filter(file => file.visibility !== 'public');
+    }
+
+    searchResults = this.applySorting(searchResults, options.sortBy || 'key', options.sortOrder || 'asc');
+
+    return {
+      ...this.paginate(searchResults, options),
+      query: options.query,
+      searchFields: options.searchFields,
+      searchTime: Date.now() - startTime,
+    };
+  }
+
+  // Copy / move operations
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    this.checkFailure('copyFile', sourceKey);
+
+    const source = this.objects.get(sourceKey);
+    if (!source) {
+      throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+    }
+    if (!options.overwrite && this.objects.has(destinationKey)) {
+      throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+    }
+
+    const copy: MemoryStoredObject = {
+      ...source,
+      key: destinationKey,
+      external_id: options.external_id || source.external_id,
+      contentType: options.contentType || source.contentType,
+      metadata: options.replaceMetadata || !source.metadata
+        ? options.metadata && { ...options.metadata }
+        : { ...source.metadata, ...options.metadata },
+      visibility: (options.public ?? source.visibility === 'public') ? 'public' : 'private',
+      lastModified: new Date(),
+    };
+    this.objects.set(destinationKey, copy);
+
+    return this.toUploadResult(copy);
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(stored.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+
+    const result = await this.copyFile(sourceKey, destinationKey, options);
+    await this.deleteFile(sourceKey);
+    return result;
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(stored.key, destinationKey, options);
+  }
+
+  // In-place metadata updates
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    this.checkFailure('updateFileMetadata', key);
+
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+
+    const updated: MemoryStoredObject = {
+      ...stored,
+      contentType: update.contentType ?? stored.contentType,
+      cacheControl: update.cacheControl ?? stored.cacheControl,
+      contentDisposition: update.contentDisposition ?? stored.contentDisposition,
+      metadata: options.merge === false || !stored.metadata
+        ? { ...getLibraryMetadata(stored.metadata), ...update.metadata }
+        : { ...stored.metadata, ...update.metadata },
+      lastModified: new Date(),
+    };
+    this.objects.set(key, updated);
+
+    return this.toFileInfo(updated);
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(stored.key, update, options);
+  }
+
+  // Tags and storage classes
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    return { ...stored.tags };
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    this.checkFailure('setFileTags', key);
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    stored.tags = { ...tags };
+  }
+
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    this.checkFailure('setStorageClass', key);
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    stored.storageClass = storageClass;
+  }
+
+  // File visibility management
+  async setFileVisibility(key: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    this.checkFailure('setFileVisibility', key);
+
+    const stored = this.objects.get(key);
+    if (!stored) {
+      return {
+        success: false,
+        requestedVisibility: visibility,
+        actualVisibility: 'private',
+        message: `File with key ${key} not found`,
+      };
+    }
+
+    stored.visibility = visibility;
+    return {
+      success: true,
+      requestedVisibility: visibility,
+      actualVisibility: visibility,
+      publicUrl: visibility === 'public' ? `${this.baseUrl}/${key}` : undefined,
+      message: `File marked as ${visibility}.`,
+    };
+  }
+
+  async setFileVisibilityByExternalId(externalId: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      return {
+        success: false,
+        requestedVisibility: visibility,
+        actualVisibility: 'private',
+        message: `File with external_id ${externalId} not found`,
+      };
+    }
+    return this.setFileVisibility(stored.key, visibility);
+  }
+
+  async getFileVisibility(key: string): Promise<FileVisibilityStatus> {
+    this.checkFailure('getFileVisibility', key);
+
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+
+    const isPublic = stored.visibility === 'public';
+    return {
+      visibility: stored.visibility,
+      publicUrl: isPublic ? `${this.baseUrl}/${key}` : undefined,
+      canMakePublic: true,
+      canMakePrivate: true,
+      supportsTemporaryAccess: false,
+      message: isPublic ? 'File is marked as public.' : 'File is private.',
+    };
+  }
+
+  async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
+    const stored = this.findStoredByExternalId(externalId);
+    if (!stored) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileVisibility(stored.key);
+  }
+
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('memory');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  // Test helpers
+
+  /**
+   * Get a copy of a stored object, including its content
+   */
+  getStoredObject(key: string): MemoryStoredObject | undefined {
+    const stored = this.objects.get(key);
+    return stored ? { ...stored, data: Buffer.from(stored.data) } : undefined;
+  }
+
+  /**
+   * Get copies of every stored object, ordered by key
+   */
+  getStoredObjects(): MemoryStoredObject[] {
+    return [...this.objects.keys()].sort().map(key => this.getStoredObject(key) as MemoryStoredObject);
+  }
+
+  /**
+   * Remove every stored object and injected failure
+   */
+  clear(): void {
+    this.objects.clear();
+    this.failures = [];
+  }
+
+  /**
+   * Make an operation throw. By-external-id variants fail through the key-based operation they call.
+   */
+  injectFailure(operation: MemoryStorageOperation, options: MemoryFailureOptions = {}): void {
+    this.failures.push({ operation, ...options });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  private checkFailure(operation: MemoryStorageOperation, key?: string): void {
+    const failure = this.failures.find(f =>
+      f.operation === operation && (f.key === undefined || f.key === key),
+    );
+    if (!failure) {
+      return;
+    }
+
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+
+    throw failure.error || new StorageError(
+      `Injected failure for ${operation}${key ? ` (${key})` : ''}`,
+      'INJECTED_FAILURE',
+      500,
+    );
+  }
+
+  private findStoredByExternalId(externalId: string): MemoryStoredObject | undefined {
+    for (const stored of this.objects.values()) {
+      if (stored.external_id === externalId) {
+        return stored;
+      }
+    }
+    return undefined;
+  }
+
+  private toUploadResult(stored: MemoryStoredObject): StorageUploadResult {
+    const url = `${this.baseUrl}/${stored.key}`;
+    return {
+      external_id: stored.external_id,
+      key: stored.key,
+      url,
+      size: stored.data.length,
+      contentType: stored.contentType,
+      etag: stored.etag,
+      checksum: getChecksumFromMetadata(stored.metadata),
+      metadata: stored.metadata && { ...stored.metadata },
+      visibility: stored.visibility,
+      publicUrl: stored.visibility === 'public' ? url : undefined,
+    };
+  }
+
+  private toFileInfo(stored: MemoryStoredObject, options: ListFilesOptions = {}): StorageFileInfo {
+    const url = `${this.baseUrl}/${stored.key}`;
+    return {
+      external_id: stored.external_id,
+      key: stored.key,
+      url: options.includeUrls !== false ? url : '',
+      size: stored.data.length,
+      contentType: stored.contentType,
+      lastModified: stored.lastModified,
+      etag: stored.etag,
+      checksum: getChecksumFromMetadata(stored.metadata),
+      metadata: options.includeMetadata !== false && stored.metadata ? { ...stored.metadata } : undefined,
+      visibility: stored.visibility,
+      publicUrl: stored.visibility === 'public' ? url : undefined,
+      cacheControl: stored.cacheControl,
+      contentDisposition: stored.contentDisposition,
+      storageClass: stored.storageClass,
+      tags: stored.tags && { ...stored.tags },
+    };
+  }
+
+  private paginate(files: StorageFileInfo[], options: ListFilesOptions): ListFilesResult {
+    // Continuation tokens are plain offsets, so both pagination styles work
+    const offset = options.continuationToken ? parseInt(options.continuationToken, 10) : options.offset || 0;
+    const limit = Math.min(options.limit || 100, 1000);
+    const hasMore = offset + limit < files.length;
+
+    return {
+      files: files.slice(offset, offset + limit),
+      totalCount: files.length,
+      hasMore,
+      continuationToken: hasMore ? String(offset + limit) : undefined,
+      nextOffset: hasMore ? offset + limit : undefined,
+    };
+  }
+
+  private applyFilters(files: StorageFileInfo[], options: ListFilesOptions): StorageFileInfo[] {
+    return files.filter(file => {
+      if (options.prefix && !file.key.startsWith(options.prefix)) {
+        return false;
+      }
+      if (options.keyPattern && !this.matchesPattern(file.key, options.keyPattern)) {
+        return false;
+      }
+
+      if (options.externalIdPrefix && !file.external_id.startsWith(options.externalIdPrefix)) {
+        return false;
+      }
+      if (options.externalIdPattern && !this.matchesPattern(file.external_id, options.externalIdPattern)) {
+        return false;
+      }
+      if (options.externalIds && !options.externalIds.includes(file.external_id)) {
+        return false;
+      }
+
+      if (options.contentType && file.contentType !== options.contentType) {
+        return false;
+      }
+      if (options.contentTypePrefix && !file.contentType.startsWith(options.contentTypePrefix)) {
+        return false;
+      }
+
+      const filename = this.extractFilenameFromKey(file.key);
+      if (options.filename && !filename.toLowerCase().includes(options.filename.toLowerCase())) {
+        return false;
+      }
+      if (options.filenamePattern && !this.matchesPattern(filename, options.filenamePattern)) {
+        return false;
+      }
+
+      if (options.minSize !== undefined && file.size < options.minSize) {
+        return false;
+      }
+      if (options.maxSize !== undefined && file.size > options.maxSize) {
+        return false;
+      }
+
+      // Objects are immutable once written, so created and modified dates are the same
+      const lastModified = file.lastModified as Date;
+      if (options.createdAfter && lastModified < options.createdAfter) {
+        return false;
+      }
+      if (options.createdBefore && lastModified > options.createdBefore) {
+        return false;
+      }
+      if (options.modifiedAfter && lastModified < options.modifiedAfter) {
+        return false;
+      }
+      if (options.modifiedBefore && lastModified > options.modifiedBefore) {
+        return false;
+      }
+
+      // Metadata filters use the stored metadata even when it isn't returned
+      const metadata = this.objects.get(file.key)?.metadata || {};
+      if (options.metadata) {
+        for (const [key, value] of Object.entries(options.metadata)) {
+          if (metadata[key] !== value) {
+            return false;
+          }
+        }
+      }
+      if (options.hasMetadata && !options.hasMetadata.every(key => key in metadata)) {
+        return false;
+      }
+
+      return matchesClassificationFilters(file, options);
+    });
+  }
+
+  private applySearchFilters(files: StorageFileInfo[], options: SearchFilesOptions): StorageFileInfo[] {
+    if (!options.query) {
+      return files;
+    }
+
+    const query = options.caseSensitive ? options.query : options.query.toLowerCase();
+    const searchFields = options.searchFields || ['external_id', 'filename', 'metadata', 'contentType'];
+
+    return files.filter(file => searchFields.some(field => {
+      let searchText = '';
+
+      switch (field) {
+        case 'external_id':
+          searchText = file.external_id;
+          break;
+        case 'filename':
+          searchText = this.extractFilenameFromKey(file.key);
+          break;
+        case 'contentType':
+          searchText = file.contentType;
+          break;
+        case 'key':
+          searchText = file.key;
+          break;
+        case 'metadata': {
+          const metadata = this.objects.get(file.key)?.metadata;
+          searchText = metadata ? JSON.stringify(metadata) : '';
+          break;
+        }
+      }
+
+      if (!options.caseSensitive) {
+        searchText = searchText.toLowerCase();
+      }
+
+      return options.exactMatch ? searchText === query : searchText.includes(query);
+    }));
+  }
+
+  private applySorting(files: StorageFileInfo[], sortBy: string, sortOrder: 'asc' | 'desc'): StorageFileInfo[] {
+    const valueOf = (file: StorageFileInfo): string | number => {
+      switch (sortBy) {
+        case 'external_id':
+          return file.external_id;
+        case 'filename':
+          return this.extractFilenameFromKey(file.key);
+        case 'size':
+          return file.size;
+        case 'lastModified':
+          return file.lastModified?.getTime() || 0;
+        case 'contentType':
+          return file.contentType;
+        default:
+          return file.key;
+      }
+    };
+
+    return [...files].sort((a, b) => {
+      const valueA = valueOf(a);
+      const valueB = valueOf(b);
+      const comparison = typeof valueA === 'string' && typeof valueB === 'string'
+        ? valueA.localeCompare(valueB)
+        : valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+      return sortOrder === 'asc' ? comparison : -comparison;
+    });
+  }
+
+  private matchesPattern(str: string, pattern: string): boolean {
+    // Simple glob pattern matching (supports * and ?)
+    const regexPattern = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+
+    return new RegExp(`^${regexPattern}$`, 'i').test(str);
+  }
+
+  private extractFilenameFromKey(key: string): string {
+    return key.split('/').pop() || key;
+  }
+}
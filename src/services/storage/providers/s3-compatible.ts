@@ -1,13 +1,21 @@
 // Dynamic imports for optional AWS SDK dependencies
-import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo, S3Config, ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions } from '../types';
+import { StorageProvider, StorageUploadOptions, StorageUploadResult, StorageFileInfo, S3Config, ListFilesOptions, ListFilesResult, SearchFilesOptions, SearchFilesResult, FileVisibilityResult, FileVisibilityStatus, FileUrlOptions, FileStreamOptions, FileStreamResult, MultipartUploadOptions, MultipartUpload, MultipartUploadPart, UploadUrlOptions, UploadUrlResult, CopyFileOptions, FileDeleteResult, FileMetadataUpdate, UpdateFileMetadataOptions, StorageCapabilities } from '../types';
+import { StorageError, parseContentRange, validateMultipartPart, DEFAULT_MULTIPART_PART_SIZE, resolveUploadSizeRange, prepareUploadChecksum, checksumToMetadata, getChecksumFromMetadata, applyExpiration, getLibraryMetadata, matchesClassificationFilters, getContentTypeFromFilename, listAllFiles } from '../utils';
+import { applySniffedContentType } from '../sniffing';
+import { createHmac } from 'crypto';
 import { createReadStream } from 'fs';
 import { Readable } from 'stream';
+import { StorageNotFoundError, StorageAlreadyExistsError, StorageInvalidInputError, toStorageError } from '../errors';
+import { getStorageProviderCapabilities } from '../capabilities';
 
 export class S3CompatibleProvider implements StorageProvider {
   private client: any; // S3Client - will be initialized lazily
   private config: S3Config;
   private awsSDK: any; // Will hold dynamically imported AWS SDK modules
 
+  // S3 rejects parts smaller than 5MB (except the last one) when completing an upload
+  private static readonly MIN_PART_SIZE = 5 * 1024 * 1024;
+
   constructor(config: S3Config) {
     this.config = config;
   }
@@ -30,11 +38,20 @@ export class S3CompatibleProvider implements StorageProvider {
         S3Client: s3Module.S3Client,
         PutObjectCommand: s3Module.PutObjectCommand,
         DeleteObjectCommand: s3Module.DeleteObjectCommand,
+        DeleteObjectsCommand: s3Module.DeleteObjectsCommand,
         HeadObjectCommand: s3Module.HeadObjectCommand,
         GetObjectCommand: s3Module.GetObjectCommand,
         ListObjectsV2Command: s3Module.ListObjectsV2Command,
         PutObjectAclCommand: s3Module.PutObjectAclCommand,
         GetObjectAclCommand: s3Module.GetObjectAclCommand,
+        CreateMultipartUploadCommand: s3Module.CreateMultipartUploadCommand,
+        UploadPartCommand: s3Module.UploadPartCommand,
+        ListPartsCommand: s3Module.ListPartsCommand,
+        CompleteMultipartUploadCommand: s3Module.CompleteMultipartUploadCommand,
+        AbortMultipartUploadCommand: s3Module.AbortMultipartUploadCommand,
+        CopyObjectCommand: s3Module.CopyObjectCommand,
+        GetObjectTaggingCommand: s3Module.GetObjectTaggingCommand,
+        PutObjectTaggingCommand: s3Module.PutObjectTaggingCommand,
         getSignedUrl: presignerModule.getSignedUrl,
         ObjectCannedACL: s3Module.ObjectCannedACL,
         ServerSideEncryption: s3Module.ServerSideEncryption,
@@ -71,8 +88,10 @@ export class S3CompatibleProvider implements StorageProvider {
     // Validate input - exactly one source should be provided
     const inputCount = [options.filePath, options.stream, options.buffer].filter(Boolean).length;
     if (inputCount !== 1) {
-      throw new Error('Exactly one of filePath, stream, or buffer must be provided');
+      throw new StorageInvalidInputError('Exactly one of filePath, stream, or buffer must be provided');
     }
+    options = await applySniffedContentType(options);
+    options = applyExpiration(options);
 
     // Generate key if not provided
     const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
@@ -80,6 +99,8 @@ export class S3CompatibleProvider implements StorageProvider {
     let body: Buffer | Uint8Array | string | Readable;
     let contentLength: number | undefined;
     let contentType = options.contentType || 'application/octet-stream';
+    const uploadChecksum = await prepareUploadChecksum(options);
+    const checksum = uploadChecksum.checksum;
 
     // Handle different input types
     if (options.buffer) {
@@ -91,13 +112,13 @@ export class S3CompatibleProvider implements StorageProvider {
     } else if (options.stream) {
       if (options.stream instanceof ReadableStream) {
         // Convert Web ReadableStream to Node.js Readable
-        body = Readable.fromWeb(options.stream as any);
+        body = uploadChecksum.wrap(Readable.fromWeb(options.stream as any));
       } else {
-        body = options.stream as Readable;
+        body = uploadChecksum.wrap(options.stream as Readable);
       }
       contentLength = options.size;
     } else {
-      throw new Error('No valid input source provided');
+      throw new StorageInvalidInputError('No valid input source provided');
     }
 
     // Infer content type from filename if not provided
@@ -108,18 +129,24 @@ export class S3CompatibleProvider implements StorageProvider {
     // Add external_id to metadata
     const metadata = {
       ...options.metadata,
+      ...checksumToMetadata(checksum),
       external_id: options.external_id,
     };
 
+    // S3 rejects the upload when the content does not match these checksums
     const command = new sdk.PutObjectCommand({
       Bucket: bucket,
       Key: key,
       Body: body,
       ContentType: contentType,
       ContentLength: contentLength,
+      ContentMD5: checksum?.algorithm === 'md5' ? checksum.value : undefined,
+      ChecksumSHA256: checksum?.algorithm === 'sha256' ? checksum.value : undefined,
       ACL: this.config.defaultACL as any,
       ServerSideEncryption: this.config.serverSideEncryption as any,
       Metadata: metadata,
+      Tagging: options.tags ? new URLSearchParams(options.tags).toString() : undefined,
+      StorageClass: options.storageClass as any,
     });
 
     try {
@@ -135,12 +162,13 @@ export class S3CompatibleProvider implements StorageProvider {
         size: contentLength || 0,
         contentType,
         etag: result.ETag,
+        checksum: uploadChecksum.result(),
         metadata: options.metadata,
         visibility: options.public ? 'public' : 'private',
         publicUrl: options.public ? this.getPublicUrl(key) : undefined,
       };
     } catch (error) {
-      throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to upload file');
     }
   }
 
@@ -154,8 +182,34 @@ export class S3CompatibleProvider implements StorageProvider {
     try {
       await client.send(command);
     } catch (error) {
-      throw new Error(`Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to delete file');
+    }
+  }
+
+  async deleteFiles(keys: string[]): Promise<FileDeleteResult[]> {
+    const { client, sdk } = await this.initializeClient();
+    const failures = new Map<string, string>();
+
+    // DeleteObjects takes at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const chunk = keys.slice(i, i + 1000);
+      try {
+        const response = await client.send(new sdk.DeleteObjectsCommand({
+          Bucket: this.config.bucket,
+          Delete: { Objects: chunk.map(key => ({ Key: key })), Quiet: true },
+        }));
+        for (const error of response.Errors || []) {
+          failures.set(error.Key, error.Message || error.Code || 'Unknown error');
+        }
+      } catch (error) {
+        const message = `Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        chunk.forEach(key => failures.set(key, message));
+      }
     }
+
+    return keys.map(key => failures.has(key)
+      ? { key, success: false, message: failures.get(key) }
+      : { key, success: true });
   }
 
   async getFileUrl(key: string, expiresIn: number = 3600, options?: FileUrlOptions): Promise<string> {
@@ -178,7 +232,7 @@ export class S3CompatibleProvider implements StorageProvider {
     try {
       return await sdk.getSignedUrl(client, command, { expiresIn });
     } catch (error) {
-      throw new Error(`Failed to generate file URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to generate file URL');
     }
   }
 
@@ -196,14 +250,14 @@ export class S3CompatibleProvider implements StorageProvider {
       if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
         return false;
       }
-      throw new Error(`Failed to check file existence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to check file existence');
     }
   }
 
   async deleteFileByExternalId(externalId: string): Promise<void> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     await this.deleteFile(fileInfo.key);
   }
@@ -211,7 +265,7 @@ export class S3CompatibleProvider implements StorageProvider {
   async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     return this.getFileUrl(fileInfo.key, expiresIn, options);
   }
@@ -262,6 +316,7 @@ export class S3CompatibleProvider implements StorageProvider {
                   contentType: headResult.ContentType || 'application/octet-stream',
                   lastModified: headResult.LastModified,
                   etag: headResult.ETag,
+                  checksum: getChecksumFromMetadata(headResult.Metadata),
                   metadata: headResult.Metadata,
                 };
               }
@@ -278,7 +333,686 @@ export class S3CompatibleProvider implements StorageProvider {
       // File not found
       return null;
     } catch (error: any) {
-      throw new Error(`Failed to find file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to find file');
+    }
+  }
+
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    const { client, sdk } = await this.initializeClient();
+
+    let head: any;
+    try {
+      head = await client.send(new sdk.HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+      }));
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw toStorageError(error, 'Failed to find file');
+    }
+
+    const metadata: Record<string, string> = head.Metadata || {};
+    return {
+      external_id: metadata['external-id'] || metadata['external_id'] || '',
+      key,
+      url: await this.generatePublicUrl(key),
+      size: head.ContentLength || 0,
+      contentType: head.ContentType || 'application/octet-stream',
+      lastModified: head.LastModified,
+      etag: head.ETag,
+      checksum: getChecksumFromMetadata(metadata),
+      metadata,
+      cacheControl: head.CacheControl,
+      contentDisposition: head.ContentDisposition,
+      storageClass: head.StorageClass || 'STANDARD',
+    };
+  }
+
+  // File streaming operations
+  async getFileStream(key: string, options: FileStreamOptions = {}): Promise<FileStreamResult> {
+    const { client, sdk } = await this.initializeClient();
+
+    const {
+      start,
+      end,
+      responseType = 'node',
+      signal,
+      timeout = 30000,
+    } = options;
+
+    const commandParams: any = {
+      Bucket: this.config.bucket,
+      Key: key,
+    };
+
+    const isRangeRequest = start !== undefined || end !== undefined;
+    if (isRangeRequest) {
+      commandParams.Range = `bytes=${start ?? 0}-${end ?? ''}`;
+    }
+
+    // Create abort controller for timeout and cancellation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    if (signal?.aborted) {
+      controller.abort();
+    } else if (signal) {
+      signal.addEventListener('abort', () => controller.abort());
+    }
+
+    try {
+      const response = await client.send(new sdk.GetObjectCommand(commandParams), {
+        abortSignal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const range = parseContentRange(response.ContentRange);
+      const isPartialContent = response.$metadata?.httpStatusCode === 206 || (isRangeRequest && !!range);
+
+      const body = response.Body as Readable;
+      const stream: NodeJS.ReadableStream | ReadableStream = responseType === 'web'
+        ? Readable.toWeb(body) as ReadableStream
+        : body;
+
+      return {
+        stream,
+        contentType: response.ContentType || 'application/octet-stream',
+        contentLength: response.ContentLength,
+        lastModified: response.LastModified,
+        etag: response.ETag,
+        acceptsRanges: true,
+        isPartialContent,
+        range: isPartialContent ? range : undefined,
+        streamType: responseType,
+        providerSpecific: {
+          cacheControl: response.CacheControl,
+          bucket: this.config.bucket,
+        },
+        cleanup: async () => {
+          controller.abort();
+          body.destroy();
+        },
+      };
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+      if (error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      if (error?.name === 'InvalidRange' || error?.$metadata?.httpStatusCode === 416) {
+        throw new StorageError(
+          `Requested range ${start ?? 0}-${end ?? ''} is not satisfiable for ${key}`,
+          'RANGE_NOT_SATISFIABLE',
+          416,
+          error,
+        );
+      }
+      if (error?.name === 'AbortError') {
+        throw new Error(signal?.aborted ? 'File stream request aborted' : `File stream request timeout after ${timeout}ms`);
+      }
+      throw toStorageError(error, 'Failed to create file stream');
+    }
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.getFileStream(fileInfo.key, options);
+  }
+
+  // Multipart upload operations
+  async initiateMultipartUpload(options: MultipartUploadOptions): Promise<MultipartUpload> {
+    options = applyExpiration(options);
+    const { client, sdk } = await this.initializeClient();
+
+    const partSize = options.partSize ?? DEFAULT_MULTIPART_PART_SIZE;
+    if (partSize < S3CompatibleProvider.MIN_PART_SIZE) {
+      throw new StorageError(
+        `S3 multipart uploads require parts of at least ${S3CompatibleProvider.MIN_PART_SIZE} bytes`,
+        'INVALID_PART',
+        400,
+      );
+    }
+
+    const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
+    let contentType = options.contentType || 'application/octet-stream';
+    if (!options.contentType && options.filename) {
+      contentType = this.getContentTypeFromFilename(options.filename);
+    }
+
+    const command = new sdk.CreateMultipartUploadCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ContentType: contentType,
+      ACL: this.config.defaultACL as any,
+      ServerSideEncryption: this.config.serverSideEncryption as any,
+      Metadata: {
+        ...options.metadata,
+        external_id: options.external_id,
+      },
+      Tagging: options.tags ? new URLSearchParams(options.tags).toString() : undefined,
+      StorageClass: options.storageClass as any,
+    });
+
+    try {
+      const result = await client.send(command);
+
+      return {
+        uploadId: result.UploadId,
+        key,
+        external_id: options.external_id,
+        filename: options.filename,
+        contentType,
+        partSize,
+        size: options.size,
+        public: options.public,
+        metadata: options.metadata,
+        tags: options.tags,
+        storageClass: options.storageClass,
+        initiatedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to initiate multipart upload');
+    }
+  }
+
+  async uploadPart(upload: MultipartUpload, partNumber: number, data: Buffer): Promise<MultipartUploadPart> {
+    validateMultipartPart(upload, partNumber, data.length);
+    const { client, sdk } = await this.initializeClient();
+
+    const command = new sdk.UploadPartCommand({
+      Bucket: this.config.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+      PartNumber: partNumber,
+      Body: data,
+      ContentLength: data.length,
+    });
+
+    try {
+      const result = await client.send(command);
+      return {
+        partNumber,
+        size: data.length,
+        etag: result.ETag,
+        lastModified: new Date(),
+      };
+    } catch (error: any) {
+      if (error?.name === 'NoSuchUpload') {
+        throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+      }
+      throw toStorageError(error, `Failed to upload part ${partNumber}`);
+    }
+  }
+
+  async listParts(upload: MultipartUpload): Promise<MultipartUploadPart[]> {
+    const { client, sdk } = await this.initializeClient();
+    const parts: MultipartUploadPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    try {
+      do {
+        const result = await client.send(new sdk.ListPartsCommand({
+          Bucket: this.config.bucket,
+          Key: upload.key,
+          UploadId: upload.uploadId,
+          PartNumberMarker: partNumberMarker,
+        }));
+
+        for (const part of result.Parts || []) {
+          parts.push({
+            partNumber: part.PartNumber,
+            size: part.Size || 0,
+            etag: part.ETag,
+            lastModified: part.LastModified,
+          });
+        }
+
+        partNumberMarker = result.IsTruncated ? String(result.NextPartNumberMarker) : undefined;
+      } while (partNumberMarker);
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    } catch (error: any) {
+      if (error?.name === 'NoSuchUpload') {
+        throw new StorageNotFoundError(`Multipart upload ${upload.uploadId} not found`);
+      }
+      throw toStorageError(error, 'Failed to list parts');
+    }
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts?: MultipartUploadPart[]): Promise<StorageUploadResult> {
+    const { client, sdk } = await this.initializeClient();
+    const uploadedParts = [...(parts ?? await this.listParts(upload))].sort((a, b) => a.partNumber - b.partNumber);
+
+    if (uploadedParts.length === 0) {
+      throw new StorageInvalidInputError(`Multipart upload ${upload.uploadId} has no parts to complete`);
+    }
+
+    const command = new sdk.CompleteMultipartUploadCommand({
+      Bucket: this.config.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+      MultipartUpload: {
+        Parts: uploadedParts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    });
+
+    try {
+      const result = await client.send(command);
+      const url = await this.generatePublicUrl(upload.key, upload.public);
+
+      return {
+        external_id: upload.external_id,
+        key: upload.key,
+        url,
+        size: uploadedParts.reduce((total, part) => total + part.size, 0),
+        contentType: upload.contentType,
+        etag: result.ETag,
+        metadata: upload.metadata,
+        visibility: upload.public ? 'public' : 'private',
+        publicUrl: upload.public ? this.getPublicUrl(upload.key) : undefined,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to complete multipart upload');
+    }
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    const { client, sdk } = await this.initializeClient();
+
+    try {
+      await client.send(new sdk.AbortMultipartUploadCommand({
+        Bucket: this.config.bucket,
+        Key: upload.key,
+        UploadId: upload.uploadId,
+      }));
+    } catch (error: any) {
+      // Aborting an upload that no longer exists is not an error
+      if (error?.name === 'NoSuchUpload') {
+        return;
+      }
+      throw toStorageError(error, 'Failed to abort multipart upload');
+    }
+  }
+
+  // Direct upload operations
+  async getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+    const { client, sdk } = await this.initializeClient();
+
+    const key = options.key || this.generateKeyFromExternalId(options.external_id, options.filename);
+    let contentType = options.contentType || 'application/octet-stream';
+    if (!options.contentType && options.filename) {
+      contentType = this.getContentTypeFromFilename(options.filename);
+    }
+
+    const method = options.method ?? 'PUT';
+    const expiresIn = options.expiresIn ?? 3600;
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+    const sizeRange = resolveUploadSizeRange(options);
+    const metadata = {
+      ...options.metadata,
+      external_id: options.external_id,
+    };
+
+    const result = {
+      method,
+      key,
+      external_id: options.external_id,
+      contentType,
+      maxSize: sizeRange?.max,
+      expiresAt,
+    };
+
+    if (method === 'POST') {
+      const { url, fields } = this.createPresignedPost(key, contentType, metadata, expiresAt, sizeRange);
+      return { ...result, url, headers: {}, fields };
+    }
+
+    // A signed Content-Length pins an exact size; ranges need a POST policy
+    if (sizeRange && sizeRange.min !== sizeRange.max) {
+      throw new StorageError(
+        'S3 presigned PUT URLs can only enforce an exact size; use method POST to allow a size range',
+        'INVALID_UPLOAD',
+        400,
+      );
+    }
+
+    const command = new sdk.PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: sizeRange?.max,
+      ACL: this.config.defaultACL as any,
+      ServerSideEncryption: this.config.serverSideEncryption as any,
+      Metadata: metadata,
+    });
+
+    try {
+      // Content-Type is unsigned by default, so opt in to make S3 enforce it
+      const url = await sdk.getSignedUrl(client, command, {
+        expiresIn,
+        signableHeaders: new Set(['content-type']),
+      });
+
+      const headers: Record<string, string> = { 'Content-Type': contentType };
+      if (this.config.serverSideEncryption) {
+        // The presigner keeps encryption headers out of the query string
+        headers['x-amz-server-side-encryption'] = this.config.serverSideEncryption;
+      }
+
+      return { ...result, url, headers };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to generate upload URL');
+    }
+  }
+
+  /**
+   * Build a SigV4 browser-based POST policy (signed locally, no extra SDK package needed)
+   */
+  private createPresignedPost(
+    key: string,
+    contentType: string,
+    metadata: Record<string, string>,
+    expiresAt: Date,
+    sizeRange?: { min: number; max: number },
+  ): { url: string; fields: Record<string, string> } {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const shortDate = amzDate.slice(0, 8);
+    const region = this.config.region || 'us-east-1';
+    const credential = `${this.config.accessKeyId}/${shortDate}/${region}/s3/aws4_request`;
+
+    const fields: Record<string, string> = {
+      key,
+      'Content-Type': contentType,
+    };
+    if (this.config.defaultACL) {
+      fields.acl = this.config.defaultACL;
+    }
+    if (this.config.serverSideEncryption) {
+      fields['x-amz-server-side-encryption'] = this.config.serverSideEncryption;
+    }
+    for (const [name, value] of Object.entries(metadata)) {
+      fields[`x-amz-meta-${name}`] = value;
+    }
+    fields['x-amz-algorithm'] = 'AWS4-HMAC-SHA256';
+    fields['x-amz-credential'] = credential;
+    fields['x-amz-date'] = amzDate;
+
+    const conditions: any[] = [
+      { bucket: this.config.bucket },
+      ...Object.entries(fields).map(([name, value]) => ({ [name]: value })),
+    ];
+    if (sizeRange) {
+      conditions.push(['content-length-range', sizeRange.min, sizeRange.max]);
+    }
+
+    const policy = Buffer.from(JSON.stringify({
+      expiration: expiresAt.toISOString(),
+      conditions,
+    })).toString('base64');
+
+    let signingKey: Buffer | string = `AWS4${this.config.secretAccessKey}`;
+    for (const scope of [shortDate, region, 's3', 'aws4_request']) {
+      signingKey = createHmac('sha256', signingKey).update(scope).digest();
+    }
+    fields.Policy = policy;
+    fields['x-amz-signature'] = createHmac('sha256', signingKey).update(policy).digest('hex');
+
+    return { url: this.getBucketUrl(), fields };
+  }
+
+  private getBucketUrl(): string {
+    if (this.config.endpoint) {
+      if (this.config.forcePathStyle) {
+        return `${this.config.endpoint}/${this.config.bucket}`;
+      }
+      const endpointWithoutProtocol = this.config.endpoint.replace(/^https?:\/\//, '');
+      const protocol = this.config.useSSL !== false ? 'https' : 'http';
+      return `${protocol}://${this.config.bucket}.${endpointWithoutProtocol}`;
+    }
+
+    if (this.config.forcePathStyle) {
+      return `https://s3.${this.config.region}.amazonaws.com/${this.config.bucket}`;
+    }
+    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com`;
+  }
+
+  // Copy / move operations
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    const { client, sdk } = await this.initializeClient();
+
+    let head: any;
+    try {
+      head = await client.send(new sdk.HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: sourceKey,
+      }));
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${sourceKey} not found`);
+      }
+      throw toStorageError(error, 'Failed to copy file');
+    }
+
+    if (!options.overwrite && await this.fileExists(destinationKey)) {
+      throw new StorageAlreadyExistsError(`File with key ${destinationKey} already exists`);
+    }
+
+    const { external_id: storedExternalId, 'external-id': legacyExternalId, ...sourceMetadata } = head.Metadata || {};
+    const externalId = options.external_id || storedExternalId || legacyExternalId || '';
+    const contentType = options.contentType || head.ContentType || 'application/octet-stream';
+    const metadata = options.replaceMetadata ? { ...options.metadata } : { ...sourceMetadata, ...options.metadata };
+    const replaceMetadata = options.external_id !== undefined || options.metadata !== undefined ||
+      options.replaceMetadata || options.contentType !== undefined;
+
+    // CopyObject doesn't carry ACLs over, so re-apply the source visibility
+    const isPublic = options.public ?? (await this.getFileVisibility(sourceKey)).visibility === 'public';
+
+    const commandParams: any = {
+      Bucket: this.config.bucket,
+      Key: destinationKey,
+      CopySource: `${this.config.bucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+      MetadataDirective: replaceMetadata ? 'REPLACE' : 'COPY',
+      ACL: isPublic ? 'public-read' : this.config.defaultACL,
+      ServerSideEncryption: this.config.serverSideEncryption as any,
+    };
+
+    if (replaceMetadata) {
+      // REPLACE drops every header that isn't sent again
+      commandParams.ContentType = contentType;
+      commandParams.CacheControl = head.CacheControl;
+      commandParams.ContentDisposition = head.ContentDisposition;
+      commandParams.ContentEncoding = head.ContentEncoding;
+      commandParams.Metadata = {
+        ...metadata,
+        external_id: externalId,
+      };
+    }
+
+    try {
+      const result = await client.send(new sdk.CopyObjectCommand(commandParams));
+      const url = await this.generatePublicUrl(destinationKey, isPublic);
+
+      return {
+        external_id: externalId,
+        key: destinationKey,
+        url,
+        size: head.ContentLength || 0,
+        contentType,
+        etag: result.CopyObjectResult?.ETag,
+        metadata,
+        visibility: isPublic ? 'public' : 'private',
+        publicUrl: isPublic ? this.getPublicUrl(destinationKey) : undefined,
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to copy file');
+    }
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    if (sourceKey === destinationKey) {
+      throw new StorageInvalidInputError('Source and destination keys are the same');
+    }
+
+    // S3 has no rename, so copy then remove the original
+    const result = await this.copyFile(sourceKey, destinationKey, options);
+    await this.deleteFile(sourceKey);
+    return result;
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  // S3 metadata is immutable, so updates copy the object onto itself
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options: UpdateFileMetadataOptions = {}): Promise<StorageFileInfo> {
+    const { client, sdk } = await this.initializeClient();
+
+    let head: any;
+    try {
+      head = await client.send(new sdk.HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+      }));
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+
+    const { external_id: storedExternalId, 'external-id': legacyExternalId, ...storedMetadata } = head.Metadata || {};
+    const externalId = storedExternalId || legacyExternalId || '';
+    // Replacing still keeps the stored checksum and expiration, which verifyFile and lifecycle sweeps read
+    const metadata = options.merge === false
+      ? { ...getLibraryMetadata(storedMetadata), ...update.metadata }
+      : { ...storedMetadata, ...update.metadata };
+    const contentType = update.contentType ?? head.ContentType ?? 'application/octet-stream';
+    const cacheControl = update.cacheControl ?? head.CacheControl;
+    const contentDisposition = update.contentDisposition ?? head.ContentDisposition;
+
+    // The copy resets the ACL, so re-apply the current visibility
+    const isPublic = (await this.getFileVisibility(key)).visibility === 'public';
+
+    try {
+      const result = await client.send(new sdk.CopyObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        CopySource: `${this.config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`,
+        MetadataDirective: 'REPLACE',
+        ACL: isPublic ? 'public-read' : this.config.defaultACL,
+        ServerSideEncryption: this.config.serverSideEncryption as any,
+        ContentType: contentType,
+        CacheControl: cacheControl,
+        ContentDisposition: contentDisposition,
+        ContentEncoding: head.ContentEncoding,
+        StorageClass: head.StorageClass,
+        Metadata: { ...metadata, external_id: externalId },
+      }));
+
+      return {
+        external_id: externalId,
+        key,
+        url: await this.generatePublicUrl(key, isPublic),
+        size: head.ContentLength || 0,
+        contentType,
+        lastModified: new Date(),
+        etag: result.CopyObjectResult?.ETag,
+        checksum: getChecksumFromMetadata(metadata),
+        metadata,
+        visibility: isPublic ? 'public' : 'private',
+        publicUrl: isPublic ? this.getPublicUrl(key) : undefined,
+        cacheControl,
+        contentDisposition,
+        storageClass: head.StorageClass || 'STANDARD',
+      };
+    } catch (error) {
+      throw toStorageError(error, 'Failed to update file metadata');
+    }
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  // Object tagging
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    const { client, sdk } = await this.initializeClient();
+
+    try {
+      const result = await client.send(new sdk.GetObjectTaggingCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+      }));
+      return Object.fromEntries((result.TagSet || []).map((tag: { Key: string; Value: string }) => [tag.Key, tag.Value]));
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to get file tags');
+    }
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    const { client, sdk } = await this.initializeClient();
+
+    try {
+      await client.send(new sdk.PutObjectTaggingCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Tagging: {
+          TagSet: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })),
+        },
+      }));
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) {
+        throw new StorageNotFoundError(`File with key ${key} not found`);
+      }
+      throw toStorageError(error, 'Failed to set file tags');
+    }
+  }
+
+  // Storage class transitions copy the object onto itself, keeping its metadata and tags
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    const { client, sdk } = await this.initializeClient();
+
+    if (!(await this.fileExists(key))) {
+      throw new StorageNotFoundError(`File with key ${key} not found`);
+    }
+    // The copy resets the ACL, so re-apply the current visibility
+    const isPublic = (await this.getFileVisibility(key)).visibility === 'public';
+
+    try {
+      await client.send(new sdk.CopyObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        CopySource: `${this.config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`,
+        MetadataDirective: 'COPY',
+        StorageClass: storageClass,
+        ACL: isPublic ? 'public-read' : this.config.defaultACL,
+        ServerSideEncryption: this.config.serverSideEncryption as any,
+      }));
+    } catch (error) {
+      throw toStorageError(error, 'Failed to set storage class');
     }
   }
 
@@ -347,12 +1081,350 @@ export class S3CompatibleProvider implements StorageProvider {
     return `files/${externalId}-${timestamp}${ext}`;
   }
 
-  async listFiles(_options?: ListFilesOptions): Promise<ListFilesResult> {
-    throw new Error('listFiles not yet implemented for S3CompatibleProvider');
+  async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
+    const { client, sdk } = await this.initializeClient();
+    const startTime = Date.now();
+
+    const {
+      limit = 100,
+      offset = 0,
+      continuationToken,
+      prefix,
+      sortBy,
+      sortOrder = 'asc',
+    } = options;
+    const pageSize = Math.min(limit, 1000);
+
+    const allFiles: StorageFileInfo[] = [];
+    const commonPrefixes = new Set<string>();
+    const wanted = offset + pageSize;
+    let nextContinuationToken: string | undefined = continuationToken;
+    // HeadObject costs a request per object, so it's only sent when something needs what it returns
+    const fetchHeads = this.needsObjectHeads(options);
+
+    try {
+      // Page through the bucket until enough files pass the filters. Only request as many
+      // keys as are still needed so the returned continuation token never skips objects.
+      do {
+        const listCommand = new sdk.ListObjectsV2Command({
+          Bucket: this.config.bucket,
+          Prefix: prefix || undefined,
+          Delimiter: options.delimiter || undefined,
+          ContinuationToken: nextContinuationToken,
+          MaxKeys: Math.min(wanted - allFiles.length, 1000),
+        });
+
+        const listResult = await client.send(listCommand);
+        nextContinuationToken = listResult.IsTruncated ? listResult.NextContinuationToken : undefined;
+
+        for (const commonPrefix of listResult.CommonPrefixes || []) {
+          if (commonPrefix.Prefix) {
+            commonPrefixes.add(commonPrefix.Prefix);
+          }
+        }
+
+        for (const object of listResult.Contents || []) {
+          if (!object.Key) continue;
+          // The folder marker of the listed prefix isn't a file in it
+          if (options.delimiter && object.Key === prefix) continue;
+
+          // Apply filters that only need listing data before fetching metadata
+          if (!this.matchesObjectFilters(object, options)) {
+            continue;
+          }
+
+          let headResult: any = {};
+          if (fetchHeads) {
+            try {
+              const headCommand = new sdk.HeadObjectCommand({
+                Bucket: this.config.bucket,
+                Key: object.Key,
+              });
+              headResult = await client.send(headCommand);
+            } catch (_headError) {
+              // Skip objects that can't be accessed (permissions, etc.)
+              continue;
+            }
+          }
+
+          const metadata: Record<string, string> = headResult.Metadata || {};
+          // Note: Some S3-compatible services convert underscores to hyphens in metadata keys
+          const externalId = metadata['external-id'] || metadata['external_id'] || '';
+          const fileInfo: StorageFileInfo = {
+            external_id: externalId,
+            key: object.Key,
+            url: options.includeUrls !== false ? await this.generatePublicUrl(object.Key) : '',
+            size: headResult.ContentLength ?? object.Size ?? 0,
+            // Without HeadObject the content type is guessed from the key
+            contentType: headResult.ContentType || (fetchHeads ? 'application/octet-stream' : getContentTypeFromFilename(object.Key)),
+            lastModified: headResult.LastModified || object.LastModified,
+            etag: headResult.ETag || object.ETag,
+            checksum: getChecksumFromMetadata(metadata),
+            metadata: fetchHeads && options.includeMetadata !== false ? metadata : undefined,
+            storageClass: object.StorageClass || 'STANDARD',
+          };
+          // Tags cost an extra request per object, so they're only fetched to filter on them
+          if (options.tags) {
+            fileInfo.tags = await this.getFileTags(object.Key);
+          }
+
+          if (!this.matchesFileFilters(fileInfo, metadata, options)) {
+            continue;
+          }
+
+          allFiles.push(fileInfo);
+        }
+      } while (nextContinuationToken && allFiles.length < wanted);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to list files');
+    }
+
+    const sortedFiles = sortBy ? this.sortFiles(allFiles, sortBy, sortOrder) : allFiles;
+
+    // Apply pagination
+    const paginatedFiles = sortedFiles.slice(offset, wanted);
+    const hasMore = !!nextContinuationToken;
+
+    return {
+      files: paginatedFiles,
+      // Only exact when the whole bucket (or prefix) was scanned
+      totalCount: hasMore ? undefined : sortedFiles.length,
+      hasMore,
+      nextOffset: hasMore ? wanted : undefined,
+      continuationToken: nextContinuationToken,
+      commonPrefixes: options.delimiter ? [...commonPrefixes] : undefined,
+      searchTime: Date.now() - startTime,
+    };
+  }
+
+  async searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult> {
+    const startTime = Date.now();
+
+    const {
+      query = '',
+      searchFields = ['external_id', 'filename', 'metadata'],
+      caseSensitive = false,
+      exactMatch = false,
+      limit = 100,
+      offset = 0,
+      ...listFilters
+    } = options;
+
+    const { continuationToken: _continuationToken, ...filters } = listFilters;
+    // Searching external IDs, metadata or content types needs HeadObject; filenames and keys come with the listing
+    const searchesHeads = !!query && searchFields.some(field => field !== 'filename' && field !== 'key');
+
+    // Collect every file the filters match before searching, so the counts cover the whole bucket
+    const listedFiles = await listAllFiles(this, {
+      ...filters,
+      includeMetadata: searchesHeads || filters.includeMetadata,
+      limit: 1000,
+    });
+    let matchedFiles: StorageFileInfo[] = listedFiles;
+
+    if (query) {
+      const searchQuery = caseSensitive ? query : query.toLowerCase();
+
+      matchedFiles = listedFiles.filter(file => {
+        for (const field of searchFields) {
+          let fieldValue = '';
+
+          switch (field) {
+            case 'external_id':
+              fieldValue = file.external_id || '';
+              break;
+            case 'filename':
+              fieldValue = file.key.split('/').pop() || '';
+              break;
+            case 'metadata':
+              fieldValue = JSON.stringify(file.metadata || {});
+              break;
+            case 'contentType':
+              fieldValue = file.contentType || '';
+              break;
+            case 'key':
+              fieldValue = file.key;
+              break;
+          }
+
+          if (!caseSensitive) {
+            fieldValue = fieldValue.toLowerCase();
+          }
+
+          if (exactMatch ? fieldValue === searchQuery : fieldValue.includes(searchQuery)) {
+            return true;
+          }
+        }
+        return false;
+      });
+    }
+
+    // Apply pagination to search results
+    const totalCount = matchedFiles.length;
+    const paginatedFiles = matchedFiles.slice(offset, offset + limit);
+    const hasMore = offset + limit < totalCount;
+
+    return {
+      // Metadata fetched only to search it isn't returned when the caller opted out
+      files: filters.includeMetadata === false ? paginatedFiles.map(file => ({ ...file, metadata: undefined })) : paginatedFiles,
+      totalCount,
+      hasMore,
+      nextOffset: hasMore ? offset + limit : undefined,
+      searchTime: Date.now() - startTime,
+      query,
+      searchFields,
+    };
   }
 
-  async searchFiles(_options: SearchFilesOptions): Promise<SearchFilesResult> {
-    throw new Error('searchFiles not yet implemented for S3CompatibleProvider');
+  /**
+   * Whether listing needs HeadObject per object: for the metadata itself, or to filter or sort on what only it returns
+   */
+  private needsObjectHeads(options: ListFilesOptions): boolean {
+    return options.includeMetadata === true
+      || !!(options.externalIdPrefix || options.externalIdPattern || options.externalIds)
+      || !!(options.contentType || options.contentTypePrefix)
+      || !!(options.metadata || options.hasMetadata)
+      || options.sortBy === 'external_id'
+      || options.sortBy === 'contentType';
+  }
+
+  /**
+   * Filters that can be evaluated from ListObjectsV2 data alone (no HeadObject needed)
+   */
+  private matchesObjectFilters(object: { Key: string; Size?: number; LastModified?: Date; StorageClass?: string }, options: ListFilesOptions): boolean {
+    const filename = object.Key.split('/').pop() || object.Key;
+
+    if (options.keyPattern && !this.matchesPattern(object.Key, options.keyPattern)) {
+      return false;
+    }
+
+    if (options.filename && !filename.toLowerCase().includes(options.filename.toLowerCase())) {
+      return false;
+    }
+
+    if (options.filenamePattern && !this.matchesPattern(filename, options.filenamePattern)) {
+      return false;
+    }
+
+    if (object.Size !== undefined) {
+      if (options.minSize !== undefined && object.Size < options.minSize) {
+        return false;
+      }
+      if (options.maxSize !== undefined && object.Size > options.maxSize) {
+        return false;
+      }
+    }
+
+    // S3 only tracks last-modified, so created/modified filters both use it
+    const lastModified = object.LastModified;
+    if (lastModified) {
+      if (options.createdAfter && lastModified < options.createdAfter) return false;
+      if (options.createdBefore && lastModified > options.createdBefore) return false;
+      if (options.modifiedAfter && lastModified < options.modifiedAfter) return false;
+      if (options.modifiedBefore && lastModified > options.modifiedBefore) return false;
+    }
+
+    if (options.storageClass) {
+      const storageClasses = Array.isArray(options.storageClass) ? options.storageClass : [options.storageClass];
+      if (!storageClasses.includes(object.StorageClass || 'STANDARD')) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Filters that need the object's HeadObject metadata
+   */
+  private matchesFileFilters(file: StorageFileInfo, metadata: Record<string, string>, options: ListFilesOptions): boolean {
+    if (options.externalIdPrefix && !file.external_id.startsWith(options.externalIdPrefix)) {
+      return false;
+    }
+
+    if (options.externalIdPattern && !this.matchesPattern(file.external_id, options.externalIdPattern)) {
+      return false;
+    }
+
+    if (options.externalIds && !options.externalIds.includes(file.external_id)) {
+      return false;
+    }
+
+    if (options.contentType && file.contentType !== options.contentType) {
+      return false;
+    }
+
+    if (options.contentTypePrefix && !file.contentType.startsWith(options.contentTypePrefix)) {
+      return false;
+    }
+
+    // S3 lowercases user metadata keys, so compare keys case-insensitively
+    if (options.metadata) {
+      for (const [key, value] of Object.entries(options.metadata)) {
+        if (metadata[key.toLowerCase()] !== value) {
+          return false;
+        }
+      }
+    }
+
+    if (options.hasMetadata) {
+      for (const key of options.hasMetadata) {
+        if (!(key.toLowerCase() in metadata)) {
+          return false;
+        }
+      }
+    }
+
+    return matchesClassificationFilters(file, options);
+  }
+
+  private sortFiles(files: StorageFileInfo[], sortBy: string, sortOrder: 'asc' | 'desc'): StorageFileInfo[] {
+    return [...files].sort((a, b) => {
+      let aValue: any, bValue: any;
+
+      switch (sortBy) {
+        case 'external_id':
+          aValue = a.external_id || '';
+          bValue = b.external_id || '';
+          break;
+        case 'filename':
+          aValue = a.key.split('/').pop() || '';
+          bValue = b.key.split('/').pop() || '';
+          break;
+        case 'size':
+          aValue = a.size;
+          bValue = b.size;
+          break;
+        case 'lastModified':
+          aValue = a.lastModified?.getTime() || 0;
+          bValue = b.lastModified?.getTime() || 0;
+          break;
+        case 'contentType':
+          aValue = a.contentType;
+          bValue = b.contentType;
+          break;
+        case 'key':
+        default:
+          aValue = a.key;
+          bValue = b.key;
+          break;
+      }
+
+      if (sortOrder === 'desc') {
+        return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
+      }
+      return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
+    });
+  }
+
+  private matchesPattern(str: string, pattern: string): boolean {
+    // Simple glob pattern matching (supports * and ?)
+    const regexPattern = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+
+    return new RegExp(`^${regexPattern}$`, 'i').test(str);
   }
 
   // File visibility management
@@ -440,7 +1512,7 @@ export class S3CompatibleProvider implements StorageProvider {
       // Check if file exists
       const exists = await this.fileExists(key);
       if (!exists) {
-        throw new Error(`File with key ${key} not found`);
+        throw new StorageNotFoundError(`File with key ${key} not found`);
       }
 
       // Try to get object ACL
@@ -491,14 +1563,14 @@ export class S3CompatibleProvider implements StorageProvider {
         message: 'File is private. Use setFileVisibility to make it public or generate signed URLs for temporary access.',
       };
     } catch (error) {
-      throw new Error(`Failed to check file visibility: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toStorageError(error, 'Failed to check file visibility');
     }
   }
 
   async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
     const fileInfo = await this.findFileByExternalId(externalId);
     if (!fileInfo) {
-      throw new Error(`File with external_id ${externalId} not found`);
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
     }
     
     return this.getFileVisibility(fileInfo.key);
@@ -519,6 +1591,10 @@ export class S3CompatibleProvider implements StorageProvider {
     }
   }
 
+  getCapabilities(): StorageCapabilities {
+    return getStorageProviderCapabilities('s3-custom');
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const awsPackage = '@aws-sdk/client-s3'.split('').join('');
@@ -0,0 +1,436 @@
+import { promises as fs } from 'fs';
+import {
+  StorageProvider,
+  StorageFileInfo,
+  StorageUploadOptions,
+  StorageUploadResult,
+  MultipartUpload,
+  MultipartUploadOptions,
+  UploadUrlOptions,
+  CopyFileOptions,
+  FileDeleteResult,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+} from './types';
+import { findFileByKey } from './copy';
+import { iterateAllFiles } from './utils';
+import { StorageMiddleware } from './middleware';
+import { StorageQuotaExceededError } from './errors';
+
+export interface QuotaLimits {
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+export interface NamespaceUsage {
+  namespace: string;
+  bytes: number;
+  files: number;
+}
+
+/**
+ * Where usage counts are kept. The default keeps them in memory; implement this over a
+ * database or cache to share counts between processes.
+ */
+export interface QuotaUsageStore {
+  get(namespace: string): Promise<NamespaceUsage | undefined>;
+  set(usage: NamespaceUsage): Promise<void>;
+  add(namespace: string, bytes: number, files: number): Promise<void>;
+  list(): Promise<NamespaceUsage[]>;
+}
+
+export type QuotaNamespaceResolver = (file: { key: string; metadata?: Record<string, string> }) => string | undefined;
+
+export interface StorageQuotaOptions {
+  // How files map to namespaces (default: { prefixDepth: 1 }, i.e. "tenant-a/docs/a.pdf" belongs to "tenant-a").
+  // Files that map to no namespace are not counted or limited.
+  namespace?: { prefixDepth: number } | { metadataField: string } | QuotaNamespaceResolver;
+  limits?: Record<string, QuotaLimits>; // Limits per namespace
+  defaultLimits?: QuotaLimits;          // Limits for namespaces without their own
+  store?: QuotaUsageStore;
+}
+
+export class QuotaExceededError extends StorageQuotaExceededError {
+  constructor(
+    message: string,
+    public namespace: string,
+    public usage: NamespaceUsage,
+    public limits: QuotaLimits,
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class MemoryQuotaUsageStore implements QuotaUsageStore {
+  private usage = new Map<string, NamespaceUsage>();
+
+  async get(namespace: string): Promise<NamespaceUsage | undefined> {
+    const usage = this.usage.get(namespace);
+    return usage ? { ...usage } : undefined;
+  }
+
+  async set(usage: NamespaceUsage): Promise<void> {
+    this.usage.set(usage.namespace, { ...usage });
+  }
+
+  async add(namespace: string, bytes: number, files: number): Promise<void> {
+    const usage = this.usage.get(namespace) || { namespace, bytes: 0, files: 0 };
+    this.usage.set(namespace, { namespace, bytes: usage.bytes + bytes, files: usage.files + files });
+  }
+
+  async list(): Promise<NamespaceUsage[]> {
+    return [...this.usage.values()].map(usage => ({ ...usage }));
+  }
+}
+
+interface UsageChange {
+  namespace: string;
+  bytes: number;
+  files: number;
+}
+
+/**
+ * Per-namespace storage quotas. Usage is counted from the provider the first time a namespace is seen,
+ * then kept up to date by the middleware as files are uploaded, copied, moved and deleted.
+ *
+ *   const quota = new StorageQuota(provider, { defaultLimits: { maxBytes: 1024 ** 3 } });
+ *   setStorageProvider(applyStorageMiddleware(provider, [quota.middleware()]));
+ */
+export class StorageQuota {
+  private readonly provider: StorageProvider;
+  private readonly options: StorageQuotaOptions;
+  private readonly store: QuotaUsageStore;
+  private readonly resolveNamespace: QuotaNamespaceResolver;
+  private readonly prefixDepth?: number;
+  private readonly limits: Map<string, QuotaLimits>;
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(provider: StorageProvider, options: StorageQuotaOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+    this.store = options.store || new MemoryQuotaUsageStore();
+    this.limits = new Map(Object.entries(options.limits || {}));
+
+    const namespace = options.namespace || { prefixDepth: 1 };
+    if (typeof namespace === 'function') {
+      this.resolveNamespace = namespace;
+    } else if ('metadataField' in namespace) {
+      const field = namespace.metadataField;
+      // Some S3-compatible services hand metadata keys back with hyphens
+      this.resolveNamespace = file => file.metadata?.[field] || file.metadata?.[field.replace(/_/g, '-')] || undefined;
+    } else {
+      const depth = namespace.prefixDepth;
+      this.prefixDepth = depth;
+      this.resolveNamespace = file => {
+        const segments = file.key.split('/');
+        return segments.length > depth ? segments.slice(0, depth).join('/') : undefined;
+      };
+    }
+  }
+
+  getLimits(namespace: string): QuotaLimits {
+    return this.limits.get(namespace) || this.options.defaultLimits || {};
+  }
+
+  setLimits(namespace: string, limits: QuotaLimits): void {
+    this.limits.set(namespace, limits);
+  }
+
+  /**
+   * Current usage of a namespace, counted from the provider if it hasn't been seen yet
+   */
+  async getUsage(namespace: string): Promise<NamespaceUsage> {
+    return (await this.store.get(namespace)) || (await this.rebuildUsage(namespace))[0];
+  }
+
+  /**
+   * Recount usage from listFiles, for one namespace or all of them.
+   * Use it when counts have drifted, e.g. after direct uploads or changes made outside this process.
+   */
+  async rebuildUsage(namespace?: string): Promise<NamespaceUsage[]> {
+    // Prefix namespaces can be listed on their own; anything else needs a full scan
+    const prefix = namespace !== undefined && this.prefixDepth !== undefined ? `${namespace}/` : undefined;
+    const totals = new Map<string, NamespaceUsage>();
+
+    // Namespaces read from metadata need it listed; S3-compatible providers only fetch it when asked
+    const includeMetadata = this.prefixDepth === undefined;
+    for await (const file of iterateAllFiles(this.provider, { prefix, includeMetadata })) {
+      const fileNamespace = this.resolveNamespace(file);
+      if (fileNamespace === undefined || (namespace !== undefined && fileNamespace !== namespace)) {
+        continue;
+      }
+      const usage = totals.get(fileNamespace) || { namespace: fileNamespace, bytes: 0, files: 0 };
+      totals.set(fileNamespace, { namespace: fileNamespace, bytes: usage.bytes + file.size, files: usage.files + 1 });
+    }
+
+    if (namespace !== undefined) {
+      const usage = totals.get(namespace) || { namespace, bytes: 0, files: 0 };
+      await this.store.set(usage);
+      return [usage];
+    }
+
+    // Namespaces that no longer have any files drop to zero
+    for (const usage of await this.store.list()) {
+      if (!totals.has(usage.namespace)) {
+        totals.set(usage.namespace, { namespace: usage.namespace, bytes: 0, files: 0 });
+      }
+    }
+    for (const usage of totals.values()) {
+      await this.store.set(usage);
+    }
+    return [...totals.values()];
+  }
+
+  /**
+   * Middleware that enforces the limits and keeps usage up to date.
+   * Apply it to the same provider the quota was created with.
+   */
+  middleware(): StorageMiddleware {
+    return async (context, next) => {
+      const { provider, args } = context;
+
+      switch (context.method) {
+        case 'uploadFile': {
+          const options: StorageUploadOptions = args[0];
+          return this.trackUpload(options.key, options.metadata, await getUploadSize(options), next);
+        }
+
+        case 'completeMultipartUpload': {
+          const upload: MultipartUpload = args[0];
+          return this.trackUpload(upload.key, upload.metadata, upload.size, next);
+        }
+
+        case 'initiateMultipartUpload':
+        case 'getUploadUrl': {
+          // The content doesn't pass through here, so only check there is room for it
+          const options: MultipartUploadOptions | UploadUrlOptions = args[0];
+          const namespace = options.key ? this.resolveNamespace({ key: options.key, metadata: options.metadata }) : undefined;
+          if (namespace !== undefined) {
+            const usage = await this.getUsage(namespace);
+            this.assertWithinLimits(usage, { namespace, bytes: options.size || 0, files: 1 });
+
+            const { maxBytes } = this.getLimits(namespace);
+            if (context.method === 'getUploadUrl' && maxBytes !== undefined) {
+              const remaining = maxBytes - usage.bytes;
+              context.args = [{ ...options, maxSize: Math.min((options as UploadUrlOptions).maxSize ?? remaining, remaining) }];
+            }
+          }
+          return next();
+        }
+
+        case 'deleteFile':
+        case 'deleteFileByExternalId': {
+          const fileInfo = context.method === 'deleteFile'
+            ? await findFileByKey(provider, args[0])
+            : await provider.findFileByExternalId(args[0]);
+          return this.runTracked(fileInfo ? [this.removal(fileInfo)] : [], next);
+        }
+
+        case 'deleteFiles': {
+          const files = new Map<string, StorageFileInfo | null>();
+          for (const key of args[0] as string[]) {
+            files.set(key, await findFileByKey(provider, key));
+          }
+          const results: FileDeleteResult[] = await next();
+          // Only the files that were actually deleted free up space
+          for (const result of results) {
+            const fileInfo = result.success ? files.get(result.key) : null;
+            const change = fileInfo ? this.removal(fileInfo) : null;
+            if (change) {
+              await this.adjust(change);
+            }
+          }
+          return results;
+        }
+
+        case 'updateFileMetadata':
+        case 'updateFileMetadataByExternalId': {
+          // Namespaces read from metadata can change with it
+          const fileInfo = context.method === 'updateFileMetadata'
+            ? await findFileByKey(provider, args[0])
+            : await provider.findFileByExternalId(args[0]);
+          if (!fileInfo) {
+            return next();
+          }
+          const update: FileMetadataUpdate = args[1];
+          const options: UpdateFileMetadataOptions = args[2] || {};
+          const metadata = options.merge === false ? update.metadata : { ...fileInfo.metadata, ...update.metadata };
+          return this.runTracked([this.removal(fileInfo), this.addition(fileInfo.key, metadata, fileInfo.size)], next);
+        }
+
+        case 'copyFile':
+        case 'copyFileByExternalId':
+        case 'moveFile':
+        case 'moveFileByExternalId': {
+          const source = context.method.endsWith('ByExternalId')
+            ? await provider.findFileByExternalId(args[0])
+            : await findFileByKey(provider, args[0]);
+          if (!source) {
+            return next();
+          }
+
+          const destinationKey: string = args[1];
+          const options: CopyFileOptions = args[2] || {};
+          const metadata = options.replaceMetadata ? options.metadata : { ...source.metadata, ...options.metadata };
+          const existing = options.overwrite ? await findFileByKey(provider, destinationKey) : null;
+
+          const changes = [this.addition(destinationKey, metadata, source.size)];
+          if (existing) {
+            changes.push(this.removal(existing));
+          }
+          if (context.method.startsWith('move')) {
+            changes.push(this.removal(source));
+          }
+          return this.runTracked(changes, next);
+        }
+
+        default:
+          return next();
+      }
+    };
+  }
+
+  private async trackUpload(
+    key: string | undefined,
+    metadata: Record<string, string> | undefined,
+    expectedSize: number | undefined,
+    next: () => Promise<StorageUploadResult>,
+  ): Promise<StorageUploadResult> {
+    const existing = key ? await findFileByKey(this.provider, key) : null;
+    const changes = key ? [this.addition(key, metadata, expectedSize || 0)] : [];
+    if (existing) {
+      changes.push(this.removal(existing));
+    }
+
+    const result = await this.runTracked(changes, next);
+
+    // Correct the reservation with the stored size; uploads without a key or a known size are only counted now
+    const namespace = this.resolveNamespace({ key: result.key, metadata });
+    if (namespace === undefined) {
+      return result;
+    }
+    const counted = key ? (expectedSize || 0) : 0;
+    await this.adjust({ namespace, bytes: result.size - counted, files: key ? 0 : 1 });
+
+    if (expectedSize === undefined && !existing) {
+      const usage = await this.getUsage(namespace);
+      try {
+        this.assertWithinLimits({ ...usage, bytes: usage.bytes - result.size, files: usage.files - 1 }, { namespace, bytes: result.size, files: 1 });
+      } catch (error) {
+        // Too big once its size was known; a new file can be removed again
+        await this.provider.deleteFile(result.key);
+        await this.adjust({ namespace, bytes: -result.size, files: -1 });
+        throw error;
+      }
+    }
+    return result;
+  }
+
+  // Growth is checked and reserved up front, shrinking is only applied once the call succeeds
+  private async runTracked<T>(changes: Array<UsageChange | null>, run: () => Promise<T>): Promise<T> {
+    const netChanges = netUsageChanges(changes.filter((change): change is UsageChange => change !== null));
+    const growth = netChanges.filter(change => change.bytes > 0 || change.files > 0);
+    const shrink = netChanges.filter(change => !growth.includes(change));
+
+    const reserved: UsageChange[] = [];
+    let result: T;
+    try {
+      for (const change of growth) {
+        await this.reserve(change);
+        reserved.push(change);
+      }
+      result = await run();
+    } catch (error) {
+      for (const change of reserved) {
+        await this.adjust({ ...change, bytes: -change.bytes, files: -change.files });
+      }
+      throw error;
+    }
+
+    for (const change of shrink) {
+      await this.adjust(change);
+    }
+    return result;
+  }
+
+  private async reserve(change: UsageChange): Promise<void> {
+    await this.withLock(change.namespace, async () => {
+      this.assertWithinLimits(await this.getUsage(change.namespace), change);
+      await this.store.add(change.namespace, change.bytes, change.files);
+    });
+  }
+
+  // Namespaces that haven't been counted yet are left alone; they are counted in full when first needed
+  private async adjust(change: UsageChange): Promise<void> {
+    await this.withLock(change.namespace, async () => {
+      if (await this.store.get(change.namespace)) {
+        await this.store.add(change.namespace, change.bytes, change.files);
+      }
+    });
+  }
+
+  private assertWithinLimits(usage: NamespaceUsage, change: UsageChange): void {
+    const { maxBytes, maxFiles } = this.getLimits(change.namespace);
+
+    if (change.bytes > 0 && maxBytes !== undefined && usage.bytes + change.bytes > maxBytes) {
+      throw new QuotaExceededError(
+        `Storage quota exceeded for namespace "${change.namespace}": ${usage.bytes + change.bytes} bytes would exceed the limit of ${maxBytes} bytes`,
+        change.namespace,
+        usage,
+        { maxBytes, maxFiles },
+      );
+    }
+    if (change.files > 0 && maxFiles !== undefined && usage.files + change.files > maxFiles) {
+      throw new QuotaExceededError(
+        `Storage quota exceeded for namespace "${change.namespace}": ${usage.files + change.files} files would exceed the limit of ${maxFiles} files`,
+        change.namespace,
+        usage,
+        { maxBytes, maxFiles },
+      );
+    }
+  }
+
+  private addition(key: string, metadata: Record<string, string> | undefined, size: number): UsageChange | null {
+    const namespace = this.resolveNamespace({ key, metadata });
+    return namespace === undefined ? null : { namespace, bytes: size, files: 1 };
+  }
+
+  private removal(file: StorageFileInfo): UsageChange | null {
+    const namespace = this.resolveNamespace(file);
+    return namespace === undefined ? null : { namespace, bytes: -file.size, files: -1 };
+  }
+
+  // Changes to the same namespace are applied one at a time
+  private async withLock<T>(namespace: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(namespace) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.locks.set(namespace, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(namespace) === current) {
+        this.locks.delete(namespace);
+      }
+    }
+  }
+}
+
+function netUsageChanges(changes: UsageChange[]): UsageChange[] {
+  const byNamespace = new Map<string, UsageChange>();
+  for (const change of changes) {
+    const total = byNamespace.get(change.namespace) || { namespace: change.namespace, bytes: 0, files: 0 };
+    byNamespace.set(change.namespace, { namespace: change.namespace, bytes: total.bytes + change.bytes, files: total.files + change.files });
+  }
+  return [...byNamespace.values()].filter(change => change.bytes !== 0 || change.files !== 0);
+}
+
+async function getUploadSize(options: StorageUploadOptions): Promise<number | undefined> {
+  if (options.buffer) {
+    return options.buffer.length;
+  }
+  if (options.filePath) {
+    return (await fs.stat(options.filePath)).size;
+  }
+  return options.size;
+}
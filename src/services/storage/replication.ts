@@ -0,0 +1,419 @@
+import {
+  StorageProvider,
+  StorageUploadOptions,
+  StorageUploadResult,
+  StorageFileInfo,
+  ListFilesOptions,
+  ListFilesResult,
+  SearchFilesOptions,
+  SearchFilesResult,
+  FileVisibilityResult,
+  FileVisibilityStatus,
+  FileStreamOptions,
+  FileStreamResult,
+  FileUrlOptions,
+  CopyFileOptions,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+  StorageCapabilities,
+} from './types';
+import { copyFileBetweenProviders, findFileByKey, moveFileBetweenProviders } from './copy';
+import { StorageError } from './utils';
+import { getProviderCapabilities } from './capabilities';
+import { StorageNotFoundError, isRetryableStorageError } from './errors';
+
+export interface ReplicationOptions {
+  mode?: 'sync' | 'async';     // Wait for the secondaries before returning, or replicate in the background (default: 'sync')
+  writeQuorum?: number;        // Providers, counting the primary, that must have a write before it succeeds in sync mode (default: all)
+  repairQueue?: ReplicationRepairQueue;
+  // Reads fall back to the secondaries when the primary fails with an error this accepts (default: isRetryableStorageError)
+  isUnavailable?: (error: unknown) => boolean;
+  onReplicationError?: (task: ReplicationRepairTask, error: unknown) => void;
+}
+
+export interface ReplicationRepairTask {
+  key: string;
+  target: string;              // Name of the secondary that missed the write
+  attempts: number;            // Failed repairs so far
+  lastError: string;
+  queuedAt: Date;
+}
+
+/**
+ * Where secondary writes that failed are kept until repair() brings them in line with the primary.
+ * The default keeps them in memory; implement this over a database to survive restarts.
+ */
+export interface ReplicationRepairQueue {
+  add(task: ReplicationRepairTask): Promise<void>; // Replaces any task for the same key and target
+  list(): Promise<ReplicationRepairTask[]>;
+  remove(key: string, target: string): Promise<void>;
+}
+
+export interface ReplicationRepairResult {
+  repaired: ReplicationRepairTask[];
+  failed: ReplicationRepairTask[];
+}
+
+export class MemoryReplicationRepairQueue implements ReplicationRepairQueue {
+  private tasks = new Map<string, ReplicationRepairTask>();
+
+  async add(task: ReplicationRepairTask): Promise<void> {
+    this.tasks.set(`${task.target}\n${task.key}`, { ...task });
+  }
+
+  async list(): Promise<ReplicationRepairTask[]> {
+    return [...this.tasks.values()].map(task => ({ ...task }));
+  }
+
+  async remove(key: string, target: string): Promise<void> {
+    this.tasks.delete(`${target}\n${key}`);
+  }
+}
+
+type Replicate = (secondary: StorageProvider) => Promise<unknown>;
+
+/**
+ * Writes go to the primary first and are then replicated to every secondary.
+ * The primary is the source of truth: replicas are copied from it, and repairs make a secondary match it.
+ *
+ * @example
+ * ```typescript
+ * const provider = new ReplicatedStorageProvider(crunchycone, { r2 }, { writeQuorum: 2 });
+ * setStorageProvider(provider);
+ * // Later, from a scheduled job
+ * await provider.repair();
+ * ```
+ */
+export class ReplicatedStorageProvider implements StorageProvider {
+  private readonly primary: StorageProvider;
+  private readonly secondaries: Record<string, StorageProvider>;
+  private readonly mode: 'sync' | 'async';
+  private readonly writeQuorum: number;
+  private readonly repairQueue: ReplicationRepairQueue;
+  private readonly isUnavailable: (error: unknown) => boolean;
+  private readonly onReplicationError?: (task: ReplicationRepairTask, error: unknown) => void;
+  private inFlight = new Set<Promise<unknown>>();
+
+  constructor(primary: StorageProvider, secondaries: Record<string, StorageProvider>, options: ReplicationOptions = {}) {
+    const providerCount = 1 + Object.keys(secondaries).length;
+    const writeQuorum = options.writeQuorum ?? providerCount;
+    if (!Number.isInteger(writeQuorum) || writeQuorum < 1 || writeQuorum > providerCount) {
+      throw new Error(`writeQuorum must be between 1 and ${providerCount}`);
+    }
+
+    this.primary = primary;
+    this.secondaries = secondaries;
+    this.mode = options.mode || 'sync';
+    this.writeQuorum = writeQuorum;
+    this.repairQueue = options.repairQueue || new MemoryReplicationRepairQueue();
+    this.isUnavailable = options.isUnavailable || isRetryableStorageError;
+    this.onReplicationError = options.onReplicationError;
+  }
+
+  async uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
+    const result = await this.primary.uploadFile(options);
+    await this.replicate([result.key], secondary => this.copyFromPrimary(secondary, result.key));
+    return result;
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    await this.primary.deleteFile(key);
+    await this.replicate([key], secondary => deleteIfExists(secondary, key));
+  }
+
+  async deleteFileByExternalId(externalId: string): Promise<void> {
+    const fileInfo = await this.primary.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.deleteFile(fileInfo.key);
+  }
+
+  async setFileVisibility(key: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    const result = await this.primary.setFileVisibility(key, visibility);
+    await this.replicate([key], secondary => secondary.setFileVisibility(key, visibility));
+    return result;
+  }
+
+  async setFileVisibilityByExternalId(externalId: string, visibility: 'public' | 'private'): Promise<FileVisibilityResult> {
+    const fileInfo = await this.primary.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.setFileVisibility(fileInfo.key, visibility);
+  }
+
+  async updateFileMetadata(key: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    if (!this.primary.updateFileMetadata) {
+      throw new StorageError('Provider does not support updateFileMetadata', 'NOT_SUPPORTED', 501);
+    }
+    const result = await this.primary.updateFileMetadata(key, update, options);
+    // Secondaries without in-place updates get a fresh copy from the primary
+    await this.replicate([key], secondary => secondary.updateFileMetadata
+      ? secondary.updateFileMetadata(key, update, options)
+      : this.copyFromPrimary(secondary, key));
+    return result;
+  }
+
+  async updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+    const fileInfo = await this.primary.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.updateFileMetadata(fileInfo.key, update, options);
+  }
+
+  async getFileTags(key: string): Promise<Record<string, string>> {
+    if (!this.primary.getFileTags) {
+      throw new StorageError('Provider does not support getFileTags', 'NOT_SUPPORTED', 501);
+    }
+    return this.primary.getFileTags(key);
+  }
+
+  async setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+    if (!this.primary.setFileTags) {
+      throw new StorageError('Provider does not support setFileTags', 'NOT_SUPPORTED', 501);
+    }
+    await this.primary.setFileTags(key, tags);
+    await this.replicate([key], async secondary => secondary.setFileTags?.(key, tags));
+  }
+
+  // Storage classes are not replicated: secondaries often sit on a different (cheaper) tier
+  async setStorageClass(key: string, storageClass: string): Promise<void> {
+    if (!this.primary.setStorageClass) {
+      throw new StorageError('Provider does not support setStorageClass', 'NOT_SUPPORTED', 501);
+    }
+    return this.primary.setStorageClass(key, storageClass);
+  }
+
+  async copyFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    const result = await copyFileBetweenProviders({ ...options, source: this.primary, destination: this.primary, sourceKey, destinationKey });
+    // Secondaries copy their own replica; a secondary that lacks it fails and is repaired from the primary
+    await this.replicate([result.key], secondary => copyFileBetweenProviders({
+      ...options,
+      source: secondary,
+      destination: secondary,
+      sourceKey,
+      destinationKey,
+      overwrite: true,
+    }));
+    return result;
+  }
+
+  async copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.primary.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.copyFile(fileInfo.key, destinationKey, options);
+  }
+
+  async moveFile(sourceKey: string, destinationKey: string, options: CopyFileOptions = {}): Promise<StorageUploadResult> {
+    const result = await moveFileBetweenProviders({ ...options, source: this.primary, destination: this.primary, sourceKey, destinationKey });
+    await this.replicate([result.key, sourceKey], secondary => moveFileBetweenProviders({
+      ...options,
+      source: secondary,
+      destination: secondary,
+      sourceKey,
+      destinationKey,
+      overwrite: true,
+    }));
+    return result;
+  }
+
+  async moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+    const fileInfo = await this.primary.findFileByExternalId(externalId);
+    if (!fileInfo) {
+      throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+    }
+    return this.moveFile(fileInfo.key, destinationKey, options);
+  }
+
+  async getFileStream(key: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    return this.read(provider => {
+      if (!provider.getFileStream) {
+        throw new StorageError('Provider does not support getFileStream', 'NOT_SUPPORTED', 501);
+      }
+      return provider.getFileStream(key, options);
+    });
+  }
+
+  async getFileStreamByExternalId(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult> {
+    return this.read(async provider => {
+      const fileInfo = await provider.findFileByExternalId(externalId);
+      if (!fileInfo) {
+        throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+      }
+      if (!provider.getFileStream) {
+        throw new StorageError('Provider does not support getFileStream', 'NOT_SUPPORTED', 501);
+      }
+      return provider.getFileStream(fileInfo.key, options);
+    });
+  }
+
+  async getFileUrl(key: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    return this.read(provider => provider.getFileUrl(key, expiresIn, options));
+  }
+
+  async getFileUrlByExternalId(externalId: string, expiresIn?: number, options?: FileUrlOptions): Promise<string> {
+    return this.read(provider => provider.getFileUrlByExternalId(externalId, expiresIn, options));
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    return this.read(provider => provider.fileExists(key));
+  }
+
+  async fileExistsByExternalId(externalId: string): Promise<boolean> {
+    return this.read(provider => provider.fileExistsByExternalId(externalId));
+  }
+
+  async findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
+    return this.read(provider => provider.findFileByExternalId(externalId));
+  }
+
+  async getFileInfo(key: string): Promise<StorageFileInfo | null> {
+    return this.read(provider => findFileByKey(provider, key));
+  }
+
+  async listFiles(options?: ListFilesOptions): Promise<ListFilesResult> {
+    return this.read(provider => provider.listFiles(options));
+  }
+
+  async searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult> {
+    return this.read(provider => provider.searchFiles(options));
+  }
+
+  async getFileVisibility(key: string): Promise<FileVisibilityStatus> {
+    return this.read(provider => provider.getFileVisibility(key));
+  }
+
+  async getFileVisibilityByExternalId(externalId: string): Promise<FileVisibilityStatus> {
+    return this.read(provider => provider.getFileVisibilityByExternalId(externalId));
+  }
+
+  // Writes go through uploadFile so they can be replicated; multipart, presigned uploads and batch deletes are not exposed
+  getCapabilities(): StorageCapabilities {
+    return { ...getProviderCapabilities(this.primary), multipartUpload: false, presignedUploads: false, batchDelete: false };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const provider of [this.primary, ...Object.values(this.secondaries)]) {
+      if (await provider.isAvailable()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Bring every queued key on its secondary in line with the primary: copy it over, or delete it
+   * when the primary no longer has it. Tasks that fail again stay queued with their attempt count raised.
+   */
+  async repair(): Promise<ReplicationRepairResult> {
+    const result: ReplicationRepairResult = { repaired: [], failed: [] };
+
+    for (const task of await this.repairQueue.list()) {
+      const secondary = this.secondaries[task.target];
+      try {
+        if (!secondary) {
+          throw new Error(`Unknown replication target ${task.target}`);
+        }
+        if (await findFileByKey(this.primary, task.key)) {
+          await this.copyFromPrimary(secondary, task.key);
+        } else {
+          await deleteIfExists(secondary, task.key);
+        }
+        await this.repairQueue.remove(task.key, task.target);
+        result.repaired.push(task);
+      } catch (error) {
+        const failed = { ...task, attempts: task.attempts + 1, lastError: errorMessage(error) };
+        await this.repairQueue.add(failed);
+        result.failed.push(failed);
+      }
+    }
+
+    return result;
+  }
+
+  async getRepairTasks(): Promise<ReplicationRepairTask[]> {
+    return this.repairQueue.list();
+  }
+
+  /**
+   * Wait for background replication started in async mode, e.g. before shutting down
+   */
+  async waitForReplication(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all([...this.inFlight]);
+    }
+  }
+
+  // keys: every key the write touched, so a failure queues all of them for repair
+  private async replicate(keys: string[], write: Replicate): Promise<void> {
+    const writes = Object.entries(this.secondaries).map(async ([name, secondary]) => {
+      try {
+        await write(secondary);
+        return true;
+      } catch (error) {
+        for (const key of keys) {
+          const task: ReplicationRepairTask = { key, target: name, attempts: 0, lastError: errorMessage(error), queuedAt: new Date() };
+          await this.repairQueue.add(task);
+          this.onReplicationError?.(task, error);
+        }
+        return false;
+      }
+    });
+
+    if (this.mode === 'async') {
+      const replication = Promise.all(writes)
+        .catch(error => console.error('[Storage] Could not queue failed replication for repair:', error))
+        .finally(() => this.inFlight.delete(replication));
+      this.inFlight.add(replication);
+      return;
+    }
+
+    const written = 1 + (await Promise.all(writes)).filter(Boolean).length;
+    if (written < this.writeQuorum) {
+      throw new StorageError(
+        `Write to ${keys[0]} reached ${written} of ${this.writeQuorum} required providers; failed replicas are queued for repair`,
+        'REPLICATION_QUORUM_NOT_MET',
+        503,
+      );
+    }
+  }
+
+  private async read<T>(operation: (provider: StorageProvider) => Promise<T>): Promise<T> {
+    try {
+      return await operation(this.primary);
+    } catch (primaryError) {
+      if (!this.isUnavailable(primaryError)) {
+        throw primaryError;
+      }
+
+      for (const secondary of Object.values(this.secondaries)) {
+        try {
+          return await operation(secondary);
+        } catch (error) {
+          if (!this.isUnavailable(error)) {
+            throw error;
+          }
+        }
+      }
+      throw primaryError;
+    }
+  }
+
+  private async copyFromPrimary(secondary: StorageProvider, key: string): Promise<void> {
+    await copyFileBetweenProviders({ source: this.primary, destination: secondary, sourceKey: key, overwrite: true });
+  }
+}
+
+async function deleteIfExists(provider: StorageProvider, key: string): Promise<void> {
+  if (await provider.fileExists(key)) {
+    await provider.deleteFile(key);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
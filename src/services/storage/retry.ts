@@ -0,0 +1,144 @@
+import { StorageMiddleware } from './middleware';
+import { StorageError } from './utils';
+import { isRetryableStorageError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts?: number;                  // Total attempts including the first call (default: 3)
+  baseDelayMs?: number;                  // Delay before the first retry (default: 100)
+  maxDelayMs?: number;                   // Upper bound for a single delay (default: 5000)
+  jitter?: boolean;                      // Randomize delays between 0 and the backoff value (default: true)
+  isRetryable?: (error: unknown) => boolean; // Default: isRetryableStorageError
+  onRetry?: (info: { method: string; attempt: number; delayMs: number; error: unknown }) => void;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;             // Consecutive failures that open the circuit (default: 5)
+  resetTimeoutMs?: number;               // How long the circuit stays open before a trial call (default: 30000)
+  isFailure?: (error: unknown) => boolean; // Errors that count against the backend (default: isRetryableStorageError)
+  onStateChange?: (state: CircuitState) => void;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Exponential backoff for a 1-based retry number, capped at maxDelayMs.
+ * With jitter the delay is picked uniformly between 0 and the backoff value.
+ */
+export function computeRetryDelay(retry: number, policy: RetryPolicy = {}, random: () => number = Math.random): number {
+  const baseDelayMs = policy.baseDelayMs ?? 100;
+  const maxDelayMs = policy.maxDelayMs ?? 5000;
+  const backoff = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, retry - 1));
+
+  return policy.jitter === false ? backoff : Math.floor(random() * backoff);
+}
+
+/**
+ * Retry transient failures with exponential backoff.
+ * Uploads from a stream cannot be replayed, so they are never retried; a retryable failure is
+ * rethrown as UPLOAD_NOT_RETRYABLE so callers know to retry with a fresh stream themselves.
+ */
+export function createRetryMiddleware(policy: RetryPolicy = {}): StorageMiddleware {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+  const isRetryable = policy.isRetryable || isRetryableStorageError;
+
+  return async (context, next) => {
+    const replayable = !(context.method === 'uploadFile' && isStreamUpload(context.args[0]));
+    const args = context.args;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Restore the original arguments in case an inner middleware replaced them
+        context.args = args;
+        return await next();
+      } catch (error) {
+        if (!isRetryable(error)) {
+          throw error;
+        }
+        if (!replayable) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new StorageError(
+            `${context.method} failed and was not retried because its stream cannot be replayed: ${message}`,
+            'UPLOAD_NOT_RETRYABLE',
+            error instanceof StorageError ? error.statusCode : 503,
+            error instanceof Error ? error : undefined,
+          );
+        }
+        if (attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = computeRetryDelay(attempt, policy);
+        policy.onRetry?.({ method: context.method, attempt, delayMs, error });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  };
+}
+
+/**
+ * Fail fast with CIRCUIT_OPEN after repeated backend failures, instead of waiting on every call.
+ * After resetTimeoutMs one trial call is let through: success closes the circuit, failure reopens it.
+ * State lives in the middleware, so create one per provider.
+ */
+export function createCircuitBreakerMiddleware(options: CircuitBreakerOptions = {}): StorageMiddleware {
+  const failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+  const resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  const isFailure = options.isFailure || isRetryableStorageError;
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const setState = (next: CircuitState) => {
+    if (state !== next) {
+      state = next;
+      options.onStateChange?.(next);
+    }
+  };
+
+  return async (context, next) => {
+    let isTrial = false;
+    if (state === 'open' && Date.now() - openedAt >= resetTimeoutMs) {
+      setState('half-open');
+    }
+    if (state === 'half-open' && !trialInFlight) {
+      trialInFlight = true;
+      isTrial = true;
+    } else if (state !== 'closed') {
+      throw new StorageError(
+        `Storage circuit is open after ${consecutiveFailures} consecutive failures; ${context.method} was not attempted`,
+        'CIRCUIT_OPEN',
+        503,
+      );
+    }
+
+    try {
+      const result = await next();
+      consecutiveFailures = 0;
+      setState('closed');
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        consecutiveFailures++;
+        if (isTrial || consecutiveFailures >= failureThreshold) {
+          openedAt = Date.now();
+          setState('open');
+        }
+      } else if (isTrial) {
+        // The backend answered, so it is up again
+        consecutiveFailures = 0;
+        setState('closed');
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        trialInFlight = false;
+      }
+    }
+  };
+}
+
+function isStreamUpload(options: { stream?: unknown; buffer?: unknown; filePath?: unknown } | undefined): boolean {
+  return !!options?.stream && !options.buffer && !options.filePath;
+}
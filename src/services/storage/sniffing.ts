@@ -0,0 +1,252 @@
+import { open } from 'fs/promises';
+import { Readable } from 'stream';
+import { StorageUploadOptions } from './types';
+
+export type DetectedContentCategory = 'image' | 'document' | 'archive' | 'audio' | 'video' | 'executable' | 'script';
+
+export interface DetectedContentType {
+  contentType: string;
+  extension: string;
+  category: DetectedContentCategory;
+}
+
+// Enough bytes to see past a ZIP local file header or a TAR header
+export const CONTENT_SNIFF_LENGTH = 4100;
+
+// Declared types that are accepted for a detected type, beyond the detected type itself
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['image/jpg', 'image/pjpeg'],
+  'image/x-icon': ['image/vnd.microsoft.icon'],
+  'image/bmp': ['image/x-bmp', 'image/x-ms-bmp'],
+  'audio/mpeg': ['audio/mp3', 'audio/mpeg3'],
+  'audio/wav': ['audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+  'audio/ogg': ['video/ogg', 'application/ogg', 'audio/opus'],
+  'audio/flac': ['audio/x-flac'],
+  'video/x-msvideo': ['video/avi', 'video/msvideo'],
+  'video/webm': ['audio/webm', 'video/x-matroska', 'audio/x-matroska'],
+  'application/gzip': ['application/x-gzip', 'application/x-tar', 'application/x-gtar'],
+  'application/x-cfb': [
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.ms-outlook',
+    'application/x-msi',
+  ],
+};
+
+// ISO base media files (ftyp box) share one container, whatever the brand
+const ISO_MEDIA_TYPES = ['video/mp4', 'audio/mp4', 'audio/x-m4a', 'audio/m4a', 'video/x-m4v', 'video/quicktime', 'video/3gpp', 'image/heic', 'image/heif', 'image/avif'];
+
+// Formats stored as ZIP archives
+const ZIP_TYPE_PREFIXES = [
+  'application/zip',
+  'application/x-zip',
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.ms-word.',
+  'application/vnd.ms-excel.',
+  'application/vnd.ms-powerpoint.',
+  'application/vnd.oasis.opendocument.',
+  'application/epub+zip',
+  'application/java-archive',
+];
+
+/**
+ * Detect a file's type from its leading bytes (see CONTENT_SNIFF_LENGTH).
+ * Returns undefined for plain text and formats without a reliable signature.
+ */
+export function detectContentType(bytes: Uint8Array): DetectedContentType | undefined {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const at = (offset: number, ...signature: number[]) =>
+    buffer.length >= offset + signature.length && signature.every((byte, index) => buffer[offset + index] === byte);
+  const ascii = (offset: number, text: string) =>
+    buffer.length >= offset + text.length && buffer.toString('latin1', offset, offset + text.length) === text;
+  const type = (contentType: string, extension: string, category: DetectedContentCategory): DetectedContentType =>
+    ({ contentType, extension, category });
+
+  // Executables
+  if (ascii(0, 'MZ')) return type('application/x-msdownload', 'exe', 'executable');
+  if (at(0, 0x7f, 0x45, 0x4c, 0x46)) return type('application/x-executable', 'elf', 'executable');
+  if (at(0, 0xfe, 0xed, 0xfa, 0xce) || at(0, 0xfe, 0xed, 0xfa, 0xcf) || at(0, 0xce, 0xfa, 0xed, 0xfe) || at(0, 0xcf, 0xfa, 0xed, 0xfe)) {
+    return type('application/x-mach-binary', 'macho', 'executable');
+  }
+  if (at(0, 0xca, 0xfe, 0xba, 0xbe) && buffer.length >= 8) {
+    // Shared by Mach-O universal binaries (small architecture count) and Java classes (class file version)
+    return buffer.readUInt32BE(4) < 20
+      ? type('application/x-mach-binary', 'macho', 'executable')
+      : type('application/java-vm', 'class', 'executable');
+  }
+  if (at(0, 0x00, 0x61, 0x73, 0x6d)) return type('application/wasm', 'wasm', 'executable');
+
+  // Scripts
+  if (ascii(0, '#!')) return type('text/x-shellscript', 'sh', 'script');
+  if (/^\s*<\?php/i.test(buffer.toString('latin1', 0, 64))) return type('application/x-httpd-php', 'php', 'script');
+
+  // Images
+  if (at(0, 0xff, 0xd8, 0xff)) return type('image/jpeg', 'jpg', 'image');
+  if (at(0, 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return type('image/png', 'png', 'image');
+  if (ascii(0, 'GIF87a') || ascii(0, 'GIF89a')) return type('image/gif', 'gif', 'image');
+  if (ascii(0, 'RIFF') && ascii(8, 'WEBP')) return type('image/webp', 'webp', 'image');
+  if (ascii(0, 'BM') && buffer.length >= 14 && buffer.readUInt32LE(6) === 0) return type('image/bmp', 'bmp', 'image');
+  if (at(0, 0x49, 0x49, 0x2a, 0x00) || at(0, 0x4d, 0x4d, 0x00, 0x2a)) return type('image/tiff', 'tif', 'image');
+  if (at(0, 0x00, 0x00, 0x01, 0x00)) return type('image/x-icon', 'ico', 'image');
+
+  // ISO base media (MP4, MOV, M4A, HEIC, AVIF)
+  if (ascii(4, 'ftyp')) {
+    const brand = buffer.toString('latin1', 8, 12).trim();
+    if (brand === 'avif' || brand === 'avis') return type('image/avif', 'avif', 'image');
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return type('image/heic', 'heic', 'image');
+    if (brand === 'qt') return type('video/quicktime', 'mov', 'video');
+    if (brand.startsWith('M4A')) return type('audio/mp4', 'm4a', 'audio');
+    if (brand.startsWith('3g')) return type('video/3gpp', '3gp', 'video');
+    return type('video/mp4', 'mp4', 'video');
+  }
+
+  // Documents and archives
+  if (ascii(0, '%PDF-')) return type('application/pdf', 'pdf', 'document');
+  if (at(0, 0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) return type('application/x-cfb', 'doc', 'document');
+  if (at(0, 0x50, 0x4b, 0x03, 0x04)) return detectZipContentType(buffer);
+  if (at(0, 0x1f, 0x8b)) return type('application/gzip', 'gz', 'archive');
+  if (ascii(0, 'Rar!\x1a\x07')) return type('application/vnd.rar', 'rar', 'archive');
+  if (at(0, 0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c)) return type('application/x-7z-compressed', '7z', 'archive');
+  if (ascii(0, 'BZh')) return type('application/x-bzip2', 'bz2', 'archive');
+  if (ascii(257, 'ustar')) return type('application/x-tar', 'tar', 'archive');
+
+  // Audio and video
+  if (ascii(0, 'RIFF') && ascii(8, 'WAVE')) return type('audio/wav', 'wav', 'audio');
+  if (ascii(0, 'RIFF') && ascii(8, 'AVI ')) return type('video/x-msvideo', 'avi', 'video');
+  if (ascii(0, 'ID3') || at(0, 0xff, 0xfb) || at(0, 0xff, 0xf3) || at(0, 0xff, 0xf2)) return type('audio/mpeg', 'mp3', 'audio');
+  if (ascii(0, 'OggS')) return type('audio/ogg', 'ogg', 'audio');
+  if (ascii(0, 'fLaC')) return type('audio/flac', 'flac', 'audio');
+  if (at(0, 0x1a, 0x45, 0xdf, 0xa3)) return type('video/webm', 'webm', 'video');
+  if (at(0, 0x00, 0x00, 0x01, 0xba) || at(0, 0x00, 0x00, 0x01, 0xb3)) return type('video/mpeg', 'mpg', 'video');
+
+  // Markup that browsers would render
+  const text = buffer.toString('utf8', 0, Math.min(buffer.length, 1024)).replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return type('image/svg+xml', 'svg', 'image');
+  if (/^<(!doctype html|html|head|body|script)[\s>]/.test(text)) return type('text/html', 'html', 'document');
+
+  return undefined;
+}
+
+function detectZipContentType(buffer: Buffer): DetectedContentType {
+  // Entry names of the first few local file headers are in the sniffed bytes
+  const entries = buffer.toString('latin1');
+
+  if (entries.includes('mimetypeapplication/epub+zip')) {
+    return { contentType: 'application/epub+zip', extension: 'epub', category: 'document' };
+  }
+  const openDocument = entries.match(/mimetype(application\/vnd\.oasis\.opendocument\.[a-z.-]+)/);
+  if (openDocument) {
+    const kind = openDocument[1].split('.').pop() as string;
+    const extension = ({ spreadsheet: 'ods', presentation: 'odp', graphics: 'odg' } as Record<string, string>)[kind] || 'odt';
+    return { contentType: openDocument[1], extension, category: 'document' };
+  }
+  if (entries.includes('word/')) {
+    return { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx', category: 'document' };
+  }
+  if (entries.includes('xl/')) {
+    return { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx', category: 'document' };
+  }
+  if (entries.includes('ppt/')) {
+    return { contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extension: 'pptx', category: 'document' };
+  }
+  if (entries.includes('META-INF/MANIFEST.MF')) {
+    return { contentType: 'application/java-archive', extension: 'jar', category: 'executable' };
+  }
+  return { contentType: 'application/zip', extension: 'zip', category: 'archive' };
+}
+
+/**
+ * Check whether a declared MIME type is plausible for detected content
+ */
+export function isContentTypeCompatible(declaredType: string, detected: DetectedContentType): boolean {
+  const declared = declaredType.split(';')[0].trim().toLowerCase();
+  if (declared === detected.contentType || COMPATIBLE_TYPES[detected.contentType]?.includes(declared)) {
+    return true;
+  }
+  if (ISO_MEDIA_TYPES.includes(detected.contentType)) {
+    return ISO_MEDIA_TYPES.includes(declared);
+  }
+  if (detected.contentType === 'application/zip' || ZIP_TYPE_PREFIXES.some(prefix => detected.contentType.startsWith(prefix))) {
+    return ZIP_TYPE_PREFIXES.some(prefix => declared.startsWith(prefix));
+  }
+  return false;
+}
+
+/**
+ * Read the leading bytes of a buffer, file path or stream.
+ * Reading a stream consumes it, so a replacement stream that replays the bytes is returned with them.
+ */
+export async function readContentHead(
+  source: Buffer | Uint8Array | string | ReadableStream | NodeJS.ReadableStream,
+  length: number = CONTENT_SNIFF_LENGTH,
+): Promise<{ head: Buffer; stream?: Readable }> {
+  if (source instanceof Uint8Array) {
+    return { head: Buffer.from(source.subarray(0, length)) };
+  }
+
+  if (typeof source === 'string') {
+    const handle = await open(source, 'r');
+    try {
+      const head = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(head, 0, length, 0);
+      return { head: head.subarray(0, bytesRead) };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  const readable = source instanceof ReadableStream ? Readable.fromWeb(source as any) : source as Readable;
+  const iterator = readable[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  let done = false;
+
+  while (total < length) {
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      break;
+    }
+    const chunk = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+    chunks.push(chunk);
+    total += chunk.length;
+  }
+
+  const consumed = Buffer.concat(chunks);
+  const stream = Readable.from((async function* () {
+    if (consumed.length > 0) {
+      yield consumed;
+    }
+    if (!done) {
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    }
+  })());
+
+  return { head: consumed.subarray(0, length), stream };
+}
+
+/**
+ * Fill in a missing contentType from the upload's content.
+ * Returns the options unchanged when a type was declared or nothing was recognized;
+ * stream sources are replaced by a stream that replays the sniffed bytes.
+ */
+export async function applySniffedContentType(options: StorageUploadOptions): Promise<StorageUploadOptions> {
+  if (options.contentType) {
+    return options;
+  }
+
+  const source = options.buffer || options.filePath || options.stream;
+  if (!source) {
+    return options;
+  }
+
+  const { head, stream } = await readContentHead(source);
+  const detected = detectContentType(head);
+  const updated = stream ? { ...options, stream } : options;
+
+  // Compound files (.doc, .xls, .msi) share one signature; leave those to the provider's filename inference
+  return detected && detected.contentType !== 'application/x-cfb' ? { ...updated, contentType: detected.contentType } : updated;
+}
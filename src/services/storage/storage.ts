@@ -8,18 +8,69 @@ import {
   ListFilesResult,
   SearchFilesOptions,
   SearchFilesResult,
+  UploadUrlOptions,
+  UploadUrlResult,
+  CopyFileOptions,
+  VerifyFileOptions,
+  ChecksumVerificationResult,
+  FileDeleteResult,
+  FileMoveResult,
+  FileMetadataUpdate,
+  UpdateFileMetadataOptions,
+  StorageCapabilities,
+  FolderSummary,
 } from './types';
+import { copyFileBetweenProviders, moveFileBetweenProviders, findFileByKey } from './copy';
+import { applyStorageMiddleware, hasStorageMiddleware } from './middleware';
+import { StorageEvents } from './events';
+import { BatchDeleteOptions, batchDeleteFiles, batchDeleteFilesByExternalIds, batchDeleteByPrefix } from './batch';
+import { verifyFileChecksum, verifyFileChecksumByExternalId } from './checksum';
+import {
+  TrashOptions,
+  DeletedFileInfo,
+  ListDeletedFilesOptions,
+  ListDeletedFilesResult,
+  isTrashKey,
+  trashFile,
+  trashFileByExternalId,
+  listTrashedFiles,
+  restoreTrashedFile,
+  restoreTrashedFileByExternalId,
+  purgeTrash,
+} from './trash';
+import { StorageNotFoundError } from './errors';
+import { getProviderCapabilities, getStorageProviderCapabilities } from './capabilities';
+import {
+  RenameFolderOptions,
+  createProviderFolder,
+  getProviderFolderSummary,
+  renameProviderFolder,
+  deleteProviderFolder,
+} from './folders';
+import { ArchiveSource, ArchiveOptions, ArchiveStreamResult, createProviderArchiveStream } from './archive';
 
 // Cache for provider availability to avoid repeated import attempts
 const availabilityCache = new Map<StorageProviderType, { available: boolean; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 let storageProvider: StorageProvider | null = null;
+let eventedStorageProvider: StorageProvider | null = null;
+let trashOptions: TrashOptions | null = null;
+const storageEvents = new StorageEvents();
 
 export function setStorageProvider(provider: StorageProvider): void {
   storageProvider = provider;
+  // Passing null resets the active provider; one that already emits the storage events isn't wrapped again
+  const eventsMiddleware = storageEvents.middleware();
+  eventedStorageProvider = provider && !hasStorageMiddleware(provider, eventsMiddleware)
+    ? applyStorageMiddleware(provider, [eventsMiddleware])
+    : provider;
 }
 
+/**
+ * The provider passed to setStorageProvider. Calls made on it directly emit no events;
+ * use getEventedStorageProvider() for that.
+ */
 export function getStorageProvider(): StorageProvider {
   if (!storageProvider) {
     throw new Error('Storage provider not initialized. Call initializeStorageProvider() first.');
@@ -27,54 +78,323 @@ export function getStorageProvider(): StorageProvider {
   return storageProvider;
 }
 
+/**
+ * The active provider wrapped so changes made through it emit events on getStorageEvents(),
+ * as changes made through the functions of this module do
+ */
+export function getEventedStorageProvider(): StorageProvider {
+  if (!eventedStorageProvider) {
+    throw new Error('Storage provider not initialized. Call initializeStorageProvider() first.');
+  }
+  return eventedStorageProvider;
+}
+
+/**
+ * Events for changes made through the active provider
+ */
+export function getStorageEvents(): StorageEvents {
+  return storageEvents;
+}
+
+/**
+ * Make deleteFile/deleteFileByExternalId move files to the trash instead of removing them
+ */
+export function enableTrash(options: TrashOptions = {}): void {
+  trashOptions = options;
+}
+
+export function disableTrash(): void {
+  trashOptions = null;
+}
+
+export function isTrashEnabled(): boolean {
+  return trashOptions !== null;
+}
+
 export async function uploadFile(options: StorageUploadOptions): Promise<StorageUploadResult> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.uploadFile(options);
 }
 
 export async function deleteFile(key: string): Promise<void> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
+  // Deleting a file that is already in the trash removes it for good
+  if (trashOptions && !isTrashKey(key, trashOptions)) {
+    // Trash the file through the unwrapped provider so the move is reported as a delete
+    const options = trashOptions;
+    const rawProvider = storageProvider as StorageProvider;
+    await storageEvents.trackDelete(
+      rawProvider,
+      () => findFileByKey(rawProvider, key),
+      () => trashFile(rawProvider, key, options),
+      { trashed: true },
+    );
+    return;
+  }
   return provider.deleteFile(key);
 }
 
 export async function deleteFileByExternalId(externalId: string): Promise<void> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
+  if (trashOptions) {
+    const options = trashOptions;
+    const rawProvider = storageProvider as StorageProvider;
+    await storageEvents.trackDelete(
+      rawProvider,
+      () => rawProvider.findFileByExternalId(externalId),
+      () => trashFileByExternalId(rawProvider, externalId, options),
+      { trashed: true },
+    );
+    return;
+  }
   return provider.deleteFileByExternalId(externalId);
 }
 
+/**
+ * Delete many files, with one result per key. Failures are reported per file rather than thrown.
+ */
+export async function deleteFiles(keys: string[], options?: BatchDeleteOptions): Promise<FileDeleteResult[]> {
+  return batchDeleteFiles(getBatchProvider(), keys, options);
+}
+
+export async function deleteFilesByExternalIds(externalIds: string[], options?: BatchDeleteOptions): Promise<FileDeleteResult[]> {
+  return batchDeleteFilesByExternalIds(getBatchProvider(), externalIds, options);
+}
+
+/**
+ * Delete every file under a prefix (which must not be empty)
+ */
+export async function deleteByPrefix(prefix: string, options?: BatchDeleteOptions): Promise<FileDeleteResult[]> {
+  return batchDeleteByPrefix(getBatchProvider(), prefix, options);
+}
+
+// Folders: virtual on object stores (see listFiles with a delimiter), real directories on local storage
+
+export async function createFolder(path: string): Promise<void> {
+  return createProviderFolder(getEventedStorageProvider(), path);
+}
+
+export async function getFolderSummary(path: string): Promise<FolderSummary> {
+  return getProviderFolderSummary(getEventedStorageProvider(), path);
+}
+
+/**
+ * Move every file below a folder to a new path, with one result per file
+ */
+export async function renameFolder(fromPath: string, toPath: string, options?: RenameFolderOptions): Promise<FileMoveResult[]> {
+  return renameProviderFolder(getEventedStorageProvider(), fromPath, toPath, options);
+}
+
+/**
+ * Delete a folder and everything below it, with one result per file (moved to the trash when it is enabled)
+ */
+export async function deleteFolder(path: string, options?: BatchDeleteOptions): Promise<FileDeleteResult[]> {
+  return deleteProviderFolder(getBatchProvider(), path, options);
+}
+
+// With the trash enabled, batches go through deleteFile and listFiles above so files are trashed one by one
+function getBatchProvider(): StorageProvider {
+  const provider = getEventedStorageProvider();
+  if (!trashOptions) {
+    return provider;
+  }
+  return Object.assign(Object.create(provider), { deleteFiles: undefined, deleteFile, listFiles });
+}
+
 export async function getFileUrl(key: string, expiresIn?: number): Promise<string> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.getFileUrl(key, expiresIn);
 }
 
 export async function getFileUrlByExternalId(externalId: string, expiresIn?: number): Promise<string> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.getFileUrlByExternalId(externalId, expiresIn);
 }
 
 export async function fileExists(key: string): Promise<boolean> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.fileExists(key);
 }
 
 export async function fileExistsByExternalId(externalId: string): Promise<boolean> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.fileExistsByExternalId(externalId);
 }
 
 export async function findFileByExternalId(externalId: string): Promise<StorageFileInfo | null> {
-  const provider = getStorageProvider();
+  const provider = getEventedStorageProvider();
   return provider.findFileByExternalId(externalId);
 }
 
 export async function listFiles(options?: ListFilesOptions): Promise<ListFilesResult> {
-  const provider = getStorageProvider();
-  return provider.listFiles(options);
+  const provider = getEventedStorageProvider();
+  const result = await provider.listFiles(options);
+  // Listing the trash prefix itself is allowed
+  if (!trashOptions || (options?.prefix && isTrashKey(options.prefix, trashOptions))) {
+    return result;
+  }
+  return excludeTrashedFiles(result, trashOptions);
 }
 
 export async function searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult> {
-  const provider = getStorageProvider();
-  return provider.searchFiles(options);
+  const provider = getEventedStorageProvider();
+  const result = await provider.searchFiles(options);
+  if (!trashOptions || options.includeDeleted) {
+    return result;
+  }
+  return excludeTrashedFiles(result, trashOptions);
+}
+
+function excludeTrashedFiles<T extends ListFilesResult>(result: T, options: TrashOptions): T {
+  const files = result.files.filter(file => !isTrashKey(file.key, options));
+  const commonPrefixes = result.commonPrefixes?.filter(prefix => !isTrashKey(prefix, options));
+  if (files.length === result.files.length && commonPrefixes?.length === result.commonPrefixes?.length) {
+    return result;
+  }
+  return {
+    ...result,
+    files,
+    commonPrefixes,
+    totalCount: result.totalCount !== undefined ? result.totalCount - (result.files.length - files.length) : undefined,
+  };
+}
+
+export async function restoreFile(key: string, options?: { overwrite?: boolean }): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  return restoreTrashedFile(provider, key, { ...trashOptions, ...options });
+}
+
+export async function restoreFileByExternalId(externalId: string, options?: { overwrite?: boolean }): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  return restoreTrashedFileByExternalId(provider, externalId, { ...trashOptions, ...options });
+}
+
+export async function listDeletedFiles(options?: Omit<ListDeletedFilesOptions, keyof TrashOptions>): Promise<ListDeletedFilesResult> {
+  const provider = getEventedStorageProvider();
+  return listTrashedFiles(provider, { ...trashOptions, ...options });
+}
+
+/**
+ * Permanently remove trashed files past their retention period, or deleted before `olderThan`
+ */
+export async function purgeDeleted(olderThan?: Date): Promise<DeletedFileInfo[]> {
+  const provider = getEventedStorageProvider();
+  return purgeTrash(provider, { ...trashOptions, olderThan });
+}
+
+export async function getUploadUrl(options: UploadUrlOptions): Promise<UploadUrlResult> {
+  const provider = getEventedStorageProvider();
+  if (!provider.getUploadUrl) {
+    throw new Error('Current storage provider does not support direct upload URLs');
+  }
+  return provider.getUploadUrl(options);
+}
+
+export async function copyFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  return copyFileBetweenProviders({ ...options, source: provider, destination: provider, sourceKey, destinationKey });
+}
+
+export async function copyFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  if (provider.copyFileByExternalId) {
+    return provider.copyFileByExternalId(externalId, destinationKey, options);
+  }
+  const fileInfo = await provider.findFileByExternalId(externalId);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+  }
+  return copyFile(fileInfo.key, destinationKey, options);
+}
+
+export async function moveFile(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  return moveFileBetweenProviders({ ...options, source: provider, destination: provider, sourceKey, destinationKey });
+}
+
+export async function moveFileByExternalId(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult> {
+  const provider = getEventedStorageProvider();
+  if (provider.moveFileByExternalId) {
+    return provider.moveFileByExternalId(externalId, destinationKey, options);
+  }
+  const fileInfo = await provider.findFileByExternalId(externalId);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+  }
+  return moveFile(fileInfo.key, destinationKey, options);
+}
+
+/**
+ * Stream many files as one ZIP, e.g. for "download all". Pipe result.stream into a Node response,
+ * or pass it to a Next.js Response with responseType 'web'.
+ */
+export async function createArchiveStream(keysOrExternalIds: ArchiveSource[], options?: ArchiveOptions): Promise<ArchiveStreamResult> {
+  return createProviderArchiveStream(getEventedStorageProvider(), keysOrExternalIds, options);
+}
+
+/**
+ * Change a file's metadata, content type or cache headers without re-uploading it
+ */
+export async function updateFileMetadata(key: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+  const provider = getEventedStorageProvider();
+  if (!provider.updateFileMetadata) {
+    throw new Error('Current storage provider does not support updating file metadata');
+  }
+  return provider.updateFileMetadata(key, update, options);
+}
+
+export async function updateFileMetadataByExternalId(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo> {
+  const provider = getEventedStorageProvider();
+  if (!provider.updateFileMetadataByExternalId) {
+    throw new Error('Current storage provider does not support updating file metadata');
+  }
+  return provider.updateFileMetadataByExternalId(externalId, update, options);
+}
+
+/**
+ * Get every tag on a file
+ */
+export async function getFileTags(key: string): Promise<Record<string, string>> {
+  const provider = getEventedStorageProvider();
+  if (!provider.getFileTags) {
+    throw new Error('Current storage provider does not support file tags');
+  }
+  return provider.getFileTags(key);
+}
+
+/**
+ * Replace every tag on a file
+ */
+export async function setFileTags(key: string, tags: Record<string, string>): Promise<void> {
+  const provider = getEventedStorageProvider();
+  if (!provider.setFileTags) {
+    throw new Error('Current storage provider does not support file tags');
+  }
+  return provider.setFileTags(key, tags);
+}
+
+/**
+ * Move a file to another storage class (S3 storage class, GCS storage class or Azure access tier)
+ */
+export async function setStorageClass(key: string, storageClass: string): Promise<void> {
+  const provider = getEventedStorageProvider();
+  if (!provider.setStorageClass) {
+    throw new Error('Current storage provider does not support storage classes');
+  }
+  return provider.setStorageClass(key, storageClass);
+}
+
+/**
+ * Re-hash a file's content and compare it with the checksum stored when it was uploaded
+ */
+export async function verifyFile(key: string, options?: VerifyFileOptions): Promise<ChecksumVerificationResult> {
+  const provider = getEventedStorageProvider();
+  return verifyFileChecksum(provider, key, options);
+}
+
+export async function verifyFileByExternalId(externalId: string, options?: VerifyFileOptions): Promise<ChecksumVerificationResult> {
+  const provider = getEventedStorageProvider();
+  return verifyFileChecksumByExternalId(provider, externalId, options);
 }
 
 /**
@@ -92,6 +412,7 @@ export async function isStorageProviderAvailable(providerType: StorageProviderTy
   switch (providerType) {
     case 'localstorage':
     case 'crunchycone':
+    case 'memory':
       // These providers have no optional dependencies
       available = true;
       break;
@@ -148,7 +469,7 @@ export async function isStorageProviderAvailable(providerType: StorageProviderTy
 export async function getAvailableStorageProviders(): Promise<StorageProviderType[]> {
   const allProviders: StorageProviderType[] = [
     'localstorage', 'crunchycone', 'aws', 's3', 'digitalocean', 
-    'wasabi', 'backblaze', 'r2', 's3-custom', 'gcp', 'azure',
+    'wasabi', 'backblaze', 'r2', 's3-custom', 'gcp', 'azure', 'memory',
   ];
   const availableProviders: StorageProviderType[] = [];
 
@@ -159,4 +480,19 @@ export async function getAvailableStorageProviders(): Promise<StorageProviderTyp
   }
 
   return availableProviders;
+}
+
+/**
+ * Capabilities of every available storage provider type
+ */
+export async function getAvailableStorageProviderCapabilities(): Promise<Partial<Record<StorageProviderType, StorageCapabilities>>> {
+  const providers = await getAvailableStorageProviders();
+  return Object.fromEntries(providers.map(provider => [provider, getStorageProviderCapabilities(provider)]));
+}
+
+/**
+ * Capabilities of the active storage provider
+ */
+export function getStorageCapabilities(): StorageCapabilities {
+  return getProviderCapabilities(getEventedStorageProvider());
 }
\ No newline at end of file
@@ -597,6 +597,8 @@ async function listAllFiles(
       contentTypePrefix: filter?.contentTypePrefix,
       minSize: filter?.minSize,
       maxSize: filter?.maxSize,
+      // Files are matched by external_id and compared by metadata
+      includeMetadata: true,
     });
 
     allFiles.push(...result.files);
@@ -0,0 +1,286 @@
+import {
+  StorageProvider,
+  StorageFileInfo,
+  StorageUploadResult,
+} from './types';
+import { findFileByKey, moveFileBetweenProviders } from './copy';
+import { StorageNotFoundError } from './errors';
+import { iterateListPages } from './utils';
+
+export interface TrashOptions {
+  prefix?: string;        // Key prefix trashed files are moved under (default: '.trash/')
+  retentionDays?: number; // Days a trashed file is kept before purgeTrash removes it (default: 30)
+}
+
+export interface DeletedFileInfo extends StorageFileInfo {
+  originalKey: string;
+  originalExternalId: string;
+  deletedAt: Date;
+  purgeAfter: Date;
+}
+
+export interface ListDeletedFilesOptions extends TrashOptions {
+  limit?: number;
+  continuationToken?: string;
+  offset?: number;
+}
+
+export interface ListDeletedFilesResult {
+  files: DeletedFileInfo[];
+  hasMore: boolean;
+  continuationToken?: string;
+  nextOffset?: number;
+}
+
+export interface RestoreFileOptions extends TrashOptions {
+  overwrite?: boolean; // Replace a file that has since been stored at the original key (default: false)
+}
+
+export interface PurgeTrashOptions extends TrashOptions {
+  olderThan?: Date; // Purge files deleted before this date instead of those past their retention period
+}
+
+export const DEFAULT_TRASH_PREFIX = '.trash/';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Metadata written on trashed files. Underscores keep the names valid for Azure;
+// some S3-compatible services hand them back with hyphens instead.
+const TRASH_METADATA_FIELDS = {
+  deletedAt: 'trashed_at',
+  purgeAfter: 'purge_after',
+  originalKey: 'trashed_key',
+  originalExternalId: 'trashed_external_id',
+  visibility: 'trashed_visibility',
+} as const;
+
+// Trashed files get a distinct external_id so lookups by the original id no longer find them
+const TRASH_EXTERNAL_ID_PREFIX = 'trash:';
+
+/**
+ * Check whether a key lives under the trash prefix
+ */
+export function isTrashKey(key: string, options: TrashOptions = {}): boolean {
+  return key.startsWith(options.prefix ?? DEFAULT_TRASH_PREFIX);
+}
+
+/**
+ * Soft delete a file by moving it under the trash prefix.
+ * The file keeps its content and metadata and is made private until it is restored or purged.
+ */
+export async function trashFile(provider: StorageProvider, key: string, options: TrashOptions = {}): Promise<DeletedFileInfo> {
+  const prefix = options.prefix ?? DEFAULT_TRASH_PREFIX;
+  const retentionDays = options.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  if (isTrashKey(key, options)) {
+    throw new Error(`File with key ${key} is already in the trash`);
+  }
+
+  const fileInfo = await findFileByKey(provider, key);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with key ${key} not found`);
+  }
+
+  let visibility: 'public' | 'private' = 'private';
+  try {
+    const visibilityStatus = await provider.getFileVisibility(key);
+    visibility = visibilityStatus.visibility === 'public' ? 'public' : 'private';
+  } catch {
+    // If visibility check fails, restore as private
+  }
+
+  const deletedAt = new Date();
+  const purgeAfter = new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+  // The timestamp keeps repeated deletions of the same key apart
+  const trashKey = `${prefix}${deletedAt.getTime()}/${key}`;
+
+  const result = await moveFileBetweenProviders({
+    source: provider,
+    destination: provider,
+    sourceKey: key,
+    destinationKey: trashKey,
+    external_id: `${TRASH_EXTERNAL_ID_PREFIX}${fileInfo.external_id}`,
+    public: false,
+    metadata: {
+      [TRASH_METADATA_FIELDS.deletedAt]: deletedAt.toISOString(),
+      [TRASH_METADATA_FIELDS.purgeAfter]: purgeAfter.toISOString(),
+      [TRASH_METADATA_FIELDS.originalKey]: key,
+      [TRASH_METADATA_FIELDS.originalExternalId]: fileInfo.external_id,
+      [TRASH_METADATA_FIELDS.visibility]: visibility,
+    },
+  });
+
+  return {
+    external_id: result.external_id,
+    key: result.key,
+    url: result.url,
+    size: result.size,
+    contentType: result.contentType,
+    metadata: result.metadata,
+    visibility: 'private',
+    originalKey: key,
+    originalExternalId: fileInfo.external_id,
+    deletedAt,
+    purgeAfter,
+  };
+}
+
+/**
+ * Soft delete a file looked up by its external_id
+ */
+export async function trashFileByExternalId(provider: StorageProvider, externalId: string, options?: TrashOptions): Promise<DeletedFileInfo> {
+  const fileInfo = await provider.findFileByExternalId(externalId);
+  if (!fileInfo) {
+    throw new StorageNotFoundError(`File with external_id ${externalId} not found`);
+  }
+  return trashFile(provider, fileInfo.key, options);
+}
+
+/**
+ * List a page of trashed files, as stored under the trash prefix
+ */
+export async function listTrashedFiles(provider: StorageProvider, options: ListDeletedFilesOptions = {}): Promise<ListDeletedFilesResult> {
+  const result = await provider.listFiles({
+    prefix: options.prefix ?? DEFAULT_TRASH_PREFIX,
+    limit: options.limit,
+    continuationToken: options.continuationToken,
+    offset: options.offset,
+    includeMetadata: true,
+  });
+
+  return {
+    files: result.files.map(toDeletedFileInfo).filter((file): file is DeletedFileInfo => file !== null),
+    hasMore: result.hasMore,
+    continuationToken: result.continuationToken,
+    nextOffset: result.nextOffset,
+  };
+}
+
+/**
+ * Restore a trashed file to its original key, external_id, metadata and visibility.
+ * Accepts either the original key (the most recent deletion wins) or the key inside the trash.
+ */
+export async function restoreTrashedFile(provider: StorageProvider, key: string, options: RestoreFileOptions = {}): Promise<StorageUploadResult> {
+  const deletedFile = await findTrashedFile(
+    provider,
+    file => isTrashKey(key, options) ? file.key === key : file.originalKey === key,
+    options,
+  );
+  if (!deletedFile) {
+    throw new StorageNotFoundError(`Deleted file with key ${key} not found`);
+  }
+  return restoreDeletedFile(provider, deletedFile, options);
+}
+
+/**
+ * Restore the most recently trashed file with the given external_id
+ */
+export async function restoreTrashedFileByExternalId(
+  provider: StorageProvider,
+  externalId: string,
+  options: RestoreFileOptions = {},
+): Promise<StorageUploadResult> {
+  const deletedFile = await findTrashedFile(provider, file => file.originalExternalId === externalId, options);
+  if (!deletedFile) {
+    throw new StorageNotFoundError(`Deleted file with external_id ${externalId} not found`);
+  }
+  return restoreDeletedFile(provider, deletedFile, options);
+}
+
+/**
+ * Permanently delete trashed files past their retention period (or deleted before `olderThan`).
+ * Returns the files that were removed.
+ */
+export async function purgeTrash(provider: StorageProvider, options: PurgeTrashOptions = {}): Promise<DeletedFileInfo[]> {
+  const now = new Date();
+  const expired: DeletedFileInfo[] = [];
+
+  // Collect first so deletions don't shift the pages being listed
+  for await (const file of iterateTrash(provider, options)) {
+    const isExpired = options.olderThan
+      ? file.deletedAt < options.olderThan
+      : file.purgeAfter <= now;
+    if (isExpired) {
+      expired.push(file);
+    }
+  }
+
+  for (const file of expired) {
+    await provider.deleteFile(file.key);
+  }
+
+  return expired;
+}
+
+async function restoreDeletedFile(
+  provider: StorageProvider,
+  deletedFile: DeletedFileInfo,
+  options: RestoreFileOptions,
+): Promise<StorageUploadResult> {
+  const metadata = stripTrashMetadata(deletedFile.metadata || {});
+
+  return moveFileBetweenProviders({
+    source: provider,
+    destination: provider,
+    sourceKey: deletedFile.key,
+    destinationKey: deletedFile.originalKey,
+    external_id: deletedFile.originalExternalId,
+    metadata,
+    replaceMetadata: true,
+    public: readTrashField(deletedFile.metadata || {}, TRASH_METADATA_FIELDS.visibility) === 'public',
+    overwrite: options.overwrite,
+  });
+}
+
+async function findTrashedFile(
+  provider: StorageProvider,
+  predicate: (file: DeletedFileInfo) => boolean,
+  options: TrashOptions,
+): Promise<DeletedFileInfo | null> {
+  let latest: DeletedFileInfo | null = null;
+  for await (const file of iterateTrash(provider, options)) {
+    if (predicate(file) && (!latest || file.deletedAt > latest.deletedAt)) {
+      latest = file;
+    }
+  }
+  return latest;
+}
+
+async function* iterateTrash(provider: StorageProvider, options: TrashOptions): AsyncGenerator<DeletedFileInfo> {
+  for await (const page of iterateListPages(cursor => listTrashedFiles(provider, { ...options, ...cursor }))) {
+    yield* page.files;
+  }
+}
+
+function toDeletedFileInfo(file: StorageFileInfo): DeletedFileInfo | null {
+  const metadata = file.metadata || {};
+  const deletedAt = readTrashField(metadata, TRASH_METADATA_FIELDS.deletedAt);
+  const originalKey = readTrashField(metadata, TRASH_METADATA_FIELDS.originalKey);
+  if (!deletedAt || !originalKey) {
+    // Not written by trashFile
+    return null;
+  }
+
+  const purgeAfter = readTrashField(metadata, TRASH_METADATA_FIELDS.purgeAfter);
+
+  return {
+    ...file,
+    originalKey,
+    originalExternalId: readTrashField(metadata, TRASH_METADATA_FIELDS.originalExternalId) || '',
+    deletedAt: new Date(deletedAt),
+    purgeAfter: purgeAfter ? new Date(purgeAfter) : new Date(deletedAt),
+  };
+}
+
+function readTrashField(metadata: Record<string, string>, field: string): string | undefined {
+  return metadata[field] ?? metadata[field.replace(/_/g, '-')];
+}
+
+function stripTrashMetadata(metadata: Record<string, string>): Record<string, string> {
+  const reserved = new Set<string>(['external_id', 'external-id']);
+  for (const field of Object.values(TRASH_METADATA_FIELDS)) {
+    reserved.add(field);
+    reserved.add(field.replace(/_/g, '-'));
+  }
+
+  return Object.fromEntries(Object.entries(metadata).filter(([name]) => !reserved.has(name)));
+}
@@ -15,6 +15,7 @@ export interface StorageProvider {
   fileExists(key: string): Promise<boolean>;
   fileExistsByExternalId(externalId: string): Promise<boolean>;
   findFileByExternalId(externalId: string): Promise<StorageFileInfo | null>;
+  getFileInfo?(key: string): Promise<StorageFileInfo | null>; // Single-object lookup (HEAD); findFileByKey lists by prefix without it
   listFiles(options?: ListFilesOptions): Promise<ListFilesResult>;
   searchFiles(options: SearchFilesOptions): Promise<SearchFilesResult>;
   isAvailable(): Promise<boolean>;
@@ -27,10 +28,43 @@ export interface StorageProvider {
   
   // Optional bulk operations (providers can throw "not implemented")
   setMultipleFileVisibility?(keys: string[], visibility: 'public' | 'private'): Promise<FileVisibilityResult[]>;
+  deleteFiles?(keys: string[]): Promise<FileDeleteResult[]>; // Native batch delete; one result per key, in order
   
   // File streaming operations (optional - not all providers implement)
   getFileStream?(key: string, options?: FileStreamOptions): Promise<FileStreamResult>;
   getFileStreamByExternalId?(externalId: string, options?: FileStreamOptions): Promise<FileStreamResult>;
+
+  // Multipart / resumable uploads (optional - not all providers implement)
+  initiateMultipartUpload?(options: MultipartUploadOptions): Promise<MultipartUpload>;
+  uploadPart?(upload: MultipartUpload, partNumber: number, data: Buffer): Promise<MultipartUploadPart>;
+  listParts?(upload: MultipartUpload): Promise<MultipartUploadPart[]>;
+  completeMultipartUpload?(upload: MultipartUpload, parts?: MultipartUploadPart[]): Promise<StorageUploadResult>;
+  abortMultipartUpload?(upload: MultipartUpload): Promise<void>;
+
+  // Direct-to-storage uploads (optional - not all providers implement)
+  getUploadUrl?(options: UploadUrlOptions): Promise<UploadUrlResult>;
+
+  // Server-side copy / move (optional - not all providers implement)
+  copyFile?(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult>;
+  copyFileByExternalId?(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult>;
+  moveFile?(sourceKey: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult>;
+  moveFileByExternalId?(externalId: string, destinationKey: string, options?: CopyFileOptions): Promise<StorageUploadResult>;
+
+  // In-place metadata and header updates (optional - not all providers implement)
+  updateFileMetadata?(key: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo>;
+  updateFileMetadataByExternalId?(externalId: string, update: FileMetadataUpdate, options?: UpdateFileMetadataOptions): Promise<StorageFileInfo>;
+
+  // Object tags and storage classes (optional - not all providers implement)
+  getFileTags?(key: string): Promise<Record<string, string>>;
+  setFileTags?(key: string, tags: Record<string, string>): Promise<void>; // Replaces every tag on the file
+  setStorageClass?(key: string, storageClass: string): Promise<void>;
+
+  // Folders backed by real directories (optional - object stores use folder marker objects, see folders.ts)
+  createFolder?(path: string): Promise<void>;
+  deleteFolder?(path: string): Promise<void>; // Removes the directory and anything left in it
+
+  // Feature matrix (optional - see getProviderCapabilities for providers without one)
+  getCapabilities?(): StorageCapabilities;
 }
 
 export interface StorageUploadOptions {
@@ -52,6 +86,15 @@ export interface StorageUploadOptions {
   bucket?: string;            // Override default bucket
   public?: boolean;           // Public access
   metadata?: Record<string, string>; // Custom metadata
+  checksumAlgorithm?: ChecksumAlgorithm; // Hash the content while uploading and store the checksum
+
+  // Expiration - removed by sweepExpired once passed (stored as `expires_at` metadata)
+  expiresAt?: Date;
+  ttl?: number;               // Seconds from now; alternative to expiresAt
+
+  // Classification
+  tags?: Record<string, string>; // Object tags (S3 tagging, Azure blob index tags)
+  storageClass?: string;      // Provider's class name, e.g. 'STANDARD_IA', 'NEARLINE' or the Azure tier 'Cool'
 }
 
 export interface StorageUploadResult {
@@ -61,6 +104,7 @@ export interface StorageUploadResult {
   size: number;
   contentType: string;
   etag?: string;
+  checksum?: FileChecksum;
   metadata?: Record<string, string>;
   visibility: 'public' | 'private' | 'temporary-public';
   publicUrl?: string; // Direct public URL if available and file is public
@@ -75,10 +119,15 @@ export interface StorageFileInfo {
   contentType: string;
   lastModified?: Date;
   etag?: string;
+  checksum?: FileChecksum;
   metadata?: Record<string, string>;
   visibility?: 'public' | 'private' | 'temporary-public';
   publicUrl?: string;
   publicUrlExpiresAt?: Date;
+  cacheControl?: string;       // Set when the provider reports it
+  contentDisposition?: string; // Set when the provider reports it
+  storageClass?: string;       // Storage class or access tier
+  tags?: Record<string, string>; // Object tags; providers that charge per tag lookup only fill them in when filtering by tags
 }
 
 export interface S3Config {
@@ -116,11 +165,13 @@ export interface FileValidationOptions {
   allowedTypes?: string[];
   allowedExtensions?: string[];
   blockDangerousFiles?: boolean;
+  sniffContent?: boolean;       // Check file content against the declared type when it is available (default: true)
 }
 
 export interface FileValidationResult {
   valid: boolean;
   error?: string;
+  detectedType?: string;        // MIME type detected from the file content
 }
 
 export type StorageProviderType = 
@@ -134,7 +185,25 @@ export type StorageProviderType =
   | 's3-custom'
   | 'gcp'
   | 'azure'
-  | 'crunchycone';
+  | 'crunchycone'
+  | 'memory';
+
+// What a provider supports, so callers don't have to probe optional methods or catch NOT_SUPPORTED
+export interface StorageCapabilities {
+  streaming: boolean;          // getFileStream
+  rangeRequests: boolean;      // start/end byte ranges in getFileStream
+  multipartUpload: boolean;    // initiateMultipartUpload, uploadPart and completeMultipartUpload
+  presignedUploads: boolean;   // getUploadUrl, so clients upload without going through the server
+  serverSideCopy: boolean;     // copyFile/moveFile without downloading the content
+  visibility: boolean;         // Per-file public/private access via setFileVisibility
+  temporaryUrls: boolean;      // getFileUrl returns URLs that expire after expiresIn
+  versioning: boolean;         // The backend can keep previous object versions (enabled on the bucket)
+  tagging: boolean;            // getFileTags/setFileTags and tag filters in listFiles
+  storageClasses: boolean;     // storageClass on uploads and setStorageClass
+  batchDelete: boolean;        // Native deleteFiles
+  searchPushdown: boolean;     // searchFiles filters on the backend instead of after listing
+  maxObjectSize?: number;      // Largest object in bytes (undefined when there is no fixed limit)
+}
 
 export interface ListFilesOptions {
   // Pagination
@@ -144,6 +213,7 @@ export interface ListFilesOptions {
   
   // Filtering by storage key/path
   prefix?: string;                   // Storage key prefix filter (most efficient)
+  delimiter?: string;                // Group keys by the next delimiter after the prefix into commonPrefixes (usually '/')
   keyPattern?: string;              // Storage key pattern/glob (e.g., "*.jpg")
   
   // Filtering by external_id
@@ -170,13 +240,17 @@ export interface ListFilesOptions {
   // Metadata filtering
   metadata?: Record<string, string>; // Key-value pairs that must match
   hasMetadata?: string[];           // Files that have these metadata keys
+
+  // Classification filtering
+  tags?: Record<string, string>;    // Tag key-value pairs that must match
+  storageClass?: string | string[]; // Storage class (or any of several)
   
   // Sorting (best effort - not all providers support all options)
   sortBy?: 'key' | 'external_id' | 'filename' | 'size' | 'lastModified' | 'contentType';
   sortOrder?: 'asc' | 'desc';       // Default: 'asc'
   
   // Performance options
-  includeMetadata?: boolean;        // Whether to fetch full metadata (may be slower)
+  includeMetadata?: boolean;        // Whether to fetch full metadata (may be slower; S3-compatible providers only fetch it when true)
   includeUrls?: boolean;           // Whether to generate URLs (may be slower)
 }
 
@@ -188,6 +262,10 @@ export interface ListFilesResult {
   hasMore: boolean;                 // Whether there are more results
   continuationToken?: string;       // Token for next page (cursor-based)
   nextOffset?: number;              // Offset for next page (offset-based)
+
+  // Virtual folders directly under the prefix, each ending in the delimiter (only when listing with a delimiter).
+  // Providers may spread them across pages, so merge them when paging.
+  commonPrefixes?: string[];
   
   // Performance info
   truncated?: boolean;              // If true, some files may not be included due to provider limits
@@ -223,8 +301,6 @@ export interface StorageFileInfoExtended extends StorageFileInfo {
   // Additional fields that may be available during list/search
   isPublic?: boolean;               // Whether file is publicly accessible
   bucket?: string;                  // Bucket/container name
-  storageClass?: string;           // Storage class (if applicable)
-  tags?: Record<string, string>;   // Provider-specific tags
   
   // Search-specific fields
   relevanceScore?: number;          // Relevance score (0-1) if search was performed
@@ -233,6 +309,7 @@ export interface StorageFileInfoExtended extends StorageFileInfo {
 
 // File visibility management types
 export interface FileVisibilityResult {
+  key?: string;                     // Set by setMultipleFileVisibility, one result per key
   success: boolean;
   requestedVisibility: 'public' | 'private';
   actualVisibility: 'public' | 'private' | 'temporary-public';
@@ -258,6 +335,29 @@ export interface FileVisibilityStatus {
   message?: string; // Additional information about current status
 }
 
+// Batch delete types
+export interface FileDeleteResult {
+  key: string;
+  external_id?: string;             // Set when deleting by external_id
+  success: boolean;
+  message?: string;                 // Why the delete failed
+}
+
+export interface FileMoveResult {
+  key: string;                      // Key the file was moved from
+  destinationKey: string;
+  success: boolean;
+  message?: string;                 // Why the move failed
+}
+
+export interface FolderSummary {
+  path: string;                     // Folder prefix, ending in '/'
+  fileCount: number;                // Files anywhere below the folder
+  totalSize: number;                // Their combined size in bytes
+  folderCount: number;              // Subfolders anywhere below the folder
+  lastModified?: Date;              // Most recent change to any file below the folder
+}
+
 // File streaming types
 export interface FileStreamOptions {
   // Range request support for partial content
@@ -316,4 +416,106 @@ export interface FileUrlOptions {
    * - 'inline': Displays in browser when possible
    */
   disposition?: 'attachment' | 'inline';
-}
\ No newline at end of file
+}
+
+// Multipart / resumable upload types
+export interface MultipartUploadOptions extends Omit<StorageUploadOptions, 'filePath' | 'stream' | 'buffer'> {
+  partSize?: number;                // Size of every part except the last (default: 8MB)
+}
+
+/**
+ * Handle for an in-progress multipart upload.
+ * Plain JSON so it can be persisted and passed back later to resume the upload.
+ */
+export interface MultipartUpload {
+  uploadId: string;
+  key: string;
+  external_id: string;
+  filename?: string;
+  contentType: string;
+  partSize: number;                 // All parts except the last must be exactly this size
+  size?: number;                    // Total size in bytes, if known when the upload was initiated
+  public?: boolean;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+  storageClass?: string;
+  initiatedAt: string;              // ISO timestamp
+  providerSpecific?: Record<string, any>;
+}
+
+export interface MultipartUploadPart {
+  partNumber: number;               // 1-based part index
+  size: number;
+  etag?: string;                    // Required by S3 to complete the upload
+  lastModified?: Date;
+}
+
+// Direct upload URL types
+export interface UploadUrlOptions {
+  external_id: string;
+  key?: string;                     // Reserved key; generated from external_id when omitted
+  filename?: string;
+  contentType?: string;             // Inferred from filename when omitted
+  size?: number;                    // Exact size in bytes, if known
+  minSize?: number;                 // Minimum accepted size in bytes
+  maxSize?: number;                 // Maximum accepted size in bytes
+  expiresIn?: number;               // Seconds until the URL expires (default: 3600)
+  public?: boolean;
+  metadata?: Record<string, string>;
+  method?: 'PUT' | 'POST';          // POST form policy where supported (default: PUT)
+}
+
+export interface UploadUrlResult {
+  url: string;
+  method: 'PUT' | 'POST';
+  headers: Record<string, string>;  // Headers the client must send with a PUT
+  fields?: Record<string, string>;  // Form fields the client must send with a POST, before the file
+  key: string;
+  external_id: string;
+  contentType: string;
+  maxSize?: number;
+  expiresAt: Date;
+  providerSpecific?: Record<string, any>;
+}
+
+// Copy / move types
+export interface CopyFileOptions {
+  external_id?: string;              // external_id for the new file (default: the source's)
+  metadata?: Record<string, string>; // Merged over the source metadata
+  replaceMetadata?: boolean;         // Use only `metadata` instead of merging it over the source's
+  contentType?: string;              // Override the source content type
+  public?: boolean;                  // Override the source visibility
+  overwrite?: boolean;               // Replace an existing destination file (default: false)
+}
+
+// Metadata update types
+export interface FileMetadataUpdate {
+  metadata?: Record<string, string>; // Custom metadata; external_id is kept either way
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+}
+
+export interface UpdateFileMetadataOptions {
+  merge?: boolean;                   // Merge `metadata` over the stored metadata instead of replacing it (default: true); checksums and expiration are kept either way
+}
+
+// Checksum types
+export type ChecksumAlgorithm = 'md5' | 'sha256';
+
+export interface FileChecksum {
+  algorithm: ChecksumAlgorithm;
+  value: string;                     // Base64 digest, as used by Content-MD5 and x-amz-checksum-sha256
+}
+
+export interface VerifyFileOptions {
+  expected?: FileChecksum;           // Checksum to compare against (default: the one stored with the file)
+}
+
+export interface ChecksumVerificationResult {
+  key: string;
+  valid: boolean;
+  algorithm: ChecksumAlgorithm;
+  expected: string;
+  actual: string;
+}
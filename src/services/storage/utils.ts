@@ -1,5 +1,8 @@
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
+import { createReadStream } from 'fs';
 import { extname, basename } from 'path';
+import { Readable, Transform } from 'stream';
+import type { MultipartUpload, ChecksumAlgorithm, FileChecksum, StorageUploadOptions, StorageFileInfo, ListFilesOptions, StorageProvider } from './types';
 
 export function generateUploadKey(
   userId: string,
@@ -118,6 +121,33 @@ export function getFileTypeCategory(contentType: string): string {
   return 'other';
 }
 
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'png': 'image/png',
+  'gif': 'image/gif',
+  'webp': 'image/webp',
+  'svg': 'image/svg+xml',
+  'pdf': 'application/pdf',
+  'txt': 'text/plain',
+  'html': 'text/html',
+  'css': 'text/css',
+  'js': 'application/javascript',
+  'json': 'application/json',
+  'xml': 'application/xml',
+  'zip': 'application/zip',
+  'mp4': 'video/mp4',
+  'mp3': 'audio/mpeg',
+  'wav': 'audio/wav',
+};
+
+/**
+ * Content type for a filename's extension, or application/octet-stream for extensions we don't know
+ */
+export function getContentTypeFromFilename(filename: string): string {
+  return MIME_TYPES_BY_EXTENSION[extname(filename).toLowerCase().slice(1)] || 'application/octet-stream';
+}
+
 export function createDirectoryPath(
   userId: string,
   category: string,
@@ -164,7 +194,7 @@ export function validateFileType(contentType: string, allowedTypes: string[]): b
 
 export function createThumbnailKey(originalKey: string, size: string = 'thumb'): string {
   const extension = extname(originalKey);
-  const basePath = originalKey.slice(0, -extension.length);
+  const basePath = extension ? originalKey.slice(0, -extension.length) : originalKey;
   
   return `${basePath}_${size}${extension}`;
 }
@@ -189,6 +219,304 @@ export function extractMetadataFromKey(key: string): Record<string, string> {
   return metadata;
 }
 
+/**
+ * Resolve an optional start/end byte range (inclusive) against a file's total size.
+ * Returns undefined when no range was requested.
+ */
+export function resolveByteRange(
+  totalSize: number,
+  start?: number,
+  end?: number,
+): { start: number; end: number } | undefined {
+  if (start === undefined && end === undefined) {
+    return undefined;
+  }
+
+  const rangeStart = start ?? 0;
+  const rangeEnd = Math.min(end ?? totalSize - 1, totalSize - 1);
+
+  if (rangeStart < 0 || rangeStart > rangeEnd) {
+    throw new StorageError(
+      `Requested range ${rangeStart}-${end ?? ''} is not satisfiable for a file of ${totalSize} bytes`,
+      'RANGE_NOT_SATISFIABLE',
+      416,
+    );
+  }
+
+  return { start: rangeStart, end: rangeEnd };
+}
+
+/**
+ * Parse an HTTP Content-Range header value (e.g. "bytes 0-99/1000")
+ */
+export function parseContentRange(contentRange?: string | null): { start: number; end: number; total: number } | undefined {
+  const match = contentRange?.match(/bytes (\d+)-(\d+)\/(\d+)/);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    start: parseInt(match[1]),
+    end: parseInt(match[2]),
+    total: parseInt(match[3]),
+  };
+}
+
+export const DEFAULT_MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+export const MAX_MULTIPART_PARTS = 10000;
+
+/**
+ * Check that a part fits the upload's layout: a 1-based part number, exactly partSize
+ * bytes for every part except the last, and within the total size when it is known.
+ */
+export function validateMultipartPart(upload: MultipartUpload, partNumber: number, size: number): void {
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_MULTIPART_PARTS) {
+    throw new StorageError(
+      `Part number must be an integer between 1 and ${MAX_MULTIPART_PARTS}, got ${partNumber}`,
+      'INVALID_PART',
+      400,
+    );
+  }
+
+  if (size === 0 || size > upload.partSize) {
+    throw new StorageError(
+      `Part ${partNumber} is ${size} bytes; parts must be between 1 and ${upload.partSize} bytes`,
+      'INVALID_PART',
+      400,
+    );
+  }
+
+  if (upload.size !== undefined) {
+    const offset = (partNumber - 1) * upload.partSize;
+    const expected = Math.min(upload.partSize, upload.size - offset);
+    if (expected <= 0 || size !== expected) {
+      throw new StorageError(
+        `Part ${partNumber} should be ${Math.max(expected, 0)} bytes for an upload of ${upload.size} bytes, got ${size}`,
+        'INVALID_PART',
+        400,
+      );
+    }
+  }
+}
+
+// Largest single object the supported cloud providers accept (5TB)
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024 * 1024;
+
+/**
+ * Resolve the byte-size bounds a direct upload URL should enforce.
+ * An exact size pins both bounds; returns undefined when no limits were requested.
+ */
+export function resolveUploadSizeRange(options: {
+  size?: number;
+  minSize?: number;
+  maxSize?: number;
+}): { min: number; max: number } | undefined {
+  const { size, minSize, maxSize } = options;
+
+  if (size !== undefined) {
+    if ((minSize !== undefined && size < minSize) || (maxSize !== undefined && size > maxSize)) {
+      throw new StorageError(`Upload size ${size} is outside the allowed range`, 'INVALID_UPLOAD', 400);
+    }
+    return { min: size, max: size };
+  }
+
+  if (minSize === undefined && maxSize === undefined) {
+    return undefined;
+  }
+
+  const range = { min: minSize ?? 0, max: maxSize ?? MAX_UPLOAD_SIZE };
+  if (range.min < 0 || range.min > range.max) {
+    throw new StorageError(`Invalid upload size range ${range.min}-${range.max}`, 'INVALID_UPLOAD', 400);
+  }
+  return range;
+}
+
+/**
+ * Hash a buffer; digests are base64 encoded, like the Content-MD5 and x-amz-checksum headers
+ */
+export function calculateChecksum(data: Buffer, algorithm: ChecksumAlgorithm): FileChecksum {
+  return { algorithm, value: createHash(algorithm).update(data).digest('base64') };
+}
+
+/**
+ * Hash a stream to the end
+ */
+export async function calculateStreamChecksum(
+  stream: ReadableStream | NodeJS.ReadableStream,
+  algorithm: ChecksumAlgorithm,
+): Promise<FileChecksum> {
+  const readable = stream instanceof ReadableStream ? Readable.fromWeb(stream as any) : stream;
+  const hash = createHash(algorithm);
+  for await (const chunk of readable) {
+    hash.update(chunk as Buffer);
+  }
+  return { algorithm, value: hash.digest('base64') };
+}
+
+export interface UploadChecksum {
+  checksum?: FileChecksum;                // Known before the upload starts (buffer and filePath sources)
+  wrap(stream: Readable): Readable;       // Hash a stream source on its way to the provider
+  result(): FileChecksum | undefined;     // Checksum once the upload has finished
+}
+
+/**
+ * Work out the checksum for an upload that asked for one.
+ * Buffers and files are hashed up front so providers can validate them; streams can only be
+ * hashed while they are uploaded, so their checksum is known afterwards.
+ */
+export async function prepareUploadChecksum(options: StorageUploadOptions): Promise<UploadChecksum> {
+  const algorithm = options.checksumAlgorithm;
+  let checksum: FileChecksum | undefined;
+  let streamed: FileChecksum | undefined;
+
+  if (algorithm && options.buffer) {
+    checksum = calculateChecksum(options.buffer, algorithm);
+  } else if (algorithm && options.filePath) {
+    checksum = await calculateStreamChecksum(createReadStream(options.filePath), algorithm);
+  }
+
+  return {
+    checksum,
+    wrap(stream) {
+      if (!algorithm || checksum) {
+        return stream;
+      }
+      const hash = createHash(algorithm);
+      const hashing = new Transform({
+        transform(chunk, _encoding, callback) {
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+        flush(callback) {
+          streamed = { algorithm, value: hash.digest('base64') };
+          callback();
+        },
+      });
+      stream.on('error', error => hashing.destroy(error));
+      return stream.pipe(hashing);
+    },
+    result: () => checksum || streamed,
+  };
+}
+
+/**
+ * Metadata entries that store a checksum with the file
+ */
+export function checksumToMetadata(checksum?: FileChecksum): Record<string, string> {
+  return checksum ? { [`checksum_${checksum.algorithm}`]: checksum.value } : {};
+}
+
+/**
+ * Read a checksum stored by checksumToMetadata; SHA-256 wins when both are present.
+ * S3-compatible services may turn the underscore into a hyphen.
+ */
+export function getChecksumFromMetadata(metadata?: Record<string, string>): FileChecksum | undefined {
+  for (const algorithm of ['sha256', 'md5'] as ChecksumAlgorithm[]) {
+    const value = metadata?.[`checksum_${algorithm}`] || metadata?.[`checksum-${algorithm}`];
+    if (value) {
+      return { algorithm, value };
+    }
+  }
+  return undefined;
+}
+
+// Metadata entry holding an upload's expiration (ISO timestamp)
+export const EXPIRATION_METADATA_FIELD = 'expires_at';
+
+/**
+ * Fold an upload's expiresAt/ttl into its metadata, where lifecycle sweeps look for it
+ */
+export function applyExpiration<T extends { metadata?: Record<string, string>; expiresAt?: Date; ttl?: number }>(options: T): T {
+  if (options.expiresAt === undefined && options.ttl === undefined) {
+    return options;
+  }
+  if (options.expiresAt !== undefined && options.ttl !== undefined) {
+    throw new Error('Provide either expiresAt or ttl, not both');
+  }
+
+  const expiresAt = options.expiresAt ?? new Date(Date.now() + (options.ttl as number) * 1000);
+  if (isNaN(expiresAt.getTime())) {
+    throw new Error('expiresAt must be a valid date');
+  }
+  return { ...options, metadata: { ...options.metadata, [EXPIRATION_METADATA_FIELD]: expiresAt.toISOString() } };
+}
+
+/**
+ * Read an expiration stored by applyExpiration; S3-compatible services may turn the underscore into a hyphen
+ */
+export function getExpirationFromMetadata(metadata?: Record<string, string>): Date | undefined {
+  const value = metadata?.[EXPIRATION_METADATA_FIELD] || metadata?.['expires-at'];
+  const expiresAt = value ? new Date(value) : undefined;
+  return expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : undefined;
+}
+
+// Metadata entries the library writes itself, in both spellings S3-compatible services may return
+const LIBRARY_METADATA_FIELDS = [
+  ...(['sha256', 'md5'] as ChecksumAlgorithm[]).flatMap(algorithm => [`checksum_${algorithm}`, `checksum-${algorithm}`]),
+  EXPIRATION_METADATA_FIELD,
+  'expires-at',
+];
+
+/**
+ * The checksum and expiration entries of stored metadata, which replacing the metadata keeps
+ */
+export function getLibraryMetadata(metadata?: Record<string, string>): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const name of LIBRARY_METADATA_FIELDS) {
+    if (metadata?.[name] !== undefined) {
+      kept[name] = metadata[name];
+    }
+  }
+  return kept;
+}
+
+/**
+ * Check a file against the tags and storageClass filters of listFiles
+ */
+export function matchesClassificationFilters(file: StorageFileInfo, options: ListFilesOptions): boolean {
+  if (options.storageClass) {
+    const classes = Array.isArray(options.storageClass) ? options.storageClass : [options.storageClass];
+    if (!file.storageClass || !classes.includes(file.storageClass)) {
+      return false;
+    }
+  }
+  if (options.tags) {
+    for (const [name, value] of Object.entries(options.tags)) {
+      if (file.tags?.[name] !== value) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Split a flat listing into the files directly under the prefix and the virtual folders below it,
+ * the way S3 does for a delimiter. The prefix's own folder marker is left out of the files.
+ */
+export function groupByDelimiter<T extends { key: string }>(
+  files: T[],
+  prefix: string = '',
+  delimiter: string,
+): { files: T[]; commonPrefixes: string[] } {
+  const direct: T[] = [];
+  const commonPrefixes = new Set<string>();
+
+  for (const file of files) {
+    if (!file.key.startsWith(prefix) || file.key === prefix) {
+      continue;
+    }
+    const index = file.key.indexOf(delimiter, prefix.length);
+    if (index === -1) {
+      direct.push(file);
+    } else {
+      commonPrefixes.add(file.key.slice(0, index + delimiter.length));
+    }
+  }
+
+  return { files: direct, commonPrefixes: [...commonPrefixes].sort() };
+}
+
 export class StorageError extends Error {
   constructor(
     message: string,
@@ -220,4 +548,80 @@ export function handleStorageError(error: unknown, operation: string): never {
     'STORAGE_UNKNOWN_ERROR',
     500,
   );
-}
\ No newline at end of file
+}
+/**
+ * Run fn over every item with at most `concurrency` calls in flight; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
+
+export interface ListPageCursor {
+  continuationToken?: string;
+  offset?: number;
+}
+
+/**
+ * Fetch every page of a paginated listing. A page is resumed from its continuation token alone when it has one,
+ * and from its next offset otherwise: token-based providers such as S3 apply an offset on top of the token,
+ * so passing both would skip a page.
+ */
+export async function* iterateListPages<T extends { hasMore: boolean; continuationToken?: string; nextOffset?: number }>(
+  listPage: (cursor: ListPageCursor) => Promise<T>,
+): AsyncGenerator<T> {
+  let cursor: ListPageCursor = {};
+  while (true) {
+    const page = await listPage(cursor);
+    yield page;
+    if (!page.hasMore) {
+      return;
+    }
+    if (page.continuationToken) {
+      cursor = { continuationToken: page.continuationToken };
+    } else if (page.nextOffset !== undefined) {
+      cursor = { offset: page.nextOffset };
+    } else {
+      return;
+    }
+  }
+}
+
+/**
+ * Every file a listing matches, across all of its pages
+ */
+export async function* iterateAllFiles(
+  provider: Pick<StorageProvider, 'listFiles'>,
+  options: Omit<ListFilesOptions, 'continuationToken' | 'offset'> = {},
+): AsyncGenerator<StorageFileInfo> {
+  for await (const page of iterateListPages(cursor => provider.listFiles({ ...options, ...cursor }))) {
+    yield* page.files;
+  }
+}
+
+/**
+ * Collect every file a listing matches. Collect before changing files: moving or deleting while paging
+ * could shift offset-based pages.
+ */
+export async function listAllFiles(
+  provider: Pick<StorageProvider, 'listFiles'>,
+  options: Omit<ListFilesOptions, 'continuationToken' | 'offset'> = {},
+): Promise<StorageFileInfo[]> {
+  const files: StorageFileInfo[] = [];
+  for await (const file of iterateAllFiles(provider, options)) {
+    files.push(file);
+  }
+  return files;
+}
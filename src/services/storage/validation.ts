@@ -1,8 +1,13 @@
 import { FileValidationOptions, FileValidationResult } from './types';
 import { extname } from 'path';
+import { detectContentType, isContentTypeCompatible, readContentHead, CONTENT_SNIFF_LENGTH } from './sniffing';
 
+/**
+ * Validate a file's size, type and name.
+ * Pass the file's leading bytes as `content` to also check them against the declared type.
+ */
 export function validateFile(
-  file: File | { name: string; size: number; type: string },
+  file: File | { name: string; size: number; type: string; content?: Uint8Array },
   options: FileValidationOptions = {},
 ): FileValidationResult {
   const {
@@ -11,8 +16,17 @@ export function validateFile(
     allowedTypes = [],
     allowedExtensions = [],
     blockDangerousFiles = true,
+    sniffContent = true,
   } = options;
 
+  const content = 'content' in file ? file.content : undefined;
+  const detected = sniffContent && content ? detectContentType(content) : undefined;
+  const detectedType = detected?.contentType;
+
+  // Browsers send an empty or generic type for unknown extensions; the content says more
+  const isGenericType = !file.type || file.type === 'application/octet-stream';
+  const contentType = detected && isGenericType ? detected.contentType : file.type;
+
   // Size validation
   if (file.size < minSize) {
     return {
@@ -28,11 +42,21 @@ export function validateFile(
     };
   }
 
+  // Content validation - the bytes must match the declared type
+  if (detected && !isGenericType && !isContentTypeCompatible(file.type, detected)) {
+    return {
+      valid: false,
+      error: `File content is "${detected.contentType}" but the declared type is "${file.type}"`,
+      detectedType,
+    };
+  }
+
   // Type validation
-  if (allowedTypes.length > 0 && !allowedTypes.includes(file.type)) {
+  if (allowedTypes.length > 0 && !allowedTypes.includes(contentType)) {
     return {
       valid: false,
-      error: `File type "${file.type}" is not allowed. Allowed types: ${allowedTypes.join(', ')}`,
+      error: `File type "${contentType}" is not allowed. Allowed types: ${allowedTypes.join(', ')}`,
+      detectedType,
     };
   }
 
@@ -43,22 +67,45 @@ export function validateFile(
       return {
         valid: false,
         error: `File extension "${extension}" is not allowed. Allowed extensions: ${allowedExtensions.join(', ')}`,
+        detectedType,
       };
     }
   }
 
   // Security validation - check for dangerous files
   if (blockDangerousFiles) {
-    const securityCheck = checkFileSecurityRisk(file.name, file.type);
+    const securityCheck = checkFileSecurityRisk(file.name, contentType, sniffContent ? content : undefined);
     if (!securityCheck.safe) {
       return {
         valid: false,
         error: securityCheck.reason || 'File type is considered dangerous',
+        detectedType,
       };
     }
   }
 
-  return { valid: true };
+  return { valid: true, detectedType };
+}
+
+/**
+ * validateFile with content sniffing: reads the leading bytes of a File/Blob, a buffer or a file on disk.
+ * For streams, read the bytes with readContentHead and pass them to validateFile as `content`.
+ */
+export async function validateFileContent(
+  file: File | { name: string; size: number; type: string; buffer?: Buffer; filePath?: string },
+  options: FileValidationOptions = {},
+): Promise<FileValidationResult> {
+  let content: Uint8Array | undefined;
+
+  if ('arrayBuffer' in file && typeof file.slice === 'function') {
+    content = new Uint8Array(await file.slice(0, CONTENT_SNIFF_LENGTH).arrayBuffer());
+  } else if ('buffer' in file && file.buffer) {
+    content = (await readContentHead(file.buffer)).head;
+  } else if ('filePath' in file && file.filePath) {
+    content = (await readContentHead(file.filePath)).head;
+  }
+
+  return validateFile({ name: file.name, size: file.size, type: file.type, content }, options);
 }
 
 export function getFileExtension(filename: string): string {
@@ -77,7 +124,11 @@ export function formatBytes(bytes: number, decimals: number = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
 
-export function checkFileSecurityRisk(filename: string, mimeType: string): { safe: boolean; reason?: string } {
+export function checkFileSecurityRisk(
+  filename: string,
+  mimeType: string,
+  content?: Uint8Array,
+): { safe: boolean; reason?: string } {
   const extension = getFileExtension(filename);
   
   // List of dangerous file extensions
@@ -109,6 +160,15 @@ export function checkFileSecurityRisk(filename: string, mimeType: string): { saf
     };
   }
 
+  // Check the content itself, whatever the name and declared type say
+  const detected = content ? detectContentType(content) : undefined;
+  if (detected && (detected.category === 'executable' || detected.category === 'script')) {
+    return {
+      safe: false,
+      reason: `File content is potentially dangerous (${detected.contentType}) and not allowed`,
+    };
+  }
+
   // Check for dangerous MIME types
   if (dangerousMimeTypes.includes(mimeType)) {
     return {
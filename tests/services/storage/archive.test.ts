@@ -0,0 +1,161 @@
+import { Readable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { createProviderArchiveStream } from '../../../src/services/storage/archive';
+import { setStorageProvider, createArchiveStream } from '../../../src/services/storage/storage';
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  content: string;
+}
+
+// Read entries through the central directory, the way unzip tools do
+function readZip(zip: Buffer): ZipEntry[] {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(position + 10);
+    const crc = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? inflateRawSync(data) : data;
+    expect(content.length).toBe(size);
+    expect(zip.readUInt32LE(dataStart + compressedSize)).toBe(0x08074b50);
+
+    entries.push({ name, method, crc, content: content.toString() });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('Archive streams', () => {
+  let provider: MemoryStorageProvider;
+
+  beforeEach(async () => {
+    provider = new MemoryStorageProvider();
+    await provider.uploadFile({ external_id: 'report', key: 'docs/report.txt', buffer: Buffer.from('quarterly report '.repeat(100)), contentType: 'text/plain' });
+    await provider.uploadFile({ external_id: 'notes', key: 'docs/nested/notes.txt', buffer: Buffer.from('notes'), contentType: 'text/plain' });
+    await provider.uploadFile({ external_id: 'photo', key: 'images/photo.png', buffer: Buffer.from('not really a png'), contentType: 'image/png' });
+    await provider.uploadFile({ external_id: 'other-notes', key: 'other/notes.txt', buffer: Buffer.from('other notes'), contentType: 'text/plain' });
+  });
+
+  afterEach(() => {
+    setStorageProvider(null as any);
+  });
+
+  it('should stream files by key with their folder layout', async () => {
+    const result = await createProviderArchiveStream(provider, ['docs/report.txt', 'docs/nested/notes.txt', 'images/photo.png']);
+
+    expect(result.contentType).toBe('application/zip');
+    expect(result.totalSize).toBe(1700 + 5 + 16);
+    expect(result.entries.map(entry => entry.name)).toEqual(['docs/report.txt', 'docs/nested/notes.txt', 'images/photo.png']);
+
+    const entries = readZip(await collect(result.stream as Readable));
+    expect(entries.map(({ name, method, content }) => ({ name, method, content: content.slice(0, 17) }))).toEqual([
+      { name: 'docs/report.txt', method: 8, content: 'quarterly report ' },
+      { name: 'docs/nested/notes.txt', method: 8, content: 'notes' },
+      // Media is stored as is
+      { name: 'images/photo.png', method: 0, content: 'not really a png' },
+    ]);
+    // CRC-32 of "notes"
+    expect(entries[1].crc).toBe(0x011ba68c);
+  });
+
+  it('should rename, flatten and deduplicate entries', async () => {
+    const result = await createProviderArchiveStream(provider, [
+      'notes',
+      'other-notes',
+      { externalId: 'report', name: '../Quarterly Report.txt' },
+      { key: 'images/photo.png', name: 'pictures/photo.png' },
+    ], { resolveBy: 'externalId', layout: 'flat', folder: '/attachments/', compression: 'store' });
+
+    const entries = readZip(await collect(result.stream as Readable));
+
+    expect(entries.map(entry => [entry.name, entry.method])).toEqual([
+      ['attachments/notes.txt', 0],
+      ['attachments/notes (1).txt', 0],
+      ['attachments/Quarterly Report.txt', 0],
+      ['attachments/pictures/photo.png', 0],
+    ]);
+    expect(entries[1].content).toBe('other notes');
+    expect(result.entries[1]).toEqual({ name: 'attachments/notes (1).txt', key: 'other/notes.txt', external_id: 'other-notes', size: 11 });
+  });
+
+  it('should fail or skip missing files before streaming', async () => {
+    await expect(createProviderArchiveStream(provider, ['docs/report.txt', 'missing.txt']))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const result = await createProviderArchiveStream(provider, ['docs/report.txt', 'missing.txt', { externalId: 'gone' }], { onError: 'skip' });
+
+    expect(result.skipped).toEqual([
+      { source: 'missing.txt', message: 'File with key missing.txt not found' },
+      { source: 'gone', message: 'File with external_id gone not found' },
+    ]);
+    expect(readZip(await collect(result.stream as Readable)).map(entry => entry.name)).toEqual(['docs/report.txt']);
+  });
+
+  it('should skip files that cannot be opened while streaming', async () => {
+    const getFileStream = provider.getFileStream.bind(provider);
+    jest.spyOn(provider, 'getFileStream').mockImplementation(async (key, options) => {
+      if (key === 'docs/nested/notes.txt') {
+        throw new Error('connection reset');
+      }
+      return getFileStream(key, options);
+    });
+
+    const skipping = await createProviderArchiveStream(provider, ['docs/nested/notes.txt', 'other/notes.txt'], { onError: 'skip' });
+    expect(readZip(await collect(skipping.stream as Readable)).map(entry => entry.name)).toEqual(['other/notes.txt']);
+    expect(skipping.skipped).toEqual([{ source: 'docs/nested/notes.txt', key: 'docs/nested/notes.txt', message: 'connection reset' }]);
+
+    const failing = await createProviderArchiveStream(provider, ['docs/nested/notes.txt']);
+    await expect(collect(failing.stream as Readable)).rejects.toThrow('connection reset');
+  });
+
+  it('should enforce the total size cap', async () => {
+    await expect(createProviderArchiveStream(provider, ['docs/report.txt', 'images/photo.png'], { maxTotalSize: 1000 }))
+      .rejects.toMatchObject({ code: 'QUOTA_EXCEEDED', statusCode: 413 });
+
+    const result = await createProviderArchiveStream(provider, ['docs/nested/notes.txt'], { maxTotalSize: 5 });
+    expect(readZip(await collect(result.stream as Readable))).toHaveLength(1);
+  });
+
+  it('should produce a web stream and response headers for Next.js', async () => {
+    setStorageProvider(provider);
+
+    const result = await createArchiveStream(['docs/nested/notes.txt'], { responseType: 'web', filename: 'Anhänge.zip' });
+    const response = new Response(result.stream as ReadableStream, { headers: result.headers });
+
+    expect(response.headers.get('Content-Type')).toBe('application/zip');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="Anh_nge.zip"; filename*=UTF-8\'\'Anh%C3%A4nge.zip');
+    expect(readZip(Buffer.from(await response.arrayBuffer()))).toMatchObject([{ name: 'docs/nested/notes.txt', content: 'notes' }]);
+  });
+
+  it('should write a valid empty archive', async () => {
+    const result = await createProviderArchiveStream(provider, []);
+    const zip = await collect(result.stream as Readable);
+
+    expect(zip).toHaveLength(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
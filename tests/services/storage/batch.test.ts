@@ -0,0 +1,166 @@
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { batchDeleteFiles, batchDeleteFilesByExternalIds, batchDeleteByPrefix } from '../../../src/services/storage/batch';
+import { applyStorageMiddleware, createNamespaceMiddleware } from '../../../src/services/storage/middleware';
+import { StorageEvents } from '../../../src/services/storage/events';
+import {
+  setStorageProvider,
+  enableTrash,
+  disableTrash,
+  deleteFiles,
+  deleteByPrefix,
+  listDeletedFiles,
+} from '../../../src/services/storage/storage';
+import { FileDeleteResult } from '../../../src/services/storage/types';
+import { listAllFiles } from '../../../src/services/storage/utils';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('Batch deletes', () => {
+  let provider: MemoryStorageProvider;
+
+  const keys = () => provider.getStoredObjects().map(object => object.key);
+
+  beforeEach(async () => {
+    provider = new MemoryStorageProvider();
+    for (const key of ['docs/a.txt', 'docs/b.txt', 'docs/nested/c.txt', 'images/d.png']) {
+      await provider.uploadFile({ external_id: key.replace(/\W/g, '-'), key, buffer: Buffer.from(key) });
+    }
+  });
+
+  afterEach(() => {
+    disableTrash();
+    setStorageProvider(null as any);
+  });
+
+  it('should delete one by one with bounded concurrency and report failures per key', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const deleteFile = provider.deleteFile.bind(provider);
+    provider.deleteFile = async (key: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      if (key === 'images/d.png') {
+        throw new Error('Access denied');
+      }
+      return deleteFile(key);
+    };
+
+    const results = await batchDeleteFiles(provider, ['docs/a.txt', 'docs/b.txt', 'docs/nested/c.txt', 'images/d.png'], { concurrency: 2 });
+
+    expect(results).toEqual([
+      { key: 'docs/a.txt', success: true },
+      { key: 'docs/b.txt', success: true },
+      { key: 'docs/nested/c.txt', success: true },
+      { key: 'images/d.png', success: false, message: 'Access denied' },
+    ]);
+    expect(maxInFlight).toBe(2);
+    expect(keys()).toEqual(['images/d.png']);
+  });
+
+  it('should use the native batch delete when the provider has one', async () => {
+    const deleteFiles = jest.fn(async (batch: string[]): Promise<FileDeleteResult[]> =>
+      batch.map(key => ({ key, success: true })));
+    Object.assign(provider, { deleteFiles });
+
+    await batchDeleteFiles(provider, ['docs/a.txt', 'docs/b.txt']);
+
+    expect(deleteFiles).toHaveBeenCalledWith(['docs/a.txt', 'docs/b.txt']);
+    expect(await batchDeleteFiles(provider, [])).toEqual([]);
+    expect(deleteFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete by external_id and report unknown ids', async () => {
+    const results = await batchDeleteFilesByExternalIds(provider, ['docs-a-txt', 'missing', 'images-d-png']);
+
+    expect(results).toEqual([
+      { key: 'docs/a.txt', external_id: 'docs-a-txt', success: true },
+      { key: '', external_id: 'missing', success: false, message: 'File with external_id missing not found' },
+      { key: 'images/d.png', external_id: 'images-d-png', success: true },
+    ]);
+    expect(keys()).toEqual(['docs/b.txt', 'docs/nested/c.txt']);
+  });
+
+  it('should delete everything under a prefix across pages', async () => {
+    const listFiles = provider.listFiles.bind(provider);
+    provider.listFiles = options => listFiles({ ...options, limit: 1 });
+
+    const results = await batchDeleteByPrefix(provider, 'docs/');
+
+    expect(results.map(result => result.key)).toEqual(['docs/a.txt', 'docs/b.txt', 'docs/nested/c.txt']);
+    expect(keys()).toEqual(['images/d.png']);
+    await expect(batchDeleteByPrefix(provider, '')).rejects.toThrow('deleteByPrefix requires a non-empty prefix');
+  });
+
+  it('should delete every page from providers that return a token and an offset', async () => {
+    const created = await uploadMany(provider, 'tmp/', 350);
+
+    const results = await batchDeleteByPrefix(withTokenPaging(provider), 'tmp/');
+
+    expect(results.map(result => result.key)).toEqual(created);
+    expect(results.every(result => result.success)).toBe(true);
+    expect(keys().filter(key => key.startsWith('tmp/'))).toEqual([]);
+  });
+
+  it('should keep middlewares informed about native batch deletes', async () => {
+    Object.assign(provider, {
+      deleteFiles: async (batch: string[]): Promise<FileDeleteResult[]> => {
+        const results = [];
+        for (const key of batch) {
+          const exists = await provider.fileExists(key);
+          if (exists) {
+            await provider.deleteFile(key);
+          }
+          results.push(exists ? { key, success: true } : { key, success: false, message: 'Not found' });
+        }
+        return results;
+      },
+    });
+    const events = new StorageEvents();
+    const deleted = jest.fn();
+    events.on('deleted', event => deleted(event.file.key));
+    const wrapped = applyStorageMiddleware(provider, [createNamespaceMiddleware('docs'), events.middleware()]);
+
+    const results = await batchDeleteFiles(wrapped, ['a.txt', 'missing.txt']);
+
+    expect(results).toEqual([
+      { key: 'a.txt', success: true },
+      { key: 'missing.txt', success: false, message: 'Not found' },
+    ]);
+    expect(deleted).toHaveBeenCalledWith('docs/a.txt');
+    expect(deleted).toHaveBeenCalledTimes(1);
+
+    // A veto stops the whole batch
+    events.on('beforeDelete', event => event.file.key !== 'docs/nested/c.txt');
+    await expect(batchDeleteFiles(wrapped, ['b.txt', 'nested/c.txt'])).rejects.toMatchObject({ code: 'OPERATION_VETOED' });
+    expect(keys()).toEqual(['docs/b.txt', 'docs/nested/c.txt', 'images/d.png']);
+  });
+
+  it('should move files to the trash when it is enabled', async () => {
+    setStorageProvider(provider);
+    enableTrash();
+
+    const results = await deleteByPrefix('docs/nested/');
+    await deleteFiles(['docs/a.txt']);
+
+    expect(results).toEqual([{ key: 'docs/nested/c.txt', success: true }]);
+    expect((await listDeletedFiles()).files.map(file => file.originalKey).sort()).toEqual(['docs/a.txt', 'docs/nested/c.txt']);
+    expect(keys().filter(key => !key.startsWith('.trash/'))).toEqual(['docs/b.txt', 'images/d.png']);
+  });
+});
+
+describe('batchDeleteByPrefix on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should delete every page of files on %s', async (_name, createProvider) => {
+    const provider = createProvider();
+    const created = await uploadMany(provider, 'tmp/', 350);
+    await provider.uploadFile({ external_id: 'kept', key: 'tmp-kept.txt', buffer: Buffer.from('kept') });
+
+    const results = await batchDeleteByPrefix(provider, 'tmp/');
+
+    expect(results.map(result => result.key)).toEqual(created);
+    expect(results.every(result => result.success)).toBe(true);
+    expect((await listAllFiles(provider)).map(file => file.key)).toEqual(['tmp-kept.txt']);
+  });
+});
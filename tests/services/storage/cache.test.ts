@@ -0,0 +1,134 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageCache } from '../../../src/services/storage/cache';
+import { applyStorageMiddleware } from '../../../src/services/storage/middleware';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { StorageProvider } from '../../../src/services/storage/types';
+
+describe('StorageCache', () => {
+  let inner: MemoryStorageProvider;
+  let cache: StorageCache;
+  let provider: StorageProvider;
+  let cacheDir: string;
+  let reads: number;
+
+  const readAll = async (stream: NodeJS.ReadableStream | ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  const read = async (key: string, options?: { start?: number; end?: number; responseType?: 'node' | 'web' }) =>
+    readAll((await provider.getFileStream!(key, options)).stream);
+
+  beforeEach(async () => {
+    cacheDir = join(tmpdir(), `storage-cache-test-${randomBytes(8).toString('hex')}`);
+    inner = new MemoryStorageProvider();
+    cache = new StorageCache({ directory: cacheDir, maxSize: 30, maxFileSize: 15 });
+
+    // Count the reads that reach the provider
+    reads = 0;
+    const getFileStream = inner.getFileStream.bind(inner);
+    inner.getFileStream = async (key, options) => {
+      reads++;
+      return getFileStream(key, options);
+    };
+
+    provider = applyStorageMiddleware(inner, [cache.middleware()]);
+    await inner.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('0123456789') });
+    await inner.uploadFile({ external_id: 'b', key: 'b.txt', buffer: Buffer.from('abcdefghij') });
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should serve repeated reads and ranges from disk', async () => {
+    expect(await read('a.txt')).toBe('0123456789');
+    expect(await read('a.txt')).toBe('0123456789');
+    expect(await read('a.txt', { start: 2, end: 4 })).toBe('234');
+    expect(await readAll((await provider.getFileStreamByExternalId!('a', { start: 8, responseType: 'web' })).stream)).toBe('89');
+
+    const ranged = await provider.getFileStream!('a.txt', { start: 5 });
+    expect(ranged).toMatchObject({ isPartialContent: true, contentLength: 5, range: { start: 5, end: 9, total: 10 }, contentType: 'text/plain' });
+    await ranged.cleanup?.();
+
+    expect(reads).toBe(1);
+    expect(await cache.getStats()).toEqual({ entries: 1, size: 10, hits: 4, misses: 1 });
+  });
+
+  it('should refetch files changed behind the cache', async () => {
+    await read('a.txt');
+    await inner.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('changed') });
+
+    expect(await read('a.txt')).toBe('changed');
+    expect(reads).toBe(2);
+  });
+
+  it('should check cached copies with a single-object lookup instead of a listing', async () => {
+    const getFileInfo = jest.spyOn(inner, 'getFileInfo');
+    const listFiles = jest.spyOn(inner, 'listFiles');
+
+    await read('a.txt');
+    await read('a.txt');
+
+    expect(getFileInfo).toHaveBeenCalledWith('a.txt');
+    expect(listFiles).not.toHaveBeenCalled();
+    expect(reads).toBe(1);
+  });
+
+  it('should fall back to the listing for providers without a single-object lookup', async () => {
+    inner.getFileInfo = undefined as any;
+    const listFiles = jest.spyOn(inner, 'listFiles');
+
+    await read('a.txt');
+    await inner.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('changed') });
+
+    expect(await read('a.txt')).toBe('changed');
+    expect(listFiles).toHaveBeenCalledWith({ prefix: 'a.txt', includeMetadata: true });
+    expect(reads).toBe(2);
+  });
+
+  it('should invalidate on changes made through the middleware', async () => {
+    await read('a.txt');
+    await read('b.txt');
+
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('new content') });
+    await provider.setFileVisibilityByExternalId('b', 'public');
+    expect(await cache.getStats()).toMatchObject({ entries: 0, size: 0 });
+
+    expect(await read('a.txt')).toBe('new content');
+    await provider.deleteFile('a.txt');
+    await expect(provider.getFileStream!('a.txt')).rejects.toThrow();
+  });
+
+  it('should evict the least recently used files and keep entries across instances', async () => {
+    await inner.uploadFile({ external_id: 'c', key: 'c.txt', buffer: Buffer.from('klmnopqrst') });
+    await inner.uploadFile({ external_id: 'big', key: 'big.txt', buffer: Buffer.from('x'.repeat(20)) });
+
+    await read('a.txt');
+    await read('b.txt');
+    await read('a.txt');
+    await read('c.txt');
+    await read('big.txt'); // Over maxFileSize, never cached
+    await inner.uploadFile({ external_id: 'd', key: 'd.txt', buffer: Buffer.from('uvwxyz0123') });
+    await read('d.txt');
+
+    expect(await cache.getStats()).toMatchObject({ entries: 3, size: 30 });
+    reads = 0;
+    await read('a.txt');
+    await read('b.txt');
+    expect(reads).toBe(1);
+
+    // A new instance picks up what's on disk
+    const restarted = new StorageCache({ directory: cacheDir, maxSize: 30, maxFileSize: 15 });
+    provider = applyStorageMiddleware(inner, [restarted.middleware()]);
+    reads = 0;
+    expect(await read('a.txt')).toBe('0123456789');
+    expect(reads).toBe(0);
+  });
+});
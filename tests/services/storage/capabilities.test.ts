@@ -0,0 +1,92 @@
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { CloudflareR2Provider } from '../../../src/services/storage/providers/r2';
+import { S3CompatibleProvider } from '../../../src/services/storage/providers/s3-compatible';
+import { EncryptedStorageProvider, generateEncryptionKey } from '../../../src/services/storage/encryption';
+import { getStorageProviderCapabilities, getProviderCapabilities } from '../../../src/services/storage/capabilities';
+import {
+  setStorageProvider,
+  getStorageCapabilities,
+  getAvailableStorageProviderCapabilities,
+} from '../../../src/services/storage/storage';
+import { StorageProvider, StorageProviderType } from '../../../src/services/storage/types';
+
+describe('Storage capabilities', () => {
+  afterEach(() => {
+    setStorageProvider(null as any);
+  });
+
+  it('should describe every provider type without creating it', () => {
+    const types: StorageProviderType[] = [
+      'localstorage', 'crunchycone', 'aws', 's3', 'digitalocean',
+      'wasabi', 'backblaze', 'r2', 's3-custom', 'gcp', 'azure', 'memory',
+    ];
+
+    for (const type of types) {
+      expect(getStorageProviderCapabilities(type)).toMatchObject({ streaming: true, rangeRequests: true });
+    }
+    expect(getStorageProviderCapabilities('aws')).toMatchObject({ multipartUpload: true, batchDelete: true, maxObjectSize: 5 * 1024 ** 4 });
+    expect(getStorageProviderCapabilities('crunchycone')).toMatchObject({ searchPushdown: true, multipartUpload: false });
+    expect(getStorageProviderCapabilities('localstorage').maxObjectSize).toBeUndefined();
+    expect(() => getStorageProviderCapabilities('ftp' as StorageProviderType)).toThrow('Unknown storage provider type: ftp');
+  });
+
+  it('should return copies that callers can change safely', () => {
+    getStorageProviderCapabilities('aws').tagging = false;
+    expect(getStorageProviderCapabilities('aws').tagging).toBe(true);
+  });
+
+  it('should report the matrix of its own type from each provider', () => {
+    const config = { accessKeyId: 'key', secretAccessKey: 'secret', accountId: 'account', bucket: 'bucket' };
+
+    expect(new MemoryStorageProvider().getCapabilities()).toEqual(getStorageProviderCapabilities('memory'));
+    expect(new CloudflareR2Provider(config).getCapabilities()).toEqual(getStorageProviderCapabilities('r2'));
+    expect(new CloudflareR2Provider(config).getCapabilities()).toMatchObject({ visibility: false, tagging: false });
+    expect(new S3CompatibleProvider({ ...config, region: 'us-east-1' }).getCapabilities()).toEqual(getStorageProviderCapabilities('s3-custom'));
+  });
+
+  it('should infer capabilities for providers without getCapabilities', () => {
+    const memory = new MemoryStorageProvider();
+    const custom = Object.fromEntries(
+      ['uploadFile', 'deleteFile', 'getFileStream', 'copyFile', 'deleteFiles'].map(name => [name, jest.fn()]),
+    ) as unknown as StorageProvider;
+
+    expect(getProviderCapabilities(memory)).toEqual(memory.getCapabilities());
+    expect(getProviderCapabilities(custom)).toEqual({
+      streaming: true,
+      rangeRequests: false,
+      multipartUpload: false,
+      presignedUploads: false,
+      serverSideCopy: true,
+      visibility: false,
+      temporaryUrls: false,
+      versioning: false,
+      tagging: false,
+      storageClasses: false,
+      batchDelete: true,
+      searchPushdown: false,
+    });
+  });
+
+  it('should drop uploads that bypass a wrapper', () => {
+    const inner = new S3CompatibleProvider({ accessKeyId: 'key', secretAccessKey: 'secret', region: 'us-east-1', bucket: 'bucket' });
+    const encrypted = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async () => generateEncryptionKey() } });
+
+    expect(encrypted.getCapabilities()).toMatchObject({
+      streaming: true,
+      rangeRequests: true,
+      multipartUpload: false,
+      presignedUploads: false,
+      batchDelete: false,
+    });
+  });
+
+  it('should expose the active provider and every available provider type', async () => {
+    setStorageProvider(new MemoryStorageProvider());
+
+    expect(getStorageCapabilities()).toEqual(getStorageProviderCapabilities('memory'));
+
+    const available = await getAvailableStorageProviderCapabilities();
+    expect(available.memory).toEqual(getStorageProviderCapabilities('memory'));
+    expect(available.localstorage).toEqual(getStorageProviderCapabilities('localstorage'));
+  });
+});
@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { setStorageProvider, uploadFile, updateFileMetadata, verifyFile, verifyFileByExternalId } from '../../../src/services/storage/storage';
+import { findFileByKey } from '../../../src/services/storage/copy';
+import { getChecksumFromMetadata, getExpirationFromMetadata } from '../../../src/services/storage/utils';
+import { useFakeCloudProviders } from './shared/test-helpers';
+
+describe('checksum verification', () => {
+  const sha256 = (content: string) => createHash('sha256').update(content).digest('base64');
+
+  describe('with the memory provider', () => {
+    let provider: MemoryStorageProvider;
+
+    beforeEach(() => {
+      provider = new MemoryStorageProvider();
+      setStorageProvider(provider);
+    });
+
+    it('should hash stream uploads and store the checksum in metadata', async () => {
+      const result = await uploadFile({
+        external_id: 'doc',
+        key: 'doc.txt',
+        stream: Readable.from([Buffer.from('hello '), Buffer.from('world')]),
+        checksumAlgorithm: 'sha256',
+      });
+
+      expect(result.checksum).toEqual({ algorithm: 'sha256', value: sha256('hello world') });
+      expect(provider.getStoredObject('doc.txt')?.metadata).toEqual({ checksum_sha256: sha256('hello world') });
+      expect((await provider.findFileByExternalId('doc'))?.checksum).toEqual(result.checksum);
+      expect(await verifyFileByExternalId('doc')).toEqual({
+        key: 'doc.txt',
+        valid: true,
+        algorithm: 'sha256',
+        expected: sha256('hello world'),
+        actual: sha256('hello world'),
+      });
+    });
+
+    it('should detect content that no longer matches', async () => {
+      await uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('original'), checksumAlgorithm: 'sha256' });
+      // Overwrite the content but keep the old checksum
+      await provider.uploadFile({
+        external_id: 'doc',
+        key: 'doc.txt',
+        buffer: Buffer.from('corrupted'),
+        metadata: { checksum_sha256: sha256('original') },
+      });
+
+      expect(await verifyFile('doc.txt')).toMatchObject({ valid: false, actual: sha256('corrupted') });
+    });
+
+    it('should require a stored or expected checksum', async () => {
+      await uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('plain') });
+
+      await expect(verifyFile('doc.txt')).rejects.toMatchObject({ code: 'CHECKSUM_MISSING' });
+      await expect(verifyFile('missing.txt')).rejects.toThrow('File with key missing.txt not found');
+      expect(await verifyFile('doc.txt', { expected: { algorithm: 'sha256', value: sha256('plain') } }))
+        .toMatchObject({ valid: true });
+    });
+
+    it('should keep the checksum and expiration when the metadata is replaced', async () => {
+      const expiresAt = new Date('2030-01-01T00:00:00.000Z');
+      await uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('kept'), checksumAlgorithm: 'sha256', expiresAt });
+
+      await updateFileMetadata('doc.txt', { metadata: { owner: 'ada' } }, { merge: false });
+
+      expect(provider.getStoredObject('doc.txt')?.metadata).toEqual({
+        owner: 'ada',
+        checksum_sha256: sha256('kept'),
+        expires_at: expiresAt.toISOString(),
+      });
+      expect(await verifyFile('doc.txt')).toMatchObject({ valid: true });
+    });
+  });
+
+  describe('replacing metadata on providers with their own metadata update', () => {
+    const cloudProviders = useFakeCloudProviders();
+
+    it.each(cloudProviders)('should keep the checksum and expiration on %s', async (_name, createProvider) => {
+      const provider = createProvider();
+      setStorageProvider(provider);
+      const expiresAt = new Date('2030-01-01T00:00:00.000Z');
+      await uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('kept'), checksumAlgorithm: 'sha256', expiresAt });
+
+      await updateFileMetadata('doc.txt', { metadata: { owner: 'ada', stage: 'final' } });
+      await updateFileMetadata('doc.txt', { metadata: { owner: 'grace' } }, { merge: false });
+
+      const metadata = (await findFileByKey(provider, 'doc.txt'))?.metadata;
+      expect(metadata).toMatchObject({ owner: 'grace' });
+      expect(metadata).not.toHaveProperty('stage');
+      expect(getExpirationFromMetadata(metadata)).toEqual(expiresAt);
+      expect(await verifyFile('doc.txt')).toMatchObject({ valid: true });
+    });
+  });
+
+  it('should store checksums in local storage sidecar metadata', async () => {
+    const originalEnv = { ...process.env };
+    const basePath = await fs.mkdtemp(join(tmpdir(), 'checksum-test-'));
+    process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = basePath;
+    process.env.CRUNCHYCONE_LOCALSTORAGE_BASE_URL = 'http://localhost/files';
+
+    try {
+      const provider = new LocalStorageProvider();
+      setStorageProvider(provider);
+
+      const result = await uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('on disk'), checksumAlgorithm: 'md5' });
+      const sidecar = JSON.parse(await fs.readFile(join(basePath, 'doc.txt.json'), 'utf-8'));
+
+      expect(getChecksumFromMetadata(sidecar.metadata)).toEqual(result.checksum);
+      expect(await verifyFile('doc.txt')).toMatchObject({ valid: true, algorithm: 'md5' });
+
+      await fs.writeFile(join(basePath, 'doc.txt'), 'changed on disk');
+      expect(await verifyFile('doc.txt')).toMatchObject({ valid: false });
+    } finally {
+      process.env = originalEnv;
+      await fs.rm(basePath, { recursive: true, force: true });
+    }
+  });
+});
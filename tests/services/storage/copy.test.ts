@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { copyFileBetweenProviders, moveFileBetweenProviders, findFileByKey } from '../../../src/services/storage/copy';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { listAllFiles } from '../../../src/services/storage/utils';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('copyFileBetweenProviders', () => {
+  let source: LocalStorageProvider;
+  let destination: LocalStorageProvider;
+  let sourceDir: string;
+  let destinationDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  const createProvider = async (dir: string, baseUrl: string) => {
+    process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = dir;
+    process.env.CRUNCHYCONE_LOCALSTORAGE_BASE_URL = baseUrl;
+    await fs.mkdir(dir, { recursive: true });
+    return new LocalStorageProvider();
+  };
+
+  beforeEach(async () => {
+    originalEnv = { ...process.env };
+    const suffix = randomBytes(8).toString('hex');
+    sourceDir = join(tmpdir(), `copy-source-${suffix}`);
+    destinationDir = join(tmpdir(), `copy-destination-${suffix}`);
+    source = await createProvider(sourceDir, '/source');
+    destination = await createProvider(destinationDir, '/destination');
+
+    await source.uploadFile({
+      external_id: 'report',
+      key: 'reports/2024.csv',
+      buffer: Buffer.from('a,b,c'),
+      contentType: 'text/csv',
+      public: true,
+      metadata: { owner: 'user-1' },
+    });
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await fs.rm(sourceDir, { recursive: true, force: true });
+    await fs.rm(destinationDir, { recursive: true, force: true });
+  });
+
+  it('should stream a file into another provider with its metadata and visibility', async () => {
+    const result = await copyFileBetweenProviders({ source, destination, sourceKey: 'reports/2024.csv' });
+
+    expect(result).toMatchObject({
+      external_id: 'report',
+      key: 'reports/2024.csv',
+      size: 5,
+      contentType: 'text/csv',
+      visibility: 'public',
+      metadata: { owner: 'user-1' },
+    });
+    expect(await fs.readFile(join(destinationDir, 'reports/2024.csv'), 'utf8')).toBe('a,b,c');
+    expect(await source.fileExists('reports/2024.csv')).toBe(true);
+  });
+
+  it('should fall back to downloading the file URL when the source cannot stream', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('a,b,c'));
+    const nonStreamingSource = Object.assign(Object.create(source), { getFileStream: undefined });
+
+    try {
+      await copyFileBetweenProviders({
+        source: nonStreamingSource,
+        destination,
+        sourceKey: 'reports/2024.csv',
+        destinationKey: 'imported/2024.csv',
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith('/source/reports/2024.csv');
+      expect(await fs.readFile(join(destinationDir, 'imported/2024.csv'), 'utf8')).toBe('a,b,c');
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('should refuse to overwrite an existing destination file', async () => {
+    await destination.uploadFile({ external_id: 'existing', key: 'reports/2024.csv', buffer: Buffer.from('old') });
+
+    await expect(copyFileBetweenProviders({ source, destination, sourceKey: 'reports/2024.csv' }))
+      .rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+  });
+
+  it('should use the provider copy when source and destination are the same', async () => {
+    const copySpy = jest.spyOn(source, 'copyFile');
+
+    await copyFileBetweenProviders({ source, destination: source, sourceKey: 'reports/2024.csv', destinationKey: 'reports/copy.csv' });
+
+    expect(copySpy).toHaveBeenCalledWith('reports/2024.csv', 'reports/copy.csv', {});
+  });
+
+  it('should delete the source only after a move succeeds', async () => {
+    await moveFileBetweenProviders({ source, destination, sourceKey: 'reports/2024.csv' });
+
+    expect(await source.fileExists('reports/2024.csv')).toBe(false);
+    expect(await destination.findFileByExternalId('report')).toMatchObject({ key: 'reports/2024.csv' });
+  });
+});
+
+describe('findFileByKey', () => {
+  it('should find a key behind several pages of keys sharing its prefix', async () => {
+    const provider = new MemoryStorageProvider();
+    await provider.uploadFile({ external_id: 'target', key: 'a.txt', buffer: Buffer.from('target') });
+    await uploadMany(provider, 'a.txt.', 349);
+    // Descending, so the exact key comes last; without getFileInfo the lookup goes through the listing
+    const paged = Object.assign(withTokenPaging(provider, { sortOrder: 'desc' }), { getFileInfo: undefined });
+
+    expect(await findFileByKey(paged, 'a.txt')).toMatchObject({ external_id: 'target' });
+    expect(await findFileByKey(paged, 'a.txt.999')).toBeNull();
+  });
+
+  it('should use the single-object lookup when the provider has one', async () => {
+    const provider = new MemoryStorageProvider();
+    await provider.uploadFile({ external_id: 'target', key: 'a.txt', buffer: Buffer.from('target') });
+    const listFiles = jest.spyOn(provider, 'listFiles');
+
+    expect(await findFileByKey(provider, 'a.txt')).toMatchObject({ external_id: 'target', size: 6 });
+    expect(await findFileByKey(provider, 'missing.txt')).toBeNull();
+    expect(listFiles).not.toHaveBeenCalled();
+  });
+});
+
+describe('listAllFiles on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should list every file across the pages of %s', async (_name, createProvider) => {
+    const provider = createProvider();
+    const keys = await uploadMany(provider, 'docs/', 450);
+
+    const firstPage = await provider.listFiles({ prefix: 'docs/' });
+    expect(firstPage).toMatchObject({ hasMore: true, continuationToken: expect.any(String) });
+    expect(firstPage.files.map(file => file.key)).toEqual(keys.slice(0, 100));
+    expect((await listAllFiles(provider, { prefix: 'docs/' })).map(file => file.key)).toEqual(keys);
+  });
+});
@@ -0,0 +1,176 @@
+import { Readable } from 'stream';
+import { EncryptedStorageProvider, generateEncryptionKey } from '../../../src/services/storage/encryption';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { setStorageProvider, verifyFile } from '../../../src/services/storage/storage';
+import { withTokenPaging, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('EncryptedStorageProvider', () => {
+  const plaintext = Buffer.from('Confidential customer contract. '.repeat(20));
+
+  let inner: MemoryStorageProvider;
+  let env: Record<string, string>;
+  let provider: EncryptedStorageProvider;
+
+  const readAll = async (stream: NodeJS.ReadableStream | ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+    env = { CRUNCHYCONE_STORAGE_ENCRYPTION_KEY: generateEncryptionKey() };
+    provider = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } });
+  });
+
+  it('should store ciphertext with a wrapped data key and decrypt transparently', async () => {
+    const result = await provider.uploadFile({ external_id: 'contract', key: 'docs/contract.txt', buffer: plaintext, metadata: { owner: 'ada' } });
+    const stored = inner.getStoredObject('docs/contract.txt')!;
+
+    expect(stored.data.includes(Buffer.from('Confidential'))).toBe(false);
+    expect(stored.data.length).toBe(plaintext.length + 16);
+    expect(Object.keys(stored.metadata!)).toEqual(['owner', 'enc_algorithm', 'enc_wrapped_key', 'enc_iv', 'enc_key_id']);
+    expect(stored.contentType).toBe('text/plain');
+    expect(result).toMatchObject({ size: plaintext.length, metadata: { owner: 'ada' } });
+    expect(await provider.findFileByExternalId('contract')).toMatchObject({ size: plaintext.length, metadata: { owner: 'ada' } });
+
+    const streamResult = await provider.getFileStream('docs/contract.txt');
+    expect(streamResult).toMatchObject({ contentLength: plaintext.length, isPartialContent: false });
+    expect(await readAll(streamResult.stream)).toEqual(plaintext);
+
+    // Each file gets its own data key
+    await provider.uploadFile({ external_id: 'copy', key: 'docs/copy.txt', buffer: plaintext });
+    expect(inner.getStoredObject('docs/copy.txt')!.metadata!.enc_wrapped_key).not.toBe(stored.metadata!.enc_wrapped_key);
+  });
+
+  it('should keep the envelope when metadata is replaced', async () => {
+    await provider.uploadFile({ external_id: 'contract', key: 'docs/contract.txt', buffer: plaintext, metadata: { owner: 'ada' } });
+
+    const result = await provider.updateFileMetadata('docs/contract.txt', { metadata: { owner: 'grace' } }, { merge: false });
+
+    expect(result).toMatchObject({ size: plaintext.length, metadata: { owner: 'grace' } });
+    expect(Object.keys(inner.getStoredObject('docs/contract.txt')!.metadata!)).toEqual(['owner', 'enc_algorithm', 'enc_wrapped_key', 'enc_iv', 'enc_key_id']);
+    expect(await readAll((await provider.getFileStream('docs/contract.txt')).stream)).toEqual(plaintext);
+  });
+
+  it('should encrypt streams and decrypt byte ranges', async () => {
+    await provider.uploadFile({
+      external_id: 'stream',
+      key: 'stream.bin',
+      stream: Readable.from([plaintext.subarray(0, 100), plaintext.subarray(100)]),
+      checksumAlgorithm: 'sha256',
+    });
+
+    for (const [start, end] of [[0, 15], [5, 40], [16, 31], [33, plaintext.length - 1], [600, undefined]]) {
+      const result = await provider.getFileStream('stream.bin', { start, end });
+      const expected = plaintext.subarray(start, end === undefined ? undefined : end + 1);
+
+      expect(await readAll(result.stream)).toEqual(expected);
+      expect(result).toMatchObject({ isPartialContent: true, contentLength: expected.length, range: { start, total: plaintext.length } });
+    }
+
+    const web = await provider.getFileStream('stream.bin', { responseType: 'web', start: 10, end: 19 });
+    expect(web.stream).toBeInstanceOf(ReadableStream);
+    expect(await readAll(web.stream)).toEqual(plaintext.subarray(10, 20));
+  });
+
+  it('should reject tampered content and missing keys', async () => {
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: plaintext });
+    const stored = inner.getStoredObject('a.txt')!;
+    stored.data[3] ^= 0xff;
+    await inner.uploadFile({ external_id: 'a', key: 'a.txt', buffer: stored.data, contentType: stored.contentType, metadata: stored.metadata });
+
+    await expect(readAll((await provider.getFileStream('a.txt')).stream)).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY = generateEncryptionKey();
+    const fresh = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } });
+    await expect(fresh.getFileStream('a.txt')).rejects.toMatchObject({ code: 'ENCRYPTION_KEY_NOT_FOUND' });
+
+    delete env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY;
+    await expect(new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } })
+      .uploadFile({ external_id: 'b', key: 'b.txt', buffer: plaintext })).rejects.toMatchObject({ code: 'ENCRYPTION_KEY_MISSING' });
+  });
+
+  it('should re-wrap data keys on rotation without changing the content', async () => {
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: plaintext, checksumAlgorithm: 'sha256' });
+    await inner.uploadFile({ external_id: 'plain', key: 'plain.txt', buffer: Buffer.from('not encrypted') });
+    const before = inner.getStoredObject('a.txt')!;
+
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS = env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY;
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY = generateEncryptionKey();
+
+    expect(await provider.rotateMasterKey()).toEqual({ rotated: ['a.txt'], skipped: 1, failed: [] });
+
+    const after = inner.getStoredObject('a.txt')!;
+    expect(after.data).toEqual(before.data);
+    expect(after.external_id).toBe('a');
+    expect(after.metadata!.enc_key_id).not.toBe(before.metadata!.enc_key_id);
+    expect(inner.getStoredObjects().map(object => object.key)).toEqual(['a.txt', 'plain.txt']);
+
+    // Only the new key is needed from now on
+    delete env.CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS;
+    const rotated = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } });
+    expect(await readAll((await rotated.getFileStream('a.txt')).stream)).toEqual(plaintext);
+    expect(await readAll((await rotated.getFileStream('plain.txt')).stream)).toEqual(Buffer.from('not encrypted'));
+
+    setStorageProvider(rotated);
+    expect(await verifyFile('a.txt')).toMatchObject({ valid: true });
+  });
+
+  it('should rotate every page through copies and report files that fail', async () => {
+    for (let i = 0; i < 250; i++) {
+      await provider.uploadFile({ external_id: `doc-${i}`, key: `docs/${String(i).padStart(3, '0')}.txt`, buffer: plaintext });
+    }
+    // Without updateFileMetadata, rotation falls back to a copy through a temporary key
+    const paged = Object.assign(withTokenPaging(inner), { updateFileMetadata: undefined });
+    const moveFile = jest.spyOn(inner, 'moveFile').mockImplementation(async (sourceKey, destinationKey, options) => {
+      if (destinationKey === 'docs/007.txt') {
+        throw new Error('connection reset');
+      }
+      return MemoryStorageProvider.prototype.moveFile.call(inner, sourceKey, destinationKey, options);
+    });
+
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS = env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY;
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY = generateEncryptionKey();
+    const result = await new EncryptedStorageProvider(paged, { environment: { getEnvVar: async name => env[name] } }).rotateMasterKey();
+
+    expect(result.rotated).toHaveLength(249);
+    expect(result.failed).toEqual([{ key: 'docs/007.txt', message: 'connection reset' }]);
+    // The temporary copy of the failed file is gone, so its external_id is not duplicated
+    expect(inner.getStoredObjects().filter(object => object.external_id === 'doc-7').map(object => object.key)).toEqual(['docs/007.txt']);
+    expect(inner.getStoredObjects()).toHaveLength(250);
+
+    // A second run only has the failed file left to rotate
+    moveFile.mockRestore();
+    expect(await provider.rotateMasterKey()).toEqual({ rotated: ['docs/007.txt'], skipped: 249, failed: [] });
+  });
+});
+
+describe('EncryptedStorageProvider on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should rotate every page of %s', async (_name, createProvider) => {
+    const inner = createProvider();
+    const env: Record<string, string> = { CRUNCHYCONE_STORAGE_ENCRYPTION_KEY: generateEncryptionKey() };
+    const provider = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } });
+    for (let i = 0; i < 250; i++) {
+      await provider.uploadFile({ external_id: `doc-${i}`, key: `docs/${String(i).padStart(3, '0')}.txt`, buffer: Buffer.from(`doc ${i}`) });
+    }
+
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS = env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY;
+    env.CRUNCHYCONE_STORAGE_ENCRYPTION_KEY = generateEncryptionKey();
+    expect(await provider.rotateMasterKey()).toMatchObject({ skipped: 0, failed: [] });
+
+    // Once every envelope is rotated, the old key can be retired
+    delete env.CRUNCHYCONE_STORAGE_ENCRYPTION_PREVIOUS_KEYS;
+    const retired = new EncryptedStorageProvider(inner, { environment: { getEnvVar: async name => env[name] } });
+    expect(await retired.rotateMasterKey()).toEqual({ rotated: [], skipped: 250, failed: [] });
+    const chunks: Buffer[] = [];
+    for await (const chunk of (await retired.getFileStream('docs/249.txt')).stream as AsyncIterable<Buffer>) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('doc 249');
+  });
+});
@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { S3CompatibleProvider } from '../../../src/services/storage/providers/s3-compatible';
+import { GCPStorageProvider } from '../../../src/services/storage/providers/gcp-storage';
+import { AzureStorageProvider } from '../../../src/services/storage/providers/azure-storage';
+import { CrunchyConeProvider } from '../../../src/services/storage/providers/crunchycone';
+import { applyStorageMiddleware, createNamespaceMiddleware } from '../../../src/services/storage/middleware';
+import { StorageProvider } from '../../../src/services/storage/types';
+import { StorageError } from '../../../src/services/storage/utils';
+import { QuotaExceededError } from '../../../src/services/storage/quota';
+import {
+  StorageNotFoundError,
+  StorageAlreadyExistsError,
+  StorageAccessDeniedError,
+  StorageQuotaExceededError,
+  StoragePreconditionFailedError,
+  StorageProviderUnavailableError,
+  StorageInvalidInputError,
+  classifyStorageError,
+  toStorageError,
+  storageErrorForStatus,
+} from '../../../src/services/storage/errors';
+import { createFakeS3, createFakeGCS, createFakeAzure, createFakeCrunchyConeApi } from './shared/fake-sdks';
+
+function sdkError(name: string, fields: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(`${name} from the SDK`), { name }, fields);
+}
+
+describe('Storage error taxonomy', () => {
+  describe('toStorageError', () => {
+    it.each([
+      ['S3 NoSuchKey', sdkError('NoSuchKey', { $metadata: { httpStatusCode: 404 } }), StorageNotFoundError, 'NOT_FOUND', 404],
+      ['S3 AccessDenied', sdkError('AccessDenied', { $metadata: { httpStatusCode: 403 } }), StorageAccessDeniedError, 'ACCESS_DENIED', 403],
+      ['S3 PreconditionFailed', sdkError('PreconditionFailed', { $metadata: { httpStatusCode: 412 } }), StoragePreconditionFailedError, 'PRECONDITION_FAILED', 412],
+      ['S3 SlowDown', sdkError('SlowDown', { $metadata: { httpStatusCode: 503 } }), StorageProviderUnavailableError, 'PROVIDER_UNAVAILABLE', 503],
+      ['S3 InvalidArgument', sdkError('InvalidArgument', { $metadata: { httpStatusCode: 400 } }), StorageInvalidInputError, 'INVALID_INPUT', 400],
+      ['GCS 404', sdkError('ApiError', { code: 404 }), StorageNotFoundError, 'NOT_FOUND', 404],
+      ['GCS 403', sdkError('ApiError', { code: 403 }), StorageAccessDeniedError, 'ACCESS_DENIED', 403],
+      ['GCS 429', sdkError('ApiError', { code: 429 }), StorageProviderUnavailableError, 'PROVIDER_UNAVAILABLE', 503],
+      ['Azure BlobNotFound', sdkError('RestError', { statusCode: 404, code: 'BlobNotFound' }), StorageNotFoundError, 'NOT_FOUND', 404],
+      ['Azure BlobAlreadyExists', sdkError('RestError', { statusCode: 409, code: 'BlobAlreadyExists' }), StorageAlreadyExistsError, 'ALREADY_EXISTS', 409],
+      ['Azure ConditionNotMet', sdkError('RestError', { statusCode: 412, code: 'ConditionNotMet' }), StoragePreconditionFailedError, 'PRECONDITION_FAILED', 412],
+      ['fs ENOENT', sdkError('Error', { code: 'ENOENT' }), StorageNotFoundError, 'NOT_FOUND', 404],
+      ['fs EACCES', sdkError('Error', { code: 'EACCES' }), StorageAccessDeniedError, 'ACCESS_DENIED', 403],
+      ['fs ENOSPC', sdkError('Error', { code: 'ENOSPC' }), StorageQuotaExceededError, 'QUOTA_EXCEEDED', 413],
+      ['network ECONNRESET', sdkError('Error', { code: 'ECONNRESET' }), StorageProviderUnavailableError, 'PROVIDER_UNAVAILABLE', 503],
+    ])('should map %s', (_label, error, ErrorClass, code, statusCode) => {
+      const mapped = toStorageError(error, 'Failed to upload file');
+
+      expect(mapped).toBeInstanceOf(ErrorClass);
+      expect(mapped).toBeInstanceOf(StorageError);
+      expect(mapped).toMatchObject({ code, statusCode, originalError: error });
+      expect(mapped.message).toBe(`Failed to upload file: ${error.message}`);
+    });
+
+    it('should keep unrecognised errors as STORAGE_OPERATION_FAILED', () => {
+      const error = new Error('Something odd');
+      const mapped = toStorageError(error, 'Failed to delete file');
+
+      expect(classifyStorageError(error)).toBeUndefined();
+      expect(mapped).toMatchObject({ code: 'STORAGE_OPERATION_FAILED', statusCode: 500, originalError: error });
+      expect(toStorageError('not an error', 'Failed to delete file').message).toBe('Failed to delete file: Unknown error');
+    });
+
+    it('should pass StorageErrors through untouched', () => {
+      const error = new StorageError('Storage is read-only', 'READ_ONLY', 403);
+      expect(toStorageError(error, 'Failed to upload file')).toBe(error);
+    });
+  });
+
+  it('should build typed errors for HTTP statuses', () => {
+    expect(storageErrorForStatus(404, 'Missing')).toBeInstanceOf(StorageNotFoundError);
+    expect(storageErrorForStatus(401, 'Bad key')).toBeInstanceOf(StorageAccessDeniedError);
+    expect(storageErrorForStatus(502, 'Bad gateway')).toMatchObject({ code: 'PROVIDER_UNAVAILABLE', statusCode: 503 });
+    expect(storageErrorForStatus(418, 'Teapot')).toMatchObject({ code: 'STORAGE_OPERATION_FAILED', statusCode: 418 });
+  });
+
+  it('should report quota middleware rejections as QUOTA_EXCEEDED', () => {
+    const error = new QuotaExceededError('Too big', 'tenant', { namespace: 'tenant', bytes: 0, files: 0 }, { maxBytes: 1 });
+    expect(error).toBeInstanceOf(StorageQuotaExceededError);
+    expect(error).toMatchObject({ name: 'QuotaExceededError', code: 'QUOTA_EXCEEDED', statusCode: 413 });
+  });
+
+  // Cloud providers run against fake SDKs that keep their state between tests
+  const s3 = createFakeS3();
+  const gcs = createFakeGCS();
+  const azure = createFakeAzure();
+  const crunchycone = createFakeCrunchyConeApi();
+
+  beforeAll(() => {
+    jest.doMock('@aws-sdk/client-s3', () => s3.sdk);
+    jest.doMock('@aws-sdk/s3-request-presigner', () => s3.presigner);
+    jest.doMock('@google-cloud/storage', () => gcs.sdk);
+    jest.doMock('@azure/storage-blob', () => azure.sdk);
+  });
+
+  afterAll(() => {
+    jest.unmock('@aws-sdk/client-s3');
+    jest.unmock('@aws-sdk/s3-request-presigner');
+    jest.unmock('@google-cloud/storage');
+    jest.unmock('@azure/storage-blob');
+  });
+
+  // Every provider must fail the same way for the same mistakes
+  describe.each([
+    ['memory', async () => ({ provider: new MemoryStorageProvider() as StorageProvider, cleanup: async () => {} })],
+    ['local', async () => {
+      const testDir = join(tmpdir(), `errors-test-${randomBytes(8).toString('hex')}`);
+      const originalPath = process.env.CRUNCHYCONE_LOCALSTORAGE_PATH;
+      process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = testDir;
+      await fs.mkdir(testDir, { recursive: true });
+      const provider = new LocalStorageProvider();
+      return {
+        provider: provider as StorageProvider,
+        cleanup: async () => {
+          process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = originalPath;
+          await fs.rm(testDir, { recursive: true, force: true });
+        },
+      };
+    }],
+    ['namespaced memory', async () => ({
+      provider: applyStorageMiddleware(new MemoryStorageProvider(), [createNamespaceMiddleware('tenant')]),
+      cleanup: async () => {},
+    })],
+    ['s3', async () => {
+      s3.reset();
+      return {
+        provider: new S3CompatibleProvider({ accessKeyId: 'test-key', secretAccessKey: 'test-secret', region: 'us-east-1', bucket: 'test-bucket' }),
+        cleanup: async () => {},
+      };
+    }],
+    ['gcs', async () => {
+      gcs.blobs.clear();
+      return {
+        provider: new GCPStorageProvider({ projectId: 'test-project', bucket: 'test-bucket' }),
+        cleanup: async () => {},
+      };
+    }],
+    ['azure', async () => {
+      azure.blobs.clear();
+      return {
+        provider: new AzureStorageProvider({ accountName: 'testaccount', accountKey: 'test-account-key', containerName: 'test-container' }),
+        cleanup: async () => {},
+      };
+    }],
+    ['crunchycone', async () => {
+      crunchycone.files.clear();
+      const originalFetch = global.fetch;
+      global.fetch = crunchycone.fetch as typeof fetch;
+      return {
+        provider: new CrunchyConeProvider({ apiUrl: crunchycone.apiUrl, apiKey: 'test-api-key', projectId: 'test-project' }),
+        cleanup: async () => {
+          global.fetch = originalFetch;
+        },
+      };
+    }],
+  ])('%s provider conformance', (name, setup) => {
+    let provider: StorageProvider;
+    let cleanup: () => Promise<void>;
+    // CrunchyCone has no server-side copy
+    const itCopies = name === 'crunchycone' ? it.skip : it;
+
+    beforeEach(async () => {
+      ({ provider, cleanup } = await setup());
+      await provider.uploadFile({ external_id: 'existing', key: 'docs/existing.txt', buffer: Buffer.from('hello') });
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it('should report a missing key as NOT_FOUND', async () => {
+      const error = await provider.getFileStream!('docs/missing.txt').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StorageNotFoundError);
+      expect(error).toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+    });
+
+    it('should report a missing external_id as NOT_FOUND', async () => {
+      await expect(provider.deleteFileByExternalId('missing')).rejects.toBeInstanceOf(StorageNotFoundError);
+      await expect(provider.getFileUrlByExternalId('missing')).rejects.toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+    });
+
+    itCopies('should report a missing copy source as NOT_FOUND', async () => {
+      await expect(provider.copyFileByExternalId!('missing', 'docs/copy.txt')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(provider.copyFile!('docs/missing.txt', 'docs/copy.txt')).rejects.toBeInstanceOf(StorageNotFoundError);
+    });
+
+    itCopies('should report an existing copy destination as ALREADY_EXISTS', async () => {
+      await provider.uploadFile({ external_id: 'other', key: 'docs/other.txt', buffer: Buffer.from('other') });
+
+      const error = await provider.copyFile!('docs/existing.txt', 'docs/other.txt').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StorageAlreadyExistsError);
+      expect(error).toMatchObject({ code: 'ALREADY_EXISTS', statusCode: 409 });
+    });
+
+    it('should report an upload without a source as INVALID_INPUT', async () => {
+      const error = await provider.uploadFile({ external_id: 'empty', key: 'docs/empty.txt' }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StorageInvalidInputError);
+      expect(error).toMatchObject({ code: 'INVALID_INPUT', statusCode: 400 });
+    });
+  });
+});
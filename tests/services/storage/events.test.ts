@@ -0,0 +1,162 @@
+import { StorageEvent, StorageEvents } from '../../../src/services/storage/events';
+import { applyStorageMiddleware } from '../../../src/services/storage/middleware';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import {
+  deleteFile,
+  disableTrash,
+  enableTrash,
+  getEventedStorageProvider,
+  getStorageEvents,
+  getStorageProvider,
+  setStorageProvider,
+  uploadFile,
+} from '../../../src/services/storage/storage';
+import { StorageProvider } from '../../../src/services/storage/types';
+
+describe('StorageEvents', () => {
+  let inner: MemoryStorageProvider;
+  let events: StorageEvents;
+  let provider: StorageProvider;
+  let received: StorageEvent[];
+
+  const record = (event: StorageEvent) => {
+    received.push(event);
+  };
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+    events = new StorageEvents();
+    provider = applyStorageMiddleware(inner, [events.middleware()]);
+    received = [];
+  });
+
+  it('should emit typed events with the file info', async () => {
+    for (const type of ['uploaded', 'deleted', 'visibilityChanged', 'copied'] as const) {
+      events.on(type, record);
+    }
+
+    await provider.uploadFile({ external_id: 'a', key: 'docs/a.txt', buffer: Buffer.from('hello') });
+    await provider.setFileVisibility('docs/a.txt', 'public');
+    await provider.copyFile!('docs/a.txt', 'docs/b.txt');
+    await provider.moveFileByExternalId!('a', 'docs/c.txt');
+    await provider.deleteFile('docs/b.txt');
+
+    expect(received.map(event => [event.type, (event as StorageEvent<'uploaded'>).file.key])).toEqual([
+      ['uploaded', 'docs/a.txt'],
+      ['visibilityChanged', 'docs/a.txt'],
+      ['copied', 'docs/b.txt'],
+      ['copied', 'docs/c.txt'],
+      ['deleted', 'docs/b.txt'],
+    ]);
+    expect(received[0]).toMatchObject({ provider: inner, file: { external_id: 'a', size: 5, contentType: 'text/plain' } });
+    expect(received[1]).toMatchObject({ file: { visibility: 'public' }, previousVisibility: 'private' });
+    expect(received[3]).toMatchObject({ move: true, source: { key: 'docs/a.txt', external_id: 'a' } });
+    expect(received[4]).toMatchObject({ file: { external_id: 'a', size: 5 } });
+  });
+
+  it('should await async listeners in order and support once and unsubscribe', async () => {
+    const order: string[] = [];
+    events.on('uploaded', async ({ file }) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push(`slow ${file.key}`);
+    });
+    events.once('uploaded', ({ file }) => {
+      order.push(`once ${file.key}`);
+    });
+    const unsubscribe = events.on('uploaded', ({ file }) => {
+      order.push(`sync ${file.key}`);
+    });
+
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+    unsubscribe();
+    await provider.uploadFile({ external_id: 'b', key: 'b.txt', buffer: Buffer.from('b') });
+
+    expect(order).toEqual(['slow a.txt', 'once a.txt', 'sync a.txt', 'slow b.txt']);
+    expect(events.listenerCount('uploaded')).toBe(1);
+  });
+
+  it('should let before-listeners veto operations', async () => {
+    await inner.uploadFile({ external_id: 'held', key: 'held.txt', buffer: Buffer.from('x'), metadata: { legal_hold: 'true' } });
+    events.on('beforeDelete', ({ file }) => !file.metadata?.legal_hold);
+    events.on('beforeUpload', ({ options }) => {
+      if (options.filename?.endsWith('.exe')) {
+        throw new Error('Executables are not allowed');
+      }
+    });
+    events.on('beforeVisibilityChange', ({ visibility }) => visibility !== 'public');
+    events.on('deleted', record);
+
+    await expect(provider.deleteFileByExternalId('held')).rejects.toMatchObject({
+      code: 'OPERATION_VETOED',
+      statusCode: 403,
+      message: 'Delete of held.txt was vetoed by a beforeDelete listener',
+    });
+    await expect(provider.uploadFile({ external_id: 'x', key: 'x.exe', filename: 'x.exe', buffer: Buffer.from('x') }))
+      .rejects.toThrow('Executables are not allowed');
+    await expect(provider.setFileVisibilityByExternalId('held', 'public')).rejects.toMatchObject({ code: 'OPERATION_VETOED' });
+
+    expect(inner.getStoredObjects().map(object => [object.key, object.visibility])).toEqual([['held.txt', 'private']]);
+    expect(received).toEqual([]);
+  });
+
+  it('should report failing after-listeners without failing the operation', async () => {
+    const onListenerError = jest.fn();
+    events = new StorageEvents({ onListenerError });
+    provider = applyStorageMiddleware(inner, [events.middleware()]);
+    events.on('uploaded', () => {
+      throw new Error('database is down');
+    });
+
+    await expect(provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') })).resolves.toMatchObject({ key: 'a.txt' });
+    expect(onListenerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'database is down' }), expect.objectContaining({ type: 'uploaded' }));
+  });
+
+  it('should emit events for the active provider and report trashing as a delete', async () => {
+    setStorageProvider(inner);
+    getStorageEvents().on('deleted', record);
+    getStorageEvents().on('copied', record);
+
+    try {
+      await getEventedStorageProvider().uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+      enableTrash();
+      await deleteFile('a.txt');
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ type: 'deleted', trashed: true, provider: inner, file: { key: 'a.txt', external_id: 'a' } });
+    } finally {
+      getStorageEvents().removeAllListeners();
+      disableTrash();
+    }
+  });
+
+  it('should keep the registered provider and emit events through the module functions only', async () => {
+    setStorageProvider(inner);
+    getStorageEvents().on('uploaded', record);
+
+    try {
+      expect(getStorageProvider()).toBe(inner);
+      await getStorageProvider().uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+      expect(received).toEqual([]);
+
+      await uploadFile({ external_id: 'b', key: 'b.txt', buffer: Buffer.from('b') });
+      await getEventedStorageProvider().uploadFile({ external_id: 'c', key: 'c.txt', buffer: Buffer.from('c') });
+      expect(received).toMatchObject([{ type: 'uploaded', file: { key: 'b.txt' } }, { type: 'uploaded', file: { key: 'c.txt' } }]);
+    } finally {
+      getStorageEvents().removeAllListeners();
+    }
+  });
+
+  it('should not wrap a provider that already emits the storage events again', async () => {
+    const evented = applyStorageMiddleware(inner, [getStorageEvents().middleware()]);
+    setStorageProvider(evented);
+    getStorageEvents().on('uploaded', record);
+
+    try {
+      expect(getEventedStorageProvider()).toBe(evented);
+      await uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+      expect(received).toHaveLength(1);
+    } finally {
+      getStorageEvents().removeAllListeners();
+    }
+  });
+});
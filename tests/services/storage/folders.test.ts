@@ -0,0 +1,285 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { applyStorageMiddleware, createNamespaceMiddleware } from '../../../src/services/storage/middleware';
+import {
+  toFolderPrefix,
+  createProviderFolder,
+  getProviderFolderSummary,
+  renameProviderFolder,
+  deleteProviderFolder,
+} from '../../../src/services/storage/folders';
+import {
+  setStorageProvider,
+  enableTrash,
+  disableTrash,
+  listFiles,
+  deleteFolder,
+  listDeletedFiles,
+} from '../../../src/services/storage/storage';
+import { groupByDelimiter, listAllFiles } from '../../../src/services/storage/utils';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('Folders', () => {
+  const upload = (provider: { uploadFile: MemoryStorageProvider['uploadFile'] }, key: string, content = key) =>
+    provider.uploadFile({ external_id: key.replace(/\W/g, '-'), key, buffer: Buffer.from(content) });
+
+  it('should normalize folder paths to key prefixes', () => {
+    expect(toFolderPrefix('/docs//')).toBe('docs/');
+    expect(toFolderPrefix('docs/reports')).toBe('docs/reports/');
+    expect(toFolderPrefix('')).toBe('');
+  });
+
+  it('should group a flat listing by delimiter', () => {
+    const files = ['docs/', 'docs/a.txt', 'docs/nested/b.txt', 'docs/nested/deeper/c.txt', 'other/d.txt'].map(key => ({ key }));
+
+    expect(groupByDelimiter(files, 'docs/', '/')).toEqual({
+      files: [{ key: 'docs/a.txt' }],
+      commonPrefixes: ['docs/nested/'],
+    });
+    expect(groupByDelimiter(files, '', '/').commonPrefixes).toEqual(['docs/', 'other/']);
+  });
+
+  describe('on an object store', () => {
+    let provider: MemoryStorageProvider;
+
+    beforeEach(async () => {
+      provider = new MemoryStorageProvider();
+      for (const key of ['docs/a.txt', 'docs/nested/b.txt', 'docs/nested/deeper/c.txt', 'images/d.png', 'readme.md']) {
+        await upload(provider, key);
+      }
+    });
+
+    afterEach(() => {
+      disableTrash();
+      setStorageProvider(null as any);
+    });
+
+    it('should list files and virtual folders level by level', async () => {
+      const root = await provider.listFiles({ delimiter: '/' });
+      expect(root.files.map(file => file.key)).toEqual(['readme.md']);
+      expect(root.commonPrefixes).toEqual(['docs/', 'images/']);
+
+      const docs = await provider.listFiles({ prefix: 'docs/', delimiter: '/' });
+      expect(docs.files.map(file => file.key)).toEqual(['docs/a.txt']);
+      expect(docs.commonPrefixes).toEqual(['docs/nested/']);
+
+      // Filters narrow the files but not the folders
+      const filtered = await provider.listFiles({ prefix: 'docs/', delimiter: '/', contentType: 'image/png' });
+      expect(filtered.files).toEqual([]);
+      expect(filtered.commonPrefixes).toEqual(['docs/nested/']);
+
+      expect((await provider.listFiles({ prefix: 'docs/' })).commonPrefixes).toBeUndefined();
+    });
+
+    it('should create empty folders with a marker object', async () => {
+      await createProviderFolder(provider, '/archive/2024');
+
+      expect((await provider.listFiles({ delimiter: '/' })).commonPrefixes).toEqual(['archive/', 'docs/', 'images/']);
+      const archive = await provider.listFiles({ prefix: 'archive/2024/', delimiter: '/' });
+      expect(archive.files).toEqual([]);
+      await expect(createProviderFolder(provider, '/')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    });
+
+    it('should summarize a folder recursively', async () => {
+      await createProviderFolder(provider, 'docs/empty');
+
+      const summary = await getProviderFolderSummary(provider, 'docs');
+
+      expect(summary).toMatchObject({
+        path: 'docs/',
+        fileCount: 3,
+        totalSize: 'docs/a.txt'.length + 'docs/nested/b.txt'.length + 'docs/nested/deeper/c.txt'.length,
+        folderCount: 3,
+      });
+      expect(summary.lastModified).toBeInstanceOf(Date);
+      expect(await getProviderFolderSummary(provider, '')).toMatchObject({ path: '', fileCount: 5, folderCount: 5 });
+    });
+
+    it('should rename a folder with everything in it', async () => {
+      await createProviderFolder(provider, 'docs/empty');
+
+      const results = await renameProviderFolder(provider, 'docs', 'archive/docs');
+
+      expect(results).toEqual([
+        { key: 'docs/a.txt', destinationKey: 'archive/docs/a.txt', success: true },
+        { key: 'docs/empty/', destinationKey: 'archive/docs/empty/', success: true },
+        { key: 'docs/nested/b.txt', destinationKey: 'archive/docs/nested/b.txt', success: true },
+        { key: 'docs/nested/deeper/c.txt', destinationKey: 'archive/docs/nested/deeper/c.txt', success: true },
+      ]);
+      expect(provider.getStoredObjects().map(object => object.key).sort()).toEqual([
+        'archive/docs/a.txt',
+        'archive/docs/empty/',
+        'archive/docs/nested/b.txt',
+        'archive/docs/nested/deeper/c.txt',
+        'images/d.png',
+        'readme.md',
+      ]);
+    });
+
+    it('should refuse renames that would overwrite, nest or find nothing', async () => {
+      await upload(provider, 'archive/a.txt');
+
+      await expect(renameProviderFolder(provider, 'docs', 'archive')).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+      await expect(renameProviderFolder(provider, 'docs', 'docs/nested/copy')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+      await expect(renameProviderFolder(provider, 'missing', 'elsewhere')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      await renameProviderFolder(provider, 'docs', 'archive', { overwrite: true });
+      expect(provider.getStoredObjects().map(object => object.key).filter(key => key.startsWith('archive/'))).toHaveLength(3);
+    });
+
+    it('should report failed moves per file and keep going', async () => {
+      provider.injectFailure('copyFile', { key: 'docs/nested/b.txt', error: new Error('Copy failed') });
+
+      const results = await renameProviderFolder(provider, 'docs', 'archive/docs');
+
+      expect(results.filter(result => !result.success)).toEqual([
+        { key: 'docs/nested/b.txt', destinationKey: 'archive/docs/nested/b.txt', success: false, message: 'Copy failed' },
+      ]);
+      expect(provider.getStoredObjects().map(object => object.key).filter(key => key.includes('docs/')).sort()).toEqual([
+        'archive/docs/a.txt',
+        'archive/docs/nested/deeper/c.txt',
+        'docs/nested/b.txt',
+      ]);
+    });
+
+    it('should delete a folder with one result per file', async () => {
+      const results = await deleteProviderFolder(provider, 'docs/nested');
+
+      expect(results).toEqual([
+        { key: 'docs/nested/b.txt', success: true },
+        { key: 'docs/nested/deeper/c.txt', success: true },
+      ]);
+      expect((await provider.listFiles({ prefix: 'docs/', delimiter: '/' })).commonPrefixes).toEqual([]);
+      await expect(deleteProviderFolder(provider, '')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    });
+
+    it('should see every page of providers that return a token and an offset', async () => {
+      await uploadMany(provider, 'logs/', 350);
+      const paged = withTokenPaging(provider);
+
+      expect(await getProviderFolderSummary(paged, 'logs')).toMatchObject({ fileCount: 350 });
+
+      await renameProviderFolder(paged, 'logs', 'archive/logs');
+      expect(provider.getStoredObjects().filter(object => object.key.startsWith('archive/logs/'))).toHaveLength(350);
+
+      expect(await deleteProviderFolder(paged, 'archive/logs')).toHaveLength(350);
+      expect(provider.getStoredObjects().some(object => object.key.includes('logs/'))).toBe(false);
+    });
+
+    describe('on providers paging with backend tokens', () => {
+      const cloudProviders = useFakeCloudProviders();
+
+      it.each(cloudProviders)('should rename and delete every page of a folder on %s', async (_name, createProvider) => {
+        const cloud = createProvider();
+        await uploadMany(cloud, 'logs/', 250);
+
+        const moved = await renameProviderFolder(cloud, 'logs', 'archive/logs');
+        expect(moved.filter(result => result.success)).toHaveLength(250);
+        expect(await listAllFiles(cloud, { prefix: 'logs/' })).toEqual([]);
+
+        const deleted = await deleteProviderFolder(cloud, 'archive/logs');
+        expect(deleted.filter(result => result.success)).toHaveLength(250);
+        expect(await listAllFiles(cloud)).toEqual([]);
+      });
+    });
+
+    it('should keep folders inside a namespace', async () => {
+      const wrapped = applyStorageMiddleware(provider, [createNamespaceMiddleware('docs')]);
+
+      await createProviderFolder(wrapped, 'drafts');
+      const root = await wrapped.listFiles({ delimiter: '/' });
+
+      expect(root.files.map(file => file.key)).toEqual(['a.txt']);
+      expect(root.commonPrefixes).toEqual(['drafts/', 'nested/']);
+      expect(provider.getStoredObjects().some(object => object.key === 'docs/drafts/')).toBe(true);
+    });
+
+    it('should hide the trash folder and trash deleted folders', async () => {
+      setStorageProvider(provider);
+      enableTrash();
+
+      const results = await deleteFolder('docs/nested');
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect((await listFiles({ delimiter: '/' })).commonPrefixes).toEqual(['docs/', 'images/']);
+      expect((await listDeletedFiles()).files.map(file => file.originalKey).sort()).toEqual(['docs/nested/b.txt', 'docs/nested/deeper/c.txt']);
+    });
+  });
+
+  describe('on local storage', () => {
+    let provider: LocalStorageProvider;
+    let testDir: string;
+    let originalPath: string | undefined;
+
+    beforeEach(async () => {
+      originalPath = process.env.CRUNCHYCONE_LOCALSTORAGE_PATH;
+      testDir = join(tmpdir(), `folders-test-${randomBytes(8).toString('hex')}`);
+      process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = testDir;
+      await fs.mkdir(testDir, { recursive: true });
+      provider = new LocalStorageProvider();
+      for (const key of ['docs/a.txt', 'docs/nested/b.txt', 'readme.md']) {
+        await upload(provider, key);
+      }
+    });
+
+    afterEach(async () => {
+      process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = originalPath;
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should list empty directories as folders', async () => {
+      await createProviderFolder(provider, 'docs/empty');
+
+      const docs = await provider.listFiles({ prefix: 'docs/', delimiter: '/' });
+      expect(docs.files.map(file => file.key)).toEqual(['docs/a.txt']);
+      expect(docs.commonPrefixes).toEqual(['docs/empty/', 'docs/nested/']);
+      expect((await fs.stat(join(testDir, 'docs/empty'))).isDirectory()).toBe(true);
+    });
+
+    it('should move the directory tree on rename', async () => {
+      const results = await renameProviderFolder(provider, 'docs', 'archive/docs');
+
+      expect(results.map(result => result.destinationKey)).toEqual(['archive/docs/a.txt', 'archive/docs/nested/b.txt']);
+      await expect(fs.stat(join(testDir, 'docs'))).rejects.toMatchObject({ code: 'ENOENT' });
+      expect((await provider.listFiles({ prefix: 'archive/docs/', delimiter: '/' })).commonPrefixes).toEqual(['archive/docs/nested/']);
+      expect(await provider.findFileByExternalId('docs-nested-b-txt')).toMatchObject({ key: 'archive/docs/nested/b.txt' });
+    });
+
+    it('should rename empty directories', async () => {
+      await createProviderFolder(provider, 'empty');
+
+      await renameProviderFolder(provider, 'empty', 'renamed');
+
+      expect((await provider.listFiles({ delimiter: '/' })).commonPrefixes).toEqual(['docs/', 'renamed/']);
+    });
+
+    it('should find empty directories listed on a later page', async () => {
+      await createProviderFolder(provider, 'empty');
+      // One folder per page, so empty/ comes after docs/
+      const listFiles = provider.listFiles.bind(provider);
+      provider.listFiles = async (options = {}) => {
+        const { commonPrefixes = [] } = await listFiles({ ...options, offset: 0 });
+        const offset = options.offset || 0;
+        return { files: [], commonPrefixes: commonPrefixes.slice(offset, offset + 1), hasMore: offset + 1 < commonPrefixes.length, nextOffset: offset + 1 };
+      };
+
+      await renameProviderFolder(provider, 'empty', 'renamed');
+
+      expect((await listFiles({ delimiter: '/' })).commonPrefixes).toEqual(['docs/', 'renamed/']);
+    });
+
+    it('should remove the directory once its files are deleted', async () => {
+      await createProviderFolder(provider, 'docs/nested/empty');
+
+      const results = await deleteProviderFolder(provider, 'docs');
+
+      expect(results).toHaveLength(2);
+      await expect(fs.stat(join(testDir, 'docs'))).rejects.toMatchObject({ code: 'ENOENT' });
+      expect((await provider.listFiles({ delimiter: '/' })).commonPrefixes).toEqual([]);
+    });
+  });
+});
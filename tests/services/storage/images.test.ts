@@ -0,0 +1,114 @@
+import { Readable } from 'stream';
+import {
+  createDerivativeKey,
+  createImageDerivativesMiddleware,
+  deleteImageDerivatives,
+  generateImageDerivatives,
+  getImageDerivativeUrl,
+  ImageDerivativeOptions,
+  ImageProcessor,
+} from '../../../src/services/storage/images';
+import { applyStorageMiddleware } from '../../../src/services/storage/middleware';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+
+describe('image derivatives', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+  // Stands in for sharp, which is an optional peer dependency
+  const processor: jest.MockedFunction<ImageProcessor> = jest.fn();
+  const options: ImageDerivativeOptions = {
+    variants: [
+      { name: 'thumb', width: 150, height: 150, fit: 'cover' },
+      { name: 'medium', width: 800, format: 'webp', quality: 80 },
+    ],
+    processor,
+  };
+
+  let inner: MemoryStorageProvider;
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+    processor.mockImplementation(async (input, variant) => Buffer.concat([input, Buffer.from(variant.name)]));
+  });
+
+  it('should name derivatives after the original key', () => {
+    expect(createDerivativeKey('photos/cat.png', { name: 'thumb' })).toBe('photos/cat_thumb.png');
+    expect(createDerivativeKey('photos/cat.png', { name: 'medium', format: 'webp' })).toBe('photos/cat_medium.webp');
+    expect(createDerivativeKey('photos/cat', { name: 'small', format: 'jpeg' })).toBe('photos/cat_small.jpg');
+  });
+
+  it('should generate variants at upload and remove them with the original', async () => {
+    const provider = applyStorageMiddleware(inner, [createImageDerivativesMiddleware(options)]);
+
+    await provider.uploadFile({ external_id: 'cat', key: 'photos/cat.png', buffer: png, public: true });
+
+    expect(inner.getStoredObjects().map(object => object.key)).toEqual([
+      'photos/cat.png',
+      'photos/cat_medium.webp',
+      'photos/cat_thumb.png',
+    ]);
+    expect(inner.getStoredObject('photos/cat_medium.webp')).toMatchObject({
+      external_id: 'cat_medium',
+      contentType: 'image/webp',
+      visibility: 'public',
+      metadata: { derivative_of: 'photos/cat.png', derivative_variant: 'medium' },
+    });
+    expect(processor).toHaveBeenCalledWith(png, options.variants[0]);
+
+    await provider.deleteFileByExternalId('cat');
+    expect(inner.getStoredObjects()).toEqual([]);
+  });
+
+  it('should skip files that are not images and leave lazy variants for later', async () => {
+    const provider = applyStorageMiddleware(inner, [createImageDerivativesMiddleware({ ...options, mode: 'lazy' })]);
+    const eager = applyStorageMiddleware(inner, [createImageDerivativesMiddleware(options)]);
+
+    await provider.uploadFile({ external_id: 'cat', key: 'cat.png', stream: Readable.from([png]) });
+    await eager.uploadFile({ external_id: 'notes', key: 'notes.txt', buffer: Buffer.from('text') });
+
+    expect(processor).not.toHaveBeenCalled();
+    expect(inner.getStoredObjects()).toHaveLength(2);
+  });
+
+  it('should generate a lazy variant on first request only', async () => {
+    await inner.uploadFile({ external_id: 'cat', key: 'cat.png', buffer: png });
+    const lazy = { ...options, mode: 'lazy' as const };
+
+    const url = await getImageDerivativeUrl(inner, 'cat.png', 'thumb', lazy);
+    await getImageDerivativeUrl(inner, 'cat.png', 'thumb', lazy);
+
+    expect(url).toBe(await inner.getFileUrl('cat_thumb.png'));
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(inner.getStoredObject('cat_thumb.png')?.data).toEqual(Buffer.concat([png, Buffer.from('thumb')]));
+    await expect(getImageDerivativeUrl(inner, 'cat.png', 'huge', lazy)).rejects.toThrow('Unknown image variant "huge"');
+  });
+
+  it('should report processing failures and clean up by key', async () => {
+    await inner.uploadFile({ external_id: 'cat', key: 'cat.png', buffer: png });
+    await inner.uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('text') });
+
+    expect(await generateImageDerivatives(inner, 'cat.png', options)).toHaveLength(2);
+    await expect(generateImageDerivatives(inner, 'doc.txt', options)).rejects.toMatchObject({ code: 'UNSUPPORTED_IMAGE' });
+
+    processor.mockRejectedValueOnce(new Error('Input buffer contains unsupported image format'));
+    await expect(generateImageDerivatives(inner, 'cat.png', options)).rejects.toMatchObject({
+      code: 'IMAGE_PROCESSING_FAILED',
+      message: 'Failed to generate "thumb" variant of cat.png: Input buffer contains unsupported image format',
+    });
+
+    expect(await deleteImageDerivatives(inner, 'cat.png', options)).toEqual(['cat_thumb.png', 'cat_medium.webp']);
+    expect(inner.getStoredObject('cat.png')).toBeDefined();
+  });
+
+  it('should keep the upload when eager generation fails and generate the variant later', async () => {
+    const onError = jest.fn();
+    const provider = applyStorageMiddleware(inner, [createImageDerivativesMiddleware({ ...options, onError })]);
+    processor.mockRejectedValueOnce(new Error('sharp package not found'));
+
+    await expect(provider.uploadFile({ external_id: 'cat', key: 'cat.png', buffer: png })).resolves.toMatchObject({ key: 'cat.png' });
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'IMAGE_PROCESSING_FAILED' }), 'cat.png');
+    expect(inner.getStoredObject('cat_thumb.png')).toBeUndefined();
+    expect(await getImageDerivativeUrl(provider, 'cat.png', 'thumb', options)).toContain('cat_thumb.png');
+  });
+});
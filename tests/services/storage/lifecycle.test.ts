@@ -0,0 +1,143 @@
+import { isExpired, matchesRule, sweepExpired } from '../../../src/services/storage/lifecycle';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { StorageFileInfo } from '../../../src/services/storage/types';
+import { listAllFiles } from '../../../src/services/storage/utils';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('Lifecycle', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  let provider: MemoryStorageProvider;
+
+  const upload = (key: string, extra: Record<string, any> = {}) =>
+    provider.uploadFile({ external_id: key, key, buffer: Buffer.from(key), ...extra });
+
+  const age = (key: string, days: number) => {
+    // Stored objects are copies, so reach into the provider's map to backdate them
+    (provider as any).objects.get(key).lastModified = daysAgo(days);
+  };
+
+  beforeEach(() => {
+    provider = new MemoryStorageProvider();
+  });
+
+  it('should store expiresAt and ttl as expires_at metadata', async () => {
+    const expiresAt = new Date('2030-01-01T00:00:00Z');
+    await upload('a.txt', { expiresAt, metadata: { owner: 'ada' } });
+    await upload('b.txt', { ttl: 60 });
+
+    expect(provider.getStoredObject('a.txt')!.metadata).toEqual({ owner: 'ada', expires_at: expiresAt.toISOString() });
+    const ttlExpiry = new Date(provider.getStoredObject('b.txt')!.metadata!.expires_at).getTime();
+    expect(Math.abs(ttlExpiry - (Date.now() + 60000))).toBeLessThan(5000);
+
+    await expect(upload('c.txt', { expiresAt, ttl: 60 })).rejects.toThrow('Provide either expiresAt or ttl, not both');
+    await expect(upload('d.txt', { expiresAt: new Date('nope') })).rejects.toThrow('expiresAt must be a valid date');
+  });
+
+  it('should match rules on prefix, content type and age', () => {
+    const file = { key: 'tmp/photo.png', contentType: 'image/png', lastModified: daysAgo(10) } as StorageFileInfo;
+
+    expect(matchesRule(file, { prefix: 'tmp/', contentType: 'image/*', olderThanDays: 7 }, now)).toBe(true);
+    expect(matchesRule(file, { contentType: 'image/png' }, now)).toBe(true);
+    expect(matchesRule(file, { prefix: 'uploads/' }, now)).toBe(false);
+    expect(matchesRule(file, { contentType: 'image/jpeg' }, now)).toBe(false);
+    expect(matchesRule(file, { olderThanDays: 30 }, now)).toBe(false);
+    expect(matchesRule({ ...file, key: 'archive/tmp/photo.png' }, { contentType: 'image/*', action: 'archive' }, now)).toBe(false);
+
+    expect(isExpired({ metadata: { 'expires-at': daysAgo(1).toISOString() } }, now)).toBe(true);
+    expect(isExpired({ metadata: { expires_at: now.toISOString() } }, now)).toBe(true);
+    expect(isExpired({ metadata: {} }, now)).toBe(false);
+  });
+
+  it('should delete expired files and apply rules', async () => {
+    await upload('expired.txt', { expiresAt: daysAgo(1) });
+    await upload('later.txt', { expiresAt: new Date('2030-01-01T00:00:00Z') });
+    await upload('tmp/old.txt');
+    await upload('tmp/new.txt');
+    await upload('exports/report.csv', { metadata: { owner: 'ada', expires_at: '2030-01-01T00:00:00Z' } });
+    age('tmp/old.txt', 2);
+    age('exports/report.csv', 100);
+
+    const completed: string[] = [];
+    const result = await sweepExpired({
+      providers: { main: provider },
+      rules: [
+        { id: 'tmp', prefix: 'tmp/', olderThanDays: 1 },
+        { id: 'old-exports', prefix: 'exports/', olderThanDays: 90, action: 'archive' },
+      ],
+      now,
+      onFileComplete: fileResult => completed.push(fileResult.key),
+    });
+
+    expect(result).toMatchObject({ success: true, summary: { scanned: 5, deleted: 2, archived: 1, errors: 0 } });
+    expect(result.details).toEqual([
+      expect.objectContaining({ provider: 'main', key: 'expired.txt', action: 'deleted', reason: 'expired' }),
+      expect.objectContaining({ key: 'exports/report.csv', action: 'archived', reason: 'old-exports', archivedKey: 'archive/exports/report.csv' }),
+      expect.objectContaining({ key: 'tmp/old.txt', action: 'deleted', reason: 'tmp' }),
+    ]);
+    expect(completed).toEqual(['expired.txt', 'exports/report.csv', 'tmp/old.txt']);
+
+    expect(provider.getStoredObjects().map(object => object.key)).toEqual(['archive/exports/report.csv', 'later.txt', 'tmp/new.txt']);
+    expect(provider.getStoredObject('archive/exports/report.csv')!.metadata).toEqual({
+      owner: 'ada',
+      archived_at: expect.any(String),
+    });
+
+    // Archived files aren't picked up again
+    const again = await sweepExpired({ providers: { main: provider }, rules: [{ prefix: 'exports/', action: 'archive' }, { contentType: 'text/*', action: 'archive' }], now });
+    expect(again.summary).toMatchObject({ scanned: 3, archived: 2 });
+  });
+
+  it('should sweep every page of providers that return a token and an offset', async () => {
+    await uploadMany(provider, 'tmp/', 350);
+
+    const result = await sweepExpired({ providers: { main: withTokenPaging(provider) }, rules: [{ id: 'tmp', prefix: 'tmp/' }], now });
+
+    expect(result.summary).toMatchObject({ scanned: 350, deleted: 350, errors: 0 });
+    expect(provider.getStoredObjects()).toEqual([]);
+  });
+
+  it('should report without changing anything on a dry run', async () => {
+    const cold = new MemoryStorageProvider();
+    await upload('expired.txt', { expiresAt: daysAgo(1) });
+    await upload('logs/app.log');
+    age('logs/app.log', 40);
+
+    const result = await sweepExpired({
+      providers: { main: provider },
+      rules: [{ prefix: 'logs/', olderThanDays: 30, action: 'archive', archiveTo: cold, archivePrefix: '' }],
+      now,
+      dryRun: true,
+    });
+
+    expect(result.summary).toMatchObject({ scanned: 2, deleted: 1, archived: 1 });
+    expect(result.details.map(detail => detail.reason)).toEqual(['expired', 'rule-0']);
+    expect(provider.getStoredObjects()).toHaveLength(2);
+    expect(cold.getStoredObjects()).toHaveLength(0);
+
+    await sweepExpired({ providers: { main: provider }, rules: [{ prefix: 'logs/', olderThanDays: 30, action: 'archive', archiveTo: cold, archivePrefix: '' }], now });
+    expect(provider.getStoredObjects()).toHaveLength(0);
+    expect(cold.getStoredObjects().map(object => object.key)).toEqual(['logs/app.log']);
+  });
+
+  it('should reject rules without conditions', async () => {
+    await expect(sweepExpired({ providers: { main: provider }, rules: [{ id: 'everything' }] }))
+      .rejects.toThrow('Lifecycle rule everything must set prefix, contentType or olderThanDays');
+  });
+});
+
+describe('sweepExpired on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should sweep every page of %s', async (_name, createProvider) => {
+    const provider = createProvider();
+    await uploadMany(provider, 'tmp/', 250);
+    await provider.uploadFile({ external_id: 'expired', key: 'uploads/expired.txt', buffer: Buffer.from('x'), expiresAt: new Date(Date.now() - 1000) });
+
+    const result = await sweepExpired({ providers: { main: provider }, rules: [{ id: 'tmp', prefix: 'tmp/' }] });
+
+    expect(result.summary).toMatchObject({ scanned: 251, deleted: 251, errors: 0 });
+    expect(await listAllFiles(provider)).toEqual([]);
+  });
+});
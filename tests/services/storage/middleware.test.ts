@@ -0,0 +1,185 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import {
+  applyStorageMiddleware,
+  createLoggingMiddleware,
+  createNamespaceMiddleware,
+  createReadOnlyMiddleware,
+  createTimingMiddleware,
+  StorageCallTiming,
+  StorageMiddleware,
+} from '../../../src/services/storage/middleware';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { setStorageProvider, uploadFile, listFiles } from '../../../src/services/storage/storage';
+import { syncStorageProviders } from '../../../src/services/storage/sync';
+import { StorageProvider } from '../../../src/services/storage/types';
+
+describe('applyStorageMiddleware', () => {
+  let inner: MemoryStorageProvider;
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+  });
+
+  it('should run middlewares in order around the provider call', async () => {
+    const calls: string[] = [];
+    const tracer = (name: string): StorageMiddleware => async (context, next) => {
+      calls.push(`${name}:before:${context.method}`);
+      const result = await next();
+      calls.push(`${name}:after:${context.method}`);
+      return result;
+    };
+
+    const provider = applyStorageMiddleware(inner, [tracer('outer'), tracer('inner')]);
+    await provider.fileExists('a.txt');
+
+    expect(calls).toEqual([
+      'outer:before:fileExists',
+      'inner:before:fileExists',
+      'inner:after:fileExists',
+      'outer:after:fileExists',
+    ]);
+  });
+
+  it('should let middlewares rewrite arguments and results', async () => {
+    const upperCaseKeys: StorageMiddleware = async (context, next) => {
+      if (context.method === 'uploadFile') {
+        context.args = [{ ...context.args[0], key: context.args[0].key.toUpperCase() }];
+      }
+      const result = await next();
+      return context.method === 'uploadFile' ? { ...result, url: 'rewritten' } : result;
+    };
+
+    const provider = applyStorageMiddleware(inner, [upperCaseKeys]);
+    const result = await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+
+    expect(result.url).toBe('rewritten');
+    expect(inner.getStoredObject('A.TXT')).toBeDefined();
+  });
+
+  it('should only expose the optional methods of the wrapped provider', async () => {
+    const { getFileStream: _getFileStream, ...withoutStreaming } = {
+      getFileStream: jest.fn(),
+      fileExists: jest.fn(async () => true),
+    };
+
+    const provider = applyStorageMiddleware(withoutStreaming as unknown as StorageProvider, []);
+
+    expect(provider.getFileStream).toBeUndefined();
+    expect(await provider.fileExists('a.txt')).toBe(true);
+    expect(applyStorageMiddleware(inner, []).getFileStream).toBeDefined();
+    expect(applyStorageMiddleware(inner, [])).toBeInstanceOf(MemoryStorageProvider);
+  });
+
+  it('should work as the configured provider and as a sync source', async () => {
+    const timings: StorageCallTiming[] = [];
+    const provider = applyStorageMiddleware(inner, [createTimingMiddleware(timing => timings.push(timing))]);
+    setStorageProvider(provider);
+
+    await uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+    expect((await listFiles()).files).toHaveLength(1);
+
+    const destination = new MemoryStorageProvider();
+    const result = await syncStorageProviders({ source: provider, destination, direction: 'one-way' });
+
+    expect(result.summary.copied).toBe(1);
+    expect(destination.getStoredObject('a.txt')?.data.toString()).toBe('a');
+    expect(timings.map(t => t.method)).toEqual(expect.arrayContaining(['uploadFile', 'listFiles', 'getFileStreamByExternalId']));
+    expect(timings.every(t => t.success)).toBe(true);
+  });
+
+  describe('built-in middlewares', () => {
+    it('should log calls and failures', async () => {
+      const logger = { log: jest.fn(), error: jest.fn() };
+      const provider = applyStorageMiddleware(inner, [createLoggingMiddleware({ logger, logArgs: true })]);
+
+      await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('abc') });
+      await expect(provider.getFileStream!('missing.txt')).rejects.toThrow();
+
+      expect(logger.log).toHaveBeenCalledWith('[Storage] uploadFile completed', {
+        args: [{ external_id: 'a', key: 'a.txt', buffer: '<Buffer 3 bytes>' }],
+        durationMs: expect.any(Number),
+      });
+      expect(logger.error).toHaveBeenCalledWith('[Storage] getFileStream failed', expect.objectContaining({
+        error: 'File with key missing.txt not found',
+      }));
+    });
+
+    it('should reject writes in read-only mode', async () => {
+      await inner.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+      const provider = applyStorageMiddleware(inner, [createReadOnlyMiddleware()]);
+
+      await expect(provider.deleteFile('a.txt')).rejects.toMatchObject({ code: 'READ_ONLY' });
+      await expect(provider.uploadFile({ external_id: 'b', buffer: Buffer.from('b') })).rejects.toMatchObject({ code: 'READ_ONLY' });
+      expect(await provider.fileExists('a.txt')).toBe(true);
+    });
+
+    it('should keep keys inside a namespace', async () => {
+      await inner.uploadFile({ external_id: 'other', key: 'tenant-b/doc.txt', buffer: Buffer.from('b') });
+      const provider = applyStorageMiddleware(inner, [createNamespaceMiddleware('tenant-a')]);
+
+      const uploaded = await provider.uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('a') });
+      const generated = await provider.uploadFile({ external_id: 'generated', filename: 'photo.png', buffer: Buffer.from('p') });
+
+      expect(uploaded.key).toBe('doc.txt');
+      expect(inner.getStoredObject('tenant-a/doc.txt')).toBeDefined();
+      expect(generated.key).toMatch(/^files\/generated-\d+\.png$/);
+
+      expect((await provider.listFiles()).files.map(f => f.key).sort()).toEqual(['doc.txt', generated.key]);
+      expect((await provider.searchFiles({ query: 'doc' })).files.map(f => f.key)).toEqual(['doc.txt']);
+      expect(await provider.fileExists('doc.txt')).toBe(true);
+      expect(await provider.findFileByExternalId('doc')).toMatchObject({ key: 'doc.txt' });
+      expect(await provider.getFileInfo!('doc.txt')).toMatchObject({ key: 'doc.txt', external_id: 'doc' });
+      expect(await provider.getFileInfo!('tenant-b/doc.txt')).toBeNull();
+
+      // Files of other namespaces are invisible
+      expect(await provider.findFileByExternalId('other')).toBeNull();
+      expect(await provider.fileExistsByExternalId('other')).toBe(false);
+      await expect(provider.deleteFileByExternalId('other')).rejects.toThrow('File with external_id other not found');
+
+      const moved = await provider.moveFile!('doc.txt', 'archive/doc.txt');
+      expect(moved.key).toBe('archive/doc.txt');
+      expect(inner.getStoredObject('tenant-a/archive/doc.txt')).toBeDefined();
+    });
+
+    it('should map the keys of batch visibility results back out of the namespace', async () => {
+      Object.assign(inner, {
+        setMultipleFileVisibility: async (keys: string[], visibility: 'public' | 'private') =>
+          keys.map(key => ({ key, success: true, requestedVisibility: visibility, actualVisibility: visibility })),
+      });
+      const provider = applyStorageMiddleware(inner, [createNamespaceMiddleware('tenant-a')]);
+
+      const results = await provider.setMultipleFileVisibility!(['a.txt', 'docs/b.txt'], 'public');
+
+      expect(results.map(result => result.key)).toEqual(['a.txt', 'docs/b.txt']);
+    });
+
+    it('should not namespace keys twice in provider-specific methods', async () => {
+      const originalPath = process.env.CRUNCHYCONE_LOCALSTORAGE_PATH;
+      const testDir = join(tmpdir(), `middleware-test-${randomBytes(8).toString('hex')}`);
+      process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = testDir;
+      try {
+        const local = new LocalStorageProvider();
+        const provider = applyStorageMiddleware(local, [createNamespaceMiddleware('tenant')]) as LocalStorageProvider;
+
+        const upload = await provider.getUploadUrl!({ external_id: 'direct', key: 'docs/a.txt' });
+        const response = await provider.handleUploadRequest(new Request(new URL(upload.url, 'http://localhost:3000'), {
+          method: 'PUT',
+          body: 'hello',
+          headers: upload.headers,
+        }));
+
+        expect(response.status).toBe(201);
+        expect(await provider.fileExists('docs/a.txt')).toBe(true);
+        expect(await local.fileExists('tenant/docs/a.txt')).toBe(true);
+        expect(provider.constructor).toBe(LocalStorageProvider);
+      } finally {
+        process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = originalPath;
+        await fs.rm(testDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  uploadFileMultipart,
+  supportsMultipartUpload,
+  MultipartUploadProgress,
+} from '../../../src/services/storage/multipart';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { MultipartUpload, StorageProvider } from '../../../src/services/storage/types';
+
+describe('uploadFileMultipart', () => {
+  let provider: LocalStorageProvider;
+  let testDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  const content = Buffer.from('abcdefghijklmnopqrstuvwxyz');
+
+  beforeEach(async () => {
+    originalEnv = { ...process.env };
+    testDir = join(tmpdir(), `multipart-test-${randomBytes(8).toString('hex')}`);
+    process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = testDir;
+    await fs.mkdir(testDir, { recursive: true });
+    provider = new LocalStorageProvider();
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const readStored = (key: string) => fs.readFile(join(testDir, key), 'utf8');
+
+  it('should detect providers that implement the multipart lifecycle', () => {
+    expect(supportsMultipartUpload(provider)).toBe(true);
+    expect(supportsMultipartUpload({ uploadFile: jest.fn() } as unknown as StorageProvider)).toBe(false);
+  });
+
+  it('should upload a buffer in parts', async () => {
+    const progress: MultipartUploadProgress[] = [];
+
+    const result = await uploadFileMultipart({
+      provider,
+      external_id: 'alphabet',
+      key: 'files/alphabet.txt',
+      buffer: content,
+      partSize: 10,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(result.size).toBe(26);
+    expect(await readStored('files/alphabet.txt')).toBe(content.toString());
+    expect(progress.map(p => [p.partNumber, p.uploadedBytes, p.totalParts])).toEqual([[1, 10, 3], [2, 20, 3], [3, 26, 3]]);
+  });
+
+  it('should split a stream into parts', async () => {
+    const result = await uploadFileMultipart({
+      provider,
+      external_id: 'streamed',
+      key: 'files/streamed.txt',
+      stream: Readable.from([content.subarray(0, 7), content.subarray(7, 19), content.subarray(19)]),
+      partSize: 8,
+    });
+
+    expect(result.size).toBe(26);
+    expect(await readStored('files/streamed.txt')).toBe(content.toString());
+  });
+
+  it('should store empty sources without leaving an upload behind', async () => {
+    const emptyFile = join(testDir, 'empty.txt');
+    await fs.writeFile(emptyFile, '');
+
+    const abort = jest.spyOn(provider, 'abortMultipartUpload');
+
+    for (const source of [{ buffer: Buffer.alloc(0) }, { stream: Readable.from([]) }, { filePath: emptyFile }]) {
+      const result = await uploadFileMultipart({ provider, external_id: 'empty', key: 'files/empty.txt', partSize: 8, ...source });
+
+      expect(result.size).toBe(0);
+      expect(await readStored('files/empty.txt')).toBe('');
+    }
+    // Only the stream's size wasn't known up front
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(await fs.readdir(join(testDir, '.multipart')).catch(() => [])).toEqual([]);
+  });
+
+  it('should resume from the last good part after a failure', async () => {
+    const sourcePath = join(testDir, 'source.txt');
+    await fs.writeFile(sourcePath, content);
+
+    let initiated: MultipartUpload | undefined;
+    const uploadPart = provider.uploadPart.bind(provider);
+    const failingProvider = Object.assign(Object.create(provider), {
+      uploadPart: async (upload: MultipartUpload, partNumber: number, data: Buffer) => {
+        if (partNumber === 2) {
+          throw new Error('connection reset');
+        }
+        return uploadPart(upload, partNumber, data);
+      },
+    });
+
+    await expect(uploadFileMultipart({
+      provider: failingProvider,
+      external_id: 'resumed',
+      key: 'files/resumed.txt',
+      filePath: sourcePath,
+      partSize: 10,
+      onUploadInitiated: upload => {
+        initiated = upload;
+      },
+    })).rejects.toMatchObject({ code: 'MULTIPART_UPLOAD_FAILED' });
+
+    expect(initiated).toBeDefined();
+    // Handles are plain JSON so they survive being persisted between attempts
+    const persisted = JSON.parse(JSON.stringify(initiated));
+
+    const progress: MultipartUploadProgress[] = [];
+    await uploadFileMultipart({
+      provider,
+      external_id: 'resumed',
+      filePath: sourcePath,
+      upload: persisted,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(progress.map(p => [p.partNumber, p.skipped])).toEqual([[1, true], [2, false], [3, false]]);
+    expect(await readStored('files/resumed.txt')).toBe(content.toString());
+  });
+
+  it('should abort the upload on failure when requested', async () => {
+    const abortSpy = jest.spyOn(provider, 'abortMultipartUpload');
+    jest.spyOn(provider, 'uploadPart').mockRejectedValue(new Error('connection reset'));
+
+    await expect(uploadFileMultipart({
+      provider,
+      external_id: 'aborted',
+      buffer: content,
+      partSize: 10,
+      abortOnError: true,
+    })).rejects.toThrow('failed at part 1: connection reset');
+
+    expect(abortSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to uploadFile for providers without multipart support', async () => {
+    const basicProvider = { uploadFile: jest.fn().mockResolvedValue({ key: 'files/basic.txt' }) } as unknown as StorageProvider;
+
+    await uploadFileMultipart({ provider: basicProvider, external_id: 'basic', buffer: content, partSize: 10 });
+
+    expect(basicProvider.uploadFile).toHaveBeenCalledWith(expect.objectContaining({ external_id: 'basic', buffer: content }));
+  });
+
+  it('should refuse to resume a source of a different size', async () => {
+    const upload = await provider.initiateMultipartUpload({ external_id: 'sized', partSize: 10, size: 30 });
+
+    await expect(uploadFileMultipart({ provider, external_id: 'sized', buffer: content, upload }))
+      .rejects.toThrow('source is 26 bytes, upload expects 30');
+  });
+});
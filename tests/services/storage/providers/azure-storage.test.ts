@@ -242,4 +242,155 @@ describe('AzureStorageProvider', () => {
       }
     });
   });
-});
\ No newline at end of file
+  describe('getFileStream', () => {
+    let provider: AzureStorageProvider;
+    let mockBlockBlobClient: any;
+
+    beforeEach(() => {
+      provider = new AzureStorageProvider(mockConfig);
+      mockBlockBlobClient = {
+        download: jest.fn((offset: number, count?: number) => {
+          const { Readable } = jest.requireActual('stream');
+          const content = Buffer.from('0123456789');
+          const end = count !== undefined ? offset + count - 1 : content.length - 1;
+          const isRange = offset > 0 || count !== undefined;
+          return Promise.resolve({
+            readableStreamBody: Readable.from(content.subarray(offset, end + 1)),
+            contentLength: end - offset + 1,
+            contentRange: isRange ? `bytes ${offset}-${end}/${content.length}` : undefined,
+            contentType: 'video/mp4',
+            etag: 'azure-etag',
+            acceptRanges: 'bytes',
+          });
+        }),
+      };
+      // Inject the mocked container so no SDK import is needed
+      (provider as any).blobServiceClient = {};
+      (provider as any).containerClient = { getBlockBlobClient: jest.fn(() => mockBlockBlobClient) };
+    });
+
+    it('should translate start/end into offset and count', async () => {
+      const result = await provider.getFileStream('clip.mp4', { start: 2, end: 5 });
+
+      expect(mockBlockBlobClient.download).toHaveBeenCalledWith(2, 4, expect.objectContaining({
+        abortSignal: expect.any(Object),
+      }));
+      expect(result.isPartialContent).toBe(true);
+      expect(result.range).toEqual({ start: 2, end: 5, total: 10 });
+      expect(result.contentLength).toBe(4);
+      expect(result.acceptsRanges).toBe(true);
+    });
+
+    it('should download the whole blob without a range', async () => {
+      const result = await provider.getFileStream('clip.mp4', { responseType: 'web' });
+
+      expect(mockBlockBlobClient.download).toHaveBeenCalledWith(0, undefined, expect.any(Object));
+      expect(result.isPartialContent).toBe(false);
+      expect(result.range).toBeUndefined();
+      expect(result.streamType).toBe('web');
+    });
+
+    it('should report missing blobs as not found', async () => {
+      mockBlockBlobClient.download.mockRejectedValue(Object.assign(new Error('BlobNotFound'), { statusCode: 404 }));
+
+      await expect(provider.getFileStream('missing.mp4')).rejects.toThrow('File with key missing.mp4 not found');
+    });
+  });
+
+  describe('getUploadUrl', () => {
+    let provider: AzureStorageProvider;
+
+    beforeEach(() => {
+      // Use the real SDK so the SAS token is actually signed
+      jest.resetModules();
+      jest.doMock('@azure/storage-blob', () => jest.requireActual('@azure/storage-blob'));
+      provider = new AzureStorageProvider({
+        ...mockConfig,
+        accountKey: Buffer.from('test-account-key').toString('base64'),
+      });
+      (provider as any).blobServiceClient = {};
+      (provider as any).containerClient = {
+        getBlockBlobClient: jest.fn((key: string) => ({
+          url: `https://testaccount.blob.core.windows.net/test-container/${key}`,
+        })),
+      };
+    });
+
+    it('should return a write-only SAS URL with the headers Azure requires', async () => {
+      const result = await provider.getUploadUrl({
+        external_id: 'doc-1',
+        key: 'docs/report.pdf',
+        contentType: 'application/pdf',
+        metadata: { owner: 'user-1' },
+      });
+
+      const url = new URL(result.url);
+      expect(url.pathname).toBe('/test-container/docs/report.pdf');
+      expect(url.searchParams.get('sp')).toBe('cw');
+      expect(url.searchParams.get('sig')).toBeTruthy();
+      expect(result.method).toBe('PUT');
+      expect(result.headers).toEqual({
+        'x-ms-blob-type': 'BlockBlob',
+        'Content-Type': 'application/pdf',
+        'x-ms-blob-content-type': 'application/pdf',
+        'x-ms-meta-external_id': 'doc-1',
+        'x-ms-meta-owner': 'user-1',
+      });
+    });
+
+    it('should refuse options that a SAS URL cannot enforce', async () => {
+      await expect(provider.getUploadUrl({ external_id: 'doc-1', maxSize: 100 }))
+        .rejects.toMatchObject({ code: 'INVALID_UPLOAD' });
+      await expect(provider.getUploadUrl({ external_id: 'doc-1', method: 'POST' }))
+        .rejects.toMatchObject({ code: 'INVALID_UPLOAD' });
+    });
+  });
+
+  describe('copyFile', () => {
+    let provider: AzureStorageProvider;
+    let sourceBlob: any;
+    let destinationBlob: any;
+
+    beforeEach(() => {
+      provider = new AzureStorageProvider(mockConfig);
+      sourceBlob = {
+        url: 'https://testaccount.blob.core.windows.net/test-container/docs/a.txt',
+        getProperties: jest.fn(() => Promise.resolve({
+          contentLength: 5,
+          contentType: 'text/plain',
+          cacheControl: 'no-cache',
+          metadata: { external_id: 'doc-a', owner: 'user-1' },
+        })),
+      };
+      destinationBlob = {
+        beginCopyFromURL: jest.fn(() => Promise.resolve({
+          pollUntilDone: jest.fn(() => Promise.resolve({ etag: 'copy-etag', copyStatus: 'success' })),
+        })),
+        setHTTPHeaders: jest.fn(() => Promise.resolve({})),
+      };
+      (provider as any).blobServiceClient = {};
+      (provider as any).containerClient = {
+        getBlockBlobClient: jest.fn((key: string) => key === 'docs/a.txt' ? sourceBlob : destinationBlob),
+      };
+      jest.spyOn(provider, 'fileExists').mockResolvedValue(false);
+      jest.spyOn(provider, 'getFileUrl').mockResolvedValue('https://signed.example.com');
+    });
+
+    it('should start a server-side copy from the source blob URL', async () => {
+      const result = await provider.copyFile('docs/a.txt', 'docs/b.txt');
+
+      expect(destinationBlob.beginCopyFromURL).toHaveBeenCalledWith(sourceBlob.url, {});
+      expect(destinationBlob.setHTTPHeaders).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ external_id: 'doc-a', key: 'docs/b.txt', size: 5, etag: 'copy-etag', metadata: { owner: 'user-1' } });
+    });
+
+    it('should keep the other headers when overriding the content type', async () => {
+      await provider.copyFile('docs/a.txt', 'docs/b.md', { contentType: 'text/markdown' });
+
+      expect(destinationBlob.setHTTPHeaders).toHaveBeenCalledWith(expect.objectContaining({
+        blobContentType: 'text/markdown',
+        blobCacheControl: 'no-cache',
+      }));
+    });
+  });
+});
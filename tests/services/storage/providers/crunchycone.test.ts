@@ -587,6 +587,26 @@ describe('CrunchyConeProvider', () => {
       await expect(provider.findFileByExternalId('test-id')).rejects.toThrow('CrunchyCone API error (500 undefined) | URL: https://api.crunchycone.com/api/v1/storage/files/by-external-id/test-id | Method: GET | Response: Internal Server Error');
     });
 
+    it('should report the API status code for retry decisions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: () => Promise.resolve('Service Unavailable'),
+      });
+
+      await expect(provider.findFileByExternalId('test-id')).rejects.toMatchObject({ code: 'PROVIDER_UNAVAILABLE', statusCode: 503 });
+    });
+
+    it('should map API statuses to typed storage errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: () => Promise.resolve('Forbidden'),
+      });
+
+      await expect(provider.findFileByExternalId('test-id')).rejects.toMatchObject({ code: 'ACCESS_DENIED', statusCode: 403 });
+    });
+
     it('should handle request timeout', async () => {
       const providerWithShortTimeout = new CrunchyConeProvider({ ...config, timeout: 100 });
       
@@ -1386,4 +1406,79 @@ describe('CrunchyConeProvider', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('getUploadUrl', () => {
+    it('should reserve a file descriptor and return its presigned URL', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          data: {
+            file_id: 'direct-file-id',
+            upload_url: 'https://presigned-upload-url.com/direct',
+            expires_at: '2025-01-01T12:00:00Z',
+          },
+        }),
+      });
+
+      const result = await provider.getUploadUrl({
+        external_id: 'direct-upload',
+        key: 'uploads/photo.jpg',
+        filename: 'photo.jpg',
+        size: 2048,
+      });
+
+      expect(result).toEqual({
+        url: 'https://presigned-upload-url.com/direct',
+        method: 'PUT',
+        headers: { 'Content-Type': 'image/jpeg' },
+        key: 'uploads/photo.jpg',
+        external_id: 'direct-upload',
+        contentType: 'image/jpeg',
+        maxSize: 2048,
+        expiresAt: new Date('2025-01-01T12:00:00Z'),
+        providerSpecific: { fileId: 'direct-file-id', requiresCompletion: true },
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        file_path: 'uploads/photo.jpg',
+        file_size: 2048,
+        external_id: 'direct-upload',
+        visibility: 'private',
+      });
+    });
+
+    it('should require an exact file size', async () => {
+      await expect(provider.getUploadUrl({ external_id: 'direct-upload', maxSize: 2048 }))
+        .rejects.toMatchObject({ code: 'INVALID_UPLOAD' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should complete a direct upload', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 204 })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            data: {
+              file_id: 'direct-file-id',
+              file_path: 'uploads/photo.jpg',
+              storage_key: 'uploads/photo.jpg',
+              content_type: 'image/jpeg',
+              actual_file_size: 2048,
+              external_id: 'direct-upload',
+              visibility: 'private',
+              metadata: {},
+              updated_at: '2025-01-01T10:05:00Z',
+            },
+          }),
+        });
+
+      const info = await provider.completeDirectUpload('direct-file-id', 2048);
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://api.crunchycone.com/api/v1/storage/files/direct-file-id/complete');
+      expect(info).toMatchObject({ external_id: 'direct-upload', key: 'uploads/photo.jpg', size: 2048 });
+    });
+  });
+});
+
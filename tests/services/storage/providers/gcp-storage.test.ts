@@ -272,4 +272,173 @@ describe('GCPStorageProvider', () => {
       }
     });
   });
-});
\ No newline at end of file
+  describe('getFileStream', () => {
+    let provider: GCPStorageProvider;
+    let mockFile: any;
+
+    beforeEach(() => {
+      provider = new GCPStorageProvider(mockConfig);
+      mockFile = {
+        getMetadata: jest.fn(() => Promise.resolve([{
+          size: '10',
+          contentType: 'video/mp4',
+          etag: 'gcs-etag',
+          updated: '2024-01-01T00:00:00Z',
+        }])),
+        createReadStream: jest.fn((options: { start?: number; end?: number }) => {
+          const { Readable } = jest.requireActual('stream');
+          const content = Buffer.from('0123456789');
+          return Readable.from(content.subarray(options.start ?? 0, (options.end ?? 9) + 1));
+        }),
+      };
+      // Inject the mocked bucket so no SDK import is needed
+      (provider as any).storage = {};
+      (provider as any).bucket = { file: jest.fn(() => mockFile) };
+    });
+
+    it('should pass inclusive byte ranges to createReadStream', async () => {
+      const result = await provider.getFileStream('clip.mp4', { start: 2, end: 5 });
+
+      expect(mockFile.createReadStream).toHaveBeenCalledWith({ start: 2, end: 5, validation: false });
+      expect(result.isPartialContent).toBe(true);
+      expect(result.range).toEqual({ start: 2, end: 5, total: 10 });
+      expect(result.contentLength).toBe(4);
+      expect(result.etag).toBe('gcs-etag');
+      expect(result.streamType).toBe('node');
+    });
+
+    it('should stream the full object without a range', async () => {
+      const result = await provider.getFileStream('clip.mp4', { responseType: 'web' });
+
+      expect(mockFile.createReadStream).toHaveBeenCalledWith({});
+      expect(result.isPartialContent).toBe(false);
+      expect(result.contentLength).toBe(10);
+      expect(result.streamType).toBe('web');
+    });
+
+    it('should report missing files as not found', async () => {
+      mockFile.getMetadata.mockRejectedValue(Object.assign(new Error('No such object'), { code: 404 }));
+
+      await expect(provider.getFileStream('missing.mp4')).rejects.toThrow('File with key missing.mp4 not found');
+    });
+  });
+
+  describe('getUploadUrl', () => {
+    let provider: GCPStorageProvider;
+    let mockFile: any;
+
+    beforeEach(() => {
+      provider = new GCPStorageProvider(mockConfig);
+      mockFile = {
+        getSignedUrl: jest.fn(() => Promise.resolve(['https://storage.googleapis.com/signed-put'])),
+        generateSignedPostPolicyV4: jest.fn((options: any) => Promise.resolve([{
+          url: 'https://storage.googleapis.com/test-bucket/',
+          fields: { ...options.fields, policy: 'encoded-policy' },
+        }])),
+      };
+      (provider as any).storage = {};
+      (provider as any).bucket = { file: jest.fn(() => mockFile) };
+    });
+
+    it('should sign a PUT with metadata and size headers', async () => {
+      const result = await provider.getUploadUrl({
+        external_id: 'clip-1',
+        key: 'videos/clip.mp4',
+        contentType: 'video/mp4',
+        maxSize: 5000,
+        public: true,
+      });
+
+      expect(mockFile.getSignedUrl).toHaveBeenCalledWith(expect.objectContaining({
+        version: 'v4',
+        action: 'write',
+        contentType: 'video/mp4',
+        extensionHeaders: {
+          'x-goog-meta-external_id': 'clip-1',
+          'x-goog-acl': 'public-read',
+          'x-goog-content-length-range': '0,5000',
+        },
+      }));
+      expect(result.headers).toEqual({
+        'Content-Type': 'video/mp4',
+        'x-goog-meta-external_id': 'clip-1',
+        'x-goog-acl': 'public-read',
+        'x-goog-content-length-range': '0,5000',
+      });
+      expect(result.maxSize).toBe(5000);
+    });
+
+    it('should generate a POST policy with conditions', async () => {
+      const result = await provider.getUploadUrl({
+        external_id: 'clip-1',
+        contentType: 'video/mp4',
+        minSize: 10,
+        maxSize: 5000,
+        method: 'POST',
+      });
+
+      expect(mockFile.generateSignedPostPolicyV4).toHaveBeenCalledWith(expect.objectContaining({
+        conditions: [['eq', '$Content-Type', 'video/mp4'], ['content-length-range', 10, 5000]],
+      }));
+      expect(result.method).toBe('POST');
+      expect(result.fields).toMatchObject({ 'x-goog-meta-external_id': 'clip-1', policy: 'encoded-policy' });
+    });
+  });
+
+  describe('copyFile', () => {
+    let provider: GCPStorageProvider;
+    let sourceFile: any;
+    let copiedFile: any;
+
+    beforeEach(() => {
+      provider = new GCPStorageProvider(mockConfig);
+      copiedFile = {
+        getMetadata: jest.fn(() => Promise.resolve([{ size: '10', etag: 'copy-etag' }])),
+      };
+      sourceFile = {
+        getMetadata: jest.fn(() => Promise.resolve([{
+          size: '10',
+          contentType: 'image/png',
+          cacheControl: 'max-age=60',
+          metadata: { external_id: 'photo-1', owner: 'user-1' },
+        }])),
+        copy: jest.fn(() => Promise.resolve([copiedFile])),
+      };
+      (provider as any).storage = {};
+      (provider as any).bucket = { file: jest.fn((key: string) => key === 'photos/a.png' ? sourceFile : { name: key }) };
+      jest.spyOn(provider, 'fileExists').mockResolvedValue(false);
+      jest.spyOn(provider, 'getFileUrl').mockResolvedValue('https://signed.example.com');
+      jest.spyOn(provider, 'getFileVisibility').mockResolvedValue({
+        visibility: 'public',
+        canMakePublic: true,
+        canMakePrivate: true,
+        supportsTemporaryAccess: true,
+      });
+    });
+
+    it('should copy server-side and re-apply the source visibility', async () => {
+      const result = await provider.copyFile('photos/a.png', 'photos/b.png');
+
+      expect(sourceFile.copy).toHaveBeenCalledWith({ name: 'photos/b.png' }, { predefinedAcl: 'publicRead' });
+      expect(result).toMatchObject({
+        external_id: 'photo-1',
+        key: 'photos/b.png',
+        contentType: 'image/png',
+        etag: 'copy-etag',
+        metadata: { owner: 'user-1' },
+        visibility: 'public',
+      });
+    });
+
+    it('should resend headers when metadata is overridden', async () => {
+      await provider.copyFile('photos/a.png', 'photos/b.png', { external_id: 'photo-2', public: false });
+
+      expect(sourceFile.copy).toHaveBeenCalledWith({ name: 'photos/b.png' }, expect.objectContaining({
+        contentType: 'image/png',
+        cacheControl: 'max-age=60',
+        metadata: { external_id: 'photo-2', owner: 'user-1' },
+      }));
+      expect(sourceFile.copy.mock.calls[0][1].predefinedAcl).toBeUndefined();
+    });
+  });
+});
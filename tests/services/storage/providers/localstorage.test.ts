@@ -366,6 +366,24 @@ describe('LocalStorageDirectoryProvider', () => {
     });
   });
 
+  describe('getFileInfo', () => {
+    test('should read the metadata of a single file', async () => {
+      await provider.uploadFile({ external_id: 'info-1', key: 'docs/a.txt', buffer: Buffer.from('hello'), metadata: { custom: 'value' } });
+      await fs.writeFile(join(testDir, 'docs/no-sidecar.txt'), 'raw');
+
+      expect(await provider.getFileInfo('docs/a.txt')).toMatchObject({
+        external_id: 'info-1',
+        key: 'docs/a.txt',
+        size: 5,
+        contentType: 'text/plain',
+        metadata: { custom: 'value' },
+      });
+      // Like listFiles, files without a metadata sidecar are left out
+      expect(await provider.getFileInfo('docs/no-sidecar.txt')).toBeNull();
+      expect(await provider.getFileInfo('docs/missing.txt')).toBeNull();
+    });
+  });
+
   describe('content type detection', () => {
     const testCases = [
       { filename: 'test.jpg', expectedType: 'image/jpeg' },
@@ -433,4 +451,304 @@ describe('LocalStorageDirectoryProvider', () => {
       }
     });
   });
-});
\ No newline at end of file
+  describe('getFileStream', () => {
+    const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk as Buffer));
+      }
+      return Buffer.concat(chunks).toString();
+    };
+
+    let key: string;
+
+    beforeEach(async () => {
+      const result = await provider.uploadFile({
+        external_id: 'stream-test',
+        buffer: Buffer.from('0123456789'),
+        filename: 'digits.txt',
+        contentType: 'text/plain',
+      });
+      key = result.key;
+    });
+
+    test('should return a web stream of the whole file by default', async () => {
+      const result = await provider.getFileStream(key);
+
+      expect(result.streamType).toBe('web');
+      expect(result.isPartialContent).toBe(false);
+      expect(result.acceptsRanges).toBe(true);
+      expect(result.contentLength).toBe(10);
+      expect(result.contentType).toBe('text/plain');
+    });
+
+    test('should stream a byte range as a Node stream', async () => {
+      const result = await provider.getFileStream(key, { start: 3, end: 6, responseType: 'node' });
+
+      expect(result.streamType).toBe('node');
+      expect(result.isPartialContent).toBe(true);
+      expect(result.range).toEqual({ start: 3, end: 6, total: 10 });
+      expect(result.contentLength).toBe(4);
+      expect(await readAll(result.stream as NodeJS.ReadableStream)).toBe('3456');
+    });
+
+    test('should clamp open-ended ranges to the end of the file', async () => {
+      const result = await provider.getFileStream(key, { start: 7, responseType: 'node' });
+
+      expect(result.range).toEqual({ start: 7, end: 9, total: 10 });
+      expect(await readAll(result.stream as NodeJS.ReadableStream)).toBe('789');
+    });
+
+    test('should reject unsatisfiable ranges', async () => {
+      await expect(provider.getFileStream(key, { start: 20 })).rejects.toMatchObject({
+        code: 'RANGE_NOT_SATISFIABLE',
+        statusCode: 416,
+      });
+    });
+
+    test('should destroy the stream when the signal aborts', async () => {
+      const controller = new AbortController();
+      const result = await provider.getFileStream(key, { responseType: 'node', signal: controller.signal });
+
+      controller.abort();
+
+      await expect(readAll(result.stream as NodeJS.ReadableStream)).rejects.toThrow('aborted');
+    });
+  });
+
+  describe('multipart uploads', () => {
+    test('should assemble uploaded parts into a single file', async () => {
+      const upload = await provider.initiateMultipartUpload({
+        external_id: 'multipart-file',
+        key: 'uploads/assembled.txt',
+        partSize: 4,
+        size: 10,
+        metadata: { source: 'test' },
+      });
+
+      // Parts may arrive out of order
+      await provider.uploadPart(upload, 3, Buffer.from('89'));
+      await provider.uploadPart(upload, 1, Buffer.from('0123'));
+      await provider.uploadPart(upload, 2, Buffer.from('4567'));
+
+      const parts = await provider.listParts(upload);
+      expect(parts.map(p => [p.partNumber, p.size])).toEqual([[1, 4], [2, 4], [3, 2]]);
+
+      const result = await provider.completeMultipartUpload(upload);
+
+      expect(result.size).toBe(10);
+      expect(result.contentType).toBe('text/plain');
+      expect(await fs.readFile(join(testDir, 'uploads/assembled.txt'), 'utf8')).toBe('0123456789');
+
+      const found = await provider.findFileByExternalId('multipart-file');
+      expect(found?.metadata).toEqual({ source: 'test' });
+
+      // Chunk files are removed once the upload completes
+      await expect(fs.readdir(join(testDir, '.multipart', upload.uploadId))).rejects.toThrow();
+    });
+
+    test('should not list in-progress parts as files', async () => {
+      const upload = await provider.initiateMultipartUpload({ external_id: 'pending', partSize: 4 });
+      await provider.uploadPart(upload, 1, Buffer.from('0123'));
+
+      const result = await provider.listFiles();
+      expect(result.files).toHaveLength(0);
+    });
+
+    test('should discard parts when aborted', async () => {
+      const upload = await provider.initiateMultipartUpload({ external_id: 'aborted', partSize: 4 });
+      await provider.uploadPart(upload, 1, Buffer.from('0123'));
+
+      await provider.abortMultipartUpload(upload);
+
+      await expect(provider.listParts(upload)).rejects.toThrow(`Multipart upload ${upload.uploadId} not found`);
+    });
+
+    test('should reject upload ids that are not generated by the provider', async () => {
+      const upload = await provider.initiateMultipartUpload({ external_id: 'tampered', partSize: 4 });
+
+      await expect(provider.listParts({ ...upload, uploadId: '../../etc' })).rejects.toThrow('Invalid multipart upload id');
+    });
+  });
+
+  describe('copyFile / moveFile', () => {
+    beforeEach(async () => {
+      await provider.uploadFile({
+        external_id: 'original',
+        key: 'docs/original.txt',
+        buffer: Buffer.from('hello'),
+        contentType: 'text/plain',
+        public: true,
+        metadata: { owner: 'user-1' },
+      });
+    });
+
+    test('should copy content, metadata and visibility', async () => {
+      const result = await provider.copyFile('docs/original.txt', 'archive/copy.txt', {
+        external_id: 'copy',
+        metadata: { archived: 'true' },
+      });
+
+      expect(result).toMatchObject({
+        external_id: 'copy',
+        key: 'archive/copy.txt',
+        size: 5,
+        contentType: 'text/plain',
+        visibility: 'public',
+        metadata: { owner: 'user-1', archived: 'true' },
+      });
+      expect(await fs.readFile(join(testDir, 'archive/copy.txt'), 'utf8')).toBe('hello');
+      expect(await provider.fileExists('docs/original.txt')).toBe(true);
+
+      const found = await provider.findFileByExternalId('copy');
+      expect(found).toMatchObject({ key: 'archive/copy.txt', visibility: 'public', url: '/test-storage/archive/copy.txt' });
+    });
+
+    test('should refuse to overwrite an existing file unless asked to', async () => {
+      await provider.uploadFile({ external_id: 'other', key: 'docs/other.txt', buffer: Buffer.from('other') });
+
+      await expect(provider.copyFile('docs/original.txt', 'docs/other.txt')).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+
+      await provider.copyFile('docs/original.txt', 'docs/other.txt', { overwrite: true });
+      expect(await fs.readFile(join(testDir, 'docs/other.txt'), 'utf8')).toBe('hello');
+    });
+
+    test('should rename the file and its metadata on move', async () => {
+      const result = await provider.moveFileByExternalId('original', 'moved/renamed.txt');
+
+      expect(result).toMatchObject({ external_id: 'original', key: 'moved/renamed.txt', visibility: 'public' });
+      expect(await provider.fileExists('docs/original.txt')).toBe(false);
+      await expect(fs.access(join(testDir, 'docs/original.txt.json'))).rejects.toThrow();
+
+      const found = await provider.findFileByExternalId('original');
+      expect(found).toMatchObject({ key: 'moved/renamed.txt', metadata: { owner: 'user-1' } });
+    });
+
+    test('should report a missing source', async () => {
+      await expect(provider.moveFile('docs/missing.txt', 'docs/elsewhere.txt')).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+  });
+
+  describe('updateFileMetadata', () => {
+    test('should rewrite the sidecar without touching the content', async () => {
+      await provider.uploadFile({ external_id: 'doc', key: 'docs/a.txt', buffer: Buffer.from('hello'), public: true, metadata: { owner: 'user-1' } });
+
+      const result = await provider.updateFileMetadata('docs/a.txt', {
+        metadata: { stage: 'final' },
+        contentType: 'text/markdown',
+        cacheControl: 'public, max-age=3600',
+      });
+
+      expect(result).toMatchObject({
+        external_id: 'doc',
+        size: 5,
+        contentType: 'text/markdown',
+        visibility: 'public',
+        metadata: { owner: 'user-1', stage: 'final' },
+        cacheControl: 'public, max-age=3600',
+      });
+      const stream = await provider.getFileStream('docs/a.txt', { responseType: 'node' });
+      expect(stream).toMatchObject({ contentType: 'text/markdown', providerSpecific: { cacheControl: 'public, max-age=3600' } });
+      await stream.cleanup?.();
+
+      const replaced = await provider.updateFileMetadataByExternalId('doc', { metadata: { stage: 'archived' } }, { merge: false });
+      expect(replaced.metadata).toEqual({ stage: 'archived' });
+      expect(await fs.readFile(join(testDir, 'docs/a.txt'), 'utf8')).toBe('hello');
+      await expect(provider.updateFileMetadata('docs/missing.txt', {})).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+  });
+
+  describe('tags and storage classes', () => {
+    test('should keep tags and the storage class in the sidecar', async () => {
+      await provider.uploadFile({ external_id: 'a', key: 'docs/a.txt', buffer: Buffer.from('a'), tags: { team: 'billing' } });
+      await provider.uploadFile({ external_id: 'b', key: 'docs/b.txt', buffer: Buffer.from('b'), storageClass: 'COLD' });
+
+      await provider.setFileTags('docs/b.txt', { team: 'support' });
+      await provider.setStorageClass('docs/a.txt', 'ARCHIVE');
+
+      expect(await provider.getFileTags('docs/b.txt')).toEqual({ team: 'support' });
+      expect(await provider.findFileByExternalId('a')).toMatchObject({ storageClass: 'ARCHIVE', tags: { team: 'billing' } });
+      expect((await provider.listFiles({ tags: { team: 'support' } })).files.map(file => file.key)).toEqual(['docs/b.txt']);
+      expect((await provider.listFiles({ storageClass: 'ARCHIVE' })).files.map(file => file.key)).toEqual(['docs/a.txt']);
+      await expect(provider.getFileTags('docs/missing.txt')).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+  });
+
+  describe('getUploadUrl', () => {
+    const putRequest = (url: string, body: string, headers: Record<string, string> = {}) =>
+      new Request(new URL(url, 'http://localhost:3000'), {
+        method: 'PUT',
+        body,
+        headers: { 'Content-Type': 'text/plain', ...headers },
+      });
+
+    test('should issue a signed URL that the upload handler accepts', async () => {
+      const upload = await provider.getUploadUrl({
+        external_id: 'direct-upload',
+        key: 'direct/notes.txt',
+        maxSize: 100,
+        metadata: { source: 'browser' },
+      });
+
+      expect(upload.url).toMatch(/^\/api\/localstorage\/upload\?token=/);
+      expect(upload.headers).toEqual({ 'Content-Type': 'text/plain' });
+
+      const response = await provider.handleUploadRequest(putRequest(upload.url, 'hello world'));
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({ key: 'direct/notes.txt', size: 11 });
+      expect(await fs.readFile(join(testDir, 'direct/notes.txt'), 'utf8')).toBe('hello world');
+
+      const found = await provider.findFileByExternalId('direct-upload');
+      expect(found?.metadata).toEqual({ source: 'browser' });
+    });
+
+    test('should reject tampered tokens', async () => {
+      const upload = await provider.getUploadUrl({ external_id: 'direct-upload', key: 'direct/notes.txt' });
+      const token = new URL(upload.url, 'http://localhost').searchParams.get('token') as string;
+      const [, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ key: '../escape.txt', expiresAt: Date.now() + 60000 })).toString('base64url');
+
+      expect(() => provider.verifyUploadToken(`${forged}.${signature}`)).toThrow('Invalid upload token signature');
+
+      const response = await provider.handleUploadRequest(putRequest(`/upload?token=${forged}.${signature}`, 'x'));
+      expect(response.status).toBe(403);
+    });
+
+    test('should reject expired tokens', async () => {
+      const upload = await provider.getUploadUrl({ external_id: 'direct-upload', expiresIn: -1 });
+
+      const response = await provider.handleUploadRequest(putRequest(upload.url, 'hello'));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'UPLOAD_URL_EXPIRED' });
+    });
+
+    test('should enforce the reserved content type', async () => {
+      const upload = await provider.getUploadUrl({ external_id: 'direct-upload', contentType: 'image/png' });
+
+      const response = await provider.handleUploadRequest(putRequest(upload.url, 'not an image'));
+
+      expect(response.status).toBe(415);
+    });
+
+    test('should enforce size limits while streaming', async () => {
+      const upload = await provider.getUploadUrl({ external_id: 'direct-upload', key: 'direct/big.txt', maxSize: 5 });
+
+      const response = await provider.handleUploadRequest(putRequest(upload.url, 'more than five bytes'));
+
+      expect(response.status).toBe(413);
+      expect(await provider.fileExists('direct/big.txt')).toBe(false);
+    });
+
+    test('should enforce the minimum size', async () => {
+      const upload = await provider.getUploadUrl({ external_id: 'direct-upload', key: 'direct/small.txt', minSize: 10 });
+
+      const response = await provider.handleUploadRequest(putRequest(upload.url, 'tiny'));
+
+      expect(response.status).toBe(400);
+      expect(await provider.fileExists('direct/small.txt')).toBe(false);
+    });
+  });
+});
+
@@ -0,0 +1,171 @@
+import { Readable } from 'stream';
+import { MemoryStorageProvider } from '../../../../src/services/storage/providers/memory';
+import { initializeStorageProvider } from '../../../../src/services/storage/config';
+import { getStorageProvider } from '../../../../src/services/storage/storage';
+
+describe('MemoryStorageProvider', () => {
+  let provider: MemoryStorageProvider;
+
+  const readAll = async (stream: NodeJS.ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  beforeEach(() => {
+    provider = new MemoryStorageProvider();
+  });
+
+  it('should store uploads from buffers and streams', async () => {
+    const fromBuffer = await provider.uploadFile({
+      external_id: 'doc-1',
+      key: 'docs/readme.txt',
+      buffer: Buffer.from('hello'),
+      metadata: { owner: 'user-1' },
+    });
+    await provider.uploadFile({
+      external_id: 'doc-2',
+      key: 'docs/notes.md',
+      stream: Readable.from([Buffer.from('# '), Buffer.from('notes')]),
+      contentType: 'text/markdown',
+    });
+
+    expect(fromBuffer).toMatchObject({
+      key: 'docs/readme.txt',
+      url: 'memory://docs/readme.txt',
+      size: 5,
+      contentType: 'text/plain',
+      visibility: 'private',
+    });
+    expect(provider.getStoredObject('docs/notes.md')?.data.toString()).toBe('# notes');
+    expect(provider.getStoredObjects().map(o => o.key)).toEqual(['docs/notes.md', 'docs/readme.txt']);
+    expect(await provider.findFileByExternalId('doc-1')).toMatchObject({ key: 'docs/readme.txt', metadata: { owner: 'user-1' } });
+    expect(await provider.getFileInfo('docs/readme.txt')).toMatchObject({ external_id: 'doc-1', size: 5, metadata: { owner: 'user-1' } });
+    expect(await provider.getFileInfo('docs')).toBeNull();
+
+    await provider.deleteFileByExternalId('doc-1');
+    expect(await provider.fileExists('docs/readme.txt')).toBe(false);
+  });
+
+  it('should stream byte ranges', async () => {
+    await provider.uploadFile({ external_id: 'clip', key: 'clip.mp4', buffer: Buffer.from('0123456789') });
+
+    const partial = await provider.getFileStream('clip.mp4', { start: 2, end: 5 });
+    expect(await readAll(partial.stream as NodeJS.ReadableStream)).toBe('2345');
+    expect(partial).toMatchObject({ isPartialContent: true, contentLength: 4, range: { start: 2, end: 5, total: 10 } });
+
+    const full = await provider.getFileStreamByExternalId('clip', { responseType: 'web' });
+    expect(full.streamType).toBe('web');
+    expect(full.isPartialContent).toBe(false);
+
+    await expect(provider.getFileStream('clip.mp4', { start: 20 })).rejects.toMatchObject({ code: 'RANGE_NOT_SATISFIABLE' });
+    await expect(provider.getFileStream('missing.mp4')).rejects.toThrow('File with key missing.mp4 not found');
+  });
+
+  it('should filter, sort and paginate listings', async () => {
+    await provider.uploadFile({ external_id: 'a', key: 'images/a.png', buffer: Buffer.alloc(30) });
+    await provider.uploadFile({ external_id: 'b', key: 'images/b.jpg', buffer: Buffer.alloc(10), metadata: { album: 'trip' } });
+    await provider.uploadFile({ external_id: 'c', key: 'images/c.png', buffer: Buffer.alloc(20) });
+    await provider.uploadFile({ external_id: 'd', key: 'docs/d.pdf', buffer: Buffer.alloc(5) });
+
+    const images = await provider.listFiles({ prefix: 'images/', sortBy: 'size', sortOrder: 'desc', limit: 2 });
+    expect(images.files.map(f => f.key)).toEqual(['images/a.png', 'images/c.png']);
+    expect(images).toMatchObject({ totalCount: 3, hasMore: true, nextOffset: 2 });
+
+    const nextPage = await provider.listFiles({ prefix: 'images/', sortBy: 'size', sortOrder: 'desc', limit: 2, continuationToken: images.continuationToken });
+    expect(nextPage.files.map(f => f.key)).toEqual(['images/b.jpg']);
+    expect(nextPage.hasMore).toBe(false);
+
+    expect((await provider.listFiles({ filenamePattern: '*.png' })).files).toHaveLength(2);
+    expect((await provider.listFiles({ metadata: { album: 'trip' }, includeMetadata: false })).files.map(f => f.key)).toEqual(['images/b.jpg']);
+    expect((await provider.listFiles({ contentTypePrefix: 'image/', maxSize: 20 })).files).toHaveLength(2);
+  });
+
+  it('should search across fields and visibility', async () => {
+    await provider.uploadFile({ external_id: 'invoice-1', key: 'billing/jan.pdf', buffer: Buffer.from('x'), public: true });
+    await provider.uploadFile({ external_id: 'report-1', key: 'reports/jan.pdf', buffer: Buffer.from('x'), metadata: { tag: 'Invoice' } });
+
+    expect((await provider.searchFiles({ query: 'invoice' })).files).toHaveLength(2);
+    expect((await provider.searchFiles({ query: 'invoice', searchFields: ['external_id'] })).files).toHaveLength(1);
+    expect((await provider.searchFiles({ query: 'invoice', onlyPublic: true })).files.map(f => f.key)).toEqual(['billing/jan.pdf']);
+  });
+
+  it('should track visibility', async () => {
+    await provider.uploadFile({ external_id: 'photo', key: 'photo.jpg', buffer: Buffer.from('x') });
+
+    const result = await provider.setFileVisibilityByExternalId('photo', 'public');
+
+    expect(result).toMatchObject({ success: true, actualVisibility: 'public', publicUrl: 'memory://photo.jpg' });
+    expect((await provider.getFileVisibility('photo.jpg')).visibility).toBe('public');
+    expect((await provider.setFileVisibility('missing.jpg', 'public')).success).toBe(false);
+  });
+
+  it('should update metadata and headers in place', async () => {
+    await provider.uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('x'), metadata: { owner: 'ada', stage: 'draft' } });
+
+    const merged = await provider.updateFileMetadata('doc.txt', { metadata: { stage: 'final' }, cacheControl: 'max-age=60' });
+    expect(merged).toMatchObject({ external_id: 'doc', metadata: { owner: 'ada', stage: 'final' }, contentType: 'text/plain', cacheControl: 'max-age=60' });
+
+    const replaced = await provider.updateFileMetadataByExternalId('doc', {
+      metadata: { reviewed: 'yes' },
+      contentType: 'text/markdown',
+      contentDisposition: 'attachment; filename="doc.md"',
+    }, { merge: false });
+    expect(replaced.metadata).toEqual({ reviewed: 'yes' });
+    expect(provider.getStoredObject('doc.txt')).toMatchObject({
+      external_id: 'doc',
+      contentType: 'text/markdown',
+      cacheControl: 'max-age=60',
+      contentDisposition: 'attachment; filename="doc.md"',
+      data: Buffer.from('x'),
+    });
+    await expect(provider.updateFileMetadata('missing.txt', { metadata: {} })).rejects.toThrow('File with key missing.txt not found');
+  });
+
+  it('should manage tags and storage classes and filter listings by them', async () => {
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a'), tags: { team: 'billing' }, storageClass: 'COLD' });
+    await provider.uploadFile({ external_id: 'b', key: 'b.txt', buffer: Buffer.from('b') });
+
+    await provider.setFileTags('b.txt', { team: 'billing', stage: 'final' });
+    await provider.setStorageClass('a.txt', 'ARCHIVE');
+
+    expect(await provider.getFileTags('b.txt')).toEqual({ team: 'billing', stage: 'final' });
+    expect((await provider.listFiles({ tags: { team: 'billing' } })).files.map(file => [file.key, file.storageClass])).toEqual([
+      ['a.txt', 'ARCHIVE'],
+      ['b.txt', 'STANDARD'],
+    ]);
+    expect((await provider.listFiles({ tags: { stage: 'final' } })).files.map(file => file.key)).toEqual(['b.txt']);
+    expect((await provider.listFiles({ storageClass: ['ARCHIVE', 'COLD'] })).files.map(file => file.key)).toEqual(['a.txt']);
+    await expect(provider.setStorageClass('missing.txt', 'COLD')).rejects.toThrow('File with key missing.txt not found');
+  });
+
+  it('should throw injected failures until they run out', async () => {
+    provider.injectFailure('uploadFile', { times: 1 });
+    provider.injectFailure('getFileStream', { key: 'broken.txt', error: new Error('disk on fire') });
+
+    await expect(provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') }))
+      .rejects.toMatchObject({ code: 'INJECTED_FAILURE' });
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+    await provider.uploadFile({ external_id: 'b', key: 'broken.txt', buffer: Buffer.from('b') });
+
+    await expect(provider.getFileStream('a.txt')).resolves.toBeDefined();
+    await expect(provider.getFileStreamByExternalId('b')).rejects.toThrow('disk on fire');
+
+    provider.clearFailures();
+    await expect(provider.getFileStream('broken.txt')).resolves.toBeDefined();
+  });
+
+  it('should be selectable through initializeStorageProvider', () => {
+    const originalEnv = { ...process.env };
+    process.env.CRUNCHYCONE_STORAGE_PROVIDER = 'memory';
+
+    try {
+      initializeStorageProvider();
+      expect(getStorageProvider()).toBeInstanceOf(MemoryStorageProvider);
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
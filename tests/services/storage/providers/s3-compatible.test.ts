@@ -0,0 +1,619 @@
+import { createHash } from 'crypto';
+import { S3CompatibleProvider } from '../../../../src/services/storage/providers/s3-compatible';
+import { verifyFileChecksum } from '../../../../src/services/storage/checksum';
+import { createFakeS3, FakeS3Object } from '../shared/fake-sdks';
+
+describe('S3CompatibleProvider', () => {
+  // Fake bucket shared with the mocked AWS SDK
+  const s3 = createFakeS3();
+  const { objects, sentCommands } = s3;
+
+  beforeAll(() => {
+    jest.doMock('@aws-sdk/client-s3', () => s3.sdk);
+    jest.doMock('@aws-sdk/s3-request-presigner', () => s3.presigner);
+  });
+
+  afterAll(() => {
+    jest.unmock('@aws-sdk/client-s3');
+    jest.unmock('@aws-sdk/s3-request-presigner');
+  });
+
+  const addObject = (key: string, overrides: Partial<FakeS3Object> = {}) => {
+    objects.push({
+      Key: key,
+      Size: 100,
+      LastModified: new Date('2024-01-01T00:00:00Z'),
+      ETag: `"${key}"`,
+      ContentType: 'text/plain',
+      Metadata: { external_id: key.replace(/\W/g, '-') },
+      ...overrides,
+    });
+  };
+
+  let provider: S3CompatibleProvider;
+
+  beforeEach(() => {
+    s3.reset();
+    provider = new S3CompatibleProvider({
+      accessKeyId: 'test-key',
+      secretAccessKey: 'test-secret',
+      region: 'us-east-1',
+      bucket: 'test-bucket',
+    });
+  });
+
+  describe('listFiles', () => {
+    it('should map objects to StorageFileInfo using HeadObject metadata', async () => {
+      addObject('images/a.png', {
+        ContentType: 'image/png',
+        Size: 2048,
+        Metadata: { 'external-id': 'img-a', owner: 'user-1' },
+      });
+
+      const result = await provider.listFiles({ includeMetadata: true });
+
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0]).toMatchObject({
+        external_id: 'img-a',
+        key: 'images/a.png',
+        size: 2048,
+        contentType: 'image/png',
+        etag: '"images/a.png"',
+        metadata: { 'external-id': 'img-a', owner: 'user-1' },
+      });
+      expect(result.hasMore).toBe(false);
+      expect(result.totalCount).toBe(1);
+    });
+
+    it('should pass prefix to ListObjectsV2', async () => {
+      addObject('docs/a.txt');
+      addObject('images/b.png');
+
+      const result = await provider.listFiles({ prefix: 'docs/' });
+
+      expect(result.files.map(f => f.key)).toEqual(['docs/a.txt']);
+      expect(sentCommands[0].input.Prefix).toBe('docs/');
+    });
+
+    it('should page with continuation tokens without skipping objects', async () => {
+      for (let i = 0; i < 5; i++) {
+        addObject(`files/${i}.txt`);
+      }
+
+      const first = await provider.listFiles({ limit: 2 });
+      expect(first.files.map(f => f.key)).toEqual(['files/0.txt', 'files/1.txt']);
+      expect(first.hasMore).toBe(true);
+      expect(first.continuationToken).toBeDefined();
+
+      const second = await provider.listFiles({ limit: 2, continuationToken: first.continuationToken });
+      expect(second.files.map(f => f.key)).toEqual(['files/2.txt', 'files/3.txt']);
+
+      const third = await provider.listFiles({ limit: 2, continuationToken: second.continuationToken });
+      expect(third.files.map(f => f.key)).toEqual(['files/4.txt']);
+      expect(third.hasMore).toBe(false);
+      expect(third.continuationToken).toBeUndefined();
+    });
+
+    it('should support offset-based pagination', async () => {
+      for (let i = 0; i < 5; i++) {
+        addObject(`files/${i}.txt`);
+      }
+
+      const result = await provider.listFiles({ limit: 2, offset: 2 });
+
+      expect(result.files.map(f => f.key)).toEqual(['files/2.txt', 'files/3.txt']);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextOffset).toBe(4);
+    });
+
+    it('should keep listing pages until enough files pass the filters', async () => {
+      for (let i = 0; i < 4; i++) {
+        addObject(`files/${i}.txt`, { ContentType: i === 3 ? 'image/png' : 'text/plain' });
+      }
+
+      const result = await provider.listFiles({ limit: 1, contentTypePrefix: 'image/' });
+
+      expect(result.files.map(f => f.key)).toEqual(['files/3.txt']);
+    });
+
+    it('should apply external_id, size, date and metadata filters', async () => {
+      addObject('a.txt', { Size: 10, Metadata: { external_id: 'user-1-a', category: 'x' } });
+      addObject('b.txt', { Size: 500, Metadata: { external_id: 'user-1-b', category: 'y' } });
+      addObject('c.txt', {
+        Size: 500,
+        LastModified: new Date('2023-01-01T00:00:00Z'),
+        Metadata: { external_id: 'user-2-c', category: 'y' },
+      });
+
+      expect((await provider.listFiles({ externalIdPrefix: 'user-1' })).files.map(f => f.key))
+        .toEqual(['a.txt', 'b.txt']);
+      expect((await provider.listFiles({ externalIds: ['user-2-c'] })).files.map(f => f.key))
+        .toEqual(['c.txt']);
+      expect((await provider.listFiles({ minSize: 100 })).files.map(f => f.key))
+        .toEqual(['b.txt', 'c.txt']);
+      expect((await provider.listFiles({ modifiedAfter: new Date('2023-06-01T00:00:00Z') })).files.map(f => f.key))
+        .toEqual(['a.txt', 'b.txt']);
+      expect((await provider.listFiles({ metadata: { category: 'y' } })).files.map(f => f.key))
+        .toEqual(['b.txt', 'c.txt']);
+      expect((await provider.listFiles({ filenamePattern: 'a.*' })).files.map(f => f.key))
+        .toEqual(['a.txt']);
+    });
+
+    it('should only send HeadObject when the metadata is asked for or filtered on', async () => {
+      addObject('images/a.png', { ContentType: 'image/png', Size: 2048, Metadata: { external_id: 'img-a', owner: 'user-1' } });
+      addObject('images/b.png', { ContentType: 'image/png', Metadata: { external_id: 'img-b' } });
+
+      const result = await provider.listFiles({ prefix: 'images/', minSize: 1000 });
+
+      expect(sentCommands.map(c => c.name)).toEqual(['ListObjectsV2']);
+      expect(result.files).toEqual([expect.objectContaining({ key: 'images/a.png', size: 2048, contentType: 'image/png', external_id: '' })]);
+      expect(result.files[0].metadata).toBeUndefined();
+
+      await provider.listFiles({ prefix: 'images/', externalIdPrefix: 'img-' });
+      expect(sentCommands.filter(c => c.name === 'HeadObject')).toHaveLength(2);
+    });
+
+    it('should sort files when sortBy is provided', async () => {
+      addObject('a.txt', { Size: 30 });
+      addObject('b.txt', { Size: 10 });
+      addObject('c.txt', { Size: 20 });
+
+      const result = await provider.listFiles({ sortBy: 'size', sortOrder: 'desc' });
+
+      expect(result.files.map(f => f.key)).toEqual(['a.txt', 'c.txt', 'b.txt']);
+    });
+  });
+
+  describe('listFiles with a delimiter', () => {
+    it('should return the common prefixes S3 reports next to the files', async () => {
+      ['docs/', 'docs/a.txt', 'docs/nested/b.txt', 'docs/nested/c.txt', 'docs/other/d.txt', 'e.txt'].forEach(key =>
+        addObject(key, key.endsWith('/') ? { Size: 0 } : {}));
+
+      const result = await provider.listFiles({ prefix: 'docs/', delimiter: '/' });
+
+      expect(sentCommands.find(c => c.name === 'ListObjectsV2')?.input).toMatchObject({ Prefix: 'docs/', Delimiter: '/' });
+      // The docs/ folder marker is the listed folder itself, not a file in it
+      expect(result.files.map(f => f.key)).toEqual(['docs/a.txt']);
+      expect(result.commonPrefixes).toEqual(['docs/nested/', 'docs/other/']);
+      expect((await provider.listFiles({ prefix: 'docs/' })).commonPrefixes).toBeUndefined();
+    });
+  });
+
+  describe('getFileInfo', () => {
+    it('should read a single object with HeadObject', async () => {
+      addObject('docs/a.txt', { Size: 42, Metadata: { 'external-id': 'doc-a', owner: 'user-1' } });
+      addObject('docs/a.txt.bak');
+
+      expect(await provider.getFileInfo('docs/a.txt')).toMatchObject({
+        external_id: 'doc-a',
+        key: 'docs/a.txt',
+        size: 42,
+        etag: '"docs/a.txt"',
+        metadata: { 'external-id': 'doc-a', owner: 'user-1' },
+      });
+      expect(await provider.getFileInfo('docs/missing.txt')).toBeNull();
+      expect(sentCommands.map(c => c.name)).toEqual(['HeadObject', 'HeadObject']);
+    });
+  });
+
+  describe('searchFiles', () => {
+    beforeEach(() => {
+      addObject('reports/q1-summary.pdf', { ContentType: 'application/pdf', Metadata: { external_id: 'report-q1' } });
+      addObject('reports/q2-summary.pdf', { ContentType: 'application/pdf', Metadata: { external_id: 'report-q2' } });
+      addObject('images/logo.png', { ContentType: 'image/png', Metadata: { external_id: 'logo' } });
+    });
+
+    it('should match query against filename and external_id', async () => {
+      const result = await provider.searchFiles({ query: 'SUMMARY' });
+
+      expect(result.files.map(f => f.key)).toEqual(['reports/q1-summary.pdf', 'reports/q2-summary.pdf']);
+      expect(result.query).toBe('SUMMARY');
+    });
+
+    it('should respect exactMatch and searchFields', async () => {
+      const result = await provider.searchFiles({ query: 'logo', searchFields: ['external_id'], exactMatch: true });
+
+      expect(result.files.map(f => f.key)).toEqual(['images/logo.png']);
+    });
+
+    it('should combine query with list filters and paginate', async () => {
+      const result = await provider.searchFiles({ query: 'report', contentType: 'application/pdf', limit: 1 });
+
+      expect(result.files.map(f => f.key)).toEqual(['reports/q1-summary.pdf']);
+      expect(result.totalCount).toBe(2);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextOffset).toBe(1);
+    });
+
+    it('should search past the first 1000 objects', async () => {
+      for (let i = 0; i < 1005; i++) {
+        addObject(`archive/${String(i).padStart(4, '0')}-summary.txt`);
+      }
+
+      const result = await provider.searchFiles({ query: 'summary', searchFields: ['filename'], offset: 1005, limit: 10 });
+
+      expect(result.files.map(f => f.key)).toEqual(['reports/q1-summary.pdf', 'reports/q2-summary.pdf']);
+      expect(result.totalCount).toBe(1007);
+      expect(result.hasMore).toBe(false);
+      // Filenames come with the listing, so no object needed a HeadObject
+      expect(sentCommands.map(c => c.name)).toEqual(['ListObjectsV2', 'ListObjectsV2']);
+    });
+  });
+
+  describe('getFileStream', () => {
+    const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk as Buffer));
+      }
+      return Buffer.concat(chunks).toString();
+    };
+
+    beforeEach(() => {
+      addObject('videos/clip.mp4', { ContentType: 'video/mp4', Content: Buffer.from('0123456789'), Size: 10 });
+    });
+
+    it('should stream the whole object as a Node stream by default', async () => {
+      const result = await provider.getFileStream('videos/clip.mp4');
+
+      expect(result.streamType).toBe('node');
+      expect(result.isPartialContent).toBe(false);
+      expect(result.acceptsRanges).toBe(true);
+      expect(result.contentType).toBe('video/mp4');
+      expect(result.etag).toBe('"videos/clip.mp4"');
+      expect(await readAll(result.stream as NodeJS.ReadableStream)).toBe('0123456789');
+    });
+
+    it('should send a Range header and report partial content', async () => {
+      const result = await provider.getFileStream('videos/clip.mp4', { start: 2, end: 5 });
+
+      const getCommand = sentCommands.find(c => c.name === 'GetObject')!;
+      expect(getCommand.input.Range).toBe('bytes=2-5');
+      expect(getCommand.options.abortSignal).toBeDefined();
+      expect(result.isPartialContent).toBe(true);
+      expect(result.range).toEqual({ start: 2, end: 5, total: 10 });
+      expect(result.contentLength).toBe(4);
+      expect(await readAll(result.stream as NodeJS.ReadableStream)).toBe('2345');
+    });
+
+    it('should return a web stream when requested', async () => {
+      const result = await provider.getFileStream('videos/clip.mp4', { start: 8, responseType: 'web' });
+
+      expect(result.streamType).toBe('web');
+      expect(result.stream).toBeInstanceOf(ReadableStream);
+      expect(result.range).toEqual({ start: 8, end: 9, total: 10 });
+    });
+
+    it('should throw a not found error for missing objects', async () => {
+      await expect(provider.getFileStream('missing.mp4')).rejects.toThrow('File with key missing.mp4 not found');
+    });
+
+    it('should resolve external IDs before streaming', async () => {
+      objects[0].Metadata = { external_id: 'clip-1' };
+
+      const result = await provider.getFileStreamByExternalId('clip-1', { start: 0, end: 0 });
+
+      expect(await readAll(result.stream as NodeJS.ReadableStream)).toBe('0');
+    });
+  });
+
+  describe('multipart uploads', () => {
+    const MB = 1024 * 1024;
+
+    it('should run the full multipart lifecycle', async () => {
+      const upload = await provider.initiateMultipartUpload({
+        external_id: 'big-file',
+        key: 'uploads/big.bin',
+        partSize: 5 * MB,
+        size: 6 * MB,
+      });
+
+      expect(upload).toMatchObject({ uploadId: 'upload-1', key: 'uploads/big.bin', partSize: 5 * MB });
+      expect(sentCommands[0].input.Metadata).toEqual({ external_id: 'big-file' });
+
+      await provider.uploadPart(upload, 1, Buffer.alloc(5 * MB));
+      await provider.uploadPart(upload, 2, Buffer.alloc(1 * MB));
+
+      const parts = await provider.listParts(upload);
+      expect(parts.map(p => [p.partNumber, p.size, p.etag])).toEqual([
+        [1, 5 * MB, '"part-1"'],
+        [2, 1 * MB, '"part-2"'],
+      ]);
+
+      const result = await provider.completeMultipartUpload(upload);
+      const complete = sentCommands.find(c => c.name === 'CompleteMultipartUpload');
+      expect(complete?.input.MultipartUpload.Parts).toEqual([
+        { PartNumber: 1, ETag: '"part-1"' },
+        { PartNumber: 2, ETag: '"part-2"' },
+      ]);
+      expect(result).toMatchObject({ key: 'uploads/big.bin', size: 6 * MB, etag: '"multipart-etag"' });
+    });
+
+    it('should reject part sizes below the S3 minimum', async () => {
+      await expect(provider.initiateMultipartUpload({ external_id: 'small', partSize: MB }))
+        .rejects.toMatchObject({ code: 'INVALID_PART' });
+    });
+
+    it('should reject parts that do not match the upload layout', async () => {
+      const upload = await provider.initiateMultipartUpload({ external_id: 'big-file', partSize: 5 * MB, size: 6 * MB });
+
+      await expect(provider.uploadPart(upload, 1, Buffer.alloc(MB))).rejects.toMatchObject({ code: 'INVALID_PART' });
+      await expect(provider.uploadPart(upload, 3, Buffer.alloc(MB))).rejects.toMatchObject({ code: 'INVALID_PART' });
+    });
+
+    it('should treat aborting an unknown upload as a no-op', async () => {
+      const upload = await provider.initiateMultipartUpload({ external_id: 'big-file', partSize: 5 * MB });
+
+      await provider.abortMultipartUpload(upload);
+      await expect(provider.abortMultipartUpload(upload)).resolves.toBeUndefined();
+      await expect(provider.uploadPart(upload, 1, Buffer.alloc(5 * MB))).rejects.toThrow(`Multipart upload ${upload.uploadId} not found`);
+    });
+  });
+
+  describe('checksums', () => {
+    it('should send and store the checksum of an upload', async () => {
+      const content = Buffer.from('checksum me');
+      const md5 = createHash('md5').update(content).digest('base64');
+
+      const result = await provider.uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: content, checksumAlgorithm: 'md5' });
+
+      expect(result.checksum).toEqual({ algorithm: 'md5', value: md5 });
+      expect(sentCommands[0].input).toMatchObject({ ContentMD5: md5, Metadata: { checksum_md5: md5, external_id: 'doc' } });
+      expect(sentCommands[0].input.ChecksumSHA256).toBeUndefined();
+      expect((await provider.listFiles({ includeMetadata: true })).files[0].checksum).toEqual({ algorithm: 'md5', value: md5 });
+    });
+
+    it('should verify stored content against the checksum', async () => {
+      await provider.uploadFile({ external_id: 'doc', key: 'doc.txt', buffer: Buffer.from('original'), checksumAlgorithm: 'sha256' });
+      expect(sentCommands[0].input.ChecksumSHA256).toBeDefined();
+
+      expect(await verifyFileChecksum(provider, 'doc.txt')).toMatchObject({ valid: true, algorithm: 'sha256' });
+
+      objects[0].Content = Buffer.from('tampered');
+      expect(await verifyFileChecksum(provider, 'doc.txt')).toMatchObject({ valid: false });
+    });
+  });
+
+  describe('copyFile / moveFile', () => {
+    it('should copy server-side and keep metadata and visibility', async () => {
+      addObject('docs/a.txt', { Metadata: { external_id: 'doc-a', owner: 'user-1' }, Public: true });
+
+      const result = await provider.copyFile('docs/a.txt', 'archive/a.txt');
+
+      const copy = sentCommands.find(c => c.name === 'CopyObject')!;
+      expect(copy.input).toMatchObject({
+        CopySource: 'test-bucket/docs/a.txt',
+        Key: 'archive/a.txt',
+        MetadataDirective: 'COPY',
+        ACL: 'public-read',
+      });
+      expect(result).toMatchObject({
+        external_id: 'doc-a',
+        key: 'archive/a.txt',
+        contentType: 'text/plain',
+        metadata: { owner: 'user-1' },
+        visibility: 'public',
+      });
+    });
+
+    it('should replace metadata when overrides are given', async () => {
+      addObject('docs/a.txt', { Metadata: { external_id: 'doc-a', owner: 'user-1' } });
+
+      await provider.copyFile('docs/a.txt', 'docs/b.txt', { external_id: 'doc-b', contentType: 'text/markdown' });
+
+      const copy = sentCommands.find(c => c.name === 'CopyObject')!;
+      expect(copy.input).toMatchObject({
+        MetadataDirective: 'REPLACE',
+        ContentType: 'text/markdown',
+        Metadata: { external_id: 'doc-b', owner: 'user-1' },
+      });
+    });
+
+    it('should refuse to overwrite unless asked to', async () => {
+      addObject('docs/a.txt');
+      addObject('docs/b.txt');
+
+      await expect(provider.copyFile('docs/a.txt', 'docs/b.txt')).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+      await expect(provider.copyFile('docs/a.txt', 'docs/b.txt', { overwrite: true })).resolves.toMatchObject({ key: 'docs/b.txt' });
+      await expect(provider.copyFile('docs/missing.txt', 'docs/c.txt')).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+
+    it('should delete the source after a move', async () => {
+      addObject('docs/a.txt', { Metadata: { external_id: 'doc-a' } });
+
+      await provider.moveFileByExternalId('doc-a', 'docs/renamed.txt');
+
+      expect(objects.map(o => o.Key)).toEqual(['docs/renamed.txt']);
+    });
+  });
+
+  describe('updateFileMetadata', () => {
+    it('should copy the object onto itself with the new metadata and headers', async () => {
+      addObject('docs/a.txt', { Metadata: { external_id: 'doc-a', owner: 'user-1' }, Public: true });
+
+      const result = await provider.updateFileMetadata('docs/a.txt', { metadata: { stage: 'final' }, cacheControl: 'max-age=60' });
+
+      const copy = sentCommands.find(c => c.name === 'CopyObject')!;
+      expect(copy.input).toMatchObject({
+        CopySource: 'test-bucket/docs/a.txt',
+        Key: 'docs/a.txt',
+        MetadataDirective: 'REPLACE',
+        ACL: 'public-read',
+        ContentType: 'text/plain',
+        CacheControl: 'max-age=60',
+        Metadata: { external_id: 'doc-a', owner: 'user-1', stage: 'final' },
+      });
+      expect(result).toMatchObject({ external_id: 'doc-a', metadata: { owner: 'user-1', stage: 'final' }, visibility: 'public', cacheControl: 'max-age=60' });
+    });
+
+    it('should replace the metadata when merge is false', async () => {
+      addObject('docs/a.txt', {
+        Metadata: { external_id: 'doc-a', owner: 'user-1', 'checksum-sha256': 'abc=', 'expires-at': '2030-01-01T00:00:00.000Z' },
+      });
+
+      await provider.updateFileMetadataByExternalId('doc-a', { metadata: { stage: 'final' } }, { merge: false });
+
+      // The checksum and expiration the library wrote survive the replacement
+      const copy = sentCommands.find(c => c.name === 'CopyObject')!;
+      expect(copy.input.Metadata).toEqual({
+        external_id: 'doc-a',
+        stage: 'final',
+        'checksum-sha256': 'abc=',
+        'expires-at': '2030-01-01T00:00:00.000Z',
+      });
+      await expect(provider.updateFileMetadata('docs/missing.txt', {})).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+  });
+
+  describe('tags and storage classes', () => {
+    it('should send tags and the storage class with the upload', async () => {
+      await provider.uploadFile({
+        external_id: 'doc',
+        key: 'docs/a.txt',
+        buffer: Buffer.from('hello'),
+        tags: { team: 'billing', year: '2024' },
+        storageClass: 'STANDARD_IA',
+      });
+
+      const put = sentCommands.find(c => c.name === 'PutObject')!;
+      expect(put.input).toMatchObject({ Tagging: 'team=billing&year=2024', StorageClass: 'STANDARD_IA' });
+    });
+
+    it('should manage tags and transition storage classes in place', async () => {
+      addObject('docs/a.txt', { Metadata: { external_id: 'doc-a', owner: 'user-1' }, Public: true });
+
+      await provider.setFileTags('docs/a.txt', { team: 'billing' });
+      expect(await provider.getFileTags('docs/a.txt')).toEqual({ team: 'billing' });
+
+      await provider.setStorageClass('docs/a.txt', 'GLACIER_IR');
+      const copy = sentCommands.find(c => c.name === 'CopyObject')!;
+      expect(copy.input).toMatchObject({ Key: 'docs/a.txt', MetadataDirective: 'COPY', StorageClass: 'GLACIER_IR', ACL: 'public-read' });
+      await expect(provider.getFileTags('docs/missing.txt')).rejects.toThrow('File with key docs/missing.txt not found');
+    });
+
+    it('should filter listings by storage class and tags', async () => {
+      addObject('a.txt', { StorageClass: 'GLACIER_IR', Tags: { team: 'billing' } });
+      addObject('b.txt', { Tags: { team: 'billing' } });
+      addObject('c.txt', { Tags: { team: 'support' } });
+
+      const archived = await provider.listFiles({ storageClass: 'GLACIER_IR' });
+      expect(archived.files.map(f => f.key)).toEqual(['a.txt']);
+      expect(archived.files[0]).toMatchObject({ storageClass: 'GLACIER_IR' });
+      expect(archived.files[0].tags).toBeUndefined();
+      // Tags are only fetched for listings that filter on them
+      expect(sentCommands.filter(c => c.name === 'GetObjectTagging')).toHaveLength(0);
+
+      const billing = await provider.listFiles({ tags: { team: 'billing' } });
+      expect(billing.files.map(f => [f.key, f.storageClass])).toEqual([['a.txt', 'GLACIER_IR'], ['b.txt', 'STANDARD']]);
+    });
+  });
+
+  describe('typed errors', () => {
+    const sdkError = (name: string, httpStatusCode: number) =>
+      Object.assign(new Error(`${name} from S3`), { name, $metadata: { httpStatusCode } });
+
+    it.each([
+      ['AccessDenied', 403, 'ACCESS_DENIED', 403],
+      ['SlowDown', 503, 'PROVIDER_UNAVAILABLE', 503],
+      ['PreconditionFailed', 412, 'PRECONDITION_FAILED', 412],
+      ['InvalidArgument', 400, 'INVALID_INPUT', 400],
+      ['InternalError', 500, 'PROVIDER_UNAVAILABLE', 503],
+    ])('should map %s to %s', async (name, httpStatusCode, code, statusCode) => {
+      const error = sdkError(name, httpStatusCode);
+      s3.failNext(error);
+
+      await expect(provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') }))
+        .rejects.toMatchObject({ code, statusCode, originalError: error, message: `Failed to upload file: ${name} from S3` });
+    });
+
+    it('should report missing keys as NOT_FOUND', async () => {
+      await expect(provider.getFileStream('missing.txt')).rejects.toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+      await expect(provider.deleteFileByExternalId('missing')).rejects.toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+    });
+  });
+
+  describe('deleteFiles', () => {
+    it('should delete in DeleteObjects requests of up to 1000 keys and report per-key errors', async () => {
+      const keys = Array.from({ length: 1001 }, (_, i) => `bulk/${i}.txt`);
+      keys.forEach(key => addObject(key));
+      addObject('locked/a.txt');
+
+      const results = await provider.deleteFiles([...keys, 'locked/a.txt']);
+
+      const requests = sentCommands.filter(c => c.name === 'DeleteObjects');
+      expect(requests.map(c => c.input.Delete.Objects.length)).toEqual([1000, 2]);
+      expect(requests[0].input).toMatchObject({ Bucket: 'test-bucket', Delete: { Quiet: true } });
+      expect(results).toHaveLength(1002);
+      expect(results.filter(r => r.success)).toHaveLength(1001);
+      expect(results[1001]).toEqual({ key: 'locked/a.txt', success: false, message: 'Access Denied' });
+      expect(objects.map(o => o.Key)).toEqual(['locked/a.txt']);
+    });
+  });
+
+  describe('getUploadUrl', () => {
+    it('should presign a PUT that enforces the content type', async () => {
+      const result = await provider.getUploadUrl({
+        external_id: 'avatar-1',
+        key: 'avatars/1.png',
+        contentType: 'image/png',
+        size: 2048,
+        metadata: { owner: 'user-1' },
+      });
+
+      expect(result).toMatchObject({
+        url: 'https://example.com/signed-url',
+        method: 'PUT',
+        headers: { 'Content-Type': 'image/png' },
+        key: 'avatars/1.png',
+        external_id: 'avatar-1',
+        maxSize: 2048,
+      });
+
+      const [signed] = sentCommands;
+      expect(signed.name).toBe('PutObject');
+      expect(signed.input).toMatchObject({
+        Key: 'avatars/1.png',
+        ContentType: 'image/png',
+        ContentLength: 2048,
+        Metadata: { owner: 'user-1', external_id: 'avatar-1' },
+      });
+      expect(signed.options.expiresIn).toBe(3600);
+      expect(signed.options.signableHeaders.has('content-type')).toBe(true);
+    });
+
+    it('should reject size ranges for PUT uploads', async () => {
+      await expect(provider.getUploadUrl({ external_id: 'doc', maxSize: 1024 }))
+        .rejects.toMatchObject({ code: 'INVALID_UPLOAD' });
+    });
+
+    it('should build a signed POST policy with size limits', async () => {
+      const result = await provider.getUploadUrl({
+        external_id: 'doc-1',
+        filename: 'report.pdf',
+        maxSize: 10 * 1024 * 1024,
+        expiresIn: 600,
+        method: 'POST',
+      });
+
+      expect(result.method).toBe('POST');
+      expect(result.url).toBe('https://test-bucket.s3.us-east-1.amazonaws.com');
+      expect(result.contentType).toBe('application/pdf');
+      expect(result.fields).toMatchObject({
+        key: result.key,
+        'Content-Type': 'application/pdf',
+        'x-amz-meta-external_id': 'doc-1',
+        'x-amz-algorithm': 'AWS4-HMAC-SHA256',
+      });
+      expect(result.fields?.['x-amz-credential']).toMatch(/^test-key\/\d{8}\/us-east-1\/s3\/aws4_request$/);
+      expect(result.fields?.['x-amz-signature']).toMatch(/^[0-9a-f]{64}$/);
+
+      const policy = JSON.parse(Buffer.from(result.fields!.Policy, 'base64').toString());
+      expect(policy.conditions).toEqual(expect.arrayContaining([
+        { bucket: 'test-bucket' },
+        { key: result.key },
+        ['content-length-range', 0, 10 * 1024 * 1024],
+      ]));
+      expect(new Date(policy.expiration).getTime()).toBe(result.expiresAt.getTime());
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Readable } from 'stream';
+import { applyStorageMiddleware } from '../../../src/services/storage/middleware';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { QuotaExceededError, StorageQuota } from '../../../src/services/storage/quota';
+import { StorageProvider } from '../../../src/services/storage/types';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('StorageQuota', () => {
+  let inner: MemoryStorageProvider;
+  let quota: StorageQuota;
+  let provider: StorageProvider;
+
+  const upload = (key: string, content: string, extra: Record<string, any> = {}) =>
+    provider.uploadFile({ external_id: key, key, buffer: Buffer.from(content), ...extra });
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+    quota = new StorageQuota(inner, {
+      defaultLimits: { maxBytes: 20, maxFiles: 3 },
+      limits: { 'tenant-b': { maxBytes: 100 } },
+    });
+    provider = applyStorageMiddleware(inner, [quota.middleware()]);
+  });
+
+  it('should count existing files and track uploads, overwrites and deletes', async () => {
+    await inner.uploadFile({ external_id: 'old', key: 'tenant-a/old.txt', buffer: Buffer.from('12345') });
+
+    await upload('tenant-a/a.txt', '1234567890');
+    await upload('tenant-a/a.txt', '123');
+    await upload('tenant-b/b.txt', '1234567890');
+    await upload('root.txt', 'not in a namespace');
+
+    expect(await quota.getUsage('tenant-a')).toEqual({ namespace: 'tenant-a', bytes: 8, files: 2 });
+    expect(await quota.getUsage('tenant-b')).toEqual({ namespace: 'tenant-b', bytes: 10, files: 1 });
+
+    await provider.deleteFileByExternalId('tenant-a/a.txt');
+    await provider.moveFile!('tenant-b/b.txt', 'tenant-a/b.txt');
+
+    expect(await quota.getUsage('tenant-a')).toEqual({ namespace: 'tenant-a', bytes: 15, files: 2 });
+    expect(await quota.getUsage('tenant-b')).toEqual({ namespace: 'tenant-b', bytes: 0, files: 0 });
+  });
+
+  it('should reject uploads that would exceed the limits', async () => {
+    await upload('tenant-a/a.txt', '1234567890');
+
+    const rejected = upload('tenant-a/b.txt', '12345678901');
+    await expect(rejected).rejects.toBeInstanceOf(QuotaExceededError);
+    await expect(rejected).rejects.toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      statusCode: 413,
+      namespace: 'tenant-a',
+      message: 'Storage quota exceeded for namespace "tenant-a": 21 bytes would exceed the limit of 20 bytes',
+    });
+    expect(inner.getStoredObject('tenant-a/b.txt')).toBeUndefined();
+
+    await upload('tenant-a/b.txt', '1');
+    await upload('tenant-a/c.txt', '1');
+    await expect(upload('tenant-a/d.txt', '1')).rejects.toThrow('4 files would exceed the limit of 3 files');
+    await expect(provider.copyFile!('tenant-a/b.txt', 'tenant-a/e.txt')).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+
+    // Shrinking a file is always allowed, and other namespaces have their own limits
+    await upload('tenant-a/a.txt', '1');
+    await upload('tenant-b/big.txt', 'x'.repeat(50));
+    expect(await quota.getUsage('tenant-a')).toEqual({ namespace: 'tenant-a', bytes: 3, files: 3 });
+  });
+
+  it('should check stream uploads once their size is known', async () => {
+    await expect(provider.uploadFile({
+      external_id: 'stream',
+      key: 'tenant-a/stream.txt',
+      stream: Readable.from([Buffer.from('x'.repeat(25))]),
+    })).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+
+    expect(inner.getStoredObject('tenant-a/stream.txt')).toBeUndefined();
+    expect(await quota.getUsage('tenant-a')).toEqual({ namespace: 'tenant-a', bytes: 0, files: 0 });
+  });
+
+  it('should group by metadata field and rebuild drifted counts', async () => {
+    quota = new StorageQuota(inner, { namespace: { metadataField: 'tenant_id' }, defaultLimits: { maxFiles: 1 } });
+    provider = applyStorageMiddleware(inner, [quota.middleware()]);
+
+    await upload('a.txt', 'aaa', { metadata: { tenant_id: 'acme' } });
+    await expect(upload('b.txt', 'bbb', { metadata: { tenant_id: 'acme' } })).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+
+    // Changes made around the middleware are picked up by a rebuild
+    await inner.deleteFile('a.txt');
+    await inner.uploadFile({ external_id: 'c', key: 'c.txt', buffer: Buffer.from('cc'), metadata: { tenant_id: 'globex' } });
+    expect(await quota.getUsage('acme')).toEqual({ namespace: 'acme', bytes: 3, files: 1 });
+
+    expect(await quota.rebuildUsage()).toEqual([
+      { namespace: 'globex', bytes: 2, files: 1 },
+      { namespace: 'acme', bytes: 0, files: 0 },
+    ]);
+    await expect(upload('b.txt', 'bbb', { metadata: { tenant_id: 'acme' } })).resolves.toMatchObject({ key: 'b.txt' });
+  });
+
+  it('should count every page of providers that return a token and an offset', async () => {
+    await uploadMany(inner, 'tenant-c/', 350);
+    const paged = new StorageQuota(withTokenPaging(inner));
+
+    expect(await paged.rebuildUsage('tenant-c')).toEqual([{ namespace: 'tenant-c', bytes: 350 * 'tenant-c/000'.length, files: 350 }]);
+  });
+
+  it('should move usage between namespaces when metadata changes', async () => {
+    quota = new StorageQuota(inner, { namespace: { metadataField: 'tenant_id' }, defaultLimits: { maxFiles: 1 } });
+    provider = applyStorageMiddleware(inner, [quota.middleware()]);
+
+    await upload('a.txt', 'aaa', { metadata: { tenant_id: 'acme' } });
+    await upload('b.txt', 'bb', { metadata: { tenant_id: 'globex' } });
+
+    await expect(provider.updateFileMetadata!('a.txt', { metadata: { tenant_id: 'globex' } })).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    await provider.deleteFile('b.txt');
+    await provider.updateFileMetadata!('a.txt', { metadata: { tenant_id: 'globex' } });
+
+    expect(await quota.getUsage('acme')).toEqual({ namespace: 'acme', bytes: 0, files: 0 });
+    expect(await quota.getUsage('globex')).toEqual({ namespace: 'globex', bytes: 3, files: 1 });
+  });
+});
+
+describe('StorageQuota on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should count every page of %s and enforce the limit', async (_name, createProvider) => {
+    const inner = createProvider();
+    await uploadMany(inner, 'tenant-c/', 250);
+    const quota = new StorageQuota(inner, { defaultLimits: { maxFiles: 250 } });
+    const provider = applyStorageMiddleware(inner, [quota.middleware()]);
+
+    expect(await quota.rebuildUsage('tenant-c')).toEqual([{ namespace: 'tenant-c', bytes: 250 * 'tenant-c/000'.length, files: 250 }]);
+    await expect(provider.uploadFile({ external_id: 'extra', key: 'tenant-c/extra', buffer: Buffer.from('x') }))
+      .rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+});
@@ -0,0 +1,115 @@
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { ReplicatedStorageProvider } from '../../../src/services/storage/replication';
+import { StorageError } from '../../../src/services/storage/utils';
+
+describe('ReplicatedStorageProvider', () => {
+  let primary: MemoryStorageProvider;
+  let r2: MemoryStorageProvider;
+  let backup: MemoryStorageProvider;
+
+  const unavailable = () => {
+    throw new StorageError('Service unavailable', 'SERVICE_UNAVAILABLE', 503);
+  };
+
+  const keys = (provider: MemoryStorageProvider) => provider.getStoredObjects().map(object => object.key);
+
+  const readAll = async (stream: NodeJS.ReadableStream | ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  beforeEach(() => {
+    primary = new MemoryStorageProvider();
+    r2 = new MemoryStorageProvider();
+    backup = new MemoryStorageProvider();
+  });
+
+  it('should replicate uploads, visibility changes, copies, moves and deletes', async () => {
+    const provider = new ReplicatedStorageProvider(primary, { r2, backup });
+
+    await provider.uploadFile({ external_id: 'a', key: 'docs/a.txt', buffer: Buffer.from('hello'), metadata: { owner: 'ada' } });
+    await provider.setFileVisibilityByExternalId('a', 'public');
+    await provider.copyFile('docs/a.txt', 'docs/b.txt', { external_id: 'b' });
+    await provider.moveFile('docs/b.txt', 'docs/c.txt');
+    await provider.deleteFile('docs/a.txt');
+
+    for (const replica of [r2, backup]) {
+      expect(keys(replica)).toEqual(['docs/c.txt']);
+      expect(replica.getStoredObject('docs/c.txt')).toMatchObject({
+        external_id: 'b',
+        visibility: 'public',
+        metadata: { owner: 'ada' },
+        data: Buffer.from('hello'),
+      });
+    }
+  });
+
+  it('should enforce the write quorum and queue failed replicas for repair', async () => {
+    const onReplicationError = jest.fn();
+    const provider = new ReplicatedStorageProvider(primary, { r2, backup }, { writeQuorum: 2, onReplicationError });
+    const uploadFile = r2.uploadFile.bind(r2);
+    r2.uploadFile = unavailable;
+
+    // Two of three providers is enough
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+    expect(onReplicationError).toHaveBeenCalledWith(expect.objectContaining({ key: 'a.txt', target: 'r2' }), expect.any(StorageError));
+
+    const backupUploadFile = backup.uploadFile.bind(backup);
+    backup.uploadFile = unavailable;
+    await expect(provider.uploadFile({ external_id: 'b', key: 'b.txt', buffer: Buffer.from('b') })).rejects.toMatchObject({
+      code: 'REPLICATION_QUORUM_NOT_MET',
+      message: 'Write to b.txt reached 1 of 2 required providers; failed replicas are queued for repair',
+    });
+    expect(keys(primary)).toEqual(['a.txt', 'b.txt']);
+
+    expect((await provider.getRepairTasks()).map(task => `${task.target}:${task.key}`)).toEqual(['r2:a.txt', 'r2:b.txt', 'backup:b.txt']);
+
+    // Still failing: the task stays queued with its attempt count raised
+    const stillFailing = await provider.repair();
+    expect(stillFailing.failed.map(task => task.attempts)).toEqual([1, 1, 1]);
+
+    r2.uploadFile = uploadFile;
+    backup.uploadFile = backupUploadFile;
+    // Repairs follow the primary, including deletes made behind the wrapper
+    await primary.deleteFile('a.txt');
+    const repaired = await provider.repair();
+
+    expect(repaired).toMatchObject({ failed: [] });
+    expect(repaired.repaired).toHaveLength(3);
+    expect(await provider.getRepairTasks()).toEqual([]);
+    expect(keys(r2)).toEqual(['b.txt']);
+    expect(keys(backup)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('should replicate in the background in async mode', async () => {
+    const provider = new ReplicatedStorageProvider(primary, { r2 }, { mode: 'async' });
+    r2.uploadFile = unavailable;
+
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+    await provider.waitForReplication();
+
+    expect(keys(r2)).toEqual([]);
+    expect(await provider.getRepairTasks()).toEqual([expect.objectContaining({ key: 'a.txt', target: 'r2', lastError: 'Service unavailable' })]);
+  });
+
+  it('should fall back to secondaries for reads when the primary is unavailable', async () => {
+    const provider = new ReplicatedStorageProvider(primary, { r2 });
+    await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('from replica') });
+
+    primary.getFileStream = unavailable;
+    primary.findFileByExternalId = unavailable;
+    expect(await readAll((await provider.getFileStream('a.txt')).stream)).toBe('from replica');
+    expect(await provider.findFileByExternalId('a')).toMatchObject({ key: 'a.txt' });
+
+    // Other errors are not hidden by a fallback
+    primary.fileExists = async () => {
+      throw new Error('Access denied');
+    };
+    await expect(provider.fileExists('a.txt')).rejects.toThrow('Access denied');
+
+    expect(() => new ReplicatedStorageProvider(primary, { r2 }, { writeQuorum: 3 })).toThrow('writeQuorum must be between 1 and 2');
+  });
+});
@@ -0,0 +1,147 @@
+import { Readable } from 'stream';
+import { applyStorageMiddleware } from '../../../src/services/storage/middleware';
+import {
+  computeRetryDelay,
+  createCircuitBreakerMiddleware,
+  createRetryMiddleware,
+  CircuitState,
+} from '../../../src/services/storage/retry';
+import { isRetryableStorageError } from '../../../src/services/storage/errors';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { StorageError, handleStorageError } from '../../../src/services/storage/utils';
+
+describe('isRetryableStorageError', () => {
+  const wrapped = (error: Error) => {
+    try {
+      handleStorageError(error, 'upload');
+    } catch (storageError) {
+      return storageError;
+    }
+  };
+
+  it('should classify errors by code and status', () => {
+    expect(isRetryableStorageError(new StorageError('busy', 'API_ERROR', 503))).toBe(true);
+    expect(isRetryableStorageError(new StorageError('slow down', 'API_ERROR', 429))).toBe(true);
+    expect(isRetryableStorageError(new StorageError('missing', 'NOT_FOUND', 404))).toBe(false);
+    expect(isRetryableStorageError(new StorageError('open', 'CIRCUIT_OPEN', 503))).toBe(false);
+    expect(isRetryableStorageError(new Error('File with key a.txt not found'))).toBe(false);
+
+    // SDK error shapes: S3, GCS and Azure
+    expect(isRetryableStorageError({ name: 'InternalError', $metadata: { httpStatusCode: 500 } })).toBe(true);
+    expect(isRetryableStorageError({ name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } })).toBe(false);
+    expect(isRetryableStorageError({ code: 503, message: 'Backend Error' })).toBe(true);
+    expect(isRetryableStorageError({ name: 'RestError', statusCode: 502 })).toBe(true);
+
+    // handleStorageError wraps everything as a 500, so the original error decides
+    expect(isRetryableStorageError(wrapped(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })))).toBe(true);
+    expect(isRetryableStorageError(wrapped(new Error('Access denied')))).toBe(false);
+    expect(isRetryableStorageError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ETIMEDOUT' } }))).toBe(true);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should back off exponentially up to the maximum', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 500, jitter: false };
+
+    expect([1, 2, 3, 4].map(retry => computeRetryDelay(retry, policy))).toEqual([100, 200, 400, 500]);
+    expect(computeRetryDelay(3, { ...policy, jitter: true }, () => 0.5)).toBe(200);
+  });
+});
+
+describe('createRetryMiddleware', () => {
+  let inner: MemoryStorageProvider;
+
+  beforeEach(() => {
+    inner = new MemoryStorageProvider();
+  });
+
+  it('should retry transient failures until the call succeeds', async () => {
+    const onRetry = jest.fn();
+    const provider = applyStorageMiddleware(inner, [createRetryMiddleware({ baseDelayMs: 1, onRetry })]);
+    inner.injectFailure('uploadFile', { times: 2 });
+
+    const result = await provider.uploadFile({ external_id: 'a', key: 'a.txt', buffer: Buffer.from('a') });
+
+    expect(result.key).toBe('a.txt');
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ method: 'uploadFile', attempt: 2 }));
+  });
+
+  it('should give up after maxAttempts and not retry permanent errors', async () => {
+    const onRetry = jest.fn();
+    const provider = applyStorageMiddleware(inner, [createRetryMiddleware({ maxAttempts: 2, baseDelayMs: 1, onRetry })]);
+    inner.injectFailure('fileExists', { times: 5 });
+
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'INJECTED_FAILURE' });
+    expect(onRetry).toHaveBeenCalledTimes(1);
+
+    onRetry.mockClear();
+    await expect(provider.getFileStream!('missing.txt')).rejects.toThrow('File with key missing.txt not found');
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('should not silently retry uploads from a stream', async () => {
+    const onRetry = jest.fn();
+    const provider = applyStorageMiddleware(inner, [createRetryMiddleware({ baseDelayMs: 1, onRetry })]);
+    inner.injectFailure('uploadFile', { times: 1 });
+
+    const error = await provider.uploadFile({
+      external_id: 'a',
+      key: 'a.txt',
+      stream: Readable.from([Buffer.from('a')]),
+      size: 1,
+    }).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'UPLOAD_NOT_RETRYABLE', statusCode: 500 });
+    expect(error.originalError).toMatchObject({ code: 'INJECTED_FAILURE' });
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(inner.getStoredObject('a.txt')).toBeUndefined();
+  });
+});
+
+describe('createCircuitBreakerMiddleware', () => {
+  it('should fail fast while open and close after a successful trial call', async () => {
+    const inner = new MemoryStorageProvider();
+    const states: CircuitState[] = [];
+    const provider = applyStorageMiddleware(inner, [
+      createCircuitBreakerMiddleware({ failureThreshold: 2, resetTimeoutMs: 20, onStateChange: state => states.push(state) }),
+    ]);
+    const fileExists = jest.spyOn(inner, 'fileExists');
+    inner.injectFailure('fileExists', { times: 3 });
+
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'INJECTED_FAILURE' });
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'INJECTED_FAILURE' });
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', statusCode: 503 });
+    expect(fileExists).toHaveBeenCalledTimes(2);
+
+    // A failed trial call reopens the circuit
+    await new Promise(resolve => setTimeout(resolve, 25));
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'INJECTED_FAILURE' });
+    await expect(provider.fileExists('a.txt')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    await new Promise(resolve => setTimeout(resolve, 25));
+    expect(await provider.fileExists('a.txt')).toBe(false);
+    expect(await provider.fileExists('a.txt')).toBe(false);
+    expect(states).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+  });
+
+  it('should not count permanent errors against the backend', async () => {
+    const provider = applyStorageMiddleware(new MemoryStorageProvider(), [createCircuitBreakerMiddleware({ failureThreshold: 1 })]);
+
+    await expect(provider.getFileStream!('missing.txt')).rejects.toThrow('not found');
+    await expect(provider.getFileStream!('missing.txt')).rejects.toThrow('not found');
+  });
+
+  it('should stop retries once the circuit opens', async () => {
+    const inner = new MemoryStorageProvider();
+    const provider = applyStorageMiddleware(inner, [
+      createRetryMiddleware({ maxAttempts: 5, baseDelayMs: 1 }),
+      createCircuitBreakerMiddleware({ failureThreshold: 2 }),
+    ]);
+    const listFiles = jest.spyOn(inner, 'listFiles');
+    inner.injectFailure('listFiles');
+
+    await expect(provider.listFiles()).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(listFiles).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,627 @@
+// Stateful fakes for the cloud SDKs and the CrunchyCone API, shared by the provider and conformance tests
+import { Readable, Writable } from 'stream';
+
+export interface FakeS3Object {
+  Key: string;
+  Size: number;
+  LastModified: Date;
+  ETag: string;
+  ContentType: string;
+  Metadata: Record<string, string>;
+  Content?: Buffer;
+  Public?: boolean;
+  StorageClass?: string;
+  Tags?: Record<string, string>;
+}
+
+/**
+ * Fake S3 bucket behind a mocked `@aws-sdk/client-s3`. Install it with
+ * `jest.doMock('@aws-sdk/client-s3', () => s3.sdk)` and the presigner with `s3.presigner`.
+ */
+export function createFakeS3() {
+  const objects: FakeS3Object[] = [];
+  const sentCommands: Array<{ name: string; input: any; options?: any }> = [];
+  const multipartUploads = new Map<string, { Key: string; Parts: Map<number, { Size: number; ETag: string }> }>();
+  // Error the next command fails with, as the SDK would report it
+  let nextError: Error | undefined;
+
+  const client = {
+    send: async (command: { name: string; input: any }, options?: any) => {
+      sentCommands.push({ ...command, options });
+      const { input } = command;
+      if (nextError) {
+        const error = nextError;
+        nextError = undefined;
+        throw error;
+      }
+
+      switch (command.name) {
+        case 'ListObjectsV2': {
+          const prefix = input.Prefix || '';
+          const matching = objects
+            .filter(o => o.Key.startsWith(prefix))
+            .sort((a, b) => a.Key.localeCompare(b.Key));
+          // With a delimiter, keys below the next delimiter roll up into one common prefix entry
+          const entries: Array<FakeS3Object | { Prefix: string }> = [];
+          for (const object of matching) {
+            const index = input.Delimiter ? object.Key.indexOf(input.Delimiter, prefix.length) : -1;
+            const commonPrefix = index === -1 ? undefined : object.Key.slice(0, index + 1);
+            if (!commonPrefix) {
+              entries.push(object);
+            } else if (!entries.some(entry => 'Prefix' in entry && entry.Prefix === commonPrefix)) {
+              entries.push({ Prefix: commonPrefix });
+            }
+          }
+          const start = input.ContinuationToken ? parseInt(input.ContinuationToken) : 0;
+          const maxKeys = input.MaxKeys ?? 1000;
+          const page = entries.slice(start, start + maxKeys);
+          const isTruncated = start + maxKeys < entries.length;
+          const contents = page.filter((entry): entry is FakeS3Object => 'Key' in entry);
+          return {
+            Contents: contents.map(o => ({ Key: o.Key, Size: o.Size, LastModified: o.LastModified, ETag: o.ETag, StorageClass: o.StorageClass })),
+            CommonPrefixes: page.filter(entry => 'Prefix' in entry),
+            IsTruncated: isTruncated,
+            NextContinuationToken: isTruncated ? String(start + maxKeys) : undefined,
+          };
+        }
+        case 'HeadObject': {
+          const object = objects.find(o => o.Key === input.Key);
+          if (!object) {
+            throw Object.assign(new Error('NotFound'), { name: 'NotFound' });
+          }
+          return {
+            ContentLength: object.Size,
+            ContentType: object.ContentType,
+            LastModified: object.LastModified,
+            ETag: object.ETag,
+            Metadata: object.Metadata,
+          };
+        }
+        case 'GetObject': {
+          const object = objects.find(o => o.Key === input.Key);
+          if (!object) {
+            throw Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } });
+          }
+          const content = object.Content || Buffer.alloc(object.Size);
+          const match = input.Range?.match(/bytes=(\d+)-(\d*)/);
+          const start = match ? parseInt(match[1]) : 0;
+          const end = match && match[2] ? Math.min(parseInt(match[2]), content.length - 1) : content.length - 1;
+          const body = content.subarray(start, end + 1);
+          return {
+            $metadata: { httpStatusCode: match ? 206 : 200 },
+            Body: Readable.from(body),
+            ContentType: object.ContentType,
+            ContentLength: body.length,
+            ContentRange: match ? `bytes ${start}-${end}/${content.length}` : undefined,
+            LastModified: object.LastModified,
+            ETag: object.ETag,
+          };
+        }
+        case 'GetObjectAcl': {
+          const object = objects.find(o => o.Key === input.Key);
+          return {
+            Grants: object?.Public
+              ? [{ Grantee: { URI: 'http://acs.amazonaws.com/groups/global/AllUsers' }, Permission: 'READ' }]
+              : [],
+          };
+        }
+        case 'CopyObject': {
+          const sourceKey = decodeURIComponent(input.CopySource.slice(input.CopySource.indexOf('/') + 1));
+          const source = objects.find(o => o.Key === sourceKey)!;
+          const replace = input.MetadataDirective === 'REPLACE';
+          const existing = objects.findIndex(o => o.Key === input.Key);
+          if (existing >= 0) {
+            objects.splice(existing, 1);
+          }
+          objects.push({
+            ...source,
+            Key: input.Key,
+            ETag: `"${input.Key}"`,
+            ContentType: replace ? input.ContentType : source.ContentType,
+            Metadata: replace ? input.Metadata : source.Metadata,
+            Public: input.ACL === 'public-read',
+            StorageClass: input.StorageClass,
+          });
+          return { CopyObjectResult: { ETag: `"${input.Key}"` } };
+        }
+        case 'DeleteObject': {
+          const index = objects.findIndex(o => o.Key === input.Key);
+          if (index >= 0) {
+            objects.splice(index, 1);
+          }
+          return {};
+        }
+        case 'DeleteObjects': {
+          const Errors = [];
+          for (const { Key } of input.Delete.Objects) {
+            const index = objects.findIndex(o => o.Key === Key);
+            if (Key.startsWith('locked/')) {
+              Errors.push({ Key, Code: 'AccessDenied', Message: 'Access Denied' });
+            } else if (index >= 0) {
+              objects.splice(index, 1);
+            }
+          }
+          return { Errors };
+        }
+        case 'CreateMultipartUpload': {
+          const uploadId = `upload-${multipartUploads.size + 1}`;
+          multipartUploads.set(uploadId, { Key: input.Key, Parts: new Map() });
+          return { UploadId: uploadId };
+        }
+        case 'UploadPart': {
+          const upload = multipartUploads.get(input.UploadId);
+          if (!upload) {
+            throw Object.assign(new Error('NoSuchUpload'), { name: 'NoSuchUpload' });
+          }
+          const etag = `"part-${input.PartNumber}"`;
+          upload.Parts.set(input.PartNumber, { Size: input.Body.length, ETag: etag });
+          return { ETag: etag };
+        }
+        case 'ListParts': {
+          const upload = multipartUploads.get(input.UploadId);
+          if (!upload) {
+            throw Object.assign(new Error('NoSuchUpload'), { name: 'NoSuchUpload' });
+          }
+          return {
+            Parts: [...upload.Parts.entries()].map(([partNumber, part]) => ({ PartNumber: partNumber, ...part })),
+            IsTruncated: false,
+          };
+        }
+        case 'CompleteMultipartUpload': {
+          multipartUploads.delete(input.UploadId);
+          return { ETag: '"multipart-etag"' };
+        }
+        case 'AbortMultipartUpload': {
+          if (!multipartUploads.delete(input.UploadId)) {
+            throw Object.assign(new Error('NoSuchUpload'), { name: 'NoSuchUpload' });
+          }
+          return {};
+        }
+        case 'GetObjectTagging': {
+          const object = objects.find(o => o.Key === input.Key);
+          if (!object) {
+            throw Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } });
+          }
+          return { TagSet: Object.entries(object.Tags || {}).map(([Key, Value]) => ({ Key, Value })) };
+        }
+        case 'PutObjectTagging': {
+          const object = objects.find(o => o.Key === input.Key)!;
+          object.Tags = Object.fromEntries(input.Tagging.TagSet.map((tag: { Key: string; Value: string }) => [tag.Key, tag.Value]));
+          return {};
+        }
+        case 'PutObject': {
+          const content: Buffer = input.Body;
+          objects.push({
+            Key: input.Key,
+            Size: content.length,
+            LastModified: new Date(),
+            ETag: `"${input.Key}"`,
+            ContentType: input.ContentType,
+            Metadata: input.Metadata,
+            Content: content,
+          });
+          return { ETag: `"${input.Key}"` };
+        }
+        default:
+          throw new Error(`Unexpected command ${command.name}`);
+      }
+    },
+  };
+
+  const command = (name: string) => class {
+    name = name;
+    constructor(public input: any) {}
+  };
+
+  return {
+    objects,
+    sentCommands,
+    multipartUploads,
+    client,
+    failNext(error: Error) {
+      nextError = error;
+    },
+    reset() {
+      objects.length = 0;
+      sentCommands.length = 0;
+      multipartUploads.clear();
+      nextError = undefined;
+    },
+    sdk: {
+      S3Client: class {
+        constructor() {
+          return client;
+        }
+      },
+      ListObjectsV2Command: command('ListObjectsV2'),
+      HeadObjectCommand: command('HeadObject'),
+      GetObjectCommand: command('GetObject'),
+      PutObjectCommand: command('PutObject'),
+      DeleteObjectCommand: command('DeleteObject'),
+      DeleteObjectsCommand: command('DeleteObjects'),
+      CreateMultipartUploadCommand: command('CreateMultipartUpload'),
+      UploadPartCommand: command('UploadPart'),
+      ListPartsCommand: command('ListParts'),
+      CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+      AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+      GetObjectAclCommand: command('GetObjectAcl'),
+      CopyObjectCommand: command('CopyObject'),
+      GetObjectTaggingCommand: command('GetObjectTagging'),
+      PutObjectTaggingCommand: command('PutObjectTagging'),
+    },
+    presigner: {
+      getSignedUrl: async (_client: unknown, signedCommand: { name: string; input: any }, options: any) => {
+        sentCommands.push({ ...signedCommand, options });
+        return 'https://example.com/signed-url';
+      },
+    },
+  };
+}
+
+interface FakeBlob {
+  content: Buffer;
+  contentType?: string;
+  metadata: Record<string, string>;
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * One page of a bucket listing the way GCS and Azure page it: names in order after the page token, with names
+ * below a delimiter rolled up into prefixes, and a token for the next page only when entries are left
+ */
+function listPage(
+  names: Iterable<string>,
+  { prefix = '', delimiter, pageToken, maxResults }: { prefix?: string; delimiter?: string; pageToken?: string; maxResults: number },
+) {
+  const entries = new Map<string, 'file' | 'prefix'>();
+  for (const name of [...names].filter(name => name.startsWith(prefix)).sort()) {
+    const end = delimiter ? name.indexOf(delimiter, prefix.length) : -1;
+    if (end === -1) {
+      entries.set(name, 'file');
+    } else {
+      entries.set(name.slice(0, end + delimiter!.length), 'prefix');
+    }
+  }
+  const remaining = [...entries].filter(([name]) => !pageToken || name > pageToken);
+  const page = remaining.slice(0, maxResults);
+  return {
+    names: page.filter(([, kind]) => kind === 'file').map(([name]) => name),
+    prefixes: page.filter(([, kind]) => kind === 'prefix').map(([name]) => name),
+    nextPageToken: remaining.length > maxResults ? page[page.length - 1][0] : undefined,
+  };
+}
+
+// Cloud SDK errors carry the HTTP status the way the real clients do
+function gcsError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { name: 'ApiError', code });
+}
+
+function azureError(statusCode: number, code: string): Error {
+  return Object.assign(new Error(code), { name: 'RestError', statusCode, code });
+}
+
+/**
+ * Fake GCS bucket behind a mocked `@google-cloud/storage`. Install it with
+ * `jest.doMock('@google-cloud/storage', () => gcs.sdk)`.
+ */
+export function createFakeGCS() {
+  const blobs = new Map<string, FakeBlob>();
+
+  const metadataOf = (name: string) => {
+    const blob = blobs.get(name)!;
+    return {
+      name,
+      size: String(blob.content.length),
+      contentType: blob.contentType,
+      etag: blob.etag,
+      timeCreated: blob.lastModified.toISOString(),
+      updated: blob.lastModified.toISOString(),
+      metadata: blob.metadata,
+    };
+  };
+
+  const file = (name: string): any => ({
+    name,
+    acl: { get: async () => [[]] },
+    createWriteStream: (options: any) => {
+      const chunks: Buffer[] = [];
+      return new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(Buffer.from(chunk));
+          callback();
+        },
+        final(callback) {
+          blobs.set(name, {
+            content: Buffer.concat(chunks),
+            contentType: options?.metadata?.contentType,
+            metadata: { ...options?.metadata?.metadata },
+            etag: `"${name}"`,
+            lastModified: new Date(),
+          });
+          callback();
+        },
+      });
+    },
+    createReadStream: (range: { start?: number; end?: number } = {}) => {
+      const blob = blobs.get(name);
+      if (!blob) {
+        throw gcsError(404, `No such object: ${name}`);
+      }
+      return Readable.from(blob.content.subarray(range.start ?? 0, range.end === undefined ? undefined : range.end + 1));
+    },
+    getMetadata: async () => {
+      if (!blobs.has(name)) {
+        throw gcsError(404, `No such object: ${name}`);
+      }
+      return [metadataOf(name)];
+    },
+    // Patches like the real API: custom metadata merges, and keys set to null are removed
+    setMetadata: async (changes: { metadata?: Record<string, string | null>; contentType?: string }) => {
+      const blob = blobs.get(name);
+      if (!blob) {
+        throw gcsError(404, `No such object: ${name}`);
+      }
+      for (const [field, value] of Object.entries(changes.metadata || {})) {
+        if (value === null) {
+          delete blob.metadata[field];
+        } else {
+          blob.metadata[field] = value;
+        }
+      }
+      blob.contentType = changes.contentType ?? blob.contentType;
+      return [metadataOf(name)];
+    },
+    exists: async () => [blobs.has(name)],
+    delete: async () => {
+      if (!blobs.delete(name)) {
+        throw gcsError(404, `No such object: ${name}`);
+      }
+    },
+    getSignedUrl: async () => [`https://storage.googleapis.com/test-bucket/${name}?signature=test`],
+    copy: async (destination: { name: string }, options: any = {}) => {
+      const source = blobs.get(name);
+      if (!source) {
+        throw gcsError(404, `No such object: ${name}`);
+      }
+      blobs.set(destination.name, {
+        ...source,
+        contentType: options.contentType ?? source.contentType,
+        metadata: options.metadata ?? source.metadata,
+        etag: `"${destination.name}"`,
+      });
+      return [file(destination.name)];
+    },
+  });
+
+  const bucket = {
+    file,
+    getFiles: async (options: { prefix?: string; delimiter?: string; maxResults?: number; pageToken?: string; autoPaginate?: boolean } = {}) => {
+      if (options.autoPaginate !== false) {
+        return [listPage(blobs.keys(), { ...options, maxResults: Infinity }).names.map(file)];
+      }
+      const { names, prefixes, nextPageToken } = listPage(blobs.keys(), { ...options, maxResults: options.maxResults ?? 1000 });
+      return [names.map(file), nextPageToken ? { ...options, pageToken: nextPageToken } : null, { nextPageToken, prefixes }];
+    },
+  };
+
+  return {
+    blobs,
+    sdk: {
+      Storage: class {
+        bucket() {
+          return bucket;
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Fake Azure container behind a mocked `@azure/storage-blob`. Install it with
+ * `jest.doMock('@azure/storage-blob', () => azure.sdk)`.
+ */
+export function createFakeAzure() {
+  const blobs = new Map<string, FakeBlob>();
+  const containerUrl = 'https://testaccount.blob.core.windows.net/test-container';
+
+  const propertiesOf = (name: string) => {
+    const blob = blobs.get(name);
+    if (!blob) {
+      throw azureError(404, 'BlobNotFound');
+    }
+    return {
+      contentLength: blob.content.length,
+      contentType: blob.contentType,
+      lastModified: blob.lastModified,
+      etag: blob.etag,
+      metadata: blob.metadata,
+    };
+  };
+
+  const store = (name: string, content: Buffer, options: any = {}) => {
+    blobs.set(name, {
+      content,
+      contentType: options.blobHTTPHeaders?.blobContentType,
+      metadata: { ...options.metadata },
+      etag: `"${name}"`,
+      lastModified: new Date(),
+    });
+    return { etag: `"${name}"` };
+  };
+
+  const blockBlobClient = (name: string) => ({
+    name,
+    url: `${containerUrl}/${name}`,
+    upload: async (data: Buffer, _length: number, options: any) => store(name, data, options),
+    uploadStream: async (stream: NodeJS.ReadableStream, _size: number, _concurrency: number, options: any) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return store(name, Buffer.concat(chunks), options);
+    },
+    getProperties: async () => propertiesOf(name),
+    delete: async () => {
+      if (!blobs.delete(name)) {
+        throw azureError(404, 'BlobNotFound');
+      }
+    },
+    download: async (offset = 0, count?: number) => {
+      const properties = propertiesOf(name);
+      const content = blobs.get(name)!.content.subarray(offset, count === undefined ? undefined : offset + count);
+      return { ...properties, contentLength: content.length, readableStreamBody: Readable.from(content) };
+    },
+    beginCopyFromURL: async (sourceUrl: string, options: any = {}) => {
+      const source = blobs.get(decodeURIComponent(sourceUrl.slice(containerUrl.length + 1)));
+      if (!source) {
+        throw azureError(404, 'CannotVerifyCopySource');
+      }
+      blobs.set(name, { ...source, metadata: options.metadata ?? source.metadata, etag: `"${name}"` });
+      return { pollUntilDone: async () => ({ etag: `"${name}"` }) };
+    },
+    setMetadata: async (metadata: Record<string, string>) => {
+      propertiesOf(name);
+      blobs.get(name)!.metadata = { ...metadata };
+    },
+    setHTTPHeaders: async (headers: any) => {
+      blobs.get(name)!.contentType = headers.blobContentType;
+    },
+  });
+
+  const blobItem = (name: string) => {
+    const { metadata, ...properties } = propertiesOf(name);
+    return { name, metadata, properties };
+  };
+
+  // Listings iterate blobs, or pages of them with byPage() as the SDK's paged iterators do
+  const listBlobs = (options: { prefix?: string; delimiter?: string }) => ({
+    [Symbol.asyncIterator]: async function* () {
+      yield* listPage(blobs.keys(), { ...options, delimiter: undefined, maxResults: Infinity }).names.map(blobItem);
+    },
+    byPage: async function* ({ continuationToken, maxPageSize = 5000 }: { continuationToken?: string; maxPageSize?: number } = {}) {
+      let pageToken = continuationToken;
+      do {
+        const { names, prefixes, nextPageToken } = listPage(blobs.keys(), { ...options, pageToken, maxResults: maxPageSize });
+        yield {
+          segment: { blobItems: names.map(blobItem), blobPrefixes: prefixes.map(name => ({ name })) },
+          continuationToken: nextPageToken,
+        };
+        pageToken = nextPageToken;
+      } while (pageToken);
+    },
+  });
+
+  const containerClient = {
+    getBlockBlobClient: blockBlobClient,
+    getBlobClient: blockBlobClient,
+    getBlobBatchClient: () => ({
+      deleteBlobs: async (clients: Array<{ name: string }>) => ({
+        subResponses: clients.map(({ name }) => blobs.delete(name) ? { status: 202 } : { status: 404, errorCode: 'BlobNotFound' }),
+      }),
+    }),
+    listBlobsFlat: (options: { prefix?: string } = {}) => listBlobs(options),
+    listBlobsByHierarchy: (delimiter: string, options: { prefix?: string } = {}) => listBlobs({ ...options, delimiter }),
+  };
+
+  return {
+    blobs,
+    sdk: {
+      BlobServiceClient: class {
+        getContainerClient() {
+          return containerClient;
+        }
+      },
+      StorageSharedKeyCredential: class {},
+      BlobSASPermissions: { parse: () => ({ read: true }) },
+      generateBlobSASQueryParameters: () => ({ toString: () => 'sv=2021-06-08&sig=test' }),
+    },
+  };
+}
+
+/**
+ * Fake CrunchyCone storage API, including the presigned upload and download URLs.
+ * Install it by assigning `api.fetch` to `global.fetch`.
+ */
+export function createFakeCrunchyConeApi(apiUrl = 'https://api.crunchycone.test') {
+  const files = new Map<string, { metadata: any; content?: Buffer }>();
+  let created = 0;
+
+  const json = (status: number, body?: unknown) => body === undefined
+    ? new Response(null, { status })
+    : new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  const notFound = () => json(404, { error: 'File not found' });
+  const byExternalId = (externalId: string) => [...files.values()].find(file => file.metadata.external_id === externalId);
+
+  const fetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method || 'GET';
+
+    // Presigned URLs
+    if (url.hostname === 'uploads.crunchycone.test') {
+      files.get(url.pathname.slice(1))!.content = Buffer.from(init.body as Buffer);
+      return json(200);
+    }
+    if (url.hostname === 'downloads.crunchycone.test') {
+      const file = files.get(url.pathname.slice(1));
+      return file?.content ? new Response(file.content, { status: 200 }) : notFound();
+    }
+
+    const path = url.pathname.replace('/api/v1/storage/files', '');
+    if (path === '' && method === 'POST') {
+      const body = JSON.parse(init.body as string);
+      const fileId = `file-${++created}`;
+      const now = new Date().toISOString();
+      files.set(fileId, {
+        metadata: {
+          ...body,
+          file_id: fileId,
+          storage_key: body.file_path,
+          expected_file_size: body.file_size,
+          actual_file_size: 0,
+          upload_status: 'pending',
+          created_at: now,
+          updated_at: now,
+        },
+      });
+      return json(201, { data: { file_id: fileId, upload_url: `https://uploads.crunchycone.test/${fileId}`, expires_at: now } });
+    }
+    if (path === '') {
+      return json(200, { data: { files: [...files.values()].map(file => file.metadata), total_count: files.size, has_more: false } });
+    }
+
+    const externalIdMatch = path.match(/^\/by-external-id\/([^/]+)$/);
+    if (externalIdMatch) {
+      const file = byExternalId(decodeURIComponent(externalIdMatch[1]));
+      if (!file) {
+        return notFound();
+      }
+      if (method === 'DELETE') {
+        files.delete(file.metadata.file_id);
+        return json(204);
+      }
+      return json(200, { data: file.metadata });
+    }
+
+    const [, fileId, action] = path.split('/');
+    const file = files.get(fileId);
+    if (!file) {
+      return notFound();
+    }
+    if (action === 'complete') {
+      const { actual_file_size } = JSON.parse(init.body as string);
+      Object.assign(file.metadata, { actual_file_size, upload_status: 'completed', uploaded_at: new Date().toISOString() });
+      return json(200, { data: file.metadata });
+    }
+    if (action === 'download') {
+      return json(200, { data: { signedUrl: `https://downloads.crunchycone.test/${fileId}` } });
+    }
+    if (method === 'DELETE') {
+      files.delete(fileId);
+      return json(204);
+    }
+    return json(200, { data: file.metadata });
+  };
+
+  return { apiUrl, files, fetch };
+}
@@ -0,0 +1,72 @@
+// Test helpers and utilities
+import { MemoryStorageProvider } from '../../../../src/services/storage/providers/memory';
+import { GCPStorageProvider } from '../../../../src/services/storage/providers/gcp-storage';
+import { AzureStorageProvider } from '../../../../src/services/storage/providers/azure-storage';
+import { ListFilesOptions, ListFilesResult, StorageProvider } from '../../../../src/services/storage/types';
+import { createFakeGCS, createFakeAzure } from './fake-sdks';
+
+/**
+ * Wrap a memory provider so it pages like S3CompatibleProvider: every page has both a continuation token
+ * and a next offset, and an offset passed along with a token skips that many more files past the token.
+ * The memory provider alone ignores the offset when it gets a token, which hides paging bugs.
+ */
+export function withTokenPaging(
+  provider: MemoryStorageProvider,
+  { pageSize = 100, sortOrder = 'asc' }: { pageSize?: number; sortOrder?: 'asc' | 'desc' } = {},
+): StorageProvider {
+  return Object.assign(Object.create(provider), {
+    async listFiles(options: ListFilesOptions = {}): Promise<ListFilesResult> {
+      const { files } = await provider.listFiles({ ...options, continuationToken: undefined, offset: 0, limit: 1000, sortOrder });
+      const start = Number(options.continuationToken || 0) + (options.offset || 0);
+      const hasMore = start + pageSize < files.length;
+      return {
+        files: files.slice(start, start + pageSize),
+        hasMore,
+        continuationToken: hasMore ? String(start + pageSize) : undefined,
+        nextOffset: hasMore ? (options.offset || 0) + pageSize : undefined,
+      };
+    },
+  });
+}
+
+/**
+ * Store `count` small files named `${prefix}000`, `${prefix}001`, ... so listings span several pages
+ */
+export async function uploadMany(provider: StorageProvider, prefix: string, count: number): Promise<string[]> {
+  const keys = Array.from({ length: count }, (_, i) => `${prefix}${String(i).padStart(3, '0')}`);
+  for (const key of keys) {
+    await provider.uploadFile({ external_id: key.replace(/\W/g, '-'), key, buffer: Buffer.from(key) });
+  }
+  return keys;
+}
+
+/**
+ * GCS and Azure providers over fake SDKs that page the way the real services do: each request returns at most
+ * the page size asked for, and the next page starts after the last entry returned. Call it inside a describe
+ * block, which gets the fakes installed; each factory empties its bucket before returning a provider.
+ */
+export function useFakeCloudProviders(): Array<[string, () => StorageProvider]> {
+  const gcs = createFakeGCS();
+  const azure = createFakeAzure();
+
+  beforeAll(() => {
+    jest.doMock('@google-cloud/storage', () => gcs.sdk);
+    jest.doMock('@azure/storage-blob', () => azure.sdk);
+  });
+
+  afterAll(() => {
+    jest.unmock('@google-cloud/storage');
+    jest.unmock('@azure/storage-blob');
+  });
+
+  return [
+    ['gcs', () => {
+      gcs.blobs.clear();
+      return new GCPStorageProvider({ projectId: 'test-project', bucket: 'test-bucket' });
+    }],
+    ['azure', () => {
+      azure.blobs.clear();
+      return new AzureStorageProvider({ accountName: 'testaccount', accountKey: 'test-account-key', containerName: 'test-container' });
+    }],
+  ];
+}
@@ -0,0 +1,102 @@
+import { Readable } from 'stream';
+import { detectContentType, isContentTypeCompatible, readContentHead } from '../../../src/services/storage/sniffing';
+import {
+  checkFileSecurityRisk,
+  getCommonValidationOptions,
+  validateFile,
+  validateFileContent,
+} from '../../../src/services/storage/validation';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+
+describe('content sniffing', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+  const exe = Buffer.concat([Buffer.from('MZ'), Buffer.alloc(62)]);
+  const pdf = Buffer.from('%PDF-1.7\n%âãÏÓ\n');
+  const docx = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), Buffer.from('[Content_Types].xml'), Buffer.from('word/document.xml')]);
+
+  describe('detectContentType', () => {
+    it('should recognize common formats from their leading bytes', () => {
+      const mp4 = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x18]), Buffer.from('ftypmp42')]);
+      const wav = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVEfmt ')]);
+
+      expect(detectContentType(png)?.contentType).toBe('image/png');
+      expect(detectContentType(jpeg)?.contentType).toBe('image/jpeg');
+      expect(detectContentType(pdf)?.contentType).toBe('application/pdf');
+      expect(detectContentType(docx)?.contentType).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      expect(detectContentType(mp4)?.contentType).toBe('video/mp4');
+      expect(detectContentType(wav)?.contentType).toBe('audio/wav');
+      expect(detectContentType(exe)).toMatchObject({ contentType: 'application/x-msdownload', category: 'executable' });
+      expect(detectContentType(Buffer.from('#!/bin/sh\nrm -rf /'))).toMatchObject({ category: 'script' });
+      expect(detectContentType(Buffer.from('<!DOCTYPE html><html>'))?.contentType).toBe('text/html');
+      expect(detectContentType(Buffer.from('name,email\nada,ada@example.com'))).toBeUndefined();
+    });
+
+    it('should accept aliases and container siblings as compatible', () => {
+      expect(isContentTypeCompatible('image/jpg', detectContentType(jpeg)!)).toBe(true);
+      expect(isContentTypeCompatible('application/zip', detectContentType(docx)!)).toBe(true);
+      expect(isContentTypeCompatible('image/png', detectContentType(jpeg)!)).toBe(false);
+    });
+  });
+
+  describe('validateFile', () => {
+    it('should reject a renamed executable with the images preset', () => {
+      const result = validateFile(
+        { name: 'holiday.png', size: exe.length, type: 'image/png', content: exe },
+        getCommonValidationOptions().images,
+      );
+
+      expect(result).toEqual({
+        valid: false,
+        error: 'File content is "application/x-msdownload" but the declared type is "image/png"',
+        detectedType: 'application/x-msdownload',
+      });
+      expect(checkFileSecurityRisk('holiday.png', 'image/png', exe)).toMatchObject({ safe: false });
+      expect(validateFile({ name: 'holiday.png', size: exe.length, type: 'image/png' }, getCommonValidationOptions().images).valid).toBe(true);
+    });
+
+    it('should use the detected type when the declared type is missing', () => {
+      const images = getCommonValidationOptions().images;
+
+      expect(validateFile({ name: 'photo', size: png.length, type: '', content: png }, images))
+        .toEqual({ valid: false, error: 'File extension "" is not allowed. Allowed extensions: jpg, jpeg, png, gif, webp', detectedType: 'image/png' });
+      expect(validateFile({ name: 'photo.png', size: png.length, type: 'application/octet-stream', content: png }, images))
+        .toEqual({ valid: true, detectedType: 'image/png' });
+      expect(validateFile({ name: 'photo.png', size: png.length, type: 'image/jpeg', content: png }, { ...images, sniffContent: false }).valid)
+        .toBe(true);
+    });
+
+    it('should read the leading bytes of Files and buffers', async () => {
+      const file = new File([exe], 'report.pdf', { type: 'application/pdf' });
+
+      expect((await validateFileContent(file)).valid).toBe(false);
+      expect(await validateFileContent({ name: 'report.pdf', size: pdf.length, type: 'application/pdf', buffer: pdf }))
+        .toEqual({ valid: true, detectedType: 'application/pdf' });
+    });
+  });
+
+  it('should replay the sniffed bytes of a stream', async () => {
+    const { head, stream } = await readContentHead(Readable.from([png.subarray(0, 4), png.subarray(4), Buffer.from('rest')]), 8);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream!) {
+      chunks.push(chunk);
+    }
+
+    expect(head).toEqual(png.subarray(0, 8));
+    expect(Buffer.concat(chunks)).toEqual(Buffer.concat([png, Buffer.from('rest')]));
+  });
+
+  it('should let providers fill in a missing content type', async () => {
+    const provider = new MemoryStorageProvider();
+
+    const sniffed = await provider.uploadFile({ external_id: 'a', key: 'upload.bin', stream: Readable.from([png]) });
+    const declared = await provider.uploadFile({ external_id: 'b', key: 'declared.bin', buffer: png, contentType: 'application/x-custom' });
+    const text = await provider.uploadFile({ external_id: 'c', key: 'notes.txt', buffer: Buffer.from('plain text') });
+
+    expect(sniffed.contentType).toBe('image/png');
+    expect(provider.getStoredObject('upload.bin')?.data).toEqual(png);
+    expect(declared.contentType).toBe('application/x-custom');
+    expect(text.contentType).toBe('text/plain');
+  });
+});
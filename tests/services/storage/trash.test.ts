@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import {
+  setStorageProvider,
+  enableTrash,
+  disableTrash,
+  deleteFile,
+  deleteFileByExternalId,
+  findFileByExternalId,
+  fileExists,
+  listFiles,
+  searchFiles,
+  restoreFile,
+  restoreFileByExternalId,
+  listDeletedFiles,
+  purgeDeleted,
+  isTrashEnabled,
+} from '../../../src/services/storage/storage';
+import { initializeStorageProvider } from '../../../src/services/storage/config';
+import { LocalStorageProvider } from '../../../src/services/storage/providers/localstorage';
+import { MemoryStorageProvider } from '../../../src/services/storage/providers/memory';
+import { trashFile, purgeTrash, restoreTrashedFile } from '../../../src/services/storage/trash';
+import { listAllFiles } from '../../../src/services/storage/utils';
+import { withTokenPaging, uploadMany, useFakeCloudProviders } from './shared/test-helpers';
+
+describe('soft delete', () => {
+  let provider: LocalStorageProvider;
+  let testDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    originalEnv = { ...process.env };
+    testDir = join(tmpdir(), `trash-test-${randomBytes(8).toString('hex')}`);
+    process.env.CRUNCHYCONE_LOCALSTORAGE_PATH = testDir;
+    process.env.CRUNCHYCONE_LOCALSTORAGE_BASE_URL = '/files';
+    await fs.mkdir(testDir, { recursive: true });
+
+    provider = new LocalStorageProvider();
+    setStorageProvider(provider);
+    enableTrash({ retentionDays: 7 });
+
+    await provider.uploadFile({
+      external_id: 'attachment-1',
+      key: 'attachments/invoice.pdf',
+      buffer: Buffer.from('%PDF'),
+      contentType: 'application/pdf',
+      public: true,
+      metadata: { ticket: 'T-42' },
+    });
+  });
+
+  afterEach(async () => {
+    disableTrash();
+    process.env = originalEnv;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should move deleted files to the trash and hide them', async () => {
+    await deleteFile('attachments/invoice.pdf');
+
+    expect(await fileExists('attachments/invoice.pdf')).toBe(false);
+    expect(await findFileByExternalId('attachment-1')).toBeNull();
+    expect((await listFiles()).files).toHaveLength(0);
+    expect((await searchFiles({ query: 'invoice' })).files).toHaveLength(0);
+    expect((await searchFiles({ query: 'invoice', includeDeleted: true })).files).toHaveLength(1);
+
+    const { files } = await listDeletedFiles();
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({
+      originalKey: 'attachments/invoice.pdf',
+      originalExternalId: 'attachment-1',
+      visibility: 'private',
+    });
+    expect(files[0].purgeAfter.getTime() - files[0].deletedAt.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should restore content, metadata and visibility', async () => {
+    await deleteFileByExternalId('attachment-1');
+
+    const restored = await restoreFile('attachments/invoice.pdf');
+
+    expect(restored).toMatchObject({
+      external_id: 'attachment-1',
+      key: 'attachments/invoice.pdf',
+      contentType: 'application/pdf',
+      visibility: 'public',
+      metadata: { ticket: 'T-42' },
+    });
+    expect(await fs.readFile(join(testDir, 'attachments/invoice.pdf'), 'utf8')).toBe('%PDF');
+    expect(await findFileByExternalId('attachment-1')).toMatchObject({ metadata: { ticket: 'T-42' } });
+    expect((await listDeletedFiles()).files).toHaveLength(0);
+  });
+
+  it('should restore the most recent deletion by external_id', async () => {
+    await deleteFile('attachments/invoice.pdf');
+    await provider.uploadFile({
+      external_id: 'attachment-1',
+      key: 'attachments/invoice.pdf',
+      buffer: Buffer.from('%PDF-v2'),
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await deleteFile('attachments/invoice.pdf');
+
+    await restoreFileByExternalId('attachment-1');
+
+    expect(await fs.readFile(join(testDir, 'attachments/invoice.pdf'), 'utf8')).toBe('%PDF-v2');
+    expect((await listDeletedFiles()).files).toHaveLength(1);
+  });
+
+  it('should not restore over a file stored since the deletion', async () => {
+    await deleteFile('attachments/invoice.pdf');
+    await provider.uploadFile({ external_id: 'replacement', key: 'attachments/invoice.pdf', buffer: Buffer.from('new') });
+
+    await expect(restoreFile('attachments/invoice.pdf')).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+    await expect(restoreFile('attachments/invoice.pdf', { overwrite: true })).resolves.toMatchObject({ external_id: 'attachment-1' });
+  });
+
+  it('should purge files past their retention period', async () => {
+    await deleteFile('attachments/invoice.pdf');
+
+    expect(await purgeDeleted()).toHaveLength(0);
+
+    const purged = await purgeDeleted(new Date(Date.now() + 1000));
+    expect(purged.map(file => file.originalKey)).toEqual(['attachments/invoice.pdf']);
+    expect((await listDeletedFiles()).files).toHaveLength(0);
+  });
+
+  it('should delete permanently when trash is disabled', async () => {
+    disableTrash();
+
+    await deleteFile('attachments/invoice.pdf');
+
+    expect((await listDeletedFiles()).files).toHaveLength(0);
+    await expect(restoreFile('attachments/invoice.pdf')).rejects.toThrow('Deleted file with key attachments/invoice.pdf not found');
+  });
+
+  it('should enable trash from the environment', () => {
+    disableTrash();
+    process.env.CRUNCHYCONE_STORAGE_PROVIDER = 'localstorage';
+    process.env.CRUNCHYCONE_STORAGE_TRASH_RETENTION_DAYS = '14';
+
+    initializeStorageProvider();
+
+    expect(isTrashEnabled()).toBe(true);
+  });
+});
+
+describe('trash paging', () => {
+  it('should purge every page of providers that return a token and an offset', async () => {
+    const provider = new MemoryStorageProvider();
+    const keys = await uploadMany(provider, 'docs/', 250);
+    for (const key of keys) {
+      await trashFile(provider, key);
+    }
+
+    const purged = await purgeTrash(withTokenPaging(provider), { olderThan: new Date(Date.now() + 1000) });
+
+    expect(purged).toHaveLength(250);
+    expect(provider.getStoredObjects()).toEqual([]);
+  });
+});
+
+describe('Trash on providers paging with backend tokens', () => {
+  const cloudProviders = useFakeCloudProviders();
+
+  it.each(cloudProviders)('should restore and purge files past the first page of %s', async (_name, createProvider) => {
+    const provider = createProvider();
+    const keys = await uploadMany(provider, 'docs/', 250);
+    for (const key of keys) {
+      await trashFile(provider, key);
+    }
+
+    await restoreTrashedFile(provider, 'docs/249');
+    const purged = await purgeTrash(provider, { olderThan: new Date(Date.now() + 1000) });
+
+    expect(purged).toHaveLength(249);
+    expect((await listAllFiles(provider)).map(file => file.key)).toEqual(['docs/249']);
+  });
+});